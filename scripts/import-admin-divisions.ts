@@ -0,0 +1,235 @@
+/**
+ * Import Divisional Secretariat (DS) and Grama Niladhari (GN) divisions from a local file
+ *
+ * Usage: bun run scripts/import-admin-divisions.ts <divisions.geojson> [--dry-run]
+ *
+ * The file is a GeoJSON FeatureCollection with one feature per division:
+ *   properties: {
+ *     id: "ds-kandy-gangawata-korale",      // locations id
+ *     parentId: "kandy",                    // district id for DS, DS id for GN
+ *     level: "ds_division" | "gn_division",
+ *     nameEn, nameSi?, nameTa?,
+ *     centroidLat?, centroidLng?            // defaults to the boundary's bounding-box centre
+ *   }
+ *   geometry: Polygon | MultiPolygon (boundary), Point (centroid only) or null
+ *
+ * Provinces and districts are seeded from src/react-app/data/sriLankaLocations.ts so the
+ * divisions have parents to hang from; existing province/district rows are left as is.
+ */
+
+import { provinces } from "../src/react-app/data/sriLankaLocations";
+import { getBoundaryBbox, type BoundaryGeometry } from "../src/worker/services/regions";
+
+const DIVISION_LEVELS = ["ds_division", "gn_division"] as const;
+type DivisionLevel = (typeof DIVISION_LEVELS)[number];
+
+interface DivisionFeature {
+  type: "Feature";
+  properties: {
+    id?: string;
+    parentId?: string;
+    level?: string;
+    nameEn?: string;
+    nameSi?: string | null;
+    nameTa?: string | null;
+    centroidLat?: number | null;
+    centroidLng?: number | null;
+  };
+  geometry: BoundaryGeometry | { type: "Point"; coordinates: number[] } | null;
+}
+
+interface DivisionData {
+  id: string;
+  parentId: string;
+  level: DivisionLevel;
+  nameEn: string;
+  nameSi: string | null;
+  nameTa: string | null;
+  boundary: BoundaryGeometry | null;
+  centroidLat: number | null;
+  centroidLng: number | null;
+}
+
+function sqlText(value: string | null): string {
+  return value === null ? "NULL" : `'${value.replace(/'/g, "''")}'`;
+}
+
+function sqlNumber(value: number | null): string {
+  return value === null || !Number.isFinite(value) ? "NULL" : String(value);
+}
+
+function processFeatures(features: DivisionFeature[]): { divisions: DivisionData[]; errors: string[] } {
+  const divisions: DivisionData[] = [];
+  const errors: string[] = [];
+
+  features.forEach((feature, index) => {
+    const { id, parentId, level, nameEn } = feature.properties || {};
+    if (!id || !parentId || !nameEn || !DIVISION_LEVELS.includes(level as DivisionLevel)) {
+      errors.push(`Feature ${index}: needs id, parentId, nameEn and level ds_division or gn_division`);
+      return;
+    }
+
+    const geometry = feature.geometry;
+    const boundary = geometry && (geometry.type === "Polygon" || geometry.type === "MultiPolygon") ? geometry : null;
+    let centroidLat = feature.properties.centroidLat ?? null;
+    let centroidLng = feature.properties.centroidLng ?? null;
+
+    if (centroidLat === null || centroidLng === null) {
+      if (geometry?.type === "Point") {
+        [centroidLng, centroidLat] = geometry.coordinates;
+      } else if (boundary) {
+        const bbox = getBoundaryBbox(boundary);
+        centroidLat = (bbox.minLat + bbox.maxLat) / 2;
+        centroidLng = (bbox.minLng + bbox.maxLng) / 2;
+      }
+    }
+
+    divisions.push({
+      id,
+      parentId,
+      level: level as DivisionLevel,
+      nameEn,
+      nameSi: feature.properties.nameSi || null,
+      nameTa: feature.properties.nameTa || null,
+      boundary,
+      centroidLat,
+      centroidLng,
+    });
+  });
+
+  return { divisions, errors };
+}
+
+/**
+ * Warn about divisions whose parent isn't a known district or a DS division in the file
+ */
+function findOrphans(divisions: DivisionData[]): DivisionData[] {
+  const districtIds = new Set(provinces.flatMap((p) => p.districts.map((d) => d.id)));
+  const dsIds = new Set(divisions.filter((d) => d.level === "ds_division").map((d) => d.id));
+
+  return divisions.filter((division) =>
+    division.level === "ds_division" ? !districtIds.has(division.parentId) : !dsIds.has(division.parentId)
+  );
+}
+
+function generateSQL(divisions: DivisionData[]): string {
+  const statements: string[] = [];
+
+  // Parents: provinces and districts, keeping any boundaries already imported for them
+  for (const province of provinces) {
+    statements.push(
+      `INSERT INTO locations (id, parent_id, level, name_en, is_active) ` +
+      `VALUES (${sqlText(province.id)}, NULL, 'province', ${sqlText(province.name)}, 1) ON CONFLICT(id) DO NOTHING;`
+    );
+    for (const district of province.districts) {
+      statements.push(
+        `INSERT INTO locations (id, parent_id, level, name_en, is_active) ` +
+        `VALUES (${sqlText(district.id)}, ${sqlText(province.id)}, 'district', ${sqlText(district.name)}, 1) ON CONFLICT(id) DO NOTHING;`
+      );
+    }
+  }
+
+  for (const division of divisions) {
+    const bbox = division.boundary ? getBoundaryBbox(division.boundary) : null;
+    const boundary = division.boundary ? sqlText(JSON.stringify(division.boundary)) : "NULL";
+    const values = [
+      sqlText(division.id),
+      sqlText(division.parentId),
+      sqlText(division.level),
+      sqlText(division.nameEn),
+      sqlText(division.nameSi),
+      sqlText(division.nameTa),
+      boundary,
+      sqlNumber(division.centroidLat),
+      sqlNumber(division.centroidLng),
+      sqlNumber(bbox?.minLat ?? null),
+      sqlNumber(bbox?.minLng ?? null),
+      sqlNumber(bbox?.maxLat ?? null),
+      sqlNumber(bbox?.maxLng ?? null),
+    ];
+
+    statements.push(
+      `INSERT INTO locations (id, parent_id, level, name_en, name_si, name_ta, boundary_geojson, ` +
+      `centroid_lat, centroid_lng, bbox_min_lat, bbox_min_lng, bbox_max_lat, bbox_max_lng, is_active) ` +
+      `VALUES (${values.join(", ")}, 1) ` +
+      `ON CONFLICT(id) DO UPDATE SET ` +
+      `parent_id = excluded.parent_id, level = excluded.level, name_en = excluded.name_en, ` +
+      `name_si = excluded.name_si, name_ta = excluded.name_ta, boundary_geojson = excluded.boundary_geojson, ` +
+      `centroid_lat = excluded.centroid_lat, centroid_lng = excluded.centroid_lng, ` +
+      `bbox_min_lat = excluded.bbox_min_lat, bbox_min_lng = excluded.bbox_min_lng, ` +
+      `bbox_max_lat = excluded.bbox_max_lat, bbox_max_lng = excluded.bbox_max_lng, is_active = 1;`
+    );
+  }
+
+  return statements.join("\n");
+}
+
+async function main() {
+  const isDryRun = process.argv.includes("--dry-run");
+  const inputFile = process.argv.slice(2).find((arg) => !arg.startsWith("--"));
+
+  console.log("=== DS / GN Division Import ===\n");
+
+  if (!inputFile) {
+    console.error("Usage: bun run scripts/import-admin-divisions.ts <divisions.geojson> [--dry-run]");
+    process.exit(1);
+  }
+
+  try {
+    const data = await Bun.file(inputFile).json() as { type?: string; features?: DivisionFeature[] };
+    if (data.type !== "FeatureCollection" || !Array.isArray(data.features)) {
+      throw new Error(`${inputFile} is not a GeoJSON FeatureCollection`);
+    }
+    console.log(`Read ${data.features.length} features from ${inputFile}`);
+
+    const { divisions, errors } = processFeatures(data.features);
+    if (errors.length > 0) {
+      console.log(`\nSkipped ${errors.length} invalid features:`);
+      for (const error of errors.slice(0, 20)) {
+        console.log(`  ${error}`);
+      }
+    }
+
+    const dsCount = divisions.filter((d) => d.level === "ds_division").length;
+    console.log(`\nProcessed ${divisions.length} divisions:`);
+    console.log(`  DS divisions: ${dsCount}`);
+    console.log(`  GN divisions: ${divisions.length - dsCount}`);
+    console.log(`  With boundaries: ${divisions.filter((d) => d.boundary).length}`);
+
+    const orphans = findOrphans(divisions);
+    if (orphans.length > 0) {
+      console.log(`\nWarning: ${orphans.length} divisions have a parent that isn't in the file or a known district:`);
+      for (const orphan of orphans.slice(0, 20)) {
+        console.log(`  ${orphan.id} → ${orphan.parentId}`);
+      }
+    }
+
+    // Generate SQL
+    const sql = generateSQL(divisions);
+
+    if (isDryRun) {
+      console.log("\n=== DRY RUN - SQL not executed ===\n");
+      console.log("First 10 divisions:");
+      for (const division of divisions.slice(0, 10)) {
+        console.log(`  ${division.id} (${division.level}): ${division.nameEn}`);
+      }
+      console.log("\nTo import, run without --dry-run flag");
+    } else {
+      // Write SQL to temp file for wrangler execution
+      const tempFile = "/tmp/admin-divisions-import.sql";
+      await Bun.write(tempFile, sql);
+      console.log(`\nSQL written to ${tempFile}`);
+      console.log("\nTo import to local DB, run:");
+      console.log(`  npx wrangler d1 execute rda-status-db --local --file=${tempFile}`);
+      console.log("\nTo import to production, run:");
+      console.log(`  npx wrangler d1 execute rda-status-db --remote --file=${tempFile}`);
+      console.log("\nThen assign divisions to existing reports with POST /api/v1/admin/backfill-regions");
+    }
+
+  } catch (error) {
+    console.error("Error:", error);
+    process.exit(1);
+  }
+}
+
+main();
@@ -4,8 +4,13 @@
  * Usage: bun run scripts/import-osm-roads.ts [--dry-run]
  */
 
+import { geohashCellsForLines } from "../src/worker/services/geohash";
+
 const OVERPASS_API = "https://overpass-api.de/api/interpreter";
 
+// ~5m: keeps bends that matter for snapping while dropping most OSM vertices
+const SIMPLIFY_TOLERANCE = 0.00005;
+
 // Query for Sri Lanka roads with ref tags (road numbers)
 const OVERPASS_QUERY = `
 [out:json][timeout:300];
@@ -13,7 +18,7 @@ area["name"="Sri Lanka"]->.sl;
 (
   way["highway"]["ref"](area.sl);
 );
-out body;
+out geom;
 `;
 
 interface OSMElement {
@@ -26,6 +31,7 @@ interface OSMElement {
     "name:ta"?: string;
     highway?: string;
   };
+  geometry?: { lat: number; lon: number }[];
 }
 
 interface OSMResponse {
@@ -40,6 +46,8 @@ interface RoadData {
   name: string | null;
   nameSi: string | null;
   nameTa: string | null;
+  // Centreline of every way carrying this road number, as GeoJSON [lng, lat] lines
+  lines: number[][][];
   lastUpdated: number;
 }
 
@@ -111,6 +119,7 @@ function processOSMData(data: OSMResponse): RoadData[] {
 
     // A single way might have multiple refs (e.g., "A1;B23")
     const refs = element.tags.ref.split(/[;,\/]/).map(r => r.trim());
+    const line = (element.geometry || []).map(({ lat, lon }) => [lon, lat]);
 
     for (const ref of refs) {
       const roadNumber = normalizeRoadNumber(ref);
@@ -128,11 +137,15 @@ function processOSMData(data: OSMResponse): RoadData[] {
           name: element.tags.name || null,
           nameSi: element.tags["name:si"] || null,
           nameTa: element.tags["name:ta"] || null,
+          lines: line.length > 1 ? [line] : [],
           lastUpdated: now,
         });
       } else {
         // Update name if we found a better one
         const existing = roads.get(roadNumber)!;
+        if (line.length > 1) {
+          existing.lines.push(line);
+        }
         if (!existing.name && element.tags.name) {
           existing.name = element.tags.name;
         }
@@ -149,6 +162,39 @@ function processOSMData(data: OSMResponse): RoadData[] {
   return Array.from(roads.values());
 }
 
+/**
+ * Douglas-Peucker simplification of a [lng, lat] polyline: drops points that lie
+ * within tolerance (in degrees) of the line through their neighbours.
+ */
+function simplifyLine(line: number[][], tolerance: number): number[][] {
+  if (line.length <= 2) return line;
+
+  const [startLng, startLat] = line[0];
+  const [endLng, endLat] = line[line.length - 1];
+  const dx = endLng - startLng;
+  const dy = endLat - startLat;
+  const length = Math.hypot(dx, dy);
+
+  let maxDistance = 0;
+  let maxIndex = 0;
+  for (let i = 1; i < line.length - 1; i++) {
+    const [lng, lat] = line[i];
+    const distance = length === 0
+      ? Math.hypot(lng - startLng, lat - startLat)
+      : Math.abs(dy * (lng - startLng) - dx * (lat - startLat)) / length;
+    if (distance > maxDistance) {
+      maxDistance = distance;
+      maxIndex = i;
+    }
+  }
+
+  if (maxDistance <= tolerance) return [line[0], line[line.length - 1]];
+
+  const left = simplifyLine(line.slice(0, maxIndex + 1), tolerance);
+  const right = simplifyLine(line.slice(maxIndex), tolerance);
+  return [...left.slice(0, -1), ...right];
+}
+
 function generateSQL(roads: RoadData[]): string {
   const statements: string[] = [];
 
@@ -157,13 +203,33 @@ function generateSQL(roads: RoadData[]): string {
     const nameSi = road.nameSi ? `'${road.nameSi.replace(/'/g, "''")}'` : "NULL";
     const nameTa = road.nameTa ? `'${road.nameTa.replace(/'/g, "''")}'` : "NULL";
 
+    // Simplified geometry plus its geohash cells, for nearest-road lookups
+    const lines = road.lines.map((line) => simplifyLine(line, SIMPLIFY_TOLERANCE));
+    const geometry = lines.length > 0
+      ? `'${JSON.stringify({ type: "MultiLineString", coordinates: lines })}'`
+      : "NULL";
+    const cells = geohashCellsForLines(lines);
+
     statements.push(
-      `INSERT INTO roads (id, osm_id, road_number, road_class, name, name_si, name_ta, last_updated) ` +
-      `VALUES ('${road.id}', '${road.osmId}', '${road.roadNumber}', '${road.roadClass}', ${name}, ${nameSi}, ${nameTa}, ${road.lastUpdated}) ` +
+      `INSERT INTO roads (id, osm_id, road_number, road_class, name, name_si, name_ta, geometry, last_updated) ` +
+      `VALUES ('${road.id}', '${road.osmId}', '${road.roadNumber}', '${road.roadClass}', ${name}, ${nameSi}, ${nameTa}, ` +
+      `${geometry}, ${road.lastUpdated}) ` +
       `ON CONFLICT(osm_id) DO UPDATE SET ` +
       `road_number = '${road.roadNumber}', road_class = '${road.roadClass}', name = ${name}, ` +
-      `name_si = ${nameSi}, name_ta = ${nameTa}, last_updated = ${road.lastUpdated};`
+      `name_si = ${nameSi}, name_ta = ${nameTa}, geometry = ${geometry}, last_updated = ${road.lastUpdated};`
     );
+
+    // Rebuild the road's cells; look the id up by osm_id since an existing row keeps its id
+    statements.push(
+      `DELETE FROM road_cells WHERE road_id = (SELECT id FROM roads WHERE osm_id = '${road.osmId}');`
+    );
+    if (cells.length > 0) {
+      statements.push(
+        `INSERT INTO road_cells (geohash, road_id) ` +
+        `SELECT cell.value, roads.id FROM roads, json_each('${JSON.stringify(cells)}') AS cell ` +
+        `WHERE roads.osm_id = '${road.osmId}';`
+      );
+    }
   }
 
   return statements.join("\n");
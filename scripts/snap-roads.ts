@@ -1,103 +1,56 @@
 /**
- * One-time script to pre-compute snapped road paths using Google Directions API.
- * Run with: bun run scripts/snap-roads.ts
+ * One-time script to pre-compute snapped road paths along the stored OSM road geometry.
+ * Run with: bun run scripts/snap-roads.ts [roads.json]
  *
- * This fetches the actual road geometry for each segment and saves it to the data file.
+ * Reads the road geometry written by scripts/import-osm-roads.ts (default /tmp/osm-roads.json)
+ * and follows each segment's road between its end points, using the same shortest-path
+ * routing as the worker's snapToRoads. No API key or network access is needed.
  * After running, the app uses pre-computed paths - zero API calls at runtime.
  */
 
 import { initialRoadSegments } from "../src/react-app/data/initialRoadSegments";
+import { findPathOnLines, type PathPoint } from "../src/worker/services/roadNetwork";
 
-const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
+const DEFAULT_ROADS_FILE = "/tmp/osm-roads.json";
 
-if (!GOOGLE_MAPS_API_KEY) {
-  console.error("Please set GOOGLE_MAPS_API_KEY environment variable");
-  process.exit(1);
+// Shape of the entries in the import-osm-roads JSON output
+interface RoadData {
+  roadNumber: string;
+  // GeoJSON [lng, lat] lines
+  lines: number[][][];
 }
 
-interface SnappedPoint {
-  lat: number;
-  lng: number;
+// Segments write road numbers as "A-004", OSM as "A4"
+function normalizeRoadNo(roadNo: string): string {
+  return roadNo
+    .replace(/[\s-]/g, "")
+    .toUpperCase()
+    .replace(/^([A-Z]+)0+(?=\d)/, "$1");
 }
 
-interface DirectionsResponse {
-  status: string;
-  routes: Array<{
-    overview_polyline: {
-      points: string;
-    };
-  }>;
-}
-
-function decodePolyline(encoded: string): SnappedPoint[] {
-  const points: SnappedPoint[] = [];
-  let index = 0;
-  let lat = 0;
-  let lng = 0;
-
-  while (index < encoded.length) {
-    let shift = 0;
-    let result = 0;
-    let byte: number;
-
-    do {
-      byte = encoded.charCodeAt(index++) - 63;
-      result |= (byte & 0x1f) << shift;
-      shift += 5;
-    } while (byte >= 0x20);
-
-    lat += result & 1 ? ~(result >> 1) : result >> 1;
+async function loadRoadLines(file: string): Promise<Map<string, number[][][]>> {
+  const roads = (await Bun.file(file).json()) as RoadData[];
 
-    shift = 0;
-    result = 0;
-
-    do {
-      byte = encoded.charCodeAt(index++) - 63;
-      result |= (byte & 0x1f) << shift;
-      shift += 5;
-    } while (byte >= 0x20);
-
-    lng += result & 1 ? ~(result >> 1) : result >> 1;
-
-    points.push({
-      lat: lat / 1e5,
-      lng: lng / 1e5,
-    });
+  const linesByRoad = new Map<string, number[][][]>();
+  for (const road of roads) {
+    const key = normalizeRoadNo(road.roadNumber);
+    linesByRoad.set(key, [...(linesByRoad.get(key) || []), ...road.lines]);
   }
-
-  return points;
+  return linesByRoad;
 }
 
-async function snapToRoads(
-  startLat: number,
-  startLng: number,
-  endLat: number,
-  endLng: number
-): Promise<SnappedPoint[]> {
-  const origin = `${startLat},${startLng}`;
-  const destination = `${endLat},${endLng}`;
-
-  const response = await fetch(
-    `https://maps.googleapis.com/maps/api/directions/json?origin=${origin}&destination=${destination}&mode=driving&key=${GOOGLE_MAPS_API_KEY}`
-  );
-
-  const data = (await response.json()) as DirectionsResponse;
-
-  if (data.status !== "OK" || !data.routes[0]) {
-    // Fallback to straight line
-    return [
-      { lat: startLat, lng: startLng },
-      { lat: endLat, lng: endLng },
-    ];
+async function main() {
+  const roadsFile = process.argv[2] || DEFAULT_ROADS_FILE;
+  if (!(await Bun.file(roadsFile).exists())) {
+    console.error(`Road geometry not found at ${roadsFile}. Run scripts/import-osm-roads.ts first.`);
+    process.exit(1);
   }
 
-  return decodePolyline(data.routes[0].overview_polyline.points);
-}
+  console.log("Snapping roads to stored road geometry...\n");
 
-async function main() {
-  console.log("Snapping roads to actual road geometry...\n");
-
-  const results: Record<string, SnappedPoint[]> = {};
+  const linesByRoad = await loadRoadLines(roadsFile);
+  const results: Record<string, PathPoint[]> = {};
+  let straightLines = 0;
 
   // Filter to only segments (not point damage)
   const segments = initialRoadSegments.filter(
@@ -110,20 +63,24 @@ async function main() {
     const seg = segments[i];
     process.stdout.write(`[${i + 1}/${segments.length}] ${seg.roadNo} - ${seg.roadName}... `);
 
-    try {
-      const path = await snapToRoads(seg.fromLat, seg.fromLng, seg.toLat, seg.toLng);
+    const lines = linesByRoad.get(normalizeRoadNo(seg.roadNo)) || [];
+    const path = findPathOnLines(
+      lines,
+      { lat: seg.fromLat, lng: seg.fromLng },
+      { lat: seg.toLat, lng: seg.toLng }
+    );
+
+    if (path) {
       results[seg.id] = path;
       console.log(`✓ (${path.length} points)`);
-    } catch (error) {
-      console.log(`✗ (using straight line)`);
+    } else {
+      straightLines++;
+      console.log(lines.length > 0 ? "✗ (off the road, using straight line)" : "✗ (no geometry, using straight line)");
       results[seg.id] = [
         { lat: seg.fromLat, lng: seg.fromLng },
         { lat: seg.toLat, lng: seg.toLng },
       ];
     }
-
-    // Small delay to avoid rate limiting
-    await new Promise((resolve) => setTimeout(resolve, 100));
   }
 
   // Generate the output file
@@ -137,6 +94,9 @@ export const snappedRoadPaths: Record<string, Array<{ lat: number; lng: number }
   await Bun.write("src/react-app/data/snappedRoadPaths.ts", output);
 
   console.log(`\n✅ Done! Saved ${Object.keys(results).length} snapped paths to src/react-app/data/snappedRoadPaths.ts`);
+  if (straightLines > 0) {
+    console.log(`   ${straightLines} segments fell back to a straight line`);
+  }
 }
 
 main();
@@ -0,0 +1,72 @@
+/**
+ * Local stand-in for a partner's webhook endpoint, for trying out outbound webhooks
+ *
+ * Usage: bun run scripts/webhook-receiver.ts [--port 8788] [--secret whsec_...] [--fail 2]
+ *
+ * Register http://localhost:8788/ as a webhook on the Webhooks admin page (plain HTTP is
+ * only accepted for localhost) and paste the secret shown there into --secret. Every
+ * delivery is printed with its signature check. --fail N answers the first N deliveries
+ * with HTTP 500 so the retry backoff and delivery log can be watched.
+ */
+
+import { createServer } from "node:http";
+import { createHmac, timingSafeEqual } from "node:crypto";
+
+// Deliveries older than this are treated as replays
+const MAX_AGE_SECONDS = 5 * 60;
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+const port = Number(getArg("port") || 8788);
+const secret = getArg("secret");
+let failuresLeft = Number(getArg("fail") || 0);
+
+// Mirrors signWebhookPayload in src/worker/services/webhooks.ts
+function checkSignature(timestamp: string | undefined, signature: string | undefined, body: string): string {
+  if (!secret) return "not checked (no --secret)";
+  if (!timestamp || !signature) return "MISSING";
+  if (Math.abs(Date.now() / 1000 - Number(timestamp)) > MAX_AGE_SECONDS) return "STALE timestamp";
+
+  const expected = `sha256=${createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")}`;
+  const valid =
+    expected.length === signature.length && timingSafeEqual(Buffer.from(expected), Buffer.from(signature));
+  return valid ? "valid" : "INVALID";
+}
+
+const server = createServer((req, res) => {
+  let body = "";
+  req.on("data", (chunk) => (body += chunk));
+  req.on("end", () => {
+    const header = (name: string) => req.headers[name.toLowerCase()] as string | undefined;
+    const signature = checkSignature(header("X-Webhook-Timestamp"), header("X-Webhook-Signature"), body);
+
+    console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+    console.log(`  event:     ${header("X-Webhook-Event")}`);
+    console.log(`  delivery:  ${header("X-Webhook-Id")}`);
+    console.log(`  signature: ${signature}`);
+    try {
+      console.log(JSON.stringify(JSON.parse(body), null, 2));
+    } catch {
+      console.log(body);
+    }
+
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`  -> 500 (simulated failure, ${failuresLeft} left)`);
+      res.writeHead(500, { "Content-Type": "text/plain" }).end("Simulated failure");
+      return;
+    }
+
+    const status = signature === "valid" || !secret ? 200 : 401;
+    console.log(`  -> ${status}`);
+    res.writeHead(status, { "Content-Type": "application/json" }).end(JSON.stringify({ received: status === 200 }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Webhook receiver listening on http://localhost:${port}/`);
+  if (!secret) console.log("Signatures are not checked; pass --secret to verify them");
+});
@@ -6,15 +6,23 @@ import { useThemeStore } from "@/stores/theme";
 import {
   Home,
   Projects,
+  ProjectDetail,
   Dashboard,
   Login,
   Register,
   SubmitReport,
   ReportIncident,
   ReportVerified,
+  WatchSubscriptions,
+  Profile,
   AdminReports,
   AdminUsers,
   AdminAuditTrail,
+  AdminPriorityWeights,
+  AdminRateLimits,
+  AdminClosureImport,
+  AdminWebhooks,
+  AdminEmailOutbox,
   AcceptInvitation,
   BulkUpload,
   UnverifiedReports,
@@ -35,6 +43,7 @@ function AppContent() {
         <Route path="/submit" element={<SubmitReport />} />
         <Route path="/report" element={<ReportIncident />} />
         <Route path="/report-verified" element={<ReportVerified />} />
+        <Route path="/watch" element={<WatchSubscriptions />} />
         <Route path="/login" element={<Login />} />
         <Route path="/register" element={<Register />} />
 
@@ -65,6 +74,16 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/projects/:id"
+          element={
+            <ProtectedRoute
+              allowedRoles={["planner", "admin", "super_admin", "stakeholder"]}
+            >
+              <ProjectDetail />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/admin/reports"
           element={
@@ -97,6 +116,54 @@ function AppContent() {
             </ProtectedRoute>
           }
         />
+        <Route
+          path="/admin/priority"
+          element={
+            <ProtectedRoute allowedRoles={["super_admin"]}>
+              <AdminPriorityWeights />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/rate-limits"
+          element={
+            <ProtectedRoute allowedRoles={["admin", "super_admin"]}>
+              <AdminRateLimits />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/closures/import"
+          element={
+            <ProtectedRoute allowedRoles={["admin", "super_admin"]}>
+              <AdminClosureImport />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/webhooks"
+          element={
+            <ProtectedRoute allowedRoles={["admin", "super_admin"]}>
+              <AdminWebhooks />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/admin/emails"
+          element={
+            <ProtectedRoute allowedRoles={["admin", "super_admin"]}>
+              <AdminEmailOutbox />
+            </ProtectedRoute>
+          }
+        />
+        <Route
+          path="/profile"
+          element={
+            <ProtectedRoute allowedRoles={["field_officer", "planner", "admin", "super_admin", "stakeholder"]}>
+              <Profile />
+            </ProtectedRoute>
+          }
+        />
         <Route
           path="/report/bulk"
           element={
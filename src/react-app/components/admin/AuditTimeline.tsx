@@ -30,14 +30,21 @@ const FIELD_LABELS: Record<string, string> = {
   "workflow.progressPercent": "Progress",
   "workflow.estimatedCostLkr": "Estimated Cost",
   "workflow.notes": "Notes",
+  projectLink: "Project",
+  assignee: "Assignee",
+  mergedReport: "Merged Report",
+  duplicateDismissed: "Not a Duplicate Of",
+  chainageKm: "Km Post",
 };
 
 const STATUS_COLORS: Record<string, string> = {
   new: "bg-blue-100 text-blue-700 dark:bg-blue-900/30 dark:text-blue-300",
   verified: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300",
   in_progress: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300",
+  linked_to_project: "bg-violet-100 text-violet-700 dark:bg-violet-900/30 dark:text-violet-300",
   resolved: "bg-emerald-100 text-emerald-700 dark:bg-emerald-900/30 dark:text-emerald-300",
   rejected: "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300",
+  merged: "bg-slate-100 text-slate-700 dark:bg-slate-900/30 dark:text-slate-300",
 };
 
 const DAMAGE_TYPE_LABELS: Record<string, string> = {
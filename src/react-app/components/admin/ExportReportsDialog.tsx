@@ -1,5 +1,4 @@
 import { useState } from "react";
-import { Table } from "@tanstack/react-table";
 import {
   Drawer,
   DrawerClose,
@@ -53,9 +52,12 @@ interface Report {
 interface ExportReportsDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
-  reports: Report[];
-  filteredReports: Report[];
-  table: Table<Report>;
+  // Reports on the current page
+  pageReports: Report[];
+  // Number of reports matching the current filters
+  filteredCount: number;
+  // Fetches every report matching the current filters, or every report
+  loadReports: (scope: 'filtered' | 'all') => Promise<Report[]>;
   currentFilters: {
     province?: string;
     district?: string;
@@ -131,9 +133,9 @@ const FIELD_CATEGORIES = {
 export function ExportReportsDialog({
   open,
   onOpenChange,
-  reports,
-  filteredReports,
-  table,
+  pageReports,
+  filteredCount,
+  loadReports,
   currentFilters,
 }: ExportReportsDialogProps) {
   // Default to location fields selected
@@ -179,23 +181,12 @@ export function ExportReportsDialog({
     });
   };
 
-  const handleExport = () => {
+  const handleExport = async () => {
     setIsExporting(true);
 
     try {
-      // Determine data to export based on scope
-      let reportsToExport: Report[];
-      switch (exportScope) {
-        case 'current':
-          reportsToExport = table.getRowModel().rows.map(r => r.original);
-          break;
-        case 'filtered':
-          reportsToExport = filteredReports;
-          break;
-        case 'all':
-          reportsToExport = reports;
-          break;
-      }
+      // Only the current page is loaded; other scopes are fetched from the server
+      const reportsToExport = exportScope === 'current' ? pageReports : await loadReports(exportScope);
 
       // Generate filename with filters and date
       const timestamp = new Date().toISOString().split('T')[0];
@@ -229,9 +220,7 @@ export function ExportReportsDialog({
     onOpenChange(false);
   };
 
-  const currentPageCount = table.getRowModel().rows.length;
-  const filteredCount = filteredReports.length;
-  const totalCount = reports.length;
+  const currentPageCount = pageReports.length;
 
   const isCategoryFullySelected = (categoryKey: keyof typeof FIELD_CATEGORIES) => {
     const category = FIELD_CATEGORIES[categoryKey];
@@ -304,7 +293,7 @@ export function ExportReportsDialog({
                   onChange={(e) => setExportScope(e.target.value as 'all')}
                   className="w-4 h-4 text-primary-600"
                 />
-                <span className="text-sm">All reports ({totalCount} reports)</span>
+                <span className="text-sm">All reports</span>
               </label>
             </div>
           </div>
@@ -0,0 +1,148 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, RefreshCw } from "lucide-react";
+
+interface MemberWorkload {
+  userId: string;
+  name: string;
+  email: string;
+  orgRole: string;
+  openCount: number;
+  inProgressCount: number;
+}
+
+interface OrgWorkload {
+  organizationId: string;
+  code: string;
+  name: string;
+  openCount: number;
+  unassignedCount: number;
+  members: MemberWorkload[];
+}
+
+interface OrgWorkloadDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const orgRoleLabels: Record<string, string> = {
+  member: "Member",
+  manager: "Manager",
+  admin: "Admin",
+};
+
+export function OrgWorkloadDialog({ open, onOpenChange }: OrgWorkloadDialogProps) {
+  const [workloads, setWorkloads] = useState<OrgWorkload[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkloads = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/admin/work-queue/workload", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to fetch workloads");
+      }
+      const data = await response.json() as { workloads: OrgWorkload[] };
+      setWorkloads(data.workloads);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load workloads");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (open) fetchWorkloads();
+  }, [open, fetchWorkloads]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Team Workload</DialogTitle>
+          <DialogDescription>
+            Open reports (new, verified, in progress or linked to a project) per organization member.
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading && (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary-600" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-600 dark:text-red-400 flex items-center justify-between">
+            <span>{error}</span>
+            <Button size="sm" variant="outline" onClick={fetchWorkloads}>
+              <RefreshCw className="w-4 h-4 mr-1.5" />
+              Retry
+            </Button>
+          </div>
+        )}
+
+        {!loading && !error && workloads.length === 0 && (
+          <p className="text-sm text-gray-500 py-4">No organizations with members.</p>
+        )}
+
+        {!loading && !error && workloads.map((org) => (
+          <div key={org.organizationId} className="rounded-lg border border-gray-200 dark:border-gray-800">
+            <div className="flex items-center justify-between gap-2 px-4 py-3 border-b border-gray-200 dark:border-gray-800">
+              <div className="min-w-0">
+                <span className="font-medium">{org.code}</span>
+                <span className="ml-2 text-sm text-gray-500">{org.name}</span>
+              </div>
+              <div className="flex gap-3 text-xs text-gray-500 shrink-0">
+                <span>{org.openCount} open</span>
+                <span className={org.unassignedCount > 0 ? "text-orange-600 dark:text-orange-400 font-medium" : ""}>
+                  {org.unassignedCount} unassigned
+                </span>
+              </div>
+            </div>
+            {org.members.length === 0 ? (
+              <p className="px-4 py-3 text-sm text-gray-500">No members.</p>
+            ) : (
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="px-4 py-2 font-medium">Member</th>
+                    <th className="px-4 py-2 font-medium text-right">Open</th>
+                    <th className="px-4 py-2 font-medium text-right">In Progress</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y dark:divide-gray-800">
+                  {org.members.map((member) => (
+                    <tr key={member.userId}>
+                      <td className="px-4 py-2">
+                        <span className="font-medium">{member.name}</span>
+                        {member.orgRole !== "member" && (
+                          <span className="ml-2 text-xs text-gray-500">
+                            {orgRoleLabels[member.orgRole] || member.orgRole}
+                          </span>
+                        )}
+                      </td>
+                      <td className="px-4 py-2 text-right tabular-nums">{member.openCount}</td>
+                      <td className="px-4 py-2 text-right tabular-nums">{member.inProgressCount}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          </div>
+        ))}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,156 @@
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, UserCheck, UserMinus } from "lucide-react";
+
+interface OrgMember {
+  userId: string;
+  name: string;
+  email: string;
+  orgRole: string;
+}
+
+interface ReportAssigneePickerProps {
+  reportId: string;
+  orgId: string;
+  assignedUserId: string | null;
+  currentUserId: string;
+  currentUserRole: string;
+  // Called after the assignee changes so the sheet can refetch the report and audit trail
+  onChanged: () => void;
+}
+
+// Organization roles that can assign reports to other members
+const ORG_MANAGER_ROLES = ["manager", "admin"];
+
+export function ReportAssigneePicker({
+  reportId,
+  orgId,
+  assignedUserId,
+  currentUserId,
+  currentUserRole,
+  onChanged,
+}: ReportAssigneePickerProps) {
+  const [members, setMembers] = useState<OrgMember[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    fetch(`/api/v1/admin/organizations/${orgId}/members`, { credentials: "include" })
+      .then((res) => res.json())
+      .then((data) => {
+        if (!cancelled) setMembers((data as { members: OrgMember[] }).members || []);
+      })
+      .catch((err) => console.error("Failed to load organization members:", err))
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [orgId]);
+
+  const currentMembership = members.find((m) => m.userId === currentUserId);
+  const canAssignOthers =
+    currentUserRole === "admin" ||
+    currentUserRole === "super_admin" ||
+    Boolean(currentMembership && ORG_MANAGER_ROLES.includes(currentMembership.orgRole));
+  const assignee = members.find((m) => m.userId === assignedUserId);
+
+  const assign = async (userId: string | null) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/v1/admin/reports/${reportId}/assignee`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ assignedUserId: userId }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to update assignee");
+      }
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update assignee");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        <Loader2 className="w-4 h-4 animate-spin" />
+        Loading members...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      <Label>Assignee</Label>
+      {canAssignOthers ? (
+        <Select
+          value={assignedUserId || "unassigned"}
+          onValueChange={(value) => assign(value === "unassigned" ? null : value)}
+          disabled={saving}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="unassigned">
+              <span className="text-gray-500">Unassigned</span>
+            </SelectItem>
+            {/* Keep a former member visible until the report is reassigned */}
+            {assignedUserId && !assignee && (
+              <SelectItem value={assignedUserId}>
+                <span className="text-gray-500">Former member</span>
+              </SelectItem>
+            )}
+            {members.map((member) => (
+              <SelectItem key={member.userId} value={member.userId}>
+                {member.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      ) : (
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          {assignedUserId ? assignee?.name || "Former member" : <span className="text-gray-500">Unassigned</span>}
+        </p>
+      )}
+
+      {!canAssignOthers && currentMembership && (
+        <>
+          {!assignedUserId && (
+            <Button size="sm" variant="outline" onClick={() => assign(currentUserId)} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <UserCheck className="w-4 h-4 mr-1.5" />}
+              Assign to me
+            </Button>
+          )}
+          {assignedUserId === currentUserId && (
+            <Button size="sm" variant="outline" onClick={() => assign(null)} disabled={saving}>
+              {saving ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <UserMinus className="w-4 h-4 mr-1.5" />}
+              Release
+            </Button>
+          )}
+        </>
+      )}
+
+      {members.length === 0 && (
+        <p className="text-xs text-gray-500">This organization has no members yet.</p>
+      )}
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
   RotateCcw,
   Pencil,
   Route,
+  UserCheck,
 } from "lucide-react";
 import { getAllowedTransitions } from "@/lib/statusTransitions";
 
@@ -28,6 +29,7 @@ interface Report {
   damageType: string;
   severity: number;
   status: string;
+  priorityScore?: number | null;
   latitude: number;
   longitude: number;
   locationName: string | null;
@@ -43,6 +45,9 @@ interface Report {
   roadNumberInput?: string | null;
   roadClass?: string | null;
   classificationStatus?: string | null;
+  // Organization work queue
+  assignedOrgCode?: string | null;
+  assignedUserName?: string | null;
   // Manual location flag
   locationPickedManually?: boolean | number | null;
 }
@@ -121,6 +126,11 @@ const statusConfig: Record<string, { dot: string; bg: string; text: string }> =
     bg: "bg-yellow-50 dark:bg-yellow-900/20",
     text: "text-yellow-700 dark:text-yellow-400"
   },
+  linked_to_project: {
+    dot: "bg-violet-500",
+    bg: "bg-violet-50 dark:bg-violet-900/20",
+    text: "text-violet-700 dark:text-violet-400"
+  },
   resolved: {
     dot: "bg-gray-500",
     bg: "bg-gray-50 dark:bg-gray-900/20",
@@ -131,6 +141,11 @@ const statusConfig: Record<string, { dot: string; bg: string; text: string }> =
     bg: "bg-red-50/50 dark:bg-red-900/10",
     text: "text-red-500 dark:text-red-400 line-through"
   },
+  merged: {
+    dot: "bg-slate-400",
+    bg: "bg-slate-50/50 dark:bg-slate-900/10",
+    text: "text-slate-500 dark:text-slate-400"
+  },
 };
 
 // Severity dots component
@@ -157,6 +172,13 @@ function SeverityIndicator({ severity }: { severity: number }) {
   );
 }
 
+// Priority score badge color (score is 0-100, higher = more urgent)
+function getPriorityColor(score: number): string {
+  if (score >= 70) return "bg-red-100 text-red-700 dark:bg-red-900/30 dark:text-red-300";
+  if (score >= 40) return "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300";
+  return "bg-gray-100 text-gray-600 dark:bg-gray-800 dark:text-gray-400";
+}
+
 // Format currency in LKR
 function formatLkr(amount: number | null | undefined): string {
   if (amount === null || amount === undefined) return "—";
@@ -239,6 +261,14 @@ export function ReportCard({
               {report.severity >= 4 ? t("severity.high") : report.severity >= 3 ? t("severity.med") : t("severity.low")}
             </span>
           </div>
+          {report.priorityScore != null && (
+            <span
+              className={`ml-auto text-xs px-1.5 py-0.5 rounded font-medium ${getPriorityColor(report.priorityScore)}`}
+              title={t("admin.priority")}
+            >
+              P{Math.round(report.priorityScore)}
+            </span>
+          )}
         </div>
 
         {/* Location */}
@@ -264,6 +294,16 @@ export function ReportCard({
           )}
         </div>
 
+        {/* Organization and assignee */}
+        {report.assignedOrgCode && (
+          <div className="mt-2 flex items-center gap-1.5 text-xs text-gray-500">
+            <UserCheck className="w-3 h-3 text-gray-400" />
+            <span className="font-medium text-gray-600 dark:text-gray-400">{report.assignedOrgCode}</span>
+            <span>·</span>
+            <span>{report.assignedUserName || t("admin.unassigned")}</span>
+          </div>
+        )}
+
         {/* Road classification badge */}
         {(report.classificationStatus || report.roadClass) && (
           <div className="mt-2 flex items-center gap-2 text-xs">
@@ -0,0 +1,510 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Globe,
+  Loader2,
+  Lock,
+  MessageSquare,
+  Pencil,
+  Reply,
+  Trash2,
+  X,
+} from "lucide-react";
+import clsx from "clsx";
+import { formatDistanceToNow } from "@/lib/utils";
+import { formatMention, splitMentions } from "@/lib/mentions";
+
+interface ReportComment {
+  id: string;
+  parentId: string | null;
+  content: string;
+  isInternal: boolean;
+  createdAt: string;
+  updatedAt: string | null;
+  deletedAt: string | null;
+  authorId: string | null;
+  authorName: string | null;
+  authorRole: string | null;
+}
+
+interface MentionableUser {
+  id: string;
+  name: string;
+  email: string;
+  role: string;
+}
+
+interface ReportCommentsProps {
+  reportId: string;
+  currentUserId: string;
+  currentUserRole: string;
+}
+
+// Text typed after "@" up to the caret, e.g. "@jay" -> "jay"
+const MENTION_QUERY_PATTERN = /(^|\s)@([^\s@[\]()]*)$/;
+
+function CommentText({ content }: { content: string }) {
+  return (
+    <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-wrap break-words">
+      {splitMentions(content).map((part, index) =>
+        part.type === "mention" ? (
+          <span
+            key={index}
+            className="rounded bg-primary-50 px-1 font-medium text-primary-700 dark:bg-primary-900/30 dark:text-primary-300"
+          >
+            @{part.name}
+          </span>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </p>
+  );
+}
+
+interface CommentComposerProps {
+  initialContent?: string;
+  placeholder: string;
+  submitLabel: string;
+  // Show the internal/public toggle (new threads and thread starters only)
+  showVisibility: boolean;
+  initialInternal?: boolean;
+  onSubmit: (content: string, isInternal: boolean) => Promise<boolean>;
+  onCancel?: () => void;
+}
+
+function CommentComposer({
+  initialContent = "",
+  placeholder,
+  submitLabel,
+  showVisibility,
+  initialInternal = true,
+  onSubmit,
+  onCancel,
+}: CommentComposerProps) {
+  const [content, setContent] = useState(initialContent);
+  const [isInternal, setIsInternal] = useState(initialInternal);
+  const [submitting, setSubmitting] = useState(false);
+  const [mentionQuery, setMentionQuery] = useState<string | null>(null);
+  const [suggestions, setSuggestions] = useState<MentionableUser[]>([]);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (mentionQuery === null) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/v1/comments/mentionable-users?q=${encodeURIComponent(mentionQuery)}`,
+          { credentials: "include" }
+        );
+        if (!response.ok) return;
+        const data = await response.json() as { users: MentionableUser[] };
+        if (!cancelled) setSuggestions(data.users);
+      } catch (err) {
+        console.error("Failed to load users:", err);
+      }
+    }, 200);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [mentionQuery]);
+
+  const updateMentionQuery = (value: string, caret: number) => {
+    const match = value.slice(0, caret).match(MENTION_QUERY_PATTERN);
+    setMentionQuery(match ? match[2] : null);
+  };
+
+  const insertMention = (mentionUser: MentionableUser) => {
+    const textarea = textareaRef.current;
+    const caret = textarea?.selectionStart ?? content.length;
+    const before = content.slice(0, caret).replace(/@[^\s@[\]()]*$/, "");
+    const mention = `${formatMention(mentionUser.name, mentionUser.id)} `;
+    setContent(before + mention + content.slice(caret));
+    setMentionQuery(null);
+
+    // Put the caret after the inserted mention
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      const position = before.length + mention.length;
+      textarea.focus();
+      textarea.setSelectionRange(position, position);
+    });
+  };
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return;
+    setSubmitting(true);
+    const ok = await onSubmit(content.trim(), isInternal);
+    setSubmitting(false);
+    if (ok && !initialContent) {
+      setContent("");
+      setIsInternal(initialInternal);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="relative">
+        <Textarea
+          ref={textareaRef}
+          value={content}
+          onChange={(e) => {
+            setContent(e.target.value);
+            updateMentionQuery(e.target.value, e.target.selectionStart);
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Escape" && mentionQuery !== null) {
+              e.preventDefault();
+              setMentionQuery(null);
+            } else if (e.key === "Enter" && (e.metaKey || e.ctrlKey)) {
+              e.preventDefault();
+              handleSubmit();
+            }
+          }}
+          placeholder={placeholder}
+          rows={3}
+          className="resize-none"
+        />
+        {mentionQuery !== null && suggestions.length > 0 && (
+          <ul className="absolute left-0 right-0 top-full z-20 mt-1 max-h-48 overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg dark:border-gray-700 dark:bg-gray-900">
+            {suggestions.map((suggestion) => (
+              <li key={suggestion.id}>
+                <button
+                  type="button"
+                  className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                  // Keep focus in the textarea so the caret position is preserved
+                  onMouseDown={(e) => e.preventDefault()}
+                  onClick={() => insertMention(suggestion)}
+                >
+                  <span className="font-medium">{suggestion.name}</span>
+                  <span className="ml-2 text-xs text-gray-500">{suggestion.email}</span>
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      <div className="flex items-center justify-between gap-2">
+        {showVisibility ? (
+          <div className="inline-flex rounded-md border border-gray-200 dark:border-gray-700 p-0.5 text-xs">
+            <button
+              type="button"
+              onClick={() => setIsInternal(true)}
+              className={clsx(
+                "flex items-center gap-1 rounded px-2 py-1",
+                isInternal
+                  ? "bg-gray-100 text-gray-900 dark:bg-gray-800 dark:text-gray-100"
+                  : "text-gray-500"
+              )}
+            >
+              <Lock className="w-3 h-3" />
+              Internal
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsInternal(false)}
+              className={clsx(
+                "flex items-center gap-1 rounded px-2 py-1",
+                !isInternal
+                  ? "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
+                  : "text-gray-500"
+              )}
+            >
+              <Globe className="w-3 h-3" />
+              Public
+            </button>
+          </div>
+        ) : (
+          <span />
+        )}
+        <div className="flex gap-2">
+          {onCancel && (
+            <Button size="sm" variant="ghost" onClick={onCancel} disabled={submitting}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+          )}
+          <Button size="sm" onClick={handleSubmit} disabled={submitting || !content.trim()}>
+            {submitting && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+            {submitLabel}
+          </Button>
+        </div>
+      </div>
+      {showVisibility && !isInternal && (
+        <p className="text-xs text-blue-600 dark:text-blue-400">
+          Public updates are shown to everyone on the map once the report is verified.
+        </p>
+      )}
+    </div>
+  );
+}
+
+export function ReportComments({ reportId, currentUserId, currentUserRole }: ReportCommentsProps) {
+  const [comments, setComments] = useState<ReportComment[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [replyingTo, setReplyingTo] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [deletingId, setDeletingId] = useState<string | null>(null);
+
+  const isAdmin = currentUserRole === "admin" || currentUserRole === "super_admin";
+
+  const fetchComments = useCallback(async () => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/comments?reportId=${reportId}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch comments");
+      }
+      const data = await response.json() as { comments: ReportComment[] };
+      setComments(data.comments);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load comments");
+    } finally {
+      setLoading(false);
+    }
+  }, [reportId]);
+
+  useEffect(() => {
+    setLoading(true);
+    fetchComments();
+  }, [fetchComments]);
+
+  const postComment = async (content: string, isInternal: boolean, parentId?: string) => {
+    try {
+      const response = await fetch("/api/v1/comments", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportId, content, isInternal, parentId }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to post comment");
+      }
+      setReplyingTo(null);
+      await fetchComments();
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to post comment");
+      return false;
+    }
+  };
+
+  const updateComment = async (comment: ReportComment, content: string, isInternal: boolean) => {
+    try {
+      const response = await fetch(`/api/v1/comments/${comment.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        // Replies follow their thread's visibility
+        body: JSON.stringify(comment.parentId ? { content } : { content, isInternal }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to update comment");
+      }
+      setEditingId(null);
+      await fetchComments();
+      return true;
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to update comment");
+      return false;
+    }
+  };
+
+  const deleteComment = async (comment: ReportComment) => {
+    if (!confirm("Delete this comment?")) return;
+    setDeletingId(comment.id);
+    try {
+      const response = await fetch(`/api/v1/comments/${comment.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to delete comment");
+      }
+      await fetchComments();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to delete comment");
+    } finally {
+      setDeletingId(null);
+    }
+  };
+
+  const threads = comments.filter((comment) => !comment.parentId);
+  const repliesByThread = new Map<string, ReportComment[]>();
+  for (const comment of comments) {
+    if (!comment.parentId) continue;
+    repliesByThread.set(comment.parentId, [...(repliesByThread.get(comment.parentId) || []), comment]);
+  }
+
+  const renderComment = (comment: ReportComment) => {
+    const isDeleted = Boolean(comment.deletedAt);
+    const isAuthor = comment.authorId === currentUserId;
+
+    return (
+      <div className="space-y-1">
+        <div className="flex flex-wrap items-center gap-2 text-xs">
+          <span className="font-medium text-gray-900 dark:text-gray-100">
+            {comment.authorName || "Unknown"}
+          </span>
+          {!comment.parentId && (
+            <span
+              className={clsx(
+                "inline-flex items-center gap-1 rounded-full px-2 py-0.5 font-medium",
+                comment.isInternal
+                  ? "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400"
+                  : "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400"
+              )}
+            >
+              {comment.isInternal ? <Lock className="w-3 h-3" /> : <Globe className="w-3 h-3" />}
+              {comment.isInternal ? "Internal" : "Public"}
+            </span>
+          )}
+          <span className="text-gray-500">
+            {formatDistanceToNow(new Date(comment.createdAt))} ago
+            {comment.updatedAt && !isDeleted && " (edited)"}
+          </span>
+        </div>
+
+        {isDeleted ? (
+          <p className="text-sm italic text-gray-400">This comment was deleted.</p>
+        ) : editingId === comment.id ? (
+          <CommentComposer
+            initialContent={comment.content}
+            placeholder="Edit comment..."
+            submitLabel="Save"
+            showVisibility={!comment.parentId}
+            initialInternal={comment.isInternal}
+            onSubmit={(content, isInternal) => updateComment(comment, content, isInternal)}
+            onCancel={() => setEditingId(null)}
+          />
+        ) : (
+          <CommentText content={comment.content} />
+        )}
+
+        {!isDeleted && editingId !== comment.id && (
+          <div className="flex items-center gap-1">
+            <Button
+              size="sm"
+              variant="ghost"
+              className="h-7 px-2 text-xs"
+              onClick={() => setReplyingTo(comment.parentId || comment.id)}
+            >
+              <Reply className="w-3.5 h-3.5 mr-1" />
+              Reply
+            </Button>
+            {isAuthor && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs"
+                onClick={() => setEditingId(comment.id)}
+              >
+                <Pencil className="w-3.5 h-3.5 mr-1" />
+                Edit
+              </Button>
+            )}
+            {(isAuthor || isAdmin) && (
+              <Button
+                size="sm"
+                variant="ghost"
+                className="h-7 px-2 text-xs text-red-600 hover:text-red-700"
+                onClick={() => deleteComment(comment)}
+                disabled={deletingId === comment.id}
+              >
+                {deletingId === comment.id ? (
+                  <Loader2 className="w-3.5 h-3.5 mr-1 animate-spin" />
+                ) : (
+                  <Trash2 className="w-3.5 h-3.5 mr-1" />
+                )}
+                Delete
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+        <MessageSquare className="w-4 h-4" />
+        Comments
+        {threads.length > 0 && (
+          <span className="text-xs font-normal normal-case">({comments.filter((c) => !c.deletedAt).length})</span>
+        )}
+      </h3>
+
+      {loading && (
+        <div className="flex justify-center py-4">
+          <Loader2 className="w-5 h-5 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {!loading && error && (
+        <div className="rounded-lg bg-red-50 dark:bg-red-900/20 p-3 text-sm text-red-600 dark:text-red-400 flex items-center justify-between">
+          <span>{error}</span>
+          <Button size="sm" variant="outline" onClick={fetchComments}>
+            Retry
+          </Button>
+        </div>
+      )}
+
+      {!loading && !error && threads.length === 0 && (
+        <p className="text-sm text-gray-500">No comments yet.</p>
+      )}
+
+      {!loading && !error && threads.length > 0 && (
+        <ul className="space-y-3">
+          {threads.map((thread) => (
+            <li
+              key={thread.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-800 p-3 space-y-3"
+            >
+              {renderComment(thread)}
+
+              {(repliesByThread.get(thread.id)?.length || replyingTo === thread.id) && (
+                <div className="ml-4 space-y-3 border-l-2 border-gray-100 dark:border-gray-800 pl-3">
+                  {repliesByThread.get(thread.id)?.map((reply) => (
+                    <div key={reply.id}>{renderComment(reply)}</div>
+                  ))}
+                  {replyingTo === thread.id && (
+                    <CommentComposer
+                      placeholder="Write a reply... Use @ to mention someone"
+                      submitLabel="Reply"
+                      showVisibility={false}
+                      initialInternal={thread.isInternal}
+                      onSubmit={(content) => postComment(content, thread.isInternal, thread.id)}
+                      onCancel={() => setReplyingTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <CommentComposer
+        placeholder="Add a comment... Use @ to mention someone"
+        submitLabel="Comment"
+        showVisibility
+        onSubmit={(content, isInternal) => postComment(content, isInternal)}
+      />
+    </div>
+  );
+}
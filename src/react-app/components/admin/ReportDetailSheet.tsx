@@ -33,19 +33,27 @@ import {
   CheckCircle,
   Clock,
   XCircle,
+  FolderKanban,
   Save,
   History,
   Building2,
+  Merge,
 } from "lucide-react";
 import { formatDistanceToNow } from "@/lib/utils";
 import clsx from "clsx";
 import { AuditTimeline } from "./AuditTimeline";
+import { ReportProjectLinks, type ReportProjectLink } from "./ReportProjectLinks";
+import { ReportRoadSegments, type ReportRoadSegment } from "./ReportRoadSegments";
+import { ReportComments } from "./ReportComments";
+import { ReportDuplicates, type DuplicateCandidate, type ReportSubmitter } from "./ReportDuplicates";
+import { ReportAssigneePicker } from "./ReportAssigneePicker";
 import { RoadNumberInput, type SelectedRoad } from "@/components/forms/RoadNumberInput";
 import { ImageLightbox } from "@/components/ui/ImageLightbox";
 import {
   provinces,
   getDistrictsForProvince,
 } from "@/data/sriLankaLocations";
+import { useAuthStore } from "@/stores/auth";
 
 interface MediaAttachment {
   id: string;
@@ -99,10 +107,13 @@ interface Report {
   roadLocation: string | null;
   roadNumberInput: string | null;
   roadClass: string | null;
+  chainageKm: number | null;
   classificationStatus: string | null;
   assignedOrgId: string | null;
   assignedOrgName: string | null;
   assignedOrgCode: string | null;
+  assignedUserId: string | null;
+  assignedUserName: string | null;
   locationPickedManually: boolean | number | null;
 }
 
@@ -122,6 +133,11 @@ interface AuditEntry {
 interface ReportWithMedia extends Report {
   media: MediaAttachment[];
   auditTrail: AuditEntry[];
+  projectLinks: ReportProjectLink[];
+  segments: ReportRoadSegment[];
+  duplicateCandidates: DuplicateCandidate[];
+  submitters: ReportSubmitter[];
+  mergedIntoNumber: string | null;
 }
 
 interface ReportDetailSheetProps {
@@ -147,16 +163,20 @@ const statusColors: Record<string, string> = {
   new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
   verified: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
   in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  linked_to_project: "bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-400",
   resolved: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
   rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  merged: "bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-400",
 };
 
 const statusIcons: Record<string, React.ReactNode> = {
   new: <Clock className="w-3 h-3" />,
   verified: <CheckCircle className="w-3 h-3" />,
   in_progress: <AlertTriangle className="w-3 h-3" />,
+  linked_to_project: <FolderKanban className="w-3 h-3" />,
   resolved: <CheckCircle className="w-3 h-3" />,
   rejected: <XCircle className="w-3 h-3" />,
+  merged: <Merge className="w-3 h-3" />,
 };
 
 const passabilityOptions = [
@@ -184,6 +204,8 @@ export function ReportDetailSheet({
   reportId,
   onUpdate,
 }: ReportDetailSheetProps) {
+  const { user } = useAuthStore();
+  const canLinkProjects = ["planner", "admin", "super_admin"].includes(user?.role || "");
   const [report, setReport] = useState<ReportWithMedia | null>(null);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
@@ -225,9 +247,11 @@ export function ReportDetailSheet({
         isSingleLane: data.isSingleLane,
         needsSafetyBarriers: data.needsSafetyBarriers,
         blockedDistanceMeters: data.blockedDistanceMeters,
+        chainageKm: data.chainageKm,
       });
       setHasChanges(false);
       setImageIndex(0);
+      return data;
     } catch (err) {
       console.error("Failed to load report:", err);
     } finally {
@@ -468,6 +492,7 @@ export function ReportDetailSheet({
                   <Select
                     value={formData.status || report.status}
                     onValueChange={(value) => updateField("status", value)}
+                    disabled={report.status === "merged"}
                   >
                     <SelectTrigger className="w-auto h-auto border-0 bg-transparent p-0 shadow-none focus:ring-0 [&>span]:line-clamp-none [&>svg]:shrink-0">
                       <span
@@ -484,6 +509,7 @@ export function ReportDetailSheet({
                       <SelectItem value="new">New</SelectItem>
                       <SelectItem value="verified">Verified</SelectItem>
                       <SelectItem value="in_progress">In Progress</SelectItem>
+                      <SelectItem value="linked_to_project">Linked to Project</SelectItem>
                       <SelectItem value="resolved">Resolved</SelectItem>
                       <SelectItem value="rejected">Rejected</SelectItem>
                     </SelectContent>
@@ -492,6 +518,7 @@ export function ReportDetailSheet({
                   {report.roadNumberInput && (
                     <span className="inline-flex items-center gap-1 px-3 py-1.5 bg-indigo-100 text-indigo-800 dark:bg-indigo-900/30 dark:text-indigo-300 rounded-full text-sm font-medium whitespace-nowrap">
                       {report.roadNumberInput}
+                      {report.chainageKm !== null && ` · km ${report.chainageKm}`}
                     </span>
                   )}
                 </div>
@@ -632,6 +659,22 @@ export function ReportDetailSheet({
                     }}
                   />
 
+                  {/* Kilometre post along the road */}
+                  <div className="space-y-2">
+                    <Label htmlFor="chainageKm">Km Post</Label>
+                    <Input
+                      id="chainageKm"
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      placeholder="e.g., 112.3"
+                      value={formData.chainageKm ?? ""}
+                      onChange={(e) =>
+                        updateField("chainageKm", e.target.value === "" ? null : parseFloat(e.target.value))
+                      }
+                    />
+                  </div>
+
                   {/* Location Name */}
                   <div className="space-y-2">
                     <Label htmlFor="locationName">Road / Location Name</Label>
@@ -686,8 +729,68 @@ export function ReportDetailSheet({
                       </p>
                     )}
                   </div>
+
+                  {/* Member of the assigned org working this report; hidden while the org is being changed */}
+                  {user && report.assignedOrgId && editAssignedOrgId === report.assignedOrgId && (
+                    <ReportAssigneePicker
+                      reportId={report.id}
+                      orgId={report.assignedOrgId}
+                      assignedUserId={report.assignedUserId}
+                      currentUserId={user.id}
+                      currentUserRole={user.role}
+                      onChanged={async () => {
+                        const updated = await fetchReport();
+                        if (updated) onUpdate(updated);
+                      }}
+                    />
+                  )}
                 </div>
 
+                {/* Duplicate candidates, merge actions and merged-in submitters */}
+                <ReportDuplicates
+                  reportId={report.id}
+                  reportNumber={report.reportNumber}
+                  status={report.status}
+                  mergedIntoNumber={report.mergedIntoNumber}
+                  candidates={report.duplicateCandidates || []}
+                  submitters={report.submitters || []}
+                  onChanged={async () => {
+                    const updated = await fetchReport();
+                    if (updated) onUpdate(updated);
+                  }}
+                />
+
+                {/* Rebuild Project Links */}
+                <ReportProjectLinks
+                  reportId={report.id}
+                  links={report.projectLinks || []}
+                  canEdit={canLinkProjects}
+                  onChanged={async () => {
+                    // Linking can move the report to linked_to_project; refresh the list row too
+                    const updated = await fetchReport();
+                    if (updated) onUpdate(updated);
+                  }}
+                />
+
+                {/* Blocked road segments, entered as a km range or drawn on the map */}
+                <ReportRoadSegments
+                  reportId={report.id}
+                  roadNumber={report.roadNumberInput}
+                  location={{ lat: report.latitude, lng: report.longitude }}
+                  segments={report.segments || []}
+                  canEdit
+                  onChanged={fetchReport}
+                />
+
+                {/* Comment Threads */}
+                {user && (
+                  <ReportComments
+                    reportId={report.id}
+                    currentUserId={user.id}
+                    currentUserRole={user.role}
+                  />
+                )}
+
                 {/* Incident Details - Editable */}
                 <div className="space-y-4">
                   <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide">
@@ -982,6 +1085,7 @@ export function ReportDetailSheet({
                           isSingleLane: report.isSingleLane,
                           needsSafetyBarriers: report.needsSafetyBarriers,
                           blockedDistanceMeters: report.blockedDistanceMeters,
+                          chainageKm: report.chainageKm,
                         });
                         setHasChanges(false);
                       }
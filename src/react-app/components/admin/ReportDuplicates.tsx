@@ -0,0 +1,200 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Copy, Loader2, Merge, Users, X } from "lucide-react";
+import { formatDistanceToNow } from "@/lib/utils";
+
+export interface DuplicateCandidate {
+  id: string;
+  distanceMeters: number;
+  createdAt: string;
+  report: {
+    id: string;
+    reportNumber: string;
+    status: string;
+    locationName: string | null;
+    description: string;
+    createdAt: string;
+  };
+}
+
+export interface ReportSubmitter {
+  reportId: string;
+  reportNumber: string;
+  userId: string | null;
+  name: string | null;
+  email: string | null;
+  contact: string | null;
+  createdAt: string;
+}
+
+interface ReportDuplicatesProps {
+  reportId: string;
+  reportNumber: string;
+  status: string;
+  mergedIntoNumber: string | null;
+  candidates: DuplicateCandidate[];
+  submitters: ReportSubmitter[];
+  // Called after a merge or dismissal so the sheet can refetch status, media and audit trail
+  onChanged: () => void;
+}
+
+export function ReportDuplicates({
+  reportId,
+  reportNumber,
+  status,
+  mergedIntoNumber,
+  candidates,
+  submitters,
+  onChanged,
+}: ReportDuplicatesProps) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Merges `duplicateId` into `canonicalId`; either side may be the report open in the sheet
+  const merge = async (candidate: DuplicateCandidate, duplicateId: string, canonicalId: string) => {
+    const duplicateNumber = duplicateId === reportId ? reportNumber : candidate.report.reportNumber;
+    const canonicalNumber = canonicalId === reportId ? reportNumber : candidate.report.reportNumber;
+    if (!confirm(`Merge ${duplicateNumber} into ${canonicalNumber}? Its photos and submitters move to ${canonicalNumber}.`)) {
+      return;
+    }
+    setBusyId(candidate.id);
+    try {
+      const response = await fetch(`/api/v1/admin/reports/${duplicateId}/merge`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ canonicalId }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to merge reports");
+      }
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to merge reports");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const dismiss = async (candidate: DuplicateCandidate) => {
+    setBusyId(candidate.id);
+    try {
+      const response = await fetch(`/api/v1/admin/reports/${reportId}/duplicates/${candidate.id}/dismiss`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to dismiss duplicate");
+      }
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to dismiss duplicate");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const otherSubmitters = submitters.filter((s) => s.reportId !== reportId);
+
+  if (status === "merged") {
+    return (
+      <div className="rounded-lg bg-slate-50 dark:bg-slate-900/50 p-4 text-sm text-slate-700 dark:text-slate-300 flex items-center gap-2">
+        <Merge className="w-4 h-4 shrink-0" />
+        <span>
+          Merged into <span className="font-medium">{mergedIntoNumber || "another report"}</span>. Its photos and
+          submitters now appear on that report.
+        </span>
+      </div>
+    );
+  }
+
+  if (candidates.length === 0 && otherSubmitters.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="space-y-4">
+      {candidates.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+            <Copy className="w-4 h-4" />
+            Possible Duplicates
+          </h3>
+          <ul className="space-y-2">
+            {candidates.map((candidate) => (
+              <li
+                key={candidate.id}
+                className="rounded-lg border border-amber-200 dark:border-amber-900/50 bg-amber-50/50 dark:bg-amber-900/10 px-3 py-2 space-y-2"
+              >
+                <div className="min-w-0">
+                  <span className="font-medium">{candidate.report.reportNumber}</span>
+                  <span className="ml-2 text-xs text-gray-500">
+                    {Math.round(candidate.distanceMeters)} m away · {candidate.report.status.replace(/_/g, " ")} ·{" "}
+                    {formatDistanceToNow(new Date(candidate.report.createdAt))} ago
+                  </span>
+                  {candidate.report.locationName && (
+                    <p className="text-xs text-gray-500 truncate">{candidate.report.locationName}</p>
+                  )}
+                  <p className="text-sm text-gray-700 dark:text-gray-300 line-clamp-2">{candidate.report.description}</p>
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => merge(candidate, candidate.report.id, reportId)}
+                    disabled={busyId !== null}
+                  >
+                    {busyId === candidate.id ? (
+                      <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />
+                    ) : (
+                      <Merge className="w-4 h-4 mr-1.5" />
+                    )}
+                    Merge into this report
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => merge(candidate, reportId, candidate.report.id)}
+                    disabled={busyId !== null}
+                  >
+                    <Merge className="w-4 h-4 mr-1.5" />
+                    Merge into {candidate.report.reportNumber}
+                  </Button>
+                  <Button size="sm" variant="ghost" onClick={() => dismiss(candidate)} disabled={busyId !== null}>
+                    <X className="w-4 h-4 mr-1.5" />
+                    Not a duplicate
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {otherSubmitters.length > 0 && (
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+            <Users className="w-4 h-4" />
+            Also Reported By
+          </h3>
+          <ul className="space-y-1">
+            {otherSubmitters.map((submitter) => (
+              <li key={submitter.reportId} className="text-sm">
+                <span className="text-gray-700 dark:text-gray-300">
+                  {submitter.name || submitter.email || "Anonymous"}
+                </span>
+                {submitter.name && submitter.email && (
+                  <span className="ml-1 text-gray-500">({submitter.email})</span>
+                )}
+                <span className="ml-2 text-xs text-gray-500">
+                  {submitter.reportNumber} · {formatDistanceToNow(new Date(submitter.createdAt))} ago
+                </span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { Link } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { FolderKanban, Link2, Loader2, Unlink, X } from "lucide-react";
+import { projectStatusLabels } from "@/components/projects";
+
+export interface ReportProjectLink {
+  id: string;
+  projectId: string;
+  linkType: string;
+  notes: string | null;
+  createdAt: string;
+  projectCode: string;
+  projectName: string;
+  projectStatus: string;
+}
+
+interface ProjectOption {
+  id: string;
+  projectCode: string;
+  name: string;
+}
+
+interface ReportProjectLinksProps {
+  reportId: string;
+  links: ReportProjectLink[];
+  canEdit: boolean;
+  // Called after linking/unlinking so the sheet can refetch status and audit trail
+  onChanged: () => void;
+}
+
+const linkTypeLabels: Record<string, string> = {
+  primary: "Primary",
+  contributing: "Contributing",
+  related: "Related",
+};
+
+const linkTypeDescriptions: Record<string, string> = {
+  primary: "The project that fixes this damage. Report resolves when the project completes.",
+  contributing: "Work in this project contributes to the fix. Report resolves when the project completes.",
+  related: "For reference only. Does not change the report status.",
+};
+
+export function ReportProjectLinks({ reportId, links, canEdit, onChanged }: ReportProjectLinksProps) {
+  const [adding, setAdding] = useState(false);
+  const [projects, setProjects] = useState<ProjectOption[]>([]);
+  const [loadingProjects, setLoadingProjects] = useState(false);
+  const [selectedProjectId, setSelectedProjectId] = useState("");
+  const [linkType, setLinkType] = useState("primary");
+  const [saving, setSaving] = useState(false);
+  const [unlinkingId, setUnlinkingId] = useState<string | null>(null);
+
+  const startAdding = async () => {
+    setAdding(true);
+    setSelectedProjectId("");
+    // A report has one primary project at most
+    setLinkType(links.some((l) => l.linkType === "primary") ? "contributing" : "primary");
+    if (projects.length > 0) return;
+    setLoadingProjects(true);
+    try {
+      const response = await fetch("/api/v1/projects", { credentials: "include" });
+      if (!response.ok) throw new Error("Failed to load projects");
+      const data = await response.json() as { projects: ProjectOption[] };
+      setProjects(data.projects);
+    } catch (err) {
+      console.error("Failed to load projects:", err);
+    } finally {
+      setLoadingProjects(false);
+    }
+  };
+
+  const handleLink = async () => {
+    if (!selectedProjectId) return;
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/v1/projects/${selectedProjectId}/reports`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reportIds: [reportId], linkType }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to link report");
+      }
+      setAdding(false);
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to link report");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleUnlink = async (link: ReportProjectLink) => {
+    if (!confirm(`Unlink this report from ${link.projectCode}?`)) return;
+    setUnlinkingId(link.id);
+    try {
+      const response = await fetch(`/api/v1/projects/${link.projectId}/reports/${reportId}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to unlink report");
+      }
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to unlink report");
+    } finally {
+      setUnlinkingId(null);
+    }
+  };
+
+  const linkedProjectIds = new Set(links.map((l) => l.projectId));
+  const availableProjects = projects.filter((p) => !linkedProjectIds.has(p.id));
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+          <FolderKanban className="w-4 h-4" />
+          Rebuild Projects
+        </h3>
+        {canEdit && !adding && (
+          <Button size="sm" variant="outline" onClick={startAdding}>
+            <Link2 className="w-4 h-4 mr-1.5" />
+            Link to Project
+          </Button>
+        )}
+      </div>
+
+      {links.length === 0 && !adding && (
+        <p className="text-sm text-gray-500">Not linked to any project.</p>
+      )}
+
+      {links.length > 0 && (
+        <ul className="space-y-2">
+          {links.map((link) => (
+            <li
+              key={link.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 dark:border-gray-800 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <Link
+                  to={`/projects/${link.projectId}`}
+                  className="font-medium text-primary-600 hover:underline"
+                >
+                  {link.projectCode}
+                </Link>
+                <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{link.projectName}</span>
+                <p className="text-xs text-gray-500">
+                  {linkTypeLabels[link.linkType] || link.linkType} ·{" "}
+                  {projectStatusLabels[link.projectStatus] || link.projectStatus}
+                </p>
+              </div>
+              {canEdit && (
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-8 w-8 shrink-0"
+                  onClick={() => handleUnlink(link)}
+                  disabled={unlinkingId === link.id}
+                  title="Unlink"
+                >
+                  {unlinkingId === link.id ? (
+                    <Loader2 className="w-4 h-4 animate-spin" />
+                  ) : (
+                    <Unlink className="w-4 h-4" />
+                  )}
+                </Button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {adding && (
+        <div className="space-y-3 rounded-lg bg-gray-50 dark:bg-gray-900/50 p-4">
+          <div className="space-y-2">
+            <Label>Project</Label>
+            <Select value={selectedProjectId} onValueChange={setSelectedProjectId} disabled={loadingProjects}>
+              <SelectTrigger>
+                <SelectValue placeholder={loadingProjects ? "Loading projects..." : "Select project"} />
+              </SelectTrigger>
+              <SelectContent>
+                {availableProjects.map((project) => (
+                  <SelectItem key={project.id} value={project.id}>
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium">{project.projectCode}</span>
+                      <span className="text-gray-500">{project.name}</span>
+                    </span>
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label>Link Type</Label>
+            <Select value={linkType} onValueChange={setLinkType}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(linkTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500">{linkTypeDescriptions[linkType]}</p>
+          </div>
+          <div className="flex justify-end gap-2">
+            <Button size="sm" variant="ghost" onClick={() => setAdding(false)} disabled={saving}>
+              <X className="w-4 h-4 mr-1" />
+              Cancel
+            </Button>
+            <Button size="sm" onClick={handleLink} disabled={saving || !selectedProjectId}>
+              {saving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Link
+            </Button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,157 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Pencil, Plus, Route, Trash2 } from "lucide-react";
+import { SegmentEditorDialog } from "./SegmentEditorDialog";
+
+export interface ReportRoadSegment {
+  id: string;
+  roadNo: string | null;
+  roadName: string | null;
+  reason: string | null;
+  fromKm: number | null;
+  toKm: number | null;
+  dataSource: string | null;
+  createdAt: string;
+  updatedAt: string | null;
+  path: { lat: number; lng: number }[];
+}
+
+interface ReportRoadSegmentsProps {
+  reportId: string;
+  // Prefills the road number when adding a segment
+  roadNumber: string | null;
+  // Centres the editor map on the report
+  location: { lat: number; lng: number };
+  segments: ReportRoadSegment[];
+  canEdit: boolean;
+  // Called after adding/editing/removing so the sheet can refetch segments and audit trail
+  onChanged: () => void;
+}
+
+function formatChainage(segment: ReportRoadSegment) {
+  if (segment.fromKm === null || segment.toKm === null) return "Drawn on map";
+  return `km ${segment.fromKm} – ${segment.toKm}`;
+}
+
+export function ReportRoadSegments({
+  reportId,
+  roadNumber,
+  location,
+  segments,
+  canEdit,
+  onChanged,
+}: ReportRoadSegmentsProps) {
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editing, setEditing] = useState<ReportRoadSegment | null>(null);
+  const [removingId, setRemovingId] = useState<string | null>(null);
+
+  const openEditor = (segment: ReportRoadSegment | null) => {
+    setEditing(segment);
+    setEditorOpen(true);
+  };
+
+  const handleRemove = async (segment: ReportRoadSegment) => {
+    if (!confirm(`Remove the ${segment.roadNo || "road"} segment from the map? It stays in the audit trail.`)) return;
+    setRemovingId(segment.id);
+    try {
+      const response = await fetch(`/api/v1/admin/reports/${reportId}/segments/${segment.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to remove segment");
+      }
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to remove segment");
+    } finally {
+      setRemovingId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-500 uppercase tracking-wide flex items-center gap-2">
+          <Route className="w-4 h-4" />
+          Blocked Segments
+        </h3>
+        {canEdit && (
+          <Button size="sm" variant="outline" onClick={() => openEditor(null)}>
+            <Plus className="w-4 h-4 mr-1.5" />
+            Add Segment
+          </Button>
+        )}
+      </div>
+
+      {segments.length === 0 && (
+        <p className="text-sm text-gray-500">No blocked segment drawn on the map.</p>
+      )}
+
+      {segments.length > 0 && (
+        <ul className="space-y-2">
+          {segments.map((segment) => (
+            <li
+              key={segment.id}
+              className="flex items-center justify-between gap-3 rounded-lg border border-gray-200 dark:border-gray-800 px-3 py-2"
+            >
+              <div className="min-w-0">
+                <span className="font-medium">{segment.roadNo || "Unknown road"}</span>
+                {segment.roadName && (
+                  <span className="ml-2 text-sm text-gray-700 dark:text-gray-300">{segment.roadName}</span>
+                )}
+                <p className="text-xs text-gray-500">
+                  {formatChainage(segment)}
+                  {segment.dataSource && ` · ${segment.dataSource}`}
+                </p>
+                {segment.reason && (
+                  <p className="text-sm text-gray-700 dark:text-gray-300 mt-1">{segment.reason}</p>
+                )}
+              </div>
+              {canEdit && (
+                <div className="flex shrink-0">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => openEditor(segment)}
+                    title="Edit"
+                  >
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    className="h-8 w-8"
+                    onClick={() => handleRemove(segment)}
+                    disabled={removingId === segment.id}
+                    title="Remove"
+                  >
+                    {removingId === segment.id ? (
+                      <Loader2 className="w-4 h-4 animate-spin" />
+                    ) : (
+                      <Trash2 className="w-4 h-4" />
+                    )}
+                  </Button>
+                </div>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {canEdit && (
+        <SegmentEditorDialog
+          open={editorOpen}
+          onOpenChange={setEditorOpen}
+          reportId={reportId}
+          reportLocation={location}
+          defaultRoadNumber={roadNumber}
+          segment={editing}
+          onSaved={onChanged}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,180 @@
+import { useEffect, useRef, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Search } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { cn } from "@/lib/utils";
+
+interface SearchResult {
+  id: string;
+  reportNumber: string;
+  status: string;
+  damageType: string;
+  severity: number;
+  locationName: string | null;
+  provinceName: string | null;
+  districtName: string | null;
+  createdAt: string;
+  snippet: string;
+}
+
+// Snippet markers set by the search endpoint around matched terms
+const HIGHLIGHT_START = "\u0002";
+const HIGHLIGHT_END = "\u0003";
+
+function HighlightedSnippet({ text }: { text: string }) {
+  const parts = text.split(HIGHLIGHT_START);
+  return (
+    <>
+      {parts.map((part, index) => {
+        const [match, rest] = index === 0 ? ["", part] : part.split(HIGHLIGHT_END);
+        return (
+          <span key={index}>
+            {match && <mark className="bg-yellow-200 dark:bg-yellow-700/60 rounded-sm">{match}</mark>}
+            {rest}
+          </span>
+        );
+      })}
+    </>
+  );
+}
+
+// Global report search in the admin header; opens the chosen report in Admin Reports
+export function ReportSearch() {
+  const { t } = useTranslation();
+  const navigate = useNavigate();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [query, setQuery] = useState("");
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [open, setOpen] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  useEffect(() => {
+    const q = query.trim();
+    if (!q) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/v1/admin/search?${new URLSearchParams({ q })}`, {
+          credentials: "include",
+          signal: controller.signal,
+        });
+        if (!response.ok) throw new Error("Search failed");
+        const data = (await response.json()) as { results: SearchResult[] };
+        setResults(data.results);
+        setActiveIndex(0);
+      } catch (err) {
+        if (!controller.signal.aborted) {
+          console.error("Report search failed:", err);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [query]);
+
+  // Close the results when clicking elsewhere
+  useEffect(() => {
+    const handleClick = (e: MouseEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handleClick);
+    return () => document.removeEventListener("mousedown", handleClick);
+  }, []);
+
+  const openReport = (result: SearchResult) => {
+    setOpen(false);
+    setQuery("");
+    navigate(`/admin/reports?report=${result.id}`);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "ArrowDown") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.min(index + 1, results.length - 1));
+    } else if (e.key === "ArrowUp") {
+      e.preventDefault();
+      setActiveIndex((index) => Math.max(index - 1, 0));
+    } else if (e.key === "Enter" && results[activeIndex]) {
+      e.preventDefault();
+      openReport(results[activeIndex]);
+    } else if (e.key === "Escape") {
+      setOpen(false);
+    }
+  };
+
+  const showResults = open && query.trim().length > 0;
+
+  return (
+    <div ref={containerRef} className="relative w-64 lg:w-80">
+      <Search className="absolute left-2.5 top-1/2 h-4 w-4 -translate-y-1/2 text-gray-400" />
+      <Input
+        value={query}
+        onChange={(e) => {
+          setQuery(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onKeyDown={handleKeyDown}
+        placeholder={t("admin.searchReports")}
+        className="h-9 pl-8"
+        aria-label={t("admin.searchReports")}
+      />
+      {loading && (
+        <Loader2 className="absolute right-2.5 top-1/2 h-4 w-4 -translate-y-1/2 animate-spin text-gray-400" />
+      )}
+
+      {showResults && (
+        <div className="absolute right-0 top-full z-[1100] mt-1 max-h-96 w-[28rem] max-w-[90vw] overflow-y-auto rounded-lg border border-gray-200 bg-white shadow-lg dark:border-gray-800 dark:bg-gray-950">
+          {results.length === 0 ? (
+            <p className="px-3 py-4 text-sm text-gray-500">
+              {loading ? t("messages.loading") : t("admin.searchNoResults")}
+            </p>
+          ) : (
+            <ul>
+              {results.map((result, index) => (
+                <li key={result.id}>
+                  <button
+                    type="button"
+                    onMouseEnter={() => setActiveIndex(index)}
+                    onClick={() => openReport(result)}
+                    className={cn(
+                      "w-full px-3 py-2 text-left",
+                      index === activeIndex && "bg-gray-100 dark:bg-gray-800"
+                    )}
+                  >
+                    <div className="flex items-center justify-between gap-2 text-sm">
+                      <span className="font-mono font-medium">{result.reportNumber}</span>
+                      <span className="text-xs text-gray-500">{t(`status.${result.status}`)}</span>
+                    </div>
+                    <div className="truncate text-xs text-gray-500">
+                      {t(`damageTypes.${result.damageType}`)}
+                      {(result.locationName || result.districtName) &&
+                        ` · ${result.locationName || result.districtName}`}
+                    </div>
+                    <div className="mt-0.5 line-clamp-2 text-xs text-gray-700 dark:text-gray-300">
+                      <HighlightedSnippet text={result.snippet} />
+                    </div>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
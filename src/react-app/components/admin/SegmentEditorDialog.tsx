@@ -0,0 +1,401 @@
+import { useState, useEffect, useRef } from "react";
+import { MapContainer, TileLayer, Marker, Polyline, useMap, useMapEvents } from "react-leaflet";
+import { DivIcon, LatLngBounds, type LatLng } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { Loader2, Route, Undo2, Eraser, Magnet, MapPinned, Ruler } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import clsx from "clsx";
+import type { ReportRoadSegment } from "./ReportRoadSegments";
+
+interface PathPoint {
+  lat: number;
+  lng: number;
+}
+
+interface SegmentEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  reportId: string;
+  // Centres the map when drawing a new segment
+  reportLocation: PathPoint;
+  defaultRoadNumber: string | null;
+  // Segment being edited, or null to add one
+  segment: ReportRoadSegment | null;
+  onSaved: () => void;
+}
+
+type EditMode = "km" | "draw";
+
+const vertexIcon = new DivIcon({
+  html: `<div style="width: 14px; height: 14px; border-radius: 9999px; background: white; border: 3px solid #DC2626;"></div>`,
+  className: "segment-vertex",
+  iconSize: [14, 14],
+  iconAnchor: [7, 7],
+});
+
+// Adds a vertex at the end of the path on each map click
+function DrawHandler({ onAdd }: { onAdd: (latlng: LatLng) => void }) {
+  useMapEvents({
+    click(e) {
+      onAdd(e.latlng);
+    },
+  });
+  return null;
+}
+
+// Zooms to the path whenever it is replaced wholesale (loaded, located or snapped)
+function FitToPath({ path, version }: { path: PathPoint[]; version: number }) {
+  const map = useMap();
+  // Read through a ref so dragging vertices doesn't refit; only version bumps do
+  const pathRef = useRef(path);
+  pathRef.current = path;
+
+  useEffect(() => {
+    const current = pathRef.current;
+    if (current.length < 2) return;
+    map.fitBounds(new LatLngBounds(current.map((p) => [p.lat, p.lng])), { padding: [40, 40] });
+  }, [map, version]);
+
+  return null;
+}
+
+const toKmInput = (km: number | null | undefined) => (km === null || km === undefined ? "" : String(km));
+const fromKmInput = (value: string) => (value === "" ? null : Number(value));
+
+export function SegmentEditorDialog({
+  open,
+  onOpenChange,
+  reportId,
+  reportLocation,
+  defaultRoadNumber,
+  segment,
+  onSaved,
+}: SegmentEditorDialogProps) {
+  const [mode, setMode] = useState<EditMode>("km");
+  const [roadNumber, setRoadNumber] = useState("");
+  const [fromKm, setFromKm] = useState("");
+  const [toKm, setToKm] = useState("");
+  const [roadName, setRoadName] = useState("");
+  const [reason, setReason] = useState("");
+  const [path, setPath] = useState<PathPoint[]>([]);
+  const [pathVersion, setPathVersion] = useState(0);
+  const [isLocating, setIsLocating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form when the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setMode(segment && segment.fromKm === null ? "draw" : "km");
+    setRoadNumber(segment?.roadNo || defaultRoadNumber || "");
+    setFromKm(toKmInput(segment?.fromKm));
+    setToKm(toKmInput(segment?.toKm));
+    setRoadName(segment?.roadName || "");
+    setReason(segment?.reason || "");
+    setPath(segment?.path || []);
+    setPathVersion((v) => v + 1);
+    setError(null);
+  }, [open, segment, defaultRoadNumber]);
+
+  const replacePath = (newPath: PathPoint[]) => {
+    setPath(newPath);
+    setPathVersion((v) => v + 1);
+  };
+
+  // Show a km range on the map from the road's stored geometry
+  const handleLocate = async () => {
+    if (!roadNumber.trim() || fromKm === "" || toKm === "") return;
+    setIsLocating(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ fromKm, toKm });
+      const response = await fetch(
+        `/api/v1/roads/${encodeURIComponent(roadNumber.trim().toUpperCase())}/chainage?${params}`
+      );
+      const data = await response.json() as { path?: PathPoint[]; error?: string };
+      if (!response.ok || !data.path) throw new Error(data.error || "Could not locate this km range");
+      replacePath(data.path);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not locate this km range");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  // Replace the drawn line with the road-following path between its ends
+  const handleSnap = async () => {
+    if (path.length < 2) return;
+    setIsLocating(true);
+    setError(null);
+    try {
+      const start = path[0];
+      const end = path[path.length - 1];
+      const response = await fetch("/api/v1/map/snap-road", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          startLat: start.lat,
+          startLng: start.lng,
+          endLat: end.lat,
+          endLng: end.lng,
+          roadNumber: roadNumber.trim() || undefined,
+        }),
+      });
+      if (!response.ok) throw new Error("Could not snap to the road");
+      const data = await response.json() as { path: PathPoint[]; roadNumber: string | null };
+      replacePath(data.path);
+      if (!roadNumber.trim() && data.roadNumber) setRoadNumber(data.roadNumber);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Could not snap to the road");
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  const kmRangeComplete = roadNumber.trim() !== "" && fromKm !== "" && toKm !== "";
+  const canSave = mode === "km" ? kmRangeComplete : path.length >= 2;
+
+  const handleSave = async () => {
+    if (!canSave) return;
+    setIsSaving(true);
+    setError(null);
+
+    // A drawn path is sent as-is; a km range is located on the road by the server.
+    // Blank km values on a drawn path are measured from the road.
+    const geometry =
+      mode === "draw"
+        ? {
+            path,
+            roadNumber: roadNumber.trim().toUpperCase() || undefined,
+            fromKm: fromKmInput(fromKm) ?? (segment ? null : undefined),
+            toKm: fromKmInput(toKm) ?? (segment ? null : undefined),
+          }
+        : {
+            roadNumber: roadNumber.trim().toUpperCase(),
+            fromKm: Number(fromKm),
+            toKm: Number(toKm),
+          };
+
+    try {
+      const response = await fetch(
+        segment ? `/api/v1/admin/reports/${reportId}/segments/${segment.id}` : `/api/v1/admin/reports/${reportId}/segments`,
+        {
+          method: segment ? "PATCH" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            ...geometry,
+            roadName: roadName.trim() || (segment ? null : undefined),
+            reason: reason.trim() || (segment ? null : undefined),
+          }),
+          credentials: "include",
+        }
+      );
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to save segment");
+      }
+      onOpenChange(false);
+      onSaved();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save segment");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const center = path[Math.floor(path.length / 2)] || reportLocation;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-4xl h-[90vh] flex flex-col p-0">
+        <DialogHeader className="px-6 pt-6 pb-4 border-b">
+          <DialogTitle className="flex items-center gap-2">
+            <Route className="w-5 h-5 text-red-600" />
+            {segment ? "Edit Blocked Segment" : "Add Blocked Segment"}
+          </DialogTitle>
+          <DialogDescription>
+            Enter the closure as a road number and km range, or draw it on the map.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 flex flex-col md:flex-row overflow-hidden">
+          {/* Form */}
+          <div className="md:w-80 shrink-0 overflow-y-auto px-6 py-4 space-y-4 border-b md:border-b-0 md:border-r">
+            <div className="grid grid-cols-2 gap-1 rounded-lg bg-gray-100 dark:bg-gray-800 p-1">
+              {(["km", "draw"] as const).map((value) => (
+                <button
+                  key={value}
+                  type="button"
+                  onClick={() => setMode(value)}
+                  className={clsx(
+                    "flex items-center justify-center gap-1.5 rounded-md px-2 py-1.5 text-sm font-medium",
+                    mode === value
+                      ? "bg-white dark:bg-gray-900 shadow-sm"
+                      : "text-gray-500 hover:text-gray-700 dark:hover:text-gray-300"
+                  )}
+                >
+                  {value === "km" ? <Ruler className="w-4 h-4" /> : <MapPinned className="w-4 h-4" />}
+                  {value === "km" ? "Km range" : "Draw"}
+                </button>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="segmentRoad">Road</Label>
+              <Input
+                id="segmentRoad"
+                placeholder="A004"
+                value={roadNumber}
+                onChange={(e) => setRoadNumber(e.target.value)}
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="segmentFromKm">From km</Label>
+                <Input
+                  id="segmentFromKm"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={fromKm}
+                  onChange={(e) => setFromKm(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="segmentToKm">To km</Label>
+                <Input
+                  id="segmentToKm"
+                  type="number"
+                  min={0}
+                  step={0.1}
+                  value={toKm}
+                  onChange={(e) => setToKm(e.target.value)}
+                />
+              </div>
+            </div>
+
+            {mode === "km" ? (
+              <Button
+                size="sm"
+                variant="outline"
+                className="w-full"
+                onClick={handleLocate}
+                disabled={!kmRangeComplete || isLocating}
+              >
+                {isLocating ? <Loader2 className="w-4 h-4 mr-1.5 animate-spin" /> : <MapPinned className="w-4 h-4 mr-1.5" />}
+                Show on Map
+              </Button>
+            ) : (
+              <p className="text-xs text-gray-500">
+                Click the map to add points and drag them to adjust. Leave the km range blank to measure it
+                from the road.
+              </p>
+            )}
+
+            <div className="space-y-2">
+              <Label htmlFor="segmentRoadName">Road Name</Label>
+              <Input
+                id="segmentRoadName"
+                placeholder="e.g., Colombo - Ratnapura Road"
+                value={roadName}
+                onChange={(e) => setRoadName(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="segmentReason">Reason</Label>
+              <Textarea
+                id="segmentReason"
+                placeholder="e.g., Earth slip at km 112"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+
+            {error && <p className="text-sm text-red-600">{error}</p>}
+          </div>
+
+          {/* Map */}
+          <div className="flex-1 relative min-h-[300px]">
+            <MapContainer center={[center.lat, center.lng]} zoom={15} className="h-full w-full" scrollWheelZoom={true}>
+              <TileLayer
+                attribution='&copy; <a href="https://carto.com/">CARTO</a>'
+                url="https://{s}.basemaps.cartocdn.com/rastertiles/voyager/{z}/{x}/{y}{r}.png"
+              />
+              <FitToPath path={path} version={pathVersion} />
+
+              {path.length >= 2 && (
+                <Polyline positions={path.map((p) => [p.lat, p.lng])} pathOptions={{ color: "#DC2626", weight: 6 }} />
+              )}
+
+              {mode === "draw" && (
+                <>
+                  <DrawHandler onAdd={(latlng) => setPath([...path, { lat: latlng.lat, lng: latlng.lng }])} />
+                  {path.map((point, index) => (
+                    <Marker
+                      key={index}
+                      position={[point.lat, point.lng]}
+                      icon={vertexIcon}
+                      draggable={true}
+                      eventHandlers={{
+                        dragend: (e) => {
+                          const { lat, lng } = e.target.getLatLng();
+                          setPath(path.map((p, i) => (i === index ? { lat, lng } : p)));
+                        },
+                      }}
+                    />
+                  ))}
+                </>
+              )}
+            </MapContainer>
+
+            {mode === "draw" && (
+              <div className="absolute top-4 right-4 z-[1000] flex gap-2">
+                <Button size="sm" variant="secondary" onClick={() => setPath(path.slice(0, -1))} disabled={path.length === 0}>
+                  <Undo2 className="w-4 h-4 mr-1" />
+                  Undo
+                </Button>
+                <Button size="sm" variant="secondary" onClick={() => setPath([])} disabled={path.length === 0}>
+                  <Eraser className="w-4 h-4 mr-1" />
+                  Clear
+                </Button>
+                <Button size="sm" variant="secondary" onClick={handleSnap} disabled={path.length < 2 || isLocating}>
+                  {isLocating ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Magnet className="w-4 h-4 mr-1" />}
+                  Snap to Road
+                </Button>
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Footer Actions */}
+        <div className="px-6 py-4 border-t flex justify-between items-center">
+          <div className="text-xs text-gray-500">
+            {path.length >= 2 ? `${path.length} points` : "No path yet"}
+          </div>
+          <div className="flex gap-3">
+            <Button variant="outline" onClick={() => onOpenChange(false)} disabled={isSaving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={!canSave || isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-1.5 animate-spin" />}
+              Save Segment
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
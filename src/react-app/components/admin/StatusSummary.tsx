@@ -4,8 +4,10 @@ interface StatusCounts {
   new: number;
   verified: number;
   in_progress: number;
+  linked_to_project: number;
   resolved: number;
   rejected: number;
+  merged: number;
 }
 
 interface StatusSummaryProps {
@@ -18,8 +20,10 @@ const statusConfig = [
   { key: "new", dotClass: "bg-red-500", activeClass: "ring-red-500" },
   { key: "verified", dotClass: "bg-green-500", activeClass: "ring-green-500" },
   { key: "in_progress", dotClass: "bg-yellow-500", activeClass: "ring-yellow-500" },
+  { key: "linked_to_project", dotClass: "bg-violet-500", activeClass: "ring-violet-500" },
   { key: "resolved", dotClass: "bg-gray-500", activeClass: "ring-gray-500" },
   { key: "rejected", dotClass: "bg-red-400", activeClass: "ring-red-400" },
+  { key: "merged", dotClass: "bg-slate-400", activeClass: "ring-slate-400" },
 ];
 
 export function StatusSummary({ counts, selectedStatus, onStatusClick }: StatusSummaryProps) {
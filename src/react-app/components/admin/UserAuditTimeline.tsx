@@ -1,5 +1,5 @@
 import { formatDistanceToNow, format } from "date-fns";
-import { User, Clock, ArrowRight, Building2, Mail, Shield, UserPlus, UserMinus } from "lucide-react";
+import { User, Clock, ArrowRight, Building2, Mail, Shield, ShieldAlert, UserPlus, UserMinus } from "lucide-react";
 import clsx from "clsx";
 
 interface UserAuditEntry {
@@ -31,6 +31,8 @@ const FIELD_LABELS: Record<string, string> = {
   status: "Status",
   assignment: "Organization",
   isPrimary: "Primary Organization",
+  provinceScope: "Province Scope",
+  districtScope: "District Scope",
 };
 
 const ROLE_LABELS: Record<string, string> = {
@@ -77,6 +79,9 @@ function formatValue(fieldName: string, value: string | null): string {
   if (fieldName === "assignment") {
     return value === "created" ? "Assigned" : value === "removed" ? "Removed" : value;
   }
+  if (fieldName === "provinceScope" || fieldName === "districtScope") {
+    return value.replace(/-/g, " ").replace(/\b\w/g, (l) => l.toUpperCase());
+  }
 
   return value;
 }
@@ -179,6 +184,14 @@ function getEntryDescription(entry: UserAuditEntry): { action: string; detail: s
     }
   }
 
+  if (entry.targetType === "user" && entry.fieldName === "scopeDenied") {
+    return {
+      action: "was denied access to",
+      detail: `${entry.newValue || "a report"} (outside assigned area)`,
+      icon: ShieldAlert,
+    };
+  }
+
   if (entry.targetType === "user") {
     return {
       action: `${FIELD_LABELS[entry.fieldName] || entry.fieldName} changed`,
@@ -210,7 +223,7 @@ export function UserAuditTimeline({ entries, userCreatedAt }: UserAuditTimelineP
       {sortedEntries.map((entry, index) => {
         const date = new Date(entry.createdAt);
         const { action, detail, icon: Icon } = getEntryDescription(entry);
-        const showValueChange = entry.targetType === "user" && entry.oldValue !== null;
+        const showValueChange = entry.targetType === "user" && entry.oldValue !== null && entry.fieldName !== "scopeDenied";
 
         return (
           <div key={entry.id} className="relative pl-6">
@@ -1,3 +1,4 @@
+import { useEffect, useState } from "react";
 import { Link, useLocation } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import {
@@ -9,6 +10,16 @@ import {
   MapPin,
   Users,
   MapPinOff,
+  FolderKanban,
+  SlidersHorizontal,
+  ShieldBan,
+  FileSpreadsheet,
+  Bell,
+  BellOff,
+  BellRing,
+  Webhook,
+  MailWarning,
+  UserCircle,
 } from "lucide-react";
 
 import { useAuthStore } from "@/stores/auth";
@@ -50,6 +61,11 @@ const platformItems: NavItem[] = [
     url: "/",
     icon: Home,
   },
+  {
+    titleKey: "nav.roadAlerts",
+    url: "/watch",
+    icon: BellRing,
+  },
 ];
 
 const adminItems: NavItem[] = [
@@ -65,12 +81,48 @@ const adminItems: NavItem[] = [
     icon: MapPinOff,
     roles: ["field_officer", "planner", "admin", "super_admin"],
   },
+  {
+    titleKey: "nav.projects",
+    url: "/projects",
+    icon: FolderKanban,
+    roles: ["planner", "admin", "super_admin", "stakeholder"],
+  },
   {
     titleKey: "nav.userManagement",
     url: "/admin/users",
     icon: Users,
     roles: ["super_admin"],
   },
+  {
+    titleKey: "nav.priorityWeights",
+    url: "/admin/priority",
+    icon: SlidersHorizontal,
+    roles: ["super_admin"],
+  },
+  {
+    titleKey: "nav.rateLimits",
+    url: "/admin/rate-limits",
+    icon: ShieldBan,
+    roles: ["admin", "super_admin"],
+  },
+  {
+    titleKey: "nav.closureImport",
+    url: "/admin/closures/import",
+    icon: FileSpreadsheet,
+    roles: ["admin", "super_admin"],
+  },
+  {
+    titleKey: "nav.webhooks",
+    url: "/admin/webhooks",
+    icon: Webhook,
+    roles: ["admin", "super_admin"],
+  },
+  {
+    titleKey: "nav.emailOutbox",
+    url: "/admin/emails",
+    icon: MailWarning,
+    roles: ["admin", "super_admin"],
+  },
 ];
 
 export function AppSidebar() {
@@ -79,6 +131,34 @@ export function AppSidebar() {
   const location = useLocation();
   const userRole = user?.role || "citizen";
   const { isMobile, setOpenMobile } = useSidebar();
+  // Whether the user is emailed when reports they submitted change status
+  const [statusEmails, setStatusEmails] = useState<boolean | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+    fetch("/api/v1/notifications/preferences", { credentials: "include" })
+      .then((response) => (response.ok ? (response.json() as Promise<{ statusEmails: boolean }>) : null))
+      .then((data) => setStatusEmails(data ? data.statusEmails : null))
+      .catch((err) => console.error("Failed to load notification preferences:", err));
+  }, [user]);
+
+  const toggleStatusEmails = async () => {
+    if (statusEmails === null) return;
+    const next = !statusEmails;
+    setStatusEmails(next);
+    try {
+      const response = await fetch("/api/v1/notifications/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ statusEmails: next }),
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to update notification preferences");
+    } catch (err) {
+      console.error(err);
+      setStatusEmails(!next);
+    }
+  };
 
   const handleLogout = async () => {
     await logout();
@@ -237,6 +317,26 @@ export function AppSidebar() {
                       {t("nav.role")}: <span className="capitalize">{userRole.replace("_", " ")}</span>
                     </div>
                   </SidebarMenuSubItem>
+                  {userRole !== "citizen" && (
+                    <SidebarMenuSubItem>
+                      <SidebarMenuSubButton asChild isActive={location.pathname === "/profile"}>
+                        <Link to="/profile" onClick={handleLinkClick}>
+                          <UserCircle className="size-4" />
+                          <span>{t("nav.profile")}</span>
+                        </Link>
+                      </SidebarMenuSubButton>
+                    </SidebarMenuSubItem>
+                  )}
+                  {statusEmails !== null && (
+                    <SidebarMenuSubItem>
+                      <SidebarMenuSubButton asChild>
+                        <button onClick={toggleStatusEmails} className="w-full" aria-pressed={statusEmails}>
+                          {statusEmails ? <Bell className="size-4" /> : <BellOff className="size-4" />}
+                          <span>{statusEmails ? t("nav.statusEmailsOn") : t("nav.statusEmailsOff")}</span>
+                        </button>
+                      </SidebarMenuSubButton>
+                    </SidebarMenuSubItem>
+                  )}
                   <SidebarMenuSubItem>
                     <SidebarMenuSubButton asChild>
                       <button
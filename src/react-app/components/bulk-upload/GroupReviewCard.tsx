@@ -69,81 +69,6 @@ export function GroupReviewCard({
     setIsLocationPickerOpen(false);
   };
 
-  // Import the SelectedRoad type from bulkUpload store
-  type SelectedRoadType = NonNullable<BulkIncident["selectedRoad"]>;
-
-  // Try to detect road number from road name string and fetch full road info
-  const detectRoadAndFetchInfo = async (roadName: string): Promise<{ roadNumberInput: string; selectedRoad: SelectedRoadType | null } | null> => {
-    // First, try to extract road number directly from the name
-    // Patterns: "A1", "B234", "A 1", "Colombo - Kandy Road (A1)"
-    const patterns = [
-      /\b([ABCDE]\d+)\b/i,                    // A1, B234
-      /\b([ABCDE])\s*-?\s*(\d+)\b/i,          // A-1, A 1
-      /\(([ABCDE]\d+)\)/i,                     // (A1)
-    ];
-
-    let detectedRoadNumber: string | null = null;
-
-    for (const pattern of patterns) {
-      const match = roadName.match(pattern);
-      if (match) {
-        detectedRoadNumber = match[1].toUpperCase() + (match[2] || "");
-        break;
-      }
-    }
-
-    // If no direct match from name, try searching our roads database by keywords
-    if (!detectedRoadNumber) {
-      const keywords = roadName
-        .replace(/road|street|mawatha|lane|avenue/gi, "")
-        .trim()
-        .split(/[\s,\-]+/)
-        .filter((k) => k.length > 2);
-
-      if (keywords.length > 0) {
-        try {
-          const searchTerm = keywords.slice(0, 2).join(" ");
-          const response = await fetch(`/api/v1/roads/suggest?q=${encodeURIComponent(searchTerm)}&limit=1`);
-          if (response.ok) {
-            const results = await response.json() as Array<{ id: string; roadNumber: string; roadClass: string; name: string | null }>;
-            if (results.length > 0) {
-              // We got a full road result from keyword search
-              return {
-                roadNumberInput: results[0].roadNumber,
-                selectedRoad: results[0],
-              };
-            }
-          }
-        } catch {
-          // Ignore search errors
-        }
-      }
-      return null;
-    }
-
-    // We have a road number - now fetch the full road info
-    try {
-      const response = await fetch(`/api/v1/roads/suggest?q=${encodeURIComponent(detectedRoadNumber)}&limit=1`);
-      if (response.ok) {
-        const results = await response.json() as Array<{ id: string; roadNumber: string; roadClass: string; name: string | null }>;
-        if (results.length > 0 && results[0].roadNumber.toUpperCase() === detectedRoadNumber.toUpperCase()) {
-          return {
-            roadNumberInput: results[0].roadNumber,
-            selectedRoad: results[0],
-          };
-        }
-      }
-    } catch {
-      // Ignore fetch errors
-    }
-
-    // Return just the road number without full road info
-    return {
-      roadNumberInput: detectedRoadNumber,
-      selectedRoad: null,
-    };
-  };
-
   // Auto-detect province, location, and road on mount
   useEffect(() => {
     if (incident.province || incident.locationName) return;
@@ -159,82 +84,64 @@ export function GroupReviewCard({
     }
 
     // Fetch reverse geocoding
-    interface NominatimAddress {
-      road?: string;
-      neighbourhood?: string;
-      suburb?: string;
-      village?: string;
-      town?: string;
-      county?: string;
-      state_district?: string;
-      city?: string;
+    interface ReverseGeocodeResponse {
+      road: { id: string; roadNumber: string; roadClass: string; name: { en: string } } | null;
+      city: { name: { en: string } } | null;
+      district: { name: { en: string } } | null;
+      locationName: string | null;
     }
 
     setIsLoadingLocation(true);
-    fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${incident.centroid.latitude}&lon=${incident.centroid.longitude}&zoom=16&addressdetails=1`,
-      {
-        headers: {
-          "User-Agent": "SriLankaRoadStatus/1.0",
-          "Accept-Language": "en",
-        },
-      }
-    )
-      .then((res) => res.json() as Promise<{ address?: NominatimAddress }>)
-      .then(async (data) => {
-        if (data.address) {
-          const addr = data.address;
-          const parts: string[] = [];
-          if (addr.road) parts.push(addr.road);
-          const area =
-            addr.neighbourhood || addr.suburb || addr.village || addr.town;
-          if (area && !parts.includes(area)) parts.push(area);
-          if (parts.length > 0) {
-            onUpdateRef.current({ locationName: parts.join(", ") });
-          }
+    fetch(`/api/v1/map/reverse-geocode?lat=${incident.centroid.latitude}&lng=${incident.centroid.longitude}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Reverse geocoding returned ${res.status}`);
+        return res.json() as Promise<ReverseGeocodeResponse>;
+      })
+      .then((data) => {
+        if (data.locationName) {
+          onUpdateRef.current({ locationName: data.locationName });
+        }
 
-          // Try to detect road number and get full road info from the road name
-          if (addr.road && !incident.roadNumberInput && !incident.selectedRoad) {
-            const roadInfo = await detectRoadAndFetchInfo(addr.road);
-            if (roadInfo) {
-              onUpdateRef.current({
-                roadNumberInput: roadInfo.roadNumberInput,
-                selectedRoad: roadInfo.selectedRoad,
-              });
-            }
-          }
+        // Use the nearest numbered road unless one was already entered
+        if (data.road && !incident.roadNumberInput && !incident.selectedRoad) {
+          onUpdateRef.current({
+            roadNumberInput: data.road.roadNumber,
+            selectedRoad: {
+              id: data.road.id,
+              roadNumber: data.road.roadNumber,
+              roadClass: data.road.roadClass,
+              name: data.road.name.en,
+            },
+          });
+        }
 
-          // Try to detect district from multiple address fields
-          if (detected) {
-            const districts = getDistrictsForProvince(detected.id);
-            const possibleDistrictNames = [
-              addr.county,
-              addr.state_district,
-              addr.city,
-              addr.town,
-            ].filter((n): n is string => !!n);
-
-            for (const rawName of possibleDistrictNames) {
-              // Normalize: remove "District" suffix and extra whitespace
-              const normalized = rawName
-                .toLowerCase()
-                .replace(/\s*district\s*/gi, "")
-                .trim();
-
-              // Try flexible matching
-              const matchedDistrict = districts.find((d) => {
-                const dName = d.name.toLowerCase();
-                return (
-                  dName === normalized ||
-                  dName.includes(normalized) ||
-                  normalized.includes(dName)
-                );
-              });
-
-              if (matchedDistrict) {
-                onUpdateRef.current({ district: matchedDistrict.id });
-                break;
-              }
+        // Try to match the district by name
+        if (detected) {
+          const districts = getDistrictsForProvince(detected.id);
+          const possibleDistrictNames = [data.district?.name.en, data.city?.name.en].filter(
+            (n): n is string => !!n
+          );
+
+          for (const rawName of possibleDistrictNames) {
+            // Normalize: remove "District" suffix and extra whitespace
+            const normalized = rawName
+              .toLowerCase()
+              .replace(/\s*district\s*/gi, "")
+              .trim();
+
+            // Try flexible matching
+            const matchedDistrict = districts.find((d) => {
+              const dName = d.name.toLowerCase();
+              return (
+                dName === normalized ||
+                dName.includes(normalized) ||
+                normalized.includes(dName)
+              );
+            });
+
+            if (matchedDistrict) {
+              onUpdateRef.current({ district: matchedDistrict.id });
+              break;
             }
           }
         }
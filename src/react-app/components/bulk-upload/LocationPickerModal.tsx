@@ -61,20 +61,22 @@ function createPinIcon(isPlaced: boolean = false): DivIcon {
   });
 }
 
-interface NominatimResult {
-  lat: string;
-  lon: string;
-  display_name: string;
-  address?: {
-    road?: string;
-    city?: string;
-    town?: string;
-    village?: string;
-    state?: string;
-    country?: string;
-  };
+interface LocationSearchResult {
+  id: string;
+  level: string;
+  nameEn: string;
+  centroidLat: number;
+  centroidLng: number;
 }
 
+const LEVEL_LABELS: Record<string, string> = {
+  province: "Province",
+  district: "District",
+  city: "City",
+  ds_division: "DS division",
+  gn_division: "GN division",
+};
+
 // Component to handle map click events
 function MapClickHandler({
   onLocationSelect,
@@ -145,7 +147,7 @@ export function LocationPickerModal({
   const [address, setAddress] = useState<string>("");
   const [isLoadingAddress, setIsLoadingAddress] = useState(false);
   const [searchQuery, setSearchQuery] = useState("");
-  const [searchResults, setSearchResults] = useState<NominatimResult[]>([]);
+  const [searchResults, setSearchResults] = useState<LocationSearchResult[]>([]);
   const [isSearching, setIsSearching] = useState(false);
   const [mapCenter, setMapCenter] = useState<[number, number] | null>(null);
   const [mapZoom, setMapZoom] = useState<number | null>(null);
@@ -191,19 +193,14 @@ export function LocationPickerModal({
 
       // Reverse geocode to get address
       setIsLoadingAddress(true);
-      fetch(
-        `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latlng.lat}&lon=${latlng.lng}&zoom=18&addressdetails=1`,
-        {
-          headers: {
-            "User-Agent": "SriLankaRoadStatus/1.0",
-            "Accept-Language": "en",
-          },
-        }
-      )
-        .then((res) => res.json() as Promise<{ display_name?: string }>)
+      fetch(`/api/v1/map/reverse-geocode?lat=${latlng.lat}&lng=${latlng.lng}`)
+        .then((res) => {
+          if (!res.ok) throw new Error(`Reverse geocoding returned ${res.status}`);
+          return res.json() as Promise<{ locationName: string | null }>;
+        })
         .then((data) => {
-          if (data.display_name) {
-            setAddress(data.display_name);
+          if (data.locationName) {
+            setAddress(data.locationName);
           }
         })
         .catch((err) => {
@@ -231,16 +228,11 @@ export function LocationPickerModal({
 
     searchTimeoutRef.current = setTimeout(() => {
       setIsSearching(true);
-      fetch(
-        `https://nominatim.openstreetmap.org/search?format=json&q=${encodeURIComponent(query)}&countrycodes=lk&limit=5`,
-        {
-          headers: {
-            "User-Agent": "SriLankaRoadStatus/1.0",
-            "Accept-Language": "en",
-          },
-        }
-      )
-        .then((res) => res.json() as Promise<NominatimResult[]>)
+      fetch(`/api/v1/locations?q=${encodeURIComponent(query)}`)
+        .then((res) => {
+          if (!res.ok) throw new Error(`Location search returned ${res.status}`);
+          return res.json() as Promise<LocationSearchResult[]>;
+        })
         .then((data) => {
           setSearchResults(data);
         })
@@ -255,19 +247,19 @@ export function LocationPickerModal({
   }, []);
 
   // Handle search result selection
-  const handleSearchResultSelect = useCallback((result: NominatimResult) => {
-    const lat = parseFloat(result.lat);
-    const lng = parseFloat(result.lon);
+  const handleSearchResultSelect = useCallback((result: LocationSearchResult) => {
+    const lat = result.centroidLat;
+    const lng = result.centroidLng;
 
     setMapCenter([lat, lng]);
     setMapZoom(17);
     setSearchResults([]);
-    setSearchQuery(result.display_name.split(",")[0]); // Show short name
+    setSearchQuery(result.nameEn);
 
     // Auto-place marker at search result
     const latlng = new LatLng(lat, lng);
     setSelectedPosition(latlng);
-    setAddress(result.display_name);
+    setAddress(result.nameEn);
     setValidationError(null);
   }, []);
 
@@ -332,14 +324,15 @@ export function LocationPickerModal({
             {/* Search Results Dropdown */}
             {searchResults.length > 0 && (
               <div className="absolute z-[1001] mt-1 w-[calc(100%-3rem)] bg-white dark:bg-gray-800 rounded-lg shadow-lg border max-h-48 overflow-auto">
-                {searchResults.map((result, index) => (
+                {searchResults.map((result) => (
                   <button
-                    key={index}
+                    key={result.id}
                     type="button"
                     className="w-full text-left px-4 py-2 hover:bg-gray-100 dark:hover:bg-gray-700 text-sm"
                     onClick={() => handleSearchResultSelect(result)}
                   >
-                    {result.display_name}
+                    {result.nameEn}
+                    <span className="ml-2 text-xs text-gray-500">{LEVEL_LABELS[result.level] || result.level}</span>
                   </button>
                 ))}
               </div>
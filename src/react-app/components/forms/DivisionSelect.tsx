@@ -0,0 +1,84 @@
+import { useTranslation } from "react-i18next";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useLocationChildren, useLocationName } from "@/hooks/useLocationChildren";
+
+interface DivisionSelectProps {
+  districtId: string | null;
+  dsDivisionId: string | null;
+  gnDivisionId: string | null;
+  onDsDivisionChange: (id: string | null) => void;
+  onGnDivisionChange: (id: string | null) => void;
+}
+
+/**
+ * DS and GN division pickers below a district. Renders nothing for districts whose
+ * divisions haven't been imported.
+ */
+export function DivisionSelect({
+  districtId,
+  dsDivisionId,
+  gnDivisionId,
+  onDsDivisionChange,
+  onGnDivisionChange,
+}: DivisionSelectProps) {
+  const { t } = useTranslation();
+  const locationName = useLocationName();
+  const { children: dsDivisions } = useLocationChildren(districtId);
+  const { children: gnDivisions, isLoading: isLoadingGn } = useLocationChildren(dsDivisionId);
+
+  if (dsDivisions.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-2 gap-3">
+      <div className="space-y-2">
+        <Label htmlFor="dsDivision">{t("report:location.dsDivision")}</Label>
+        <Select
+          value={dsDivisionId || ""}
+          onValueChange={(value) => onDsDivisionChange(value || null)}
+        >
+          <SelectTrigger id="dsDivision">
+            <SelectValue placeholder={t("report:location.selectDsDivision")} />
+          </SelectTrigger>
+          <SelectContent>
+            {dsDivisions.map((ds) => (
+              <SelectItem key={ds.id} value={ds.id}>
+                {locationName(ds)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="gnDivision">{t("report:location.gnDivision")}</Label>
+        <Select
+          value={gnDivisionId || ""}
+          onValueChange={(value) => onGnDivisionChange(value || null)}
+          disabled={!dsDivisionId || isLoadingGn || gnDivisions.length === 0}
+        >
+          <SelectTrigger id="gnDivision">
+            <SelectValue
+              placeholder={
+                dsDivisionId ? t("report:location.selectGnDivision") : t("report:location.selectDsDivisionFirst")
+              }
+            />
+          </SelectTrigger>
+          <SelectContent>
+            {gnDivisions.map((gn) => (
+              <SelectItem key={gn.id} value={gn.id}>
+                {locationName(gn)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+}
@@ -13,6 +13,7 @@ import {
   LayoutDashboard,
   FolderKanban,
   Shield,
+  BellRing,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuthStore } from "@/stores/auth";
@@ -46,6 +47,11 @@ const navItems: NavItem[] = [
     href: "/reports",
     icon: <FileText className="h-4 w-4" />,
   },
+  {
+    label: "Road Alerts",
+    href: "/watch",
+    icon: <BellRing className="h-4 w-4" />,
+  },
   {
     label: "Dashboard",
     href: "/dashboard",
@@ -8,6 +8,10 @@ import { Breadcrumb, BreadcrumbItem, BreadcrumbLink, BreadcrumbList, BreadcrumbP
 import { useLocation, useNavigate } from "react-router-dom";
 import { LanguageSwitcher } from "@/components/LanguageSwitcher";
 import { ThemeToggle } from "@/components/ThemeToggle";
+import { ReportSearch } from "@/components/admin/ReportSearch";
+
+// Roles that can open reports in Admin Reports, and so use the header report search
+const REPORT_SEARCH_ROLES = ["field_officer", "planner", "admin", "super_admin"];
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -16,6 +20,7 @@ interface LayoutProps {
 // Separate component to access sidebar context
 function SidebarContent({ children }: { children: React.ReactNode }) {
   const { state, isMobile, openMobile } = useSidebar();
+  const { user } = useAuthStore();
   const location = useLocation();
   const navigate = useNavigate();
   const isCollapsed = state === "collapsed";
@@ -70,8 +75,13 @@ function SidebarContent({ children }: { children: React.ReactNode }) {
               Sri Lanka Road Status
             </span>
           )}
-          {/* Right side: Theme toggle and Language switcher */}
+          {/* Right side: Report search, theme toggle and language switcher */}
           <div className="ml-auto flex items-center gap-2">
+            {user && REPORT_SEARCH_ROLES.includes(user.role) && (
+              <div className="hidden md:block">
+                <ReportSearch />
+              </div>
+            )}
             <ThemeToggle />
             <LanguageSwitcher />
           </div>
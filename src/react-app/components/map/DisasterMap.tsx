@@ -11,6 +11,7 @@ import { DivIcon, LatLngExpression } from "leaflet";
 import "leaflet/dist/leaflet.css";
 import { MapLegend } from "./MapLegend";
 import { IncidentPopupPhotos } from "./IncidentPopupPhotos";
+import { IncidentPopupUpdates } from "./IncidentPopupUpdates";
 import { useRoadSegments, ProcessedRoadSegment } from "@/hooks/useRoadSegments";
 import { useCitizenIncidents, ProcessedIncident } from "@/hooks/useCitizenIncidents";
 import { useMapViewStore } from "@/stores/mapView";
@@ -68,6 +69,7 @@ function createDamageIcon(
 const STATUS_COLORS = {
   verified: "#DC2626",    // Red - pending/verified
   in_progress: "#F97316", // Orange - in progress
+  linked_to_project: "#F97316", // Orange - handed over to a rebuild project
   resolved: "#16A34A",    // Green - resolved
   new: "#DC2626",         // Red - new
 };
@@ -365,6 +367,9 @@ export function DisasterMap() {
 
                 {/* Photos */}
                 <IncidentPopupPhotos reportId={incident.id} />
+
+                {/* Public updates from officials */}
+                <IncidentPopupUpdates reportId={incident.id} />
               </div>
             </Popup>
           </Marker>
@@ -0,0 +1,83 @@
+import { useState, useEffect } from "react";
+import { Loader2, Megaphone } from "lucide-react";
+
+interface PublicUpdate {
+  id: string;
+  parentId: string | null;
+  content: string;
+  createdAt: string;
+  authorName: string | null;
+}
+
+interface IncidentPopupUpdatesProps {
+  reportId: string;
+}
+
+// Number of most recent updates shown in the popup
+const MAX_UPDATES = 3;
+
+export function IncidentPopupUpdates({ reportId }: IncidentPopupUpdatesProps) {
+  const [updates, setUpdates] = useState<PublicUpdate[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchUpdates() {
+      try {
+        // Always request the public view, even when an official is signed in
+        const res = await fetch(`/api/v1/comments?reportId=${reportId}`, { credentials: "omit" });
+        if (!res.ok) return;
+        const data = await res.json() as { comments: PublicUpdate[] };
+        if (!cancelled) {
+          setUpdates(data.comments.slice(-MAX_UPDATES).reverse());
+        }
+      } catch (err) {
+        console.error("Failed to load updates:", err);
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false);
+        }
+      }
+    }
+
+    fetchUpdates();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [reportId]);
+
+  if (isLoading) {
+    return (
+      <div className="mt-2 flex items-center gap-1 text-xs text-gray-400">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        <span>Loading updates...</span>
+      </div>
+    );
+  }
+
+  if (updates.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="mt-2 border-t border-gray-100 pt-2">
+      <div className="mb-1 flex items-center gap-1 text-xs text-gray-500">
+        <Megaphone className="h-3 w-3" />
+        <span>Latest updates</span>
+      </div>
+      <ul className="space-y-1.5">
+        {updates.map((update) => (
+          <li key={update.id} className="text-xs">
+            <p className="whitespace-pre-wrap text-gray-700">{update.content}</p>
+            <p className="text-gray-400">
+              {update.authorName ? `${update.authorName} · ` : ""}
+              {new Date(update.createdAt).toLocaleDateString()}
+            </p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,346 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+import { PROJECT_STATUSES, projectStatusLabels } from "./projectStatus";
+
+export interface ProjectFormValues {
+  id?: string;
+  name: string;
+  description: string | null;
+  ownerDepartment: string | null;
+  status: string;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  actualStart: string | null;
+  actualEnd: string | null;
+  progressPercent: number | null;
+  fundingSource: string | null;
+  estimatedBudget: number | null;
+  actualExpenditure: number | null;
+  contractorInfo: { name?: string; contactPerson?: string; phone?: string } | null;
+}
+
+interface ProjectFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // When set, the dialog edits this project; otherwise it creates a new one
+  project?: ProjectFormValues | null;
+  // Progress is calculated from milestones when the project has any
+  progressLocked?: boolean;
+  onSaved: (project: { id: string }) => void;
+}
+
+// Empty string inputs are sent as null so the API clears the field
+const toNullable = (value: string) => (value.trim() === "" ? null : value.trim());
+const toNumber = (value: string) => (value.trim() === "" ? null : Number(value));
+
+export function ProjectFormDialog({ open, onOpenChange, project, progressLocked, onSaved }: ProjectFormDialogProps) {
+  const isEdit = Boolean(project?.id);
+
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [ownerDepartment, setOwnerDepartment] = useState("");
+  const [status, setStatus] = useState("planned");
+  const [plannedStart, setPlannedStart] = useState("");
+  const [plannedEnd, setPlannedEnd] = useState("");
+  const [actualStart, setActualStart] = useState("");
+  const [actualEnd, setActualEnd] = useState("");
+  const [progressPercent, setProgressPercent] = useState("");
+  const [fundingSource, setFundingSource] = useState("");
+  const [estimatedBudget, setEstimatedBudget] = useState("");
+  const [actualExpenditure, setActualExpenditure] = useState("");
+  const [contractorName, setContractorName] = useState("");
+  const [contractorContact, setContractorContact] = useState("");
+  const [contractorPhone, setContractorPhone] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset form whenever the dialog opens
+  useEffect(() => {
+    if (!open) return;
+    setName(project?.name || "");
+    setDescription(project?.description || "");
+    setOwnerDepartment(project?.ownerDepartment || "");
+    setStatus(project?.status || "planned");
+    setPlannedStart(project?.plannedStart || "");
+    setPlannedEnd(project?.plannedEnd || "");
+    setActualStart(project?.actualStart || "");
+    setActualEnd(project?.actualEnd || "");
+    setProgressPercent(project?.progressPercent != null ? String(project.progressPercent) : "");
+    setFundingSource(project?.fundingSource || "");
+    setEstimatedBudget(project?.estimatedBudget != null ? String(project.estimatedBudget) : "");
+    setActualExpenditure(project?.actualExpenditure != null ? String(project.actualExpenditure) : "");
+    setContractorName(project?.contractorInfo?.name || "");
+    setContractorContact(project?.contractorInfo?.contactPerson || "");
+    setContractorPhone(project?.contractorInfo?.phone || "");
+    setError(null);
+  }, [open, project]);
+
+  const handleSubmit = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setError(null);
+
+    const contractorInfo =
+      contractorName || contractorContact || contractorPhone
+        ? {
+            name: toNullable(contractorName) || undefined,
+            contactPerson: toNullable(contractorContact) || undefined,
+            phone: toNullable(contractorPhone) || undefined,
+          }
+        : null;
+
+    const body: Record<string, unknown> = {
+      name: name.trim(),
+      description: toNullable(description),
+      ownerDepartment: toNullable(ownerDepartment),
+      status,
+      plannedStart: toNullable(plannedStart),
+      plannedEnd: toNullable(plannedEnd),
+      fundingSource: toNullable(fundingSource),
+      estimatedBudget: toNumber(estimatedBudget),
+      contractorInfo,
+    };
+    if (isEdit) {
+      body.actualStart = toNullable(actualStart);
+      body.actualEnd = toNullable(actualEnd);
+      body.actualExpenditure = toNumber(actualExpenditure);
+      if (!progressLocked && progressPercent.trim() !== "") {
+        body.progressPercent = Number(progressPercent);
+      }
+    }
+
+    try {
+      const response = await fetch(isEdit ? `/api/v1/projects/${project!.id}` : "/api/v1/projects", {
+        method: isEdit ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(body),
+        credentials: "include",
+      });
+      const data = await response.json() as { error?: string; project?: { id: string } };
+      if (!response.ok || !data.project) {
+        throw new Error(data.error || "Failed to save project");
+      }
+      onOpenChange(false);
+      onSaved(data.project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save project");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{isEdit ? "Edit Project" : "New Project"}</DialogTitle>
+          <DialogDescription>
+            {isEdit
+              ? "Update project details. All changes are recorded in the audit trail."
+              : "A project code will be generated automatically."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-4 py-2">
+          <div className="space-y-2">
+            <Label htmlFor="project-name">Project Name</Label>
+            <Input
+              id="project-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. A1 Highway Repair - Colombo Section"
+              maxLength={200}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="project-description">Description</Label>
+            <Textarea
+              id="project-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="project-department">Owner Department</Label>
+              <Input
+                id="project-department"
+                value={ownerDepartment}
+                onChange={(e) => setOwnerDepartment(e.target.value)}
+                placeholder="e.g. RDA Western Province"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Status</Label>
+              <Select value={status} onValueChange={setStatus}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PROJECT_STATUSES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {projectStatusLabels[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="project-planned-start">Planned Start</Label>
+              <Input
+                id="project-planned-start"
+                type="date"
+                value={plannedStart}
+                onChange={(e) => setPlannedStart(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-planned-end">Planned End</Label>
+              <Input
+                id="project-planned-end"
+                type="date"
+                value={plannedEnd}
+                onChange={(e) => setPlannedEnd(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isEdit && (
+            <div className="grid gap-4 sm:grid-cols-3">
+              <div className="space-y-2">
+                <Label htmlFor="project-actual-start">Actual Start</Label>
+                <Input
+                  id="project-actual-start"
+                  type="date"
+                  value={actualStart}
+                  onChange={(e) => setActualStart(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="project-actual-end">Actual End</Label>
+                <Input
+                  id="project-actual-end"
+                  type="date"
+                  value={actualEnd}
+                  onChange={(e) => setActualEnd(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="project-progress">Progress (%)</Label>
+                <Input
+                  id="project-progress"
+                  type="number"
+                  min={0}
+                  max={100}
+                  value={progressPercent}
+                  onChange={(e) => setProgressPercent(e.target.value)}
+                  disabled={progressLocked}
+                  title={progressLocked ? "Calculated from completed milestones" : undefined}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-2">
+            <div className="space-y-2">
+              <Label htmlFor="project-funding">Funding Source</Label>
+              <Input
+                id="project-funding"
+                value={fundingSource}
+                onChange={(e) => setFundingSource(e.target.value)}
+                placeholder="e.g. Treasury, World Bank"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-budget">Estimated Budget (LKR)</Label>
+              <Input
+                id="project-budget"
+                type="number"
+                min={0}
+                value={estimatedBudget}
+                onChange={(e) => setEstimatedBudget(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {isEdit && (
+            <div className="space-y-2">
+              <Label htmlFor="project-expenditure">Actual Expenditure (LKR)</Label>
+              <Input
+                id="project-expenditure"
+                type="number"
+                min={0}
+                value={actualExpenditure}
+                onChange={(e) => setActualExpenditure(e.target.value)}
+              />
+            </div>
+          )}
+
+          <div className="grid gap-4 sm:grid-cols-3">
+            <div className="space-y-2">
+              <Label htmlFor="project-contractor">Contractor</Label>
+              <Input
+                id="project-contractor"
+                value={contractorName}
+                onChange={(e) => setContractorName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-contractor-contact">Contact Person</Label>
+              <Input
+                id="project-contractor-contact"
+                value={contractorContact}
+                onChange={(e) => setContractorContact(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="project-contractor-phone">Contact Phone</Label>
+              <Input
+                id="project-contractor-phone"
+                value={contractorPhone}
+                onChange={(e) => setContractorPhone(e.target.value)}
+              />
+            </div>
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+            Cancel
+          </Button>
+          <Button onClick={handleSubmit} disabled={saving || !name.trim()}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            {isEdit ? "Save Changes" : "Create Project"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,180 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Loader2, MapPin, Unlink } from "lucide-react";
+
+export interface LinkedReport {
+  linkId: string;
+  linkType: string;
+  notes: string | null;
+  linkedAt: string;
+  linkedByName: string | null;
+  id: string;
+  reportNumber: string;
+  damageType: string;
+  severity: number;
+  status: string;
+  locationName: string | null;
+  latitude: number;
+  longitude: number;
+}
+
+const reportStatusLabels: Record<string, string> = {
+  new: "New",
+  verified: "Verified",
+  in_progress: "In Progress",
+  linked_to_project: "Linked to Project",
+  resolved: "Resolved",
+  rejected: "Rejected",
+  merged: "Merged",
+};
+
+const reportStatusColors: Record<string, string> = {
+  new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  verified: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  linked_to_project: "bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-400",
+  resolved: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  rejected: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+  merged: "bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-400",
+};
+
+const linkTypeLabels: Record<string, string> = {
+  primary: "Primary",
+  contributing: "Contributing",
+  related: "Related",
+};
+
+interface ProjectLinkedReportsProps {
+  projectId: string;
+  canEdit: boolean;
+  // Bumped by the parent to refetch after changes made elsewhere (e.g. completing the project)
+  refreshKey?: number;
+  // Called after unlinking so the parent can refresh its linked report count
+  onChanged: () => void;
+}
+
+export function ProjectLinkedReports({ projectId, canEdit, refreshKey, onChanged }: ProjectLinkedReportsProps) {
+  const [reports, setReports] = useState<LinkedReport[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/projects/${projectId}/reports`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch linked reports");
+      }
+      const data = await response.json() as { reports: LinkedReport[] };
+      setReports(data.reports);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load linked reports");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports, refreshKey]);
+
+  const handleUnlink = async (report: LinkedReport) => {
+    if (!confirm(`Unlink ${report.reportNumber} from this project?`)) return;
+    setBusyId(report.linkId);
+    try {
+      const response = await fetch(`/api/v1/projects/${projectId}/reports/${report.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to unlink report");
+      }
+      await fetchReports();
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to unlink report");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-2">
+        <CardTitle className="text-base">Linked Reports</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {!loading && !error && reports.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No reports linked yet. Link reports from the report detail panel in Reports.
+          </p>
+        )}
+
+        {!loading && !error && reports.length > 0 && (
+          <ul className="divide-y dark:divide-gray-800">
+            {reports.map((report) => (
+              <li key={report.linkId} className="flex items-start gap-3 py-3">
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{report.reportNumber}</span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        reportStatusColors[report.status] || reportStatusColors.new
+                      }`}
+                    >
+                      {reportStatusLabels[report.status] || report.status}
+                    </span>
+                    <span className="text-xs text-gray-500">
+                      {linkTypeLabels[report.linkType] || report.linkType}
+                    </span>
+                  </div>
+                  {report.locationName && (
+                    <p className="mt-0.5 flex items-center gap-1 text-xs text-gray-500">
+                      <MapPin className="h-3 w-3" />
+                      {report.locationName}
+                    </p>
+                  )}
+                  {report.notes && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{report.notes}</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => handleUnlink(report)}
+                    disabled={busyId === report.linkId}
+                    title="Unlink"
+                  >
+                    {busyId === report.linkId ? (
+                      <Loader2 className="h-4 w-4 animate-spin" />
+                    ) : (
+                      <Unlink className="h-4 w-4" />
+                    )}
+                  </Button>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,425 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  ArrowDown,
+  ArrowUp,
+  CheckCircle2,
+  Loader2,
+  Pencil,
+  Plus,
+  Trash2,
+} from "lucide-react";
+
+export interface Milestone {
+  id: string;
+  projectId: string;
+  name: string;
+  description: string | null;
+  milestoneType: string | null;
+  targetDate: string | null;
+  actualDate: string | null;
+  status: string;
+  orderIndex: number;
+}
+
+const milestoneStatusLabels: Record<string, string> = {
+  not_started: "Not Started",
+  on_track: "On Track",
+  delayed: "Delayed",
+  completed: "Completed",
+};
+
+const milestoneStatusColors: Record<string, string> = {
+  not_started: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+  on_track: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  delayed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  completed: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+};
+
+const milestoneTypeLabels: Record<string, string> = {
+  project_start: "Project Start",
+  design_complete: "Design Complete",
+  permits_approved: "Permits Approved",
+  construction_start: "Construction Start",
+  halfway_complete: "Halfway Complete",
+  construction_complete: "Construction Complete",
+  inspection_passed: "Inspection Passed",
+  project_delivered: "Project Delivered",
+};
+
+interface ProjectMilestonesProps {
+  projectId: string;
+  canEdit: boolean;
+  // Called after any change that may have recalculated project progress
+  onChanged: () => void;
+}
+
+export function ProjectMilestones({ projectId, canEdit, onChanged }: ProjectMilestonesProps) {
+  const [milestones, setMilestones] = useState<Milestone[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Dialog state (editing === null means "add")
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editing, setEditing] = useState<Milestone | null>(null);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [milestoneType, setMilestoneType] = useState("none");
+  const [targetDate, setTargetDate] = useState("");
+  const [actualDate, setActualDate] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchMilestones = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/projects/${projectId}/milestones`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        throw new Error("Failed to fetch milestones");
+      }
+      const data = await response.json() as { milestones: Milestone[] };
+      setMilestones(data.milestones);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load milestones");
+    } finally {
+      setLoading(false);
+    }
+  }, [projectId]);
+
+  useEffect(() => {
+    fetchMilestones();
+  }, [fetchMilestones]);
+
+  const openDialog = (milestone: Milestone | null) => {
+    setEditing(milestone);
+    setName(milestone?.name || "");
+    setDescription(milestone?.description || "");
+    setMilestoneType(milestone?.milestoneType || "none");
+    setTargetDate(milestone?.targetDate || "");
+    setActualDate(milestone?.actualDate || "");
+    setFormError(null);
+    setDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) return;
+    setSaving(true);
+    setFormError(null);
+    try {
+      const url = editing
+        ? `/api/v1/projects/${projectId}/milestones/${editing.id}`
+        : `/api/v1/projects/${projectId}/milestones`;
+      const response = await fetch(url, {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          name: name.trim(),
+          description: description.trim() || null,
+          milestoneType: milestoneType === "none" ? null : milestoneType,
+          targetDate: targetDate || null,
+          actualDate: actualDate || null,
+        }),
+        credentials: "include",
+      });
+      const data = await response.json() as { error?: string };
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save milestone");
+      }
+      setDialogOpen(false);
+      await fetchMilestones();
+      onChanged();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save milestone");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs a mutation for a single row, then refreshes the list and project
+  const runAction = async (milestoneId: string, request: () => Promise<Response>, failure: string) => {
+    setBusyId(milestoneId);
+    try {
+      const response = await request();
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || failure);
+      }
+      await fetchMilestones();
+      onChanged();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : failure);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleComplete = (milestone: Milestone) =>
+    runAction(
+      milestone.id,
+      () =>
+        fetch(`/api/v1/projects/${projectId}/milestones/${milestone.id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ status: "completed" }),
+          credentials: "include",
+        }),
+      "Failed to complete milestone"
+    );
+
+  const handleDelete = (milestone: Milestone) => {
+    if (!confirm(`Delete milestone "${milestone.name}"?`)) return;
+    runAction(
+      milestone.id,
+      () =>
+        fetch(`/api/v1/projects/${projectId}/milestones/${milestone.id}`, {
+          method: "DELETE",
+          credentials: "include",
+        }),
+      "Failed to delete milestone"
+    );
+  };
+
+  const handleMove = (index: number, direction: -1 | 1) => {
+    const ids = milestones.map((m) => m.id);
+    const target = index + direction;
+    if (target < 0 || target >= ids.length) return;
+    [ids[index], ids[target]] = [ids[target], ids[index]];
+    runAction(
+      milestones[index].id,
+      () =>
+        fetch(`/api/v1/projects/${projectId}/milestones/order`, {
+          method: "PUT",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ milestoneIds: ids }),
+          credentials: "include",
+        }),
+      "Failed to reorder milestones"
+    );
+  };
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between pb-2">
+        <CardTitle className="text-base">Milestones</CardTitle>
+        {canEdit && (
+          <Button size="sm" variant="outline" onClick={() => openDialog(null)}>
+            <Plus className="mr-1 h-4 w-4" />
+            Add
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {loading && (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+          </div>
+        )}
+
+        {!loading && error && (
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        )}
+
+        {!loading && !error && milestones.length === 0 && (
+          <p className="text-sm text-gray-500">
+            No milestones yet. Project progress is calculated from completed milestones once they are added.
+          </p>
+        )}
+
+        {!loading && !error && milestones.length > 0 && (
+          <ol className="divide-y dark:divide-gray-800">
+            {milestones.map((milestone, index) => (
+              <li key={milestone.id} className="flex items-start gap-3 py-3">
+                <span className="mt-0.5 w-5 text-right text-sm text-gray-400">{index + 1}.</span>
+                <div className="min-w-0 flex-1">
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="font-medium">{milestone.name}</span>
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                        milestoneStatusColors[milestone.status] || milestoneStatusColors.not_started
+                      }`}
+                    >
+                      {milestoneStatusLabels[milestone.status] || milestone.status}
+                    </span>
+                    {milestone.milestoneType && (
+                      <span className="text-xs text-gray-500">
+                        {milestoneTypeLabels[milestone.milestoneType] || milestone.milestoneType}
+                      </span>
+                    )}
+                  </div>
+                  <p className="mt-0.5 text-xs text-gray-500">
+                    Target: {milestone.targetDate || "—"}
+                    {milestone.actualDate && <> · Completed: {milestone.actualDate}</>}
+                  </p>
+                  {milestone.description && (
+                    <p className="mt-1 text-sm text-gray-600 dark:text-gray-400">{milestone.description}</p>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex items-center gap-1">
+                    {busyId === milestone.id ? (
+                      <Loader2 className="h-4 w-4 animate-spin text-gray-400" />
+                    ) : (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === 0}
+                          onClick={() => handleMove(index, -1)}
+                          title="Move up"
+                        >
+                          <ArrowUp className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          disabled={index === milestones.length - 1}
+                          onClick={() => handleMove(index, 1)}
+                          title="Move down"
+                        >
+                          <ArrowDown className="h-4 w-4" />
+                        </Button>
+                        {milestone.status !== "completed" && (
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-7 w-7 text-green-600"
+                            onClick={() => handleComplete(milestone)}
+                            title="Mark completed"
+                          >
+                            <CheckCircle2 className="h-4 w-4" />
+                          </Button>
+                        )}
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7"
+                          onClick={() => openDialog(milestone)}
+                          title="Edit"
+                        >
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-7 w-7 text-red-600"
+                          onClick={() => handleDelete(milestone)}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </>
+                    )}
+                  </div>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+
+      <Dialog open={dialogOpen} onOpenChange={setDialogOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Milestone" : "Add Milestone"}</DialogTitle>
+            <DialogDescription>
+              Milestones past their target date without a completion date are marked delayed automatically.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="milestone-name">Name</Label>
+              <Input
+                id="milestone-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                maxLength={200}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Type</Label>
+              <Select value={milestoneType} onValueChange={setMilestoneType}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">None</SelectItem>
+                  {Object.entries(milestoneTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="milestone-target">Target Date</Label>
+                <Input
+                  id="milestone-target"
+                  type="date"
+                  value={targetDate}
+                  onChange={(e) => setTargetDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="milestone-actual">Completed On</Label>
+                <Input
+                  id="milestone-actual"
+                  type="date"
+                  value={actualDate}
+                  onChange={(e) => setActualDate(e.target.value)}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="milestone-description">Description</Label>
+              <Textarea
+                id="milestone-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                rows={2}
+              />
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDialogOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save Changes" : "Add Milestone"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,12 @@
+export { ProjectFormDialog } from "./ProjectFormDialog";
+export type { ProjectFormValues } from "./ProjectFormDialog";
+export { ProjectMilestones } from "./ProjectMilestones";
+export type { Milestone } from "./ProjectMilestones";
+export { ProjectLinkedReports } from "./ProjectLinkedReports";
+export type { LinkedReport } from "./ProjectLinkedReports";
+export {
+  PROJECT_STATUSES,
+  projectStatusLabels,
+  projectStatusColors,
+  formatCurrency,
+} from "./projectStatus";
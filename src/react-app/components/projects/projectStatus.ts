@@ -0,0 +1,43 @@
+// Shared display helpers for rebuild projects
+
+export const PROJECT_STATUSES = [
+  "planned",
+  "design",
+  "tendering",
+  "in_progress",
+  "on_hold",
+  "completed",
+  "cancelled",
+] as const;
+
+export type ProjectStatus = (typeof PROJECT_STATUSES)[number];
+
+export const projectStatusLabels: Record<string, string> = {
+  planned: "Planned",
+  design: "In Design",
+  tendering: "Tendering",
+  in_progress: "In Progress",
+  on_hold: "On Hold",
+  completed: "Completed",
+  cancelled: "Cancelled",
+};
+
+export const projectStatusColors: Record<string, string> = {
+  planned: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
+  design: "bg-purple-100 text-purple-800 dark:bg-purple-900/30 dark:text-purple-400",
+  tendering: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  in_progress: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
+  on_hold: "bg-orange-100 text-orange-800 dark:bg-orange-900/30 dark:text-orange-400",
+  completed: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
+  cancelled: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+};
+
+export function formatCurrency(amount: number | null | undefined): string {
+  if (amount === null || amount === undefined) return "—";
+  return new Intl.NumberFormat("en-LK", {
+    style: "currency",
+    currency: "LKR",
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  }).format(amount);
+}
@@ -0,0 +1,62 @@
+import { useState, useEffect } from "react";
+import { useTranslation } from "react-i18next";
+
+export interface LocationNode {
+  id: string;
+  parentId: string | null;
+  level: string;
+  nameEn: string;
+  nameSi: string | null;
+  nameTa: string | null;
+  centroidLat: number | null;
+  centroidLng: number | null;
+}
+
+/**
+ * Child locations of a location (e.g. a district's DS divisions), loaded from the
+ * hierarchy API. Empty while parentId is null.
+ */
+export function useLocationChildren(parentId: string | null) {
+  const [children, setChildren] = useState<LocationNode[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!parentId) {
+      setChildren([]);
+      return;
+    }
+
+    let cancelled = false;
+    setIsLoading(true);
+    fetch(`/api/v1/locations?parentId=${encodeURIComponent(parentId)}`)
+      .then((res) => (res.ok ? (res.json() as Promise<LocationNode[]>) : []))
+      .then((data) => {
+        if (!cancelled) setChildren(data);
+      })
+      .catch(() => {
+        if (!cancelled) setChildren([]);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [parentId]);
+
+  return { children, isLoading };
+}
+
+/**
+ * Name of a location in the current UI language, falling back to English.
+ */
+export function useLocationName() {
+  const { i18n } = useTranslation();
+
+  return (location: LocationNode) => {
+    if (i18n.language.startsWith("si")) return location.nameSi || location.nameEn;
+    if (i18n.language.startsWith("ta")) return location.nameTa || location.nameEn;
+    return location.nameEn;
+  };
+}
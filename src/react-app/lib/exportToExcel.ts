@@ -71,8 +71,10 @@ const statusLabels: Record<string, string> = {
   new: 'New',
   verified: 'Verified',
   in_progress: 'In Progress',
+  linked_to_project: 'Linked to Project',
   resolved: 'Resolved',
-  rejected: 'Rejected'
+  rejected: 'Rejected',
+  merged: 'Merged'
 };
 
 export function getExportableFields(): ExportField[] {
@@ -0,0 +1,29 @@
+// Mentions are stored in comment text as @[Display Name](userId)
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export type MentionPart =
+  | { type: "text"; text: string }
+  | { type: "mention"; name: string; userId: string };
+
+// Splits comment text into plain text and mention parts for rendering
+export function splitMentions(content: string): MentionPart[] {
+  const parts: MentionPart[] = [];
+  let lastIndex = 0;
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: "text", text: content.slice(lastIndex, index) });
+    }
+    parts.push({ type: "mention", name: match[1], userId: match[2] });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < content.length) {
+    parts.push({ type: "text", text: content.slice(lastIndex) });
+  }
+  return parts;
+}
+
+export function formatMention(name: string, userId: string): string {
+  // Brackets and parentheses would break the markup
+  return `@[${name.replace(/[[\]()]/g, "")}](${userId})`;
+}
@@ -6,29 +6,37 @@ const STATUS_TRANSITIONS: Record<string, Record<string, readonly string[]>> = {
     new: ["verified", "rejected"],
     verified: ["in_progress"],
     in_progress: ["resolved", "verified"],
+    linked_to_project: [],
     resolved: [],
     rejected: [],
+    merged: [],
   },
   planner: {
     new: ["verified", "rejected"],
-    verified: ["in_progress"],
-    in_progress: ["resolved", "verified"],
+    verified: ["in_progress", "linked_to_project"],
+    in_progress: ["resolved", "verified", "linked_to_project"],
+    linked_to_project: ["in_progress", "resolved"],
     resolved: ["in_progress"],
     rejected: ["new"],
+    merged: [],
   },
   admin: {
     new: ["verified", "rejected", "in_progress"],
-    verified: ["in_progress", "rejected", "new"],
-    in_progress: ["resolved", "verified", "rejected"],
+    verified: ["in_progress", "rejected", "new", "linked_to_project"],
+    in_progress: ["resolved", "verified", "rejected", "linked_to_project"],
+    linked_to_project: ["in_progress", "verified", "resolved"],
     resolved: ["in_progress", "verified"],
     rejected: ["new", "verified"],
+    merged: [],
   },
   super_admin: {
-    new: ["verified", "rejected", "in_progress", "resolved"],
-    verified: ["new", "rejected", "in_progress", "resolved"],
-    in_progress: ["new", "verified", "rejected", "resolved"],
-    resolved: ["new", "verified", "in_progress", "rejected"],
-    rejected: ["new", "verified", "in_progress", "resolved"],
+    new: ["verified", "rejected", "in_progress", "resolved", "linked_to_project"],
+    verified: ["new", "rejected", "in_progress", "resolved", "linked_to_project"],
+    in_progress: ["new", "verified", "rejected", "resolved", "linked_to_project"],
+    linked_to_project: ["new", "verified", "in_progress", "resolved", "rejected"],
+    resolved: ["new", "verified", "in_progress", "rejected", "linked_to_project"],
+    rejected: ["new", "verified", "in_progress", "resolved", "linked_to_project"],
+    merged: [],
   },
 };
 
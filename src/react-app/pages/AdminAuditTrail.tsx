@@ -18,6 +18,13 @@ import {
   User,
   Mail,
   Building2,
+  FolderKanban,
+  Flag,
+  SlidersHorizontal,
+  MessageSquare,
+  ShieldCheck,
+  Route,
+  Webhook,
   ArrowRight,
   Clock,
   Shield,
@@ -58,6 +65,13 @@ const TARGET_TYPE_CONFIG: Record<string, { label: string; icon: typeof FileText;
   user: { label: "User", icon: User, color: "bg-purple-100 text-purple-700 dark:bg-purple-900/30 dark:text-purple-300" },
   invitation: { label: "Invitation", icon: Mail, color: "bg-yellow-100 text-yellow-700 dark:bg-yellow-900/30 dark:text-yellow-300" },
   user_organization: { label: "Organization", icon: Building2, color: "bg-green-100 text-green-700 dark:bg-green-900/30 dark:text-green-300" },
+  project: { label: "Project", icon: FolderKanban, color: "bg-indigo-100 text-indigo-700 dark:bg-indigo-900/30 dark:text-indigo-300" },
+  milestone: { label: "Milestone", icon: Flag, color: "bg-teal-100 text-teal-700 dark:bg-teal-900/30 dark:text-teal-300" },
+  priority_config: { label: "Priority Weights", icon: SlidersHorizontal, color: "bg-rose-100 text-rose-700 dark:bg-rose-900/30 dark:text-rose-300" },
+  comment: { label: "Comment", icon: MessageSquare, color: "bg-sky-100 text-sky-700 dark:bg-sky-900/30 dark:text-sky-300" },
+  ip_allowlist: { label: "IP Allowlist", icon: ShieldCheck, color: "bg-lime-100 text-lime-700 dark:bg-lime-900/30 dark:text-lime-300" },
+  road_segment: { label: "Road Segment", icon: Route, color: "bg-orange-100 text-orange-700 dark:bg-orange-900/30 dark:text-orange-300" },
+  webhook: { label: "Webhook", icon: Webhook, color: "bg-fuchsia-100 text-fuchsia-700 dark:bg-fuchsia-900/30 dark:text-fuchsia-300" },
 };
 
 const FIELD_LABELS: Record<string, string> = {
@@ -76,6 +90,37 @@ const FIELD_LABELS: Record<string, string> = {
   "workflow.progressPercent": "Progress",
   "workflow.estimatedCostLkr": "Est. Cost",
   "workflow.notes": "Notes",
+  archived: "Archived",
+  progressPercent: "Progress",
+  estimatedBudget: "Est. Budget",
+  actualExpenditure: "Expenditure",
+  targetDate: "Target Date",
+  actualDate: "Completed On",
+  orderIndex: "Order",
+  projectLink: "Project Link",
+  assignee: "Assignee",
+  mergedReport: "Merged Report",
+  duplicateDismissed: "Not a Duplicate Of",
+  chainageKm: "Km Post",
+  roadNo: "Road",
+  fromKm: "From km",
+  toKm: "To km",
+  roadName: "Road Name",
+  reason: "Reason",
+  path: "Path",
+  province: "Province",
+  startLat: "Start Latitude",
+  startLng: "Start Longitude",
+  endLat: "End Latitude",
+  endLng: "End Longitude",
+  version: "Version",
+  activeVersion: "Active Version",
+  content: "Comment",
+  isInternal: "Visibility",
+  provinceScope: "Province Scope",
+  districtScope: "District Scope",
+  url: "URL",
+  eventTypes: "Events",
 };
 
 const ROLE_LABELS: Record<string, string> = {
@@ -99,6 +144,9 @@ function formatValue(fieldName: string, value: string | null): string {
   if (fieldName === "isActive") {
     return value === "true" || value === "1" ? "Active" : "Disabled";
   }
+  if (fieldName === "isInternal") {
+    return value === "true" || value === "1" ? "Internal" : "Public";
+  }
   if (fieldName === "isPrimary") {
     return value === "true" || value === "1" ? "Yes" : "No";
   }
@@ -129,6 +177,83 @@ function getEntryDescription(entry: AuditEntry): string {
     if (entry.newValue === "cancelled") return `Invitation cancelled`;
   }
 
+  if (entry.targetType === "project") {
+    const projectCode = metadata.projectCode as string || "Project";
+    if (metadata.action === "created") return `${projectCode} created`;
+    if (entry.fieldName === "archived") return `${projectCode} archived`;
+    return `${projectCode}: ${fieldLabel} changed`;
+  }
+
+  if (entry.targetType === "milestone") {
+    const name = metadata.name as string || "Milestone";
+    if (metadata.action === "created") return `Milestone "${name}" added`;
+    if (metadata.action === "deleted") return `Milestone "${name}" deleted`;
+    if (metadata.automatic && entry.newValue === "delayed") return "Milestone marked delayed";
+    return `Milestone ${fieldLabel.toLowerCase()} changed`;
+  }
+
+  if (entry.targetType === "road_segment") {
+    const reportNumber = metadata.reportNumber as string || "report";
+    if (metadata.fileName) {
+      if (metadata.action === "created") return `Blocked segment ${entry.newValue} imported from ${metadata.fileName}`;
+      return `Segment ${fieldLabel.toLowerCase()} updated from ${metadata.fileName}`;
+    }
+    if (metadata.action === "created") return `Blocked segment ${entry.newValue} added to ${reportNumber}`;
+    if (metadata.action === "deleted") return `Blocked segment ${entry.oldValue} removed from ${reportNumber}`;
+    return `${reportNumber} segment: ${fieldLabel} changed`;
+  }
+
+  if (entry.targetType === "report" && entry.fieldName === "projectLink") {
+    const projectCode = metadata.projectCode as string || "project";
+    return metadata.action === "unlinked" ? `Unlinked from ${projectCode}` : `Linked to ${projectCode}`;
+  }
+
+  if (entry.targetType === "report" && metadata.action === "merge") {
+    return entry.fieldName === "mergedReport"
+      ? `Merged ${metadata.mergedReportNumber || "duplicate"} into this report`
+      : `Merged into ${metadata.mergedIntoNumber || "another report"}`;
+  }
+
+  if (entry.targetType === "report" && entry.fieldName === "duplicateDismissed") {
+    return `Marked as not a duplicate of ${entry.newValue}`;
+  }
+
+  if (entry.targetType === "priority_config") {
+    const version = metadata.version as string || entry.newValue || "";
+    if (metadata.action === "created") return `Priority weights ${version} created`;
+    if (metadata.action === "activated") return `Priority weights ${version} activated`;
+  }
+
+  if (entry.targetType === "ip_allowlist") {
+    const ipRange = metadata.ipRange as string || "IP";
+    return metadata.action === "deleted"
+      ? `${ipRange} removed from allowlist`
+      : `${ipRange} allowlisted (${metadata.label || "no label"})`;
+  }
+
+  if (entry.targetType === "user" && entry.fieldName === "scopeDenied") {
+    return `Denied access to ${metadata.reportNumber || "report"} (outside assigned area)`;
+  }
+
+  if (entry.targetType === "webhook") {
+    const name = metadata.name as string || "Webhook";
+    if (metadata.action === "created") return `Webhook "${name}" added`;
+    if (metadata.action === "deleted") return `Webhook "${name}" deleted`;
+    if (metadata.action === "rotated") return `Webhook "${name}" signing secret rotated`;
+    if (entry.fieldName === "isActive") {
+      return entry.newValue === "true" ? `Webhook "${name}" resumed` : `Webhook "${name}" paused`;
+    }
+    return `Webhook "${name}": ${fieldLabel} changed`;
+  }
+
+  if (entry.targetType === "comment") {
+    if (metadata.action === "deleted") return "Comment deleted";
+    if (entry.fieldName === "isInternal") {
+      return entry.newValue === "true" ? "Comment made internal" : "Comment made public";
+    }
+    return "Comment edited";
+  }
+
   if (entry.targetType === "user_organization") {
     const orgName = metadata.orgName as string || "";
     if (entry.fieldName === "assignment") {
@@ -232,6 +357,13 @@ export function AdminAuditTrail() {
               <SelectItem value="user">Users</SelectItem>
               <SelectItem value="invitation">Invitations</SelectItem>
               <SelectItem value="user_organization">Organizations</SelectItem>
+              <SelectItem value="project">Projects</SelectItem>
+              <SelectItem value="milestone">Milestones</SelectItem>
+              <SelectItem value="priority_config">Priority Weights</SelectItem>
+              <SelectItem value="comment">Comments</SelectItem>
+              <SelectItem value="ip_allowlist">IP Allowlist</SelectItem>
+              <SelectItem value="road_segment">Road Segments</SelectItem>
+              <SelectItem value="webhook">Webhooks</SelectItem>
             </SelectContent>
           </Select>
           {targetTypeFilter !== "all" && (
@@ -0,0 +1,331 @@
+import { useRef, useState } from "react";
+import * as XLSX from "xlsx";
+import clsx from "clsx";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { CheckCircle2, FileSpreadsheet, Loader2, Upload, X } from "lucide-react";
+
+type ClosureImportStatus = "new" | "changed" | "unchanged" | "invalid";
+
+interface PlannedClosure {
+  row: number;
+  status: ClosureImportStatus;
+  closure: {
+    province: string | null;
+    roadNo: string;
+    roadName: string | null;
+    reason: string;
+    fromKm: number;
+    toKm: number;
+  } | null;
+  segmentId: string | null;
+  changes: { field: string; oldValue: string | null; newValue: string | null }[];
+  errors: string[];
+}
+
+interface ClosureImportResponse {
+  dryRun: boolean;
+  summary: Record<ClosureImportStatus, number>;
+  rows: PlannedClosure[];
+}
+
+// A commit request applies one chunk of the new and changed rows
+interface ClosureCommitResponse {
+  dryRun: false;
+  summary: Record<ClosureImportStatus, number>;
+  applied: { new: number; changed: number };
+  remaining: number;
+}
+
+const STATUS_CONFIG: Record<ClosureImportStatus, { label: string; className: string }> = {
+  new: { label: "New", className: "bg-blue-100 text-blue-800 dark:bg-blue-900/40 dark:text-blue-300" },
+  changed: { label: "Changed", className: "bg-amber-100 text-amber-800 dark:bg-amber-900/40 dark:text-amber-300" },
+  unchanged: { label: "Unchanged", className: "bg-gray-100 text-gray-700 dark:bg-gray-800 dark:text-gray-300" },
+  invalid: { label: "Invalid", className: "bg-red-100 text-red-800 dark:bg-red-900/40 dark:text-red-300" },
+};
+
+const FIELD_LABELS: Record<string, string> = {
+  province: "Province",
+  roadName: "Road name",
+  reason: "Reason",
+  startLat: "From lat",
+  startLng: "From lon",
+  endLat: "To lat",
+  endLng: "To lon",
+};
+
+// Must match MAX_CLOSURE_IMPORT_ROWS on the server
+const MAX_ROWS = 500;
+
+// Reads the first sheet of a CSV or Excel file into rows keyed by column header
+async function readSpreadsheet(file: File): Promise<Record<string, string | number | null>[]> {
+  const workbook = XLSX.read(await file.arrayBuffer());
+  const sheet = workbook.Sheets[workbook.SheetNames[0]];
+  if (!sheet) return [];
+  return XLSX.utils.sheet_to_json(sheet, { defval: null });
+}
+
+export function AdminClosureImport() {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [rows, setRows] = useState<Record<string, string | number | null>[]>([]);
+  const [preview, setPreview] = useState<ClosureImportResponse | null>(null);
+  const [imported, setImported] = useState<ClosureImportResponse["summary"] | null>(null);
+  const [filter, setFilter] = useState<ClosureImportStatus | "all">("all");
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const submit = async <T,>(name: string, fileRows: typeof rows, dryRun: boolean): Promise<T> => {
+    const response = await fetch("/api/v1/admin/import-closures", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fileName: name, dryRun, rows: fileRows }),
+      credentials: "include",
+    });
+    if (!response.ok) {
+      if (response.status === 403) {
+        throw new Error("You don't have permission to import closures");
+      }
+      const data = await response.json() as { error?: string };
+      throw new Error(data.error || "Failed to check closure list");
+    }
+    return await response.json() as T;
+  };
+
+  const handleFile = async (file: File) => {
+    setLoading(true);
+    setError(null);
+    setPreview(null);
+    setImported(null);
+    setFilter("all");
+    try {
+      const fileRows = await readSpreadsheet(file);
+      if (fileRows.length === 0) throw new Error("The file has no rows");
+      if (fileRows.length > MAX_ROWS) throw new Error(`Files are limited to ${MAX_ROWS} rows`);
+      setFileName(file.name);
+      setRows(fileRows);
+      setPreview(await submit<ClosureImportResponse>(file.name, fileRows, true));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read file");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The server applies the list in chunks; keep asking until nothing is left. Chunks that
+  // landed are unchanged on the next request, so a retry after an error carries on from there.
+  const handleImport = async () => {
+    if (!fileName || !preview) return;
+    setLoading(true);
+    setError(null);
+    const applied = { new: 0, changed: 0 };
+    const total = preview.summary.new + preview.summary.changed;
+    setProgress({ done: 0, total });
+    try {
+      for (;;) {
+        const result = await submit<ClosureCommitResponse>(fileName, rows, false);
+        applied.new += result.applied.new;
+        applied.changed += result.applied.changed;
+        setProgress({ done: applied.new + applied.changed, total });
+        if (result.remaining === 0 || result.applied.new + result.applied.changed === 0) break;
+      }
+      setImported({ ...preview.summary, ...applied });
+      setPreview(null);
+    } catch (err) {
+      const message = err instanceof Error ? err.message : "Failed to import closures";
+      const done = applied.new + applied.changed;
+      setError(done > 0 ? `${message}. ${done} of ${total} closures were imported; import again to finish.` : message);
+      if (done > 0) {
+        // Show what is left rather than the list as it was before the import
+        setPreview(await submit<ClosureImportResponse>(fileName, rows, true).catch(() => preview));
+      }
+    } finally {
+      setLoading(false);
+      setProgress(null);
+    }
+  };
+
+  const reset = () => {
+    setFileName(null);
+    setRows([]);
+    setPreview(null);
+    setImported(null);
+    setError(null);
+    if (inputRef.current) inputRef.current.value = "";
+  };
+
+  const toApply = preview ? preview.summary.new + preview.summary.changed : 0;
+  const visibleRows = preview?.rows.filter((row) => filter === "all" || row.status === filter) || [];
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Closure Import</h1>
+          <p className="text-gray-500">
+            Load an official RDA closure list (CSV or Excel) to add and update blocked road segments on the map.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <input
+            ref={inputRef}
+            type="file"
+            accept=".csv,.xlsx,.xls"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleFile(file);
+            }}
+          />
+          {fileName && (
+            <Button variant="outline" onClick={reset} disabled={loading}>
+              <X className="mr-2 h-4 w-4" />
+              Clear
+            </Button>
+          )}
+          <Button onClick={() => inputRef.current?.click()} disabled={loading}>
+            <Upload className="mr-2 h-4 w-4" />
+            Choose File
+          </Button>
+        </div>
+      </div>
+
+      {error && (
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-4">
+          <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+        </div>
+      )}
+
+      {!fileName && !loading && (
+        <Card>
+          <CardContent className="py-10 text-center text-sm text-gray-500 space-y-2">
+            <FileSpreadsheet className="mx-auto h-10 w-10 text-gray-400" />
+            <p>
+              Expected columns: Province, Road No, Road Name, Reason, From (km), From Lat, From Lon, To (km), To Lat,
+              To Lon.
+            </p>
+            <p>Closures are matched to existing segments by road number and km range. Nothing is saved until you confirm.</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {loading && (
+        <div className="flex flex-col items-center justify-center gap-2 py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+          {progress && (
+            <p className="text-sm text-gray-500">
+              Imported {progress.done} of {progress.total} closures
+            </p>
+          )}
+        </div>
+      )}
+
+      {imported && !loading && (
+        <Card>
+          <CardContent className="py-6 flex items-center gap-3">
+            <CheckCircle2 className="h-6 w-6 text-green-600 shrink-0" />
+            <p className="text-sm">
+              Imported {fileName}: {imported.new} new and {imported.changed} updated closures.{" "}
+              {imported.unchanged} unchanged and {imported.invalid} invalid rows were skipped.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {preview && !loading && (
+        <Card>
+          <CardHeader className="pb-2">
+            <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
+              <CardTitle className="text-base">{fileName}</CardTitle>
+              <Button onClick={handleImport} disabled={toApply === 0}>
+                Import {toApply} {toApply === 1 ? "Closure" : "Closures"}
+              </Button>
+            </div>
+            <div className="flex flex-wrap gap-2 pt-2">
+              {(["all", "new", "changed", "unchanged", "invalid"] as const).map((status) => (
+                <button
+                  key={status}
+                  type="button"
+                  onClick={() => setFilter(status)}
+                  className={clsx(
+                    "rounded-full border px-3 py-1 text-xs font-medium",
+                    filter === status
+                      ? "border-gray-900 dark:border-gray-100"
+                      : "border-gray-200 text-gray-500 dark:border-gray-800"
+                  )}
+                >
+                  {status === "all" ? "All" : STATUS_CONFIG[status].label} (
+                  {status === "all" ? preview.rows.length : preview.summary[status]})
+                </button>
+              ))}
+            </div>
+          </CardHeader>
+          <CardContent>
+            {visibleRows.length === 0 ? (
+              <p className="text-sm text-gray-500">No rows in this group.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-2 pr-4 font-medium">Row</th>
+                      <th className="py-2 pr-4 font-medium">Status</th>
+                      <th className="py-2 pr-4 font-medium">Road</th>
+                      <th className="py-2 pr-4 font-medium">Km</th>
+                      <th className="py-2 pr-4 font-medium">Reason</th>
+                      <th className="py-2 font-medium">Details</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y dark:divide-gray-800">
+                    {visibleRows.map((row) => (
+                      <tr key={row.row} className="align-top">
+                        <td className="py-2 pr-4 tabular-nums text-gray-500">{row.row}</td>
+                        <td className="py-2 pr-4">
+                          <span
+                            className={clsx(
+                              "inline-flex rounded-md px-2 py-0.5 text-xs font-medium",
+                              STATUS_CONFIG[row.status].className
+                            )}
+                          >
+                            {STATUS_CONFIG[row.status].label}
+                          </span>
+                        </td>
+                        <td className="py-2 pr-4">
+                          <div className="font-medium">{row.closure?.roadNo || "—"}</div>
+                          {row.closure?.roadName && (
+                            <div className="max-w-xs truncate text-xs text-gray-500" title={row.closure.roadName}>
+                              {row.closure.roadName}
+                            </div>
+                          )}
+                        </td>
+                        <td className="py-2 pr-4 tabular-nums whitespace-nowrap">
+                          {row.closure ? `${row.closure.fromKm} – ${row.closure.toKm}` : "—"}
+                        </td>
+                        <td className="py-2 pr-4">{row.closure?.reason || "—"}</td>
+                        <td className="py-2 text-xs">
+                          {row.errors.map((message) => (
+                            <div key={message} className="text-red-600 dark:text-red-400">
+                              {message}
+                            </div>
+                          ))}
+                          {row.changes.map((change) => (
+                            <div key={change.field}>
+                              <span className="text-gray-500">{FIELD_LABELS[change.field] || change.field}:</span>{" "}
+                              <span className="line-through text-gray-400">{change.oldValue || "empty"}</span>{" "}
+                              → {change.newValue || "empty"}
+                            </div>
+                          ))}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
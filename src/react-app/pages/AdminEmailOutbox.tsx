@@ -0,0 +1,347 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Loader2,
+  RefreshCw,
+  RotateCw,
+  Search,
+  Trash2,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type EmailStatus = "pending" | "sent" | "failed";
+
+interface OutboxEmail {
+  id: string;
+  toAddress: string;
+  subject: string;
+  status: EmailStatus;
+  attempts: number;
+  nextAttemptAt: string | null;
+  transport: string | null;
+  lastError: string | null;
+  createdAt: string;
+  sentAt: string | null;
+}
+
+interface Pagination {
+  page: number;
+  totalCount: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const STATUS_TABS: { value: EmailStatus | "all"; label: string }[] = [
+  { value: "failed", label: "Failed" },
+  { value: "pending", label: "Retrying" },
+  { value: "sent", label: "Sent" },
+  { value: "all", label: "All" },
+];
+
+const STATUS_STYLES: Record<EmailStatus, string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  sent: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+export function AdminEmailOutbox() {
+  const [emails, setEmails] = useState<OutboxEmail[]>([]);
+  const [counts, setCounts] = useState<Record<EmailStatus, number>>({ pending: 0, sent: 0, failed: 0 });
+  const [transport, setTransport] = useState<string | null>(null);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [status, setStatus] = useState<EmailStatus | "all">("failed");
+  const [search, setSearch] = useState("");
+  const [query, setQuery] = useState("");
+  const [page, setPage] = useState(1);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [retryingAll, setRetryingAll] = useState(false);
+
+  const fetchEmails = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (status !== "all") params.set("status", status);
+      if (query) params.set("q", query);
+      const response = await fetch(`/api/v1/admin/emails?${params}`, { credentials: "include" });
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error("You don't have permission to view the email outbox");
+        }
+        throw new Error("Failed to fetch emails");
+      }
+      const data = await response.json() as {
+        emails: OutboxEmail[];
+        counts: Record<EmailStatus, number>;
+        transport: string | null;
+        pagination: Pagination;
+      };
+      setEmails(data.emails);
+      setCounts(data.counts);
+      setTransport(data.transport);
+      setPagination(data.pagination);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load emails");
+    } finally {
+      setLoading(false);
+    }
+  }, [page, status, query]);
+
+  useEffect(() => {
+    fetchEmails();
+  }, [fetchEmails]);
+
+  const handleSearch = (e: React.FormEvent) => {
+    e.preventDefault();
+    setQuery(search.trim());
+    setPage(1);
+  };
+
+  const handleRetry = async (email: OutboxEmail) => {
+    setBusyId(email.id);
+    try {
+      const response = await fetch(`/api/v1/admin/emails/${email.id}/retry`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json() as { email?: OutboxEmail; error?: string };
+      if (!response.ok) throw new Error(data.error || "Failed to retry email");
+      if (data.email && data.email.status !== "sent") {
+        alert(`Sending failed again: ${data.email.lastError || "unknown error"}`);
+      }
+      await fetchEmails();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to retry email");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleDiscard = async (email: OutboxEmail) => {
+    if (!confirm(`Discard the email "${email.subject}" to ${email.toAddress}? It won't be retried.`)) return;
+    setBusyId(email.id);
+    try {
+      const response = await fetch(`/api/v1/admin/emails/${email.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to discard email");
+      }
+      await fetchEmails();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to discard email");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetryAll = async () => {
+    if (!confirm(`Retry all ${counts.failed} failed emails?`)) return;
+    setRetryingAll(true);
+    try {
+      const response = await fetch("/api/v1/admin/emails/retry-failed", {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to retry emails");
+      await fetchEmails();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to retry emails");
+    } finally {
+      setRetryingAll(false);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+          <Button onClick={fetchEmails} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold flex items-center gap-2">
+            Email Outbox
+            {transport ? (
+              <Badge variant="outline" className="font-normal">via {transport}</Badge>
+            ) : (
+              !loading && <Badge variant="destructive">Invalid EMAIL_TRANSPORT</Badge>
+            )}
+          </h1>
+          <p className="text-gray-500">
+            Every email the platform sends. Failed sends are retried with backoff for about 2.5 hours, then listed
+            here.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={fetchEmails} variant="outline" size="icon">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={handleRetryAll} disabled={retryingAll || counts.failed === 0}>
+            {retryingAll ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <RotateCw className="mr-2 h-4 w-4" />}
+            Retry All Failed
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex flex-wrap gap-2">
+          {STATUS_TABS.map((tab) => (
+            <Button
+              key={tab.value}
+              size="sm"
+              variant={status === tab.value ? "default" : "outline"}
+              onClick={() => {
+                setStatus(tab.value);
+                setPage(1);
+              }}
+            >
+              {tab.label}
+              {tab.value !== "all" && (
+                <span className="ml-1.5 tabular-nums opacity-70">{counts[tab.value]}</span>
+              )}
+            </Button>
+          ))}
+        </div>
+        <form onSubmit={handleSearch} className="flex gap-2">
+          <Input
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            placeholder="Recipient or subject"
+            className="h-9 w-56"
+          />
+          <Button type="submit" size="sm" variant="outline">
+            <Search className="h-4 w-4" />
+          </Button>
+        </form>
+      </div>
+
+      <Card>
+        <CardContent className="pt-6">
+          {loading && emails.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+            </div>
+          ) : emails.length === 0 ? (
+            <p className="text-sm text-gray-500">
+              {status === "failed" ? "No failed emails." : "No emails match."}
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-xs text-gray-500">
+                    <th className="py-2 pr-4 font-medium">Queued</th>
+                    <th className="py-2 pr-4 font-medium">To</th>
+                    <th className="py-2 pr-4 font-medium">Subject</th>
+                    <th className="py-2 pr-4 font-medium">Status</th>
+                    <th className="py-2 pr-4 font-medium text-right">Attempts</th>
+                    <th className="py-2 pr-4 font-medium">Last Error</th>
+                    <th className="py-2 font-medium" />
+                  </tr>
+                </thead>
+                <tbody className="divide-y dark:divide-gray-800">
+                  {emails.map((email) => (
+                    <tr key={email.id}>
+                      <td className="py-2 pr-4 whitespace-nowrap" title={format(new Date(email.createdAt), "MMM d, yyyy HH:mm:ss")}>
+                        {formatDistanceToNow(new Date(email.createdAt), { addSuffix: true })}
+                      </td>
+                      <td className="py-2 pr-4">{email.toAddress}</td>
+                      <td className="py-2 pr-4 max-w-xs truncate" title={email.subject}>{email.subject}</td>
+                      <td className="py-2 pr-4 whitespace-nowrap">
+                        <span className={cn("rounded px-1.5 py-0.5 text-xs font-medium", STATUS_STYLES[email.status])}>
+                          {email.status === "pending" ? "Retrying" : email.status === "sent" ? "Sent" : "Failed"}
+                        </span>
+                        {email.status === "pending" && email.nextAttemptAt && (
+                          <div className="text-xs text-gray-500">
+                            next {formatDistanceToNow(new Date(email.nextAttemptAt), { addSuffix: true })}
+                          </div>
+                        )}
+                        {email.status === "sent" && email.transport && (
+                          <div className="text-xs text-gray-500">via {email.transport}</div>
+                        )}
+                      </td>
+                      <td className="py-2 pr-4 text-right tabular-nums">{email.attempts}</td>
+                      <td className="py-2 pr-4">
+                        {email.lastError && (
+                          <div className="max-w-xs truncate text-xs text-red-600 dark:text-red-400" title={email.lastError}>
+                            {email.lastError}
+                          </div>
+                        )}
+                      </td>
+                      <td className="py-2">
+                        {email.status !== "sent" && (
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => handleRetry(email)}
+                              disabled={busyId === email.id}
+                            >
+                              {busyId === email.id ? (
+                                <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                              ) : (
+                                <RotateCw className="mr-1.5 h-4 w-4" />
+                              )}
+                              Retry
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleDiscard(email)}
+                              disabled={busyId === email.id}
+                              title="Discard"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {pagination && pagination.totalPages > 1 && (
+            <div className="mt-3 flex items-center justify-between text-sm text-gray-500">
+              <span>
+                Page {pagination.page} of {pagination.totalPages} ({pagination.totalCount} emails)
+              </span>
+              <div className="flex gap-2">
+                <Button size="sm" variant="outline" disabled={!pagination.hasPrev} onClick={() => setPage(page - 1)}>
+                  <ChevronLeft className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="outline" disabled={!pagination.hasNext} onClick={() => setPage(page + 1)}>
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
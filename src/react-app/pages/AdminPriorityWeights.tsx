@@ -0,0 +1,492 @@
+import { useCallback, useEffect, useState } from "react";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ArrowDown,
+  ArrowUp,
+  Eye,
+  Loader2,
+  Plus,
+  RefreshCw,
+  RotateCcw,
+  SlidersHorizontal,
+} from "lucide-react";
+
+type PriorityWeights = Record<string, number>;
+
+interface PriorityConfig {
+  id: string;
+  version: string;
+  weights: PriorityWeights;
+  isActive: boolean;
+  createdAt: string;
+  createdByName: string | null;
+}
+
+interface RankChange {
+  id: string;
+  reportNumber: string;
+  locationName: string | null;
+  currentScore: number;
+  currentRank: number;
+  newScore: number;
+  newRank: number;
+  rankChange: number;
+}
+
+interface Preview {
+  currentVersion: string;
+  version: string;
+  totalReports: number;
+  changedReports: number;
+  movedUp: RankChange[];
+  movedDown: RankChange[];
+}
+
+const FACTOR_LABELS: Record<string, { label: string; source: string }> = {
+  severity: { label: "Severity", source: "Report severity (1-5)" },
+  trafficImpact: { label: "Traffic Impact", source: "Passability level" },
+  populationAffected: { label: "Population Affected", source: "Estimated population" },
+  strategicImportance: { label: "Strategic Importance", source: "Road class" },
+  safetyRisk: { label: "Safety Risk", source: "Blocked distance, safety barriers" },
+  reportAge: { label: "Report Age", source: "Days since reported" },
+  alternativeRoutes: { label: "No Alternative Routes", source: "Alternative routes in incident details" },
+};
+
+const FACTORS = Object.keys(FACTOR_LABELS);
+
+function RankChangeList({ title, changes, direction }: { title: string; changes: RankChange[]; direction: "up" | "down" }) {
+  const Icon = direction === "up" ? ArrowUp : ArrowDown;
+  const color = direction === "up" ? "text-red-600" : "text-green-600";
+
+  return (
+    <div>
+      <h4 className="mb-2 text-sm font-semibold">{title}</h4>
+      {changes.length === 0 ? (
+        <p className="text-sm text-gray-500">None</p>
+      ) : (
+        <ul className="space-y-1.5">
+          {changes.map((change) => (
+            <li key={change.id} className="flex items-center justify-between gap-2 text-sm">
+              <div className="min-w-0">
+                <span className="font-mono">{change.reportNumber}</span>
+                {change.locationName && (
+                  <p className="truncate text-xs text-gray-500" title={change.locationName}>
+                    {change.locationName}
+                  </p>
+                )}
+              </div>
+              <div className="flex shrink-0 items-center gap-2 text-xs">
+                <span className="text-gray-500">
+                  #{change.currentRank} → #{change.newRank}
+                </span>
+                <span className={`inline-flex items-center font-medium ${color}`}>
+                  <Icon className="h-3 w-3" />
+                  {Math.abs(change.rankChange)}
+                </span>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+export function AdminPriorityWeights() {
+  const [configs, setConfigs] = useState<PriorityConfig[]>([]);
+  const [activeVersion, setActiveVersion] = useState<string>("default");
+  const [defaultWeights, setDefaultWeights] = useState<PriorityWeights>({});
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // New version dialog
+  const [createOpen, setCreateOpen] = useState(false);
+  const [versionName, setVersionName] = useState("");
+  const [weights, setWeights] = useState<Record<string, string>>({});
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Preview dialog
+  const [previewConfig, setPreviewConfig] = useState<PriorityConfig | null>(null);
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [previewLoading, setPreviewLoading] = useState(false);
+  const [activatingId, setActivatingId] = useState<string | null>(null);
+
+  const fetchConfigs = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/admin/priority-configs", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error("You don't have permission to manage priority weights");
+        }
+        throw new Error("Failed to fetch priority weights");
+      }
+      const data = await response.json() as {
+        configs: PriorityConfig[];
+        activeVersion: string;
+        defaultWeights: PriorityWeights;
+      };
+      setConfigs(data.configs);
+      setActiveVersion(data.activeVersion);
+      setDefaultWeights(data.defaultWeights);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load priority weights");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchConfigs();
+  }, [fetchConfigs]);
+
+  const activeConfig = configs.find((config) => config.isActive);
+  const activeWeights = activeConfig?.weights || defaultWeights;
+
+  const toFormWeights = (source: PriorityWeights) =>
+    Object.fromEntries(FACTORS.map((factor) => [factor, String(source[factor] ?? 0)]));
+
+  const openCreate = () => {
+    // Start from the active weights so small tweaks are easy
+    setVersionName("");
+    setWeights(toFormWeights(activeWeights));
+    setFormError(null);
+    setCreateOpen(true);
+  };
+
+  const weightTotal = FACTORS.reduce((sum, factor) => sum + (Number(weights[factor]) || 0), 0);
+
+  const handleCreate = async () => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const response = await fetch("/api/v1/admin/priority-configs", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          version: versionName.trim() || undefined,
+          weights: Object.fromEntries(FACTORS.map((factor) => [factor, Number(weights[factor]) || 0])),
+        }),
+        credentials: "include",
+      });
+      const data = await response.json() as { error?: string; config?: PriorityConfig };
+      if (!response.ok || !data.config) {
+        throw new Error(data.error || "Failed to create version");
+      }
+      setCreateOpen(false);
+      await fetchConfigs();
+      openPreview(data.config);
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to create version");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openPreview = async (config: PriorityConfig) => {
+    setPreviewConfig(config);
+    setPreview(null);
+    setPreviewLoading(true);
+    try {
+      const response = await fetch(`/api/v1/admin/priority-configs/${config.id}/preview`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to load preview");
+      setPreview(await response.json() as Preview);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to load preview");
+      setPreviewConfig(null);
+    } finally {
+      setPreviewLoading(false);
+    }
+  };
+
+  const handleActivate = async (config: PriorityConfig) => {
+    if (!confirm(`Activate weights ${config.version}? All open reports will be re-scored.`)) return;
+    setActivatingId(config.id);
+    try {
+      const response = await fetch(`/api/v1/admin/priority-configs/${config.id}/activate`, {
+        method: "POST",
+        credentials: "include",
+      });
+      const data = await response.json() as { error?: string; rescoredCount?: number };
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to activate version");
+      }
+      setPreviewConfig(null);
+      await fetchConfigs();
+      alert(`Activated ${config.version}. ${data.rescoredCount ?? 0} open reports re-scored.`);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to activate version");
+    } finally {
+      setActivatingId(null);
+    }
+  };
+
+  // Versions created before the active one are roll-back targets
+  const isOlderThanActive = (config: PriorityConfig) =>
+    Boolean(activeConfig) && new Date(config.createdAt) < new Date(activeConfig!.createdAt);
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+          <Button onClick={fetchConfigs} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Priority Weights</h1>
+          <p className="text-gray-500">
+            Control how open reports are ranked in the work queue. Active version:{" "}
+            <span className="font-medium">{activeVersion}</span>
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={fetchConfigs} variant="outline" size="icon">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={openCreate} disabled={loading}>
+            <Plus className="mr-2 h-4 w-4" />
+            New Version
+          </Button>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {!loading && (
+        <div className="grid gap-4 lg:grid-cols-2 xl:grid-cols-3">
+          {!activeConfig && (
+            <Card className="border-primary-300">
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base">default</CardTitle>
+                  <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                    Active
+                  </span>
+                </div>
+                <p className="text-xs text-gray-500">Built-in weights</p>
+              </CardHeader>
+              <CardContent>
+                <WeightList weights={defaultWeights} />
+              </CardContent>
+            </Card>
+          )}
+
+          {configs.map((config) => (
+            <Card key={config.id} className={config.isActive ? "border-primary-300" : ""}>
+              <CardHeader className="pb-2">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-base">{config.version}</CardTitle>
+                  {config.isActive && (
+                    <span className="rounded-full bg-green-100 px-2 py-0.5 text-xs font-medium text-green-800 dark:bg-green-900/30 dark:text-green-400">
+                      Active
+                    </span>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">
+                  {format(new Date(config.createdAt), "MMM d, yyyy HH:mm")}
+                  {config.createdByName && <> · {config.createdByName}</>}
+                </p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <WeightList weights={config.weights} />
+                {!config.isActive && (
+                  <div className="flex gap-2">
+                    <Button variant="outline" size="sm" className="flex-1" onClick={() => openPreview(config)}>
+                      <Eye className="mr-1.5 h-4 w-4" />
+                      Preview
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={isOlderThanActive(config) ? "outline" : "default"}
+                      className="flex-1"
+                      onClick={() => handleActivate(config)}
+                      disabled={activatingId === config.id}
+                    >
+                      {activatingId === config.id ? (
+                        <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                      ) : isOlderThanActive(config) ? (
+                        <RotateCcw className="mr-1.5 h-4 w-4" />
+                      ) : null}
+                      {isOlderThanActive(config) ? "Roll Back" : "Activate"}
+                    </Button>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      )}
+
+      {/* New version dialog */}
+      <Dialog open={createOpen} onOpenChange={setCreateOpen}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>New Priority Weights</DialogTitle>
+            <DialogDescription>
+              Weights are relative: each factor counts in proportion to the total. The new version is saved
+              inactive so you can preview its ranking first.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="priority-version">Version Name</Label>
+              <Input
+                id="priority-version"
+                value={versionName}
+                onChange={(e) => setVersionName(e.target.value)}
+                placeholder={`v${configs.length + 1}`}
+                maxLength={50}
+              />
+            </div>
+            {FACTORS.map((factor) => (
+              <div key={factor} className="grid grid-cols-[1fr_100px] items-center gap-3">
+                <div>
+                  <Label htmlFor={`weight-${factor}`}>{FACTOR_LABELS[factor].label}</Label>
+                  <p className="text-xs text-gray-500">{FACTOR_LABELS[factor].source}</p>
+                </div>
+                <Input
+                  id={`weight-${factor}`}
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={weights[factor] ?? ""}
+                  onChange={(e) => setWeights((prev) => ({ ...prev, [factor]: e.target.value }))}
+                />
+              </div>
+            ))}
+            <div className="flex items-center justify-between text-sm">
+              <Button
+                variant="link"
+                size="sm"
+                className="h-auto p-0"
+                onClick={() => setWeights(toFormWeights(defaultWeights))}
+              >
+                Reset to defaults
+              </Button>
+              <span className="text-gray-500">Total: {weightTotal.toFixed(2)}</span>
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setCreateOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleCreate} disabled={saving || weightTotal <= 0}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Save &amp; Preview
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Preview dialog */}
+      <Dialog open={Boolean(previewConfig)} onOpenChange={(open) => !open && setPreviewConfig(null)}>
+        <DialogContent className="max-h-[90vh] overflow-y-auto sm:max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <SlidersHorizontal className="h-5 w-5" />
+              Ranking Preview
+            </DialogTitle>
+            <DialogDescription>
+              {preview
+                ? `How open reports would move if ${preview.version} replaced ${preview.currentVersion}.`
+                : "Comparing open report ranking with the active weights..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {previewLoading && (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+            </div>
+          )}
+
+          {preview && (
+            <div className="space-y-4">
+              <p className="text-sm">
+                <span className="font-medium">{preview.changedReports}</span> of{" "}
+                <span className="font-medium">{preview.totalReports}</span> open reports change position.
+              </p>
+              <div className="grid gap-6 sm:grid-cols-2">
+                <RankChangeList title="Top movers up" changes={preview.movedUp} direction="up" />
+                <RankChangeList title="Top movers down" changes={preview.movedDown} direction="down" />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPreviewConfig(null)}>
+              Close
+            </Button>
+            {previewConfig && (
+              <Button
+                onClick={() => handleActivate(previewConfig)}
+                disabled={previewLoading || activatingId === previewConfig.id}
+              >
+                {activatingId === previewConfig.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Activate {previewConfig.version}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
+
+function WeightList({ weights }: { weights: PriorityWeights }) {
+  const total = FACTORS.reduce((sum, factor) => sum + (weights[factor] ?? 0), 0) || 1;
+
+  return (
+    <ul className="space-y-1.5">
+      {FACTORS.map((factor) => {
+        const share = ((weights[factor] ?? 0) / total) * 100;
+        return (
+          <li key={factor} className="text-sm">
+            <div className="flex justify-between">
+              <span className="text-gray-600 dark:text-gray-400">{FACTOR_LABELS[factor].label}</span>
+              <span className="font-medium">{weights[factor] ?? 0}</span>
+            </div>
+            <div className="h-1.5 overflow-hidden rounded-full bg-gray-200 dark:bg-gray-800">
+              <div className="h-full rounded-full bg-primary-600" style={{ width: `${share}%` }} />
+            </div>
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
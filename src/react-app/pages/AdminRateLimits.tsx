@@ -0,0 +1,378 @@
+import { useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, RefreshCw, ShieldCheck, Trash2, Unlock } from "lucide-react";
+
+interface BlockedClient {
+  id: string;
+  bucket: string;
+  clientKey: string;
+  ipAddress: string | null;
+  userId: string | null;
+  userName: string | null;
+  userEmail: string | null;
+  userAgent: string | null;
+  blockedCount: number;
+  firstBlockedAt: string;
+  lastBlockedAt: string;
+  blockedUntil: string;
+  isActive: boolean;
+  isAllowlisted: boolean;
+}
+
+interface AllowlistEntry {
+  id: string;
+  ipRange: string;
+  label: string;
+  createdAt: string;
+  createdByName: string | null;
+}
+
+const BUCKET_LABELS: Record<string, string> = {
+  report_submission: "Report submission",
+  photo_upload: "Photo upload",
+};
+
+export function AdminRateLimits() {
+  const [blocked, setBlocked] = useState<BlockedClient[]>([]);
+  const [allowlist, setAllowlist] = useState<AllowlistEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  // Allowlist dialog
+  const [addOpen, setAddOpen] = useState(false);
+  const [ipRange, setIpRange] = useState("");
+  const [label, setLabel] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  const fetchRateLimits = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/admin/rate-limits", {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error("You don't have permission to manage rate limits");
+        }
+        throw new Error("Failed to fetch rate limits");
+      }
+      const data = await response.json() as { blocked: BlockedClient[]; allowlist: AllowlistEntry[] };
+      setBlocked(data.blocked);
+      setAllowlist(data.allowlist);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load rate limits");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchRateLimits();
+  }, [fetchRateLimits]);
+
+  const openAdd = (initialIp = "") => {
+    setIpRange(initialIp);
+    setLabel("");
+    setFormError(null);
+    setAddOpen(true);
+  };
+
+  const handleAdd = async () => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const response = await fetch("/api/v1/admin/rate-limits/allowlist", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ ipRange, label }),
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to add allowlist entry");
+      }
+      setAddOpen(false);
+      await fetchRateLimits();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to add allowlist entry");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (entry: AllowlistEntry) => {
+    if (!confirm(`Remove ${entry.ipRange} (${entry.label}) from the allowlist?`)) return;
+    setBusyId(entry.id);
+    try {
+      const response = await fetch(`/api/v1/admin/rate-limits/allowlist/${entry.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to remove allowlist entry");
+      }
+      await fetchRateLimits();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to remove allowlist entry");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleUnblock = async (client: BlockedClient) => {
+    setBusyId(client.id);
+    try {
+      const response = await fetch(`/api/v1/admin/rate-limits/blocks/${client.id}`, {
+        method: "DELETE",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to unblock client");
+      }
+      await fetchRateLimits();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to unblock client");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+          <Button onClick={fetchRateLimits} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Rate Limits</h1>
+          <p className="text-gray-500">
+            Clients blocked from submitting reports or photos in the last 7 days, and trusted IPs that are never
+            limited.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={fetchRateLimits} variant="outline" size="icon">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => openAdd()} disabled={loading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Allowlist IP
+          </Button>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {!loading && (
+        <div className="grid gap-4 xl:grid-cols-3">
+          <Card className="xl:col-span-2">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Blocked Clients</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {blocked.length === 0 ? (
+                <p className="text-sm text-gray-500">No clients have been rate limited recently.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Client</th>
+                        <th className="py-2 pr-4 font-medium">Route</th>
+                        <th className="py-2 pr-4 font-medium text-right">Blocked</th>
+                        <th className="py-2 pr-4 font-medium">Last Blocked</th>
+                        <th className="py-2 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-gray-800">
+                      {blocked.map((client) => (
+                        <tr key={client.id}>
+                          <td className="py-2 pr-4">
+                            <div className="font-mono">{client.ipAddress || "Unknown IP"}</div>
+                            {client.userId && (
+                              <div className="text-xs text-gray-500">
+                                {client.userName || "Deleted user"}
+                                {client.userEmail && ` (${client.userEmail})`}
+                              </div>
+                            )}
+                            {client.userAgent && (
+                              <div className="max-w-xs truncate text-xs text-gray-400" title={client.userAgent}>
+                                {client.userAgent}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2 pr-4">{BUCKET_LABELS[client.bucket] || client.bucket}</td>
+                          <td className="py-2 pr-4 text-right tabular-nums">{client.blockedCount}</td>
+                          <td className="py-2 pr-4">
+                            <div title={format(new Date(client.lastBlockedAt), "MMM d, yyyy HH:mm")}>
+                              {formatDistanceToNow(new Date(client.lastBlockedAt), { addSuffix: true })}
+                            </div>
+                            {client.isActive && (
+                              <div className="text-xs text-red-600 dark:text-red-400">
+                                Blocked until {format(new Date(client.blockedUntil), "HH:mm")}
+                              </div>
+                            )}
+                          </td>
+                          <td className="py-2">
+                            <div className="flex justify-end gap-2">
+                              {client.isActive && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleUnblock(client)}
+                                  disabled={busyId === client.id}
+                                >
+                                  {busyId === client.id ? (
+                                    <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <Unlock className="mr-1.5 h-4 w-4" />
+                                  )}
+                                  Unblock
+                                </Button>
+                              )}
+                              {client.isAllowlisted ? (
+                                <span className="inline-flex items-center gap-1 text-xs text-green-700 dark:text-green-400">
+                                  <ShieldCheck className="h-4 w-4" />
+                                  Allowlisted
+                                </span>
+                              ) : (
+                                client.ipAddress && (
+                                  <Button size="sm" variant="outline" onClick={() => openAdd(client.ipAddress!)}>
+                                    <ShieldCheck className="mr-1.5 h-4 w-4" />
+                                    Allowlist
+                                  </Button>
+                                )
+                              )}
+                            </div>
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Trusted IPs</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {allowlist.length === 0 ? (
+                <p className="text-sm text-gray-500">No allowlisted IPs.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {allowlist.map((entry) => (
+                    <li key={entry.id} className="flex items-center justify-between gap-2 text-sm">
+                      <div className="min-w-0">
+                        <div className="font-mono">{entry.ipRange}</div>
+                        <p className="truncate text-xs text-gray-500">
+                          {entry.label}
+                          {entry.createdByName && <> · {entry.createdByName}</>}
+                        </p>
+                      </div>
+                      <Button
+                        size="icon"
+                        variant="ghost"
+                        className="h-8 w-8 shrink-0"
+                        onClick={() => handleRemove(entry)}
+                        disabled={busyId === entry.id}
+                        title="Remove"
+                      >
+                        {busyId === entry.id ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Trash2 className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Allowlist dialog */}
+      <Dialog open={addOpen} onOpenChange={setAddOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Allowlist IP</DialogTitle>
+            <DialogDescription>
+              Requests from this address or range are never rate limited. Use a CIDR range such as
+              203.0.113.0/24 for an office network.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="allowlist-ip">IP Address or Range</Label>
+              <Input
+                id="allowlist-ip"
+                value={ipRange}
+                onChange={(e) => setIpRange(e.target.value)}
+                placeholder="203.0.113.0/24"
+                maxLength={64}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="allowlist-label">Label</Label>
+              <Input
+                id="allowlist-label"
+                value={label}
+                onChange={(e) => setLabel(e.target.value)}
+                placeholder="District Secretariat, Kandy"
+                maxLength={100}
+              />
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setAddOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleAdd} disabled={saving || !ipRange.trim() || !label.trim()}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Add
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,15 +1,12 @@
-import { useEffect, useState, useMemo } from "react";
+import { useCallback, useEffect, useRef, useState, useMemo } from "react";
 import { useTranslation } from "react-i18next";
+import { useSearchParams } from "react-router-dom";
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
   flexRender,
   createColumnHelper,
   SortingState,
-  ColumnFiltersState,
 } from "@tanstack/react-table";
 import { formatDistanceToNow } from "@/lib/utils";
 import { Button } from "@/components/ui/button";
@@ -32,10 +29,12 @@ import {
   DialogFooter,
 } from "@/components/ui/dialog";
 import { ReportDetailSheet } from "@/components/admin/ReportDetailSheet";
+import { OrgWorkloadDialog } from "@/components/admin/OrgWorkloadDialog";
 import {
   CheckCircle,
   Clock,
   XCircle,
+  FolderKanban,
   AlertTriangle,
   MapPin,
   Loader2,
@@ -51,7 +50,11 @@ import {
   Check,
   X,
   Building2,
+  Inbox,
+  Users,
   Download,
+  ArrowUpDown,
+  Merge,
 } from "lucide-react";
 import { ReportCard } from "@/components/admin/ReportCard";
 import { RejectReasonSheet } from "@/components/admin/RejectReasonSheet";
@@ -60,6 +63,7 @@ import { ClassifyReportSheet } from "@/components/admin/ClassifyReportSheet";
 import { StatusSummary } from "@/components/admin/StatusSummary";
 import { ExportReportsDialog } from "@/components/admin/ExportReportsDialog";
 import { provinces } from "@/data/sriLankaLocations";
+import { useLocationChildren, useLocationName } from "@/hooks/useLocationChildren";
 import { useAuthStore } from "@/stores/auth";
 
 interface Report {
@@ -68,6 +72,8 @@ interface Report {
   damageType: string;
   severity: number;
   status: string;
+  priorityScore?: number | null;
+  priorityVersion?: string | null;
   latitude: number;
   longitude: number;
   locationName: string | null;
@@ -91,6 +97,10 @@ interface Report {
   districtId: string | null;
   provinceName: string | null;
   districtName: string | null;
+  dsDivisionId?: string | null;
+  gnDivisionId?: string | null;
+  dsDivisionName?: string | null;
+  gnDivisionName?: string | null;
   roadLocation: string | null;
   mediaCount?: number;
   // Classification fields
@@ -100,10 +110,31 @@ interface Report {
   assignedOrgId: string | null;
   assignedOrgName?: string | null;
   assignedOrgCode?: string | null;
+  assignedUserId?: string | null;
+  assignedUserName?: string | null;
   // Manual location flag
   locationPickedManually?: boolean | number | null;
 }
 
+interface ReportPage {
+  reports: Report[];
+  // Reports per status, with every filter but status applied
+  statusCounts: Partial<Record<string, number>>;
+  pagination: {
+    page: number;
+    limit: number;
+    totalCount: number;
+    totalPages: number;
+    hasNext: boolean;
+    hasPrev: boolean;
+  };
+}
+
+interface WorkQueueInfo {
+  organizations: { id: string; code: string; name: string; orgRole: string }[];
+  canViewWorkloads: boolean;
+}
+
 interface Organization {
   id: string;
   name: string;
@@ -116,16 +147,20 @@ const statusColors: Record<string, string> = {
   new: "bg-blue-100 text-blue-800 dark:bg-blue-900/30 dark:text-blue-400",
   verified: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400",
   in_progress: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900/30 dark:text-yellow-400",
+  linked_to_project: "bg-violet-100 text-violet-800 dark:bg-violet-900/30 dark:text-violet-400",
   resolved: "bg-gray-100 text-gray-800 dark:bg-gray-900/30 dark:text-gray-400",
   rejected: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400",
+  merged: "bg-slate-100 text-slate-800 dark:bg-slate-900/30 dark:text-slate-400",
 };
 
 const statusIcons: Record<string, React.ReactNode> = {
   new: <Clock className="w-3 h-3" />,
   verified: <CheckCircle className="w-3 h-3" />,
   in_progress: <AlertTriangle className="w-3 h-3" />,
+  linked_to_project: <FolderKanban className="w-3 h-3" />,
   resolved: <CheckCircle className="w-3 h-3" />,
   rejected: <XCircle className="w-3 h-3" />,
+  merged: <Merge className="w-3 h-3" />,
 };
 
 const damageTypeLabels: Record<string, string> = {
@@ -151,6 +186,39 @@ const passabilityOptions = [
   { value: "truck", label: "Truck" },
 ];
 
+const classificationStatuses = ["pending", "auto_classified", "manual_classified", "legacy", "unclassifiable"];
+
+const PAGE_SIZE = 20;
+// Largest page the API returns; exports fetch page by page
+const EXPORT_PAGE_SIZE = 500;
+
+// URL search params passed through to GET /api/v1/admin/reports
+const LIST_PARAMS = [
+  "queue",
+  "status",
+  "province",
+  "district",
+  "dsDivision",
+  "gnDivision",
+  "org",
+  "damageType",
+  "severity",
+  "classificationStatus",
+  "from",
+  "to",
+  "q",
+  "sort",
+  "order",
+  "page",
+];
+
+// Priority score color (score is 0-100, higher = more urgent)
+function getPriorityColor(score: number): string {
+  if (score >= 70) return "text-red-600";
+  if (score >= 40) return "text-orange-600";
+  return "text-gray-500";
+}
+
 const columnHelper = createColumnHelper<Report>();
 
 export function AdminReports() {
@@ -158,11 +226,10 @@ export function AdminReports() {
   const { user } = useAuthStore();
   const userRole = user?.role || "citizen";
   const [reports, setReports] = useState<Report[]>([]);
+  const [statusCounts, setStatusCounts] = useState<ReportPage["statusCounts"]>({});
+  const [pagination, setPagination] = useState<ReportPage["pagination"] | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [sorting, setSorting] = useState<SortingState>([]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [globalFilter, setGlobalFilter] = useState("");
   const [editingReport, setEditingReport] = useState<Report | null>(null);
   const [saving, setSaving] = useState(false);
 
@@ -175,10 +242,32 @@ export function AdminReports() {
     return localStorage.getItem("adminReportsView") as "cards" | "table" || "cards";
   });
 
-  // District filter
-  const [selectedProvince, setSelectedProvince] = useState<string>("");
-  const [selectedDistrict, setSelectedDistrict] = useState<string>("");
-  const [selectedStatus, setSelectedStatus] = useState<string | null>(null);
+  // Filters, sorting and page live in the URL so a filtered list can be shared or reloaded
+  // ?report=<id> opens a report directly (used by links in notification emails)
+  const [searchParams, setSearchParams] = useSearchParams();
+  const selectedProvince = searchParams.get("province") || "";
+  const selectedDistrict = searchParams.get("district") || "";
+  // DS / GN division filters hold location ids
+  const selectedDsDivision = searchParams.get("dsDivision") || "";
+  const selectedGnDivision = searchParams.get("gnDivision") || "";
+  const selectedStatus = searchParams.get("status");
+  const selectedOrgId = searchParams.get("org") || "";
+  const selectedDamageType = searchParams.get("damageType") || "";
+  const selectedSeverity = searchParams.get("severity") || "";
+  const selectedClassification = searchParams.get("classificationStatus") || "";
+  const dateFrom = searchParams.get("from") || "";
+  const dateTo = searchParams.get("to") || "";
+  const sortBy = searchParams.get("sort") || "createdAt";
+  const sortOrder = searchParams.get("order") === "asc" ? "asc" : "desc";
+  const page = Math.max(1, Number(searchParams.get("page")) || 1);
+  // Organization work queue: "mine" limits the list to reports assigned to the user's orgs
+  const queue = searchParams.get("queue") === "mine" ? "mine" : "all";
+
+  // Search box updates the URL after typing pauses
+  const [searchInput, setSearchInput] = useState(() => searchParams.get("q") || "");
+
+  const [workQueue, setWorkQueue] = useState<WorkQueueInfo | null>(null);
+  const [workloadOpen, setWorkloadOpen] = useState(false);
 
   // Rejection sheet
   const [rejectingReport, setRejectingReport] = useState<Report | null>(null);
@@ -189,11 +278,19 @@ export function AdminReports() {
 
   // Organization filter
   const [organizations, setOrganizations] = useState<Organization[]>([]);
-  const [selectedOrgId, setSelectedOrgId] = useState<string>("");
 
   // Sheet state for viewing report details
-  const [selectedReportId, setSelectedReportId] = useState<string | null>(null);
-  const [sheetOpen, setSheetOpen] = useState(false);
+  const [selectedReportId, setSelectedReportId] = useState<string | null>(() => searchParams.get("report"));
+  const [sheetOpen, setSheetOpen] = useState(() => searchParams.has("report"));
+
+  // Links (emails, header search) can open a report while the page is already showing
+  const linkedReportId = searchParams.get("report");
+  useEffect(() => {
+    if (linkedReportId) {
+      setSelectedReportId(linkedReportId);
+      setSheetOpen(true);
+    }
+  }, [linkedReportId]);
 
   // Classify sheet state
   const [classifyingReport, setClassifyingReport] = useState<Report | null>(null);
@@ -206,26 +303,84 @@ export function AdminReports() {
     localStorage.setItem("adminReportsView", viewMode);
   }, [viewMode]);
 
-  const fetchReports = async () => {
+  // Sets or clears URL filters; any change other than the page starts again from page 1
+  const updateFilters = useCallback(
+    (changes: Record<string, string | null>) => {
+      setSearchParams(
+        (prev) => {
+          const next = new URLSearchParams(prev);
+          for (const [key, value] of Object.entries(changes)) {
+            if (value) {
+              next.set(key, value);
+            } else {
+              next.delete(key);
+            }
+          }
+          if (!("page" in changes)) next.delete("page");
+          return next;
+        },
+        { replace: true }
+      );
+    },
+    [setSearchParams]
+  );
+
+  const listQuery = useMemo(() => {
+    const params = new URLSearchParams();
+    for (const key of LIST_PARAMS) {
+      const value = searchParams.get(key);
+      if (value) params.set(key, value);
+    }
+    return params.toString();
+  }, [searchParams]);
+
+  const fetchReportPage = useCallback(async (query: string, pageParams: Record<string, string>) => {
+    const params = new URLSearchParams(query);
+    for (const [key, value] of Object.entries(pageParams)) params.set(key, value);
+    const response = await fetch(`/api/v1/admin/reports?${params}`, {
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error("Failed to fetch reports");
+    }
+    return (await response.json()) as ReportPage;
+  }, []);
+
+  const fetchReports = useCallback(async () => {
     setLoading(true);
     setError(null);
     try {
-      const response = await fetch("/api/v1/admin/reports", {
-        credentials: "include",
-      });
-      if (!response.ok) {
-        throw new Error("Failed to fetch reports");
-      }
-      const data = (await response.json()) as Report[];
-      setReports(data);
+      const data = await fetchReportPage(listQuery, { limit: String(PAGE_SIZE) });
+      setReports(data.reports);
+      setStatusCounts(data.statusCounts);
+      setPagination(data.pagination);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load reports");
     } finally {
       setLoading(false);
     }
+  }, [fetchReportPage, listQuery]);
+
+  // Every report matching the current filters (or every report), for export
+  const loadAllReports = async (scope: "filtered" | "all") => {
+    const query = new URLSearchParams(scope === "filtered" ? listQuery : "");
+    if (queue === "mine") query.set("queue", "mine");
+    for (const key of ["sort", "order"]) {
+      const value = searchParams.get(key);
+      if (value) query.set(key, value);
+    }
+    const all: Report[] = [];
+    for (let exportPage = 1; ; exportPage++) {
+      const data = await fetchReportPage(query.toString(), {
+        page: String(exportPage),
+        limit: String(EXPORT_PAGE_SIZE),
+      });
+      all.push(...data.reports);
+      if (!data.pagination.hasNext) return all;
+    }
   };
 
-  const fetchOrganizations = async () => {
+  const fetchOrganizations = useCallback(async () => {
     try {
       const response = await fetch("/api/v1/admin/organizations", {
         credentials: "include",
@@ -237,69 +392,60 @@ export function AdminReports() {
     } catch (err) {
       console.error("Failed to fetch organizations:", err);
     }
-  };
+  }, []);
+
+  // Latest URL params for the work queue load, which only runs once
+  const searchParamsRef = useRef(searchParams);
+  searchParamsRef.current = searchParams;
+
+  const fetchWorkQueue = useCallback(async () => {
+    try {
+      const response = await fetch("/api/v1/admin/work-queue", {
+        credentials: "include",
+      });
+      if (response.ok) {
+        const data = (await response.json()) as WorkQueueInfo;
+        setWorkQueue(data);
+        // Members of an organization start on their own queue unless the URL picks one
+        if (data.organizations.length > 0 && !searchParamsRef.current.has("queue")) updateFilters({ queue: "mine" });
+      }
+    } catch (err) {
+      console.error("Failed to fetch work queue:", err);
+    }
+  }, [updateFilters]);
 
   useEffect(() => {
-    fetchReports();
     fetchOrganizations();
-  }, []);
+    fetchWorkQueue();
+  }, [fetchOrganizations, fetchWorkQueue]);
 
-  // Calculate status counts
-  const statusCounts = useMemo(() => {
-    const counts = { new: 0, verified: 0, in_progress: 0, resolved: 0, rejected: 0 };
-    const filteredByLocation = reports.filter((r) => {
-      if (selectedProvince && r.provinceName?.toLowerCase() !== selectedProvince.toLowerCase()) {
-        return false;
-      }
-      if (selectedDistrict && r.districtName?.toLowerCase() !== selectedDistrict.toLowerCase()) {
-        return false;
-      }
-      if (selectedOrgId && r.assignedOrgId !== selectedOrgId) {
-        return false;
-      }
-      return true;
-    });
-    filteredByLocation.forEach((r) => {
-      if (r.status in counts) {
-        counts[r.status as keyof typeof counts]++;
-      }
-    });
-    return counts;
-  }, [reports, selectedProvince, selectedDistrict, selectedOrgId]);
-
-  // Filter reports for card view
-  const filteredReports = useMemo(() => {
-    return reports.filter((r) => {
-      // Province filter
-      if (selectedProvince && r.provinceName?.toLowerCase() !== selectedProvince.toLowerCase()) {
-        return false;
-      }
-      // District filter
-      if (selectedDistrict && r.districtName?.toLowerCase() !== selectedDistrict.toLowerCase()) {
-        return false;
-      }
-      // Status filter
-      if (selectedStatus && r.status !== selectedStatus) {
-        return false;
-      }
-      // Organization filter
-      if (selectedOrgId && r.assignedOrgId !== selectedOrgId) {
-        return false;
-      }
-      // Global search
-      if (globalFilter) {
-        const search = globalFilter.toLowerCase();
-        return (
-          r.reportNumber.toLowerCase().includes(search) ||
-          r.description?.toLowerCase().includes(search) ||
-          r.damageType.toLowerCase().includes(search) ||
-          r.locationName?.toLowerCase().includes(search) ||
-          r.roadLocation?.toLowerCase().includes(search)
-        );
-      }
-      return true;
-    });
-  }, [reports, selectedProvince, selectedDistrict, selectedStatus, selectedOrgId, globalFilter]);
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  // Keep the search box in step with the URL (e.g. back/forward navigation)
+  const searchQuery = searchParams.get("q") || "";
+  useEffect(() => {
+    setSearchInput(searchQuery);
+  }, [searchQuery]);
+
+  useEffect(() => {
+    if (searchInput.trim() === searchQuery) return;
+    const timeout = setTimeout(() => updateFilters({ q: searchInput.trim() || null }), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput, searchQuery, updateFilters]);
+
+  const counts = {
+    new: statusCounts.new || 0,
+    verified: statusCounts.verified || 0,
+    in_progress: statusCounts.in_progress || 0,
+    linked_to_project: statusCounts.linked_to_project || 0,
+    resolved: statusCounts.resolved || 0,
+    rejected: statusCounts.rejected || 0,
+    merged: statusCounts.merged || 0,
+  };
+
+  const hasFilters = LIST_PARAMS.some((key) => !["queue", "sort", "order", "page"].includes(key) && searchParams.has(key));
 
   // Get districts for selected province
   const availableDistricts = useMemo(() => {
@@ -310,6 +456,12 @@ export function AdminReports() {
     return province?.districts || [];
   }, [selectedProvince]);
 
+  // DS divisions of the selected district and GN divisions of the selected DS division
+  const selectedDistrictId = availableDistricts.find((d) => d.name === selectedDistrict)?.id || null;
+  const { children: availableDsDivisions } = useLocationChildren(selectedDistrictId);
+  const { children: availableGnDivisions } = useLocationChildren(selectedDsDivision || null);
+  const locationName = useLocationName();
+
   const openReportSheet = (id: string) => {
     setSelectedReportId(id);
     setSheetOpen(true);
@@ -321,7 +473,7 @@ export function AdminReports() {
     );
   };
 
-  const updateReport = async (id: string, updates: Partial<Report>) => {
+  const updateReport = async (id: string, updates: Partial<Report> & { statusReason?: string }) => {
     const response = await fetch(`/api/v1/admin/reports/${id}`, {
       method: "PATCH",
       headers: { "Content-Type": "application/json" },
@@ -360,13 +512,12 @@ export function AdminReports() {
     }
   };
 
-  const handleConfirmReject = async (_reason: string) => {
-    void _reason; // Will be used when stateTransitions storage is implemented
+  const handleConfirmReject = async (reason: string) => {
     if (!rejectingReport) return;
     setUpdatingReportId(rejectingReport.id);
     try {
-      // TODO: Store rejection reason in stateTransitions
-      await updateReport(rejectingReport.id, { status: "rejected" });
+      // The reason is kept in the audit trail and emailed to the submitter
+      await updateReport(rejectingReport.id, { status: "rejected", statusReason: reason });
       setReports((prev) =>
         prev.map((r) => (r.id === rejectingReport.id ? { ...r, status: "rejected" } : r))
       );
@@ -555,6 +706,22 @@ export function AdminReports() {
           );
         },
       }),
+      columnHelper.accessor("priorityScore", {
+        header: "Priority",
+        cell: (info) => {
+          const score = info.getValue();
+          return score != null ? (
+            <span
+              className={`font-medium ${getPriorityColor(score)}`}
+              title={info.row.original.priorityVersion ? `Weights: ${info.row.original.priorityVersion}` : undefined}
+            >
+              {Math.round(score)}
+            </span>
+          ) : (
+            <span className="text-gray-400 text-sm">-</span>
+          );
+        },
+      }),
       columnHelper.accessor("status", {
         header: "Status",
         cell: (info) => {
@@ -601,10 +768,6 @@ export function AdminReports() {
             </div>
           );
         },
-        filterFn: (row, id, value) => {
-          if (value === "all") return true;
-          return row.getValue(id) === value;
-        },
       }),
       columnHelper.accessor("districtName", {
         header: "District",
@@ -632,6 +795,7 @@ export function AdminReports() {
       }),
       columnHelper.accessor("latitude", {
         header: "Map",
+        enableSorting: false,
         cell: (info) => (
           <a
             href={`https://www.google.com/maps?q=${info.getValue()},${info.row.original.longitude}`}
@@ -673,29 +837,37 @@ export function AdminReports() {
     [updatingReportId]
   );
 
+  // Sorting and paging happen on the server; the table only renders the current page
+  const sorting: SortingState = [{ id: sortBy, desc: sortOrder === "desc" }];
   const table = useReactTable({
-    data: filteredReports,
+    data: reports,
     columns,
     state: {
       sorting,
-      columnFilters,
-      globalFilter,
     },
-    onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
-    onGlobalFilterChange: setGlobalFilter,
-    getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    initialState: {
-      pagination: {
-        pageSize: 20,
-      },
+    onSortingChange: (updater) => {
+      const next = typeof updater === "function" ? updater(sorting) : updater;
+      updateFilters(
+        next.length > 0
+          ? { sort: next[0].id, order: next[0].desc ? "desc" : "asc" }
+          : { sort: null, order: null }
+      );
     },
+    getCoreRowModel: getCoreRowModel(),
+    manualSorting: true,
+    manualPagination: true,
+    pageCount: pagination?.totalPages ?? -1,
   });
 
-  if (loading) {
+  // Newest and highest-priority are presets; sorting by a table column shows as custom
+  const sortPreset =
+    sortBy === "createdAt" && sortOrder === "desc"
+      ? "newest"
+      : sortBy === "priorityScore" && sortOrder === "desc"
+        ? "priority"
+        : "";
+
+  if (loading && !pagination) {
     return (
       <div className="flex items-center justify-center min-h-[50vh]">
         <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
@@ -743,6 +915,12 @@ export function AdminReports() {
                 <LayoutList className="w-4 h-4" />
               </Button>
             </div>
+            {workQueue?.canViewWorkloads && (
+              <Button onClick={() => setWorkloadOpen(true)} variant="outline">
+                <Users className="w-4 h-4 mr-2" />
+                {t("admin.teamWorkload")}
+              </Button>
+            )}
             <Button onClick={fetchReports} variant="outline" size="icon">
               <RefreshCw className="w-4 h-4" />
             </Button>
@@ -752,13 +930,31 @@ export function AdminReports() {
         {/* Filters row */}
         <div className="flex flex-col sm:flex-row gap-3">
           <div className="flex gap-2 flex-1">
+            {/* Work queue */}
+            {workQueue && workQueue.organizations.length > 0 && (
+              <Select value={queue} onValueChange={(value) => updateFilters({ queue: value })}>
+                <SelectTrigger className="w-[200px]">
+                  <Inbox className="w-4 h-4 mr-1 opacity-50" />
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="mine">{t("admin.myOrgQueue")}</SelectItem>
+                  <SelectItem value="all">{t("admin.allReports")}</SelectItem>
+                </SelectContent>
+              </Select>
+            )}
+
             {/* Province filter */}
             <Select
               value={selectedProvince}
-              onValueChange={(value) => {
-                setSelectedProvince(value === "all" ? "" : value);
-                setSelectedDistrict("");
-              }}
+              onValueChange={(value) =>
+                updateFilters({
+                  province: value === "all" ? null : value,
+                  district: null,
+                  dsDivision: null,
+                  gnDivision: null,
+                })
+              }
             >
               <SelectTrigger className="w-[140px]">
                 <SelectValue placeholder={t("admin.province")} />
@@ -777,7 +973,9 @@ export function AdminReports() {
             {selectedProvince && (
               <Select
                 value={selectedDistrict}
-                onValueChange={(value) => setSelectedDistrict(value === "all" ? "" : value)}
+                onValueChange={(value) =>
+                  updateFilters({ district: value === "all" ? null : value, dsDivision: null, gnDivision: null })
+                }
               >
                 <SelectTrigger className="w-[140px]">
                   <SelectValue placeholder={t("admin.district")} />
@@ -793,11 +991,53 @@ export function AdminReports() {
               </Select>
             )}
 
+            {/* DS division filter */}
+            {selectedDistrict && availableDsDivisions.length > 0 && (
+              <Select
+                value={selectedDsDivision}
+                onValueChange={(value) =>
+                  updateFilters({ dsDivision: value === "all" ? null : value, gnDivision: null })
+                }
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder={t("admin.dsDivision")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("admin.allDsDivisions")}</SelectItem>
+                  {availableDsDivisions.map((ds) => (
+                    <SelectItem key={ds.id} value={ds.id}>
+                      {locationName(ds)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
+            {/* GN division filter */}
+            {selectedDsDivision && availableGnDivisions.length > 0 && (
+              <Select
+                value={selectedGnDivision}
+                onValueChange={(value) => updateFilters({ gnDivision: value === "all" ? null : value })}
+              >
+                <SelectTrigger className="w-[160px]">
+                  <SelectValue placeholder={t("admin.gnDivision")} />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t("admin.allGnDivisions")}</SelectItem>
+                  {availableGnDivisions.map((gn) => (
+                    <SelectItem key={gn.id} value={gn.id}>
+                      {locationName(gn)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+
             {/* Organization filter */}
             {organizations.length > 0 && (
               <Select
                 value={selectedOrgId}
-                onValueChange={(value) => setSelectedOrgId(value === "all" ? "" : value)}
+                onValueChange={(value) => updateFilters({ org: value === "all" ? null : value })}
               >
                 <SelectTrigger className="w-[140px]">
                   <Building2 className="w-4 h-4 mr-1 opacity-50" />
@@ -814,11 +1054,32 @@ export function AdminReports() {
               </Select>
             )}
 
+            {/* Sort order */}
+            <Select
+              value={sortPreset}
+              onValueChange={(value) =>
+                updateFilters(
+                  value === "priority"
+                    ? { sort: "priorityScore", order: "desc" }
+                    : { sort: null, order: null }
+                )
+              }
+            >
+              <SelectTrigger className="w-[160px]">
+                <ArrowUpDown className="w-4 h-4 mr-1 opacity-50" />
+                <SelectValue placeholder={t("admin.sortCustom")} />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="newest">{t("admin.sortNewest")}</SelectItem>
+                <SelectItem value="priority">{t("admin.sortPriority")}</SelectItem>
+              </SelectContent>
+            </Select>
+
             {/* Search */}
             <Input
               placeholder={t("admin.search")}
-              value={globalFilter}
-              onChange={(e) => setGlobalFilter(e.target.value)}
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
               className="flex-1 max-w-[200px]"
             />
           </div>
@@ -827,7 +1088,7 @@ export function AdminReports() {
           <Button
             variant="outline"
             onClick={() => setExportDialogOpen(true)}
-            disabled={reports.length === 0}
+            disabled={!pagination || pagination.totalCount === 0}
             className="ml-auto"
           >
             <Download className="w-4 h-4 mr-2" />
@@ -835,23 +1096,117 @@ export function AdminReports() {
           </Button>
         </div>
 
+        {/* Report attribute filters */}
+        <div className="flex flex-wrap items-center gap-2">
+          <Select
+            value={selectedDamageType}
+            onValueChange={(value) => updateFilters({ damageType: value === "all" ? null : value })}
+          >
+            <SelectTrigger className="w-[160px]">
+              <SelectValue placeholder={t("admin.damageType")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("admin.allDamageTypes")}</SelectItem>
+              {Object.entries(damageTypeLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={selectedSeverity}
+            onValueChange={(value) => updateFilters({ severity: value === "all" ? null : value })}
+          >
+            <SelectTrigger className="w-[130px]">
+              <SelectValue placeholder={t("admin.severity")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("admin.allSeverities")}</SelectItem>
+              {[1, 2, 3, 4, 5].map((level) => (
+                <SelectItem key={level} value={String(level)}>
+                  {level}/5
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <Select
+            value={selectedClassification}
+            onValueChange={(value) => updateFilters({ classificationStatus: value === "all" ? null : value })}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder={t("admin.classification")} />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">{t("admin.allClassifications")}</SelectItem>
+              {classificationStatuses.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {t(`classification.${status}`)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          <label className="flex items-center gap-1 text-sm text-gray-500">
+            {t("admin.dateFrom")}
+            <Input
+              type="date"
+              value={dateFrom}
+              max={dateTo || undefined}
+              onChange={(e) => updateFilters({ from: e.target.value || null })}
+              className="w-[150px]"
+            />
+          </label>
+          <label className="flex items-center gap-1 text-sm text-gray-500">
+            {t("admin.dateTo")}
+            <Input
+              type="date"
+              value={dateTo}
+              min={dateFrom || undefined}
+              onChange={(e) => updateFilters({ to: e.target.value || null })}
+              className="w-[150px]"
+            />
+          </label>
+
+          {hasFilters && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => {
+                setSearchInput("");
+                updateFilters(
+                  Object.fromEntries(
+                    LIST_PARAMS.filter((key) => !["queue", "sort", "order"].includes(key)).map((key) => [key, null])
+                  )
+                );
+              }}
+            >
+              <X className="w-4 h-4 mr-1" />
+              {t("admin.clearFilters")}
+            </Button>
+          )}
+        </div>
+
         {/* Status summary */}
         <StatusSummary
-          counts={statusCounts}
+          counts={counts}
           selectedStatus={selectedStatus}
-          onStatusClick={setSelectedStatus}
+          onStatusClick={(status) => updateFilters({ status })}
         />
       </div>
 
       {/* Stats */}
-      <div className="text-sm text-gray-500">
-        {t("admin.showingReports", { filtered: filteredReports.length, total: reports.length })}
+      <div className="flex items-center gap-2 text-sm text-gray-500">
+        {t("admin.showingReports", { filtered: reports.length, total: pagination?.totalCount ?? 0 })}
+        {loading && <Loader2 className="w-4 h-4 animate-spin" />}
       </div>
 
       {/* Card View (Mobile-first) */}
       {viewMode === "cards" && (
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-          {filteredReports.map((report) => (
+          {reports.map((report) => (
             <ReportCard
               key={report.id}
               report={report}
@@ -867,7 +1222,7 @@ export function AdminReports() {
               isUpdating={updatingReportId === report.id}
             />
           ))}
-          {filteredReports.length === 0 && (
+          {reports.length === 0 && (
             <div className="col-span-full text-center py-12 text-gray-500">
               {t("admin.noReportsFound")}
             </div>
@@ -949,35 +1304,41 @@ export function AdminReports() {
               </table>
             </div>
           </div>
-
-          {/* Pagination */}
-          <div className="flex items-center justify-between">
-            <div className="text-sm text-gray-500">
-              {t("admin.page")} {table.getState().pagination.pageIndex + 1} {t("admin.of")}{" "}
-              {table.getPageCount()}
-            </div>
-            <div className="flex items-center gap-2">
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.previousPage()}
-                disabled={!table.getCanPreviousPage()}
-              >
-                <ChevronLeft className="w-4 h-4" />
-              </Button>
-              <Button
-                variant="outline"
-                size="sm"
-                onClick={() => table.nextPage()}
-                disabled={!table.getCanNextPage()}
-              >
-                <ChevronRight className="w-4 h-4" />
-              </Button>
+          {reports.length === 0 && (
+            <div className="text-center py-12 text-gray-500">
+              {t("admin.noReportsFound")}
             </div>
-          </div>
+          )}
         </>
       )}
 
+      {/* Pagination */}
+      {pagination && pagination.totalPages > 1 && (
+        <div className="flex items-center justify-between">
+          <div className="text-sm text-gray-500">
+            {t("admin.page")} {page} {t("admin.of")} {pagination.totalPages}
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateFilters({ page: String(page - 1) })}
+              disabled={!pagination.hasPrev || loading}
+            >
+              <ChevronLeft className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateFilters({ page: String(page + 1) })}
+              disabled={!pagination.hasNext || loading}
+            >
+              <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      )}
+
       {/* Rejection Reason Sheet */}
       <RejectReasonSheet
         open={!!rejectingReport}
@@ -1031,6 +1392,7 @@ export function AdminReports() {
                       <SelectItem value="new">New</SelectItem>
                       <SelectItem value="verified">Verified</SelectItem>
                       <SelectItem value="in_progress">In Progress</SelectItem>
+                      <SelectItem value="linked_to_project">Linked to Project</SelectItem>
                       <SelectItem value="resolved">Resolved</SelectItem>
                       <SelectItem value="rejected">Rejected</SelectItem>
                     </SelectContent>
@@ -1283,7 +1645,20 @@ export function AdminReports() {
       {/* Report Details Sheet */}
       <ReportDetailSheet
         open={sheetOpen}
-        onOpenChange={setSheetOpen}
+        onOpenChange={(open) => {
+          setSheetOpen(open);
+          // Drop the link so the same report can be opened from it again
+          if (!open && linkedReportId) {
+            setSearchParams(
+              (prev) => {
+                const next = new URLSearchParams(prev);
+                next.delete("report");
+                return next;
+              },
+              { replace: true }
+            );
+          }
+        }}
         reportId={selectedReportId}
         onUpdate={handleReportUpdate}
       />
@@ -1302,13 +1677,16 @@ export function AdminReports() {
         />
       )}
 
+      {/* Team workload per organization member */}
+      <OrgWorkloadDialog open={workloadOpen} onOpenChange={setWorkloadOpen} />
+
       {/* Export Reports Dialog */}
       <ExportReportsDialog
         open={exportDialogOpen}
         onOpenChange={setExportDialogOpen}
-        reports={reports}
-        filteredReports={filteredReports}
-        table={table}
+        pageReports={reports}
+        filteredCount={pagination?.totalCount ?? 0}
+        loadReports={loadAllReports}
         currentFilters={{
           province: selectedProvince,
           district: selectedDistrict,
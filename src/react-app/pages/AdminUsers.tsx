@@ -67,8 +67,11 @@ import {
   History,
   Copy,
   Check,
+  MapPin,
 } from "lucide-react";
 import { UserAuditTimeline } from "@/components/admin/UserAuditTimeline";
+import { useAuthStore } from "@/stores/auth";
+import { provinces } from "@/data/sriLankaLocations";
 
 interface UserOrgInfo {
   orgId: string;
@@ -89,6 +92,8 @@ interface User {
   emailVerified: boolean | number;
   createdAt: string;
   lastLogin: string | null;
+  provinceScope: string | null;
+  districtScope: string | null;
   organizations: UserOrgInfo[];
 }
 
@@ -180,6 +185,9 @@ const orgRoleOptions = [
 const columnHelper = createColumnHelper<User>();
 
 export function AdminUsers() {
+  const { user: currentUser } = useAuthStore();
+  // Only super admins can limit users to a province or district
+  const canEditScope = currentUser?.role === "super_admin";
   const [users, setUsers] = useState<User[]>([]);
   const [pendingInvitations, setPendingInvitations] = useState<PendingInvitation[]>([]);
   const [allOrganizations, setAllOrganizations] = useState<Organization[]>([]);
@@ -207,6 +215,8 @@ export function AdminUsers() {
   const [editName, setEditName] = useState("");
   const [editDesignation, setEditDesignation] = useState("");
   const [editPhone, setEditPhone] = useState("");
+  const [editProvinceScope, setEditProvinceScope] = useState("");
+  const [editDistrictScope, setEditDistrictScope] = useState("");
   const [saving, setSaving] = useState(false);
 
   // Organization management state
@@ -350,6 +360,10 @@ export function AdminUsers() {
           isActive: Boolean(editingUser.isActive),
           designation: editDesignation || null,
           phone: editPhone || null,
+          ...(canEditScope && {
+            provinceScope: editProvinceScope || null,
+            districtScope: editDistrictScope || null,
+          }),
         }),
         credentials: "include",
       });
@@ -521,6 +535,8 @@ export function AdminUsers() {
       setEditName(editingUser.name || "");
       setEditDesignation(editingUser.designation || "");
       setEditPhone(editingUser.phone || "");
+      setEditProvinceScope(editingUser.provinceScope || "");
+      setEditDistrictScope(editingUser.districtScope || "");
       setEditModalTab("edit");
     } else {
       setUserMemberships([]);
@@ -530,6 +546,8 @@ export function AdminUsers() {
       setEditName("");
       setEditDesignation("");
       setEditPhone("");
+      setEditProvinceScope("");
+      setEditDistrictScope("");
     }
   }, [editingUser]);
 
@@ -1248,6 +1266,59 @@ export function AdminUsers() {
                       </div>
                     </div>
 
+                    {/* Province/District Scope */}
+                    {canEditScope && (
+                      <div className="space-y-2">
+                        <Label className="flex items-center gap-2">
+                          <MapPin className="w-4 h-4" />
+                          Area Scope
+                        </Label>
+                        <div className="grid grid-cols-2 gap-4">
+                          <Select
+                            value={editProvinceScope || "all"}
+                            onValueChange={(value) => {
+                              setEditProvinceScope(value === "all" ? "" : value);
+                              setEditDistrictScope("");
+                            }}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All provinces</SelectItem>
+                              {provinces.map((p) => (
+                                <SelectItem key={p.id} value={p.id}>
+                                  {p.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Select
+                            value={editDistrictScope || "all"}
+                            onValueChange={(value) => setEditDistrictScope(value === "all" ? "" : value)}
+                            disabled={!editProvinceScope}
+                          >
+                            <SelectTrigger>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              <SelectItem value="all">All districts</SelectItem>
+                              {provinces
+                                .find((p) => p.id === editProvinceScope)
+                                ?.districts.map((d) => (
+                                  <SelectItem key={d.id} value={d.id}>
+                                    {d.name}
+                                  </SelectItem>
+                                ))}
+                            </SelectContent>
+                          </Select>
+                        </div>
+                        <p className="text-xs text-gray-500">
+                          Limits which reports this user can view and edit. Super admins are never limited.
+                        </p>
+                      </div>
+                    )}
+
                     {/* Organization Memberships */}
                     <div className="space-y-3 border-t pt-4 mt-2">
                       <Label className="flex items-center gap-2">
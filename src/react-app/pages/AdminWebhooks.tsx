@@ -0,0 +1,651 @@
+import { Fragment, useCallback, useEffect, useState } from "react";
+import { format, formatDistanceToNow } from "date-fns";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Copy,
+  KeyRound,
+  Loader2,
+  Pause,
+  Pencil,
+  Play,
+  Plus,
+  RefreshCw,
+  RotateCw,
+  Send,
+  Trash2,
+  Webhook as WebhookIcon,
+} from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface Webhook {
+  id: string;
+  name: string;
+  url: string;
+  eventTypes: string[];
+  isActive: boolean;
+  secretHint: string;
+  createdAt: string;
+  pendingCount: number;
+  failedCount: number;
+  succeededCount: number;
+  lastDeliveryAt: string | null;
+}
+
+interface WebhookDelivery {
+  id: string;
+  eventType: string;
+  payload: Record<string, unknown>;
+  status: "pending" | "succeeded" | "failed";
+  attempts: number;
+  nextAttemptAt: string | null;
+  responseStatus: number | null;
+  lastError: string | null;
+  createdAt: string;
+  deliveredAt: string | null;
+}
+
+interface Pagination {
+  page: number;
+  totalCount: number;
+  totalPages: number;
+  hasNext: boolean;
+  hasPrev: boolean;
+}
+
+const EVENT_LABELS: Record<string, string> = {
+  "report.verified": "Report verified",
+  "report.resolved": "Report resolved",
+  "segment.created": "Closure added",
+  "segment.deleted": "Closure removed",
+  "project.updated": "Project updated",
+  "webhook.test": "Test",
+};
+
+const STATUS_STYLES: Record<WebhookDelivery["status"], string> = {
+  pending: "bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-300",
+  succeeded: "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300",
+  failed: "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-300",
+};
+
+export function AdminWebhooks() {
+  const [webhooks, setWebhooks] = useState<Webhook[]>([]);
+  const [eventTypes, setEventTypes] = useState<string[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+
+  // Delivery history of the selected webhook
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([]);
+  const [pagination, setPagination] = useState<Pagination | null>(null);
+  const [page, setPage] = useState(1);
+  const [statusFilter, setStatusFilter] = useState("all");
+  const [deliveriesLoading, setDeliveriesLoading] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Create/edit dialog
+  const [formOpen, setFormOpen] = useState(false);
+  const [editing, setEditing] = useState<Webhook | null>(null);
+  const [name, setName] = useState("");
+  const [url, setUrl] = useState("");
+  const [selectedEvents, setSelectedEvents] = useState<Set<string>>(new Set());
+  const [saving, setSaving] = useState(false);
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Secret shown once after creating or rotating
+  const [revealedSecret, setRevealedSecret] = useState<{ name: string; secret: string } | null>(null);
+
+  const fetchWebhooks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/admin/webhooks", { credentials: "include" });
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error("You don't have permission to manage webhooks");
+        }
+        throw new Error("Failed to fetch webhooks");
+      }
+      const data = await response.json() as { webhooks: Webhook[]; eventTypes: string[] };
+      setWebhooks(data.webhooks);
+      setEventTypes(data.eventTypes);
+      setSelectedId((current) =>
+        current && data.webhooks.some((webhook) => webhook.id === current) ? current : data.webhooks[0]?.id || null
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load webhooks");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  const fetchDeliveries = useCallback(async () => {
+    if (!selectedId) {
+      setDeliveries([]);
+      setPagination(null);
+      return;
+    }
+    setDeliveriesLoading(true);
+    try {
+      const params = new URLSearchParams({ page: String(page) });
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      const response = await fetch(`/api/v1/admin/webhooks/${selectedId}/deliveries?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error("Failed to fetch deliveries");
+      const data = await response.json() as { deliveries: WebhookDelivery[]; pagination: Pagination };
+      setDeliveries(data.deliveries);
+      setPagination(data.pagination);
+    } catch (err) {
+      console.error("Failed to load webhook deliveries:", err);
+      setDeliveries([]);
+      setPagination(null);
+    } finally {
+      setDeliveriesLoading(false);
+    }
+  }, [selectedId, page, statusFilter]);
+
+  useEffect(() => {
+    fetchWebhooks();
+  }, [fetchWebhooks]);
+
+  useEffect(() => {
+    fetchDeliveries();
+  }, [fetchDeliveries]);
+
+  const refresh = async () => {
+    await Promise.all([fetchWebhooks(), fetchDeliveries()]);
+  };
+
+  const selectWebhook = (id: string) => {
+    setSelectedId(id);
+    setPage(1);
+    setExpandedId(null);
+  };
+
+  const openForm = (webhook: Webhook | null) => {
+    setEditing(webhook);
+    setName(webhook?.name || "");
+    setUrl(webhook?.url || "");
+    setSelectedEvents(new Set(webhook?.eventTypes || eventTypes));
+    setFormError(null);
+    setFormOpen(true);
+  };
+
+  const toggleEvent = (eventType: string, checked: boolean) => {
+    setSelectedEvents((current) => {
+      const next = new Set(current);
+      if (checked) next.add(eventType);
+      else next.delete(eventType);
+      return next;
+    });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    setFormError(null);
+    try {
+      const response = await fetch(editing ? `/api/v1/admin/webhooks/${editing.id}` : "/api/v1/admin/webhooks", {
+        method: editing ? "PATCH" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, url, eventTypes: [...selectedEvents] }),
+        credentials: "include",
+      });
+      const data = await response.json() as { webhook?: Webhook; secret?: string; error?: string | { issues?: { message: string }[] } };
+      if (!response.ok) {
+        const message = typeof data.error === "string" ? data.error : data.error?.issues?.[0]?.message;
+        throw new Error(message || "Failed to save webhook");
+      }
+      setFormOpen(false);
+      if (data.secret && data.webhook) {
+        setRevealedSecret({ name: data.webhook.name, secret: data.secret });
+        setSelectedId(data.webhook.id);
+      }
+      await fetchWebhooks();
+    } catch (err) {
+      setFormError(err instanceof Error ? err.message : "Failed to save webhook");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Runs a webhook action, reloading the list (and history) afterwards
+  const runAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+      await refresh();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Something went wrong");
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const post = async (path: string, init: RequestInit = { method: "POST" }) => {
+    const response = await fetch(path, { ...init, credentials: "include" });
+    const data = await response.json() as { error?: string; secret?: string; delivery?: WebhookDelivery };
+    if (!response.ok) throw new Error(data.error || "Request failed");
+    return data;
+  };
+
+  const handleToggleActive = (webhook: Webhook) =>
+    runAction(webhook.id, async () => {
+      await post(`/api/v1/admin/webhooks/${webhook.id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ isActive: !webhook.isActive }),
+      });
+    });
+
+  const handleTest = (webhook: Webhook) =>
+    runAction(webhook.id, async () => {
+      const { delivery } = await post(`/api/v1/admin/webhooks/${webhook.id}/test`);
+      selectWebhook(webhook.id);
+      if (delivery && delivery.status !== "succeeded") {
+        alert(`Test delivery failed: ${delivery.lastError || "no response"}. It will be retried automatically.`);
+      }
+    });
+
+  const handleRotate = (webhook: Webhook) => {
+    if (!confirm(`Rotate the signing secret for ${webhook.name}? The partner must switch to the new secret.`)) return;
+    return runAction(webhook.id, async () => {
+      const { secret } = await post(`/api/v1/admin/webhooks/${webhook.id}/rotate-secret`);
+      if (secret) setRevealedSecret({ name: webhook.name, secret });
+    });
+  };
+
+  const handleDelete = (webhook: Webhook) => {
+    if (!confirm(`Delete ${webhook.name} and its delivery history?`)) return;
+    return runAction(webhook.id, async () => {
+      await post(`/api/v1/admin/webhooks/${webhook.id}`, { method: "DELETE" });
+    });
+  };
+
+  const handleRedeliver = (delivery: WebhookDelivery) =>
+    runAction(delivery.id, async () => {
+      await post(`/api/v1/admin/webhooks/deliveries/${delivery.id}/redeliver`);
+    });
+
+  const selected = webhooks.find((webhook) => webhook.id === selectedId) || null;
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+          <Button onClick={fetchWebhooks} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+        <div>
+          <h1 className="text-2xl font-bold">Webhooks</h1>
+          <p className="text-gray-500">
+            Signed notifications of closures and reopenings sent to partner agencies' systems. Failed deliveries are
+            retried with backoff for about 9 hours.
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Button onClick={refresh} variant="outline" size="icon">
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+          <Button onClick={() => openForm(null)} disabled={loading}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Webhook
+          </Button>
+        </div>
+      </div>
+
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {!loading && (
+        <div className="grid gap-4 xl:grid-cols-5">
+          <Card className="xl:col-span-2">
+            <CardHeader className="pb-2">
+              <CardTitle className="text-base">Endpoints</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {webhooks.length === 0 ? (
+                <p className="text-sm text-gray-500">No webhooks registered yet.</p>
+              ) : (
+                <ul className="space-y-2">
+                  {webhooks.map((webhook) => (
+                    <li
+                      key={webhook.id}
+                      className={cn(
+                        "rounded-lg border p-3 cursor-pointer dark:border-gray-800",
+                        webhook.id === selectedId
+                          ? "border-primary-500 bg-primary-50/50 dark:bg-primary-900/10"
+                          : "hover:bg-gray-50 dark:hover:bg-gray-900"
+                      )}
+                      onClick={() => selectWebhook(webhook.id)}
+                    >
+                      <div className="flex items-start justify-between gap-2">
+                        <div className="min-w-0">
+                          <div className="flex items-center gap-2">
+                            <WebhookIcon className="h-4 w-4 shrink-0 text-gray-400" />
+                            <span className="truncate font-medium">{webhook.name}</span>
+                            {!webhook.isActive && <Badge variant="secondary">Paused</Badge>}
+                          </div>
+                          <p className="truncate font-mono text-xs text-gray-500" title={webhook.url}>
+                            {webhook.url}
+                          </p>
+                        </div>
+                        {busyId === webhook.id && <Loader2 className="h-4 w-4 shrink-0 animate-spin text-gray-400" />}
+                      </div>
+                      <div className="mt-2 flex flex-wrap gap-1">
+                        {webhook.eventTypes.map((eventType) => (
+                          <Badge key={eventType} variant="outline" className="font-normal">
+                            {EVENT_LABELS[eventType] || eventType}
+                          </Badge>
+                        ))}
+                      </div>
+                      <p className="mt-2 text-xs text-gray-500">
+                        {webhook.succeededCount} delivered
+                        {webhook.pendingCount > 0 && <> · {webhook.pendingCount} retrying</>}
+                        {webhook.failedCount > 0 && (
+                          <span className="text-red-600 dark:text-red-400"> · {webhook.failedCount} failed</span>
+                        )}
+                        {webhook.lastDeliveryAt && (
+                          <> · last {formatDistanceToNow(new Date(webhook.lastDeliveryAt), { addSuffix: true })}</>
+                        )}
+                      </p>
+                      <div className="mt-2 flex flex-wrap gap-1" onClick={(e) => e.stopPropagation()}>
+                        <Button size="sm" variant="outline" onClick={() => handleTest(webhook)} disabled={busyId === webhook.id}>
+                          <Send className="mr-1.5 h-3.5 w-3.5" />
+                          Test
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => openForm(webhook)} title="Edit">
+                          <Pencil className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleToggleActive(webhook)}
+                          disabled={busyId === webhook.id}
+                          title={webhook.isActive ? "Pause" : "Resume"}
+                        >
+                          {webhook.isActive ? <Pause className="h-3.5 w-3.5" /> : <Play className="h-3.5 w-3.5" />}
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleRotate(webhook)}
+                          disabled={busyId === webhook.id}
+                          title={`Rotate secret (ends ${webhook.secretHint})`}
+                        >
+                          <KeyRound className="h-3.5 w-3.5" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          onClick={() => handleDelete(webhook)}
+                          disabled={busyId === webhook.id}
+                          title="Delete"
+                        >
+                          <Trash2 className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="xl:col-span-3">
+            <CardHeader className="pb-2">
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-base">
+                  Delivery History{selected && <span className="font-normal text-gray-500"> · {selected.name}</span>}
+                </CardTitle>
+                <Select
+                  value={statusFilter}
+                  onValueChange={(value) => {
+                    setStatusFilter(value);
+                    setPage(1);
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-36">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All statuses</SelectItem>
+                    <SelectItem value="pending">Retrying</SelectItem>
+                    <SelectItem value="succeeded">Delivered</SelectItem>
+                    <SelectItem value="failed">Failed</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              {!selected ? (
+                <p className="text-sm text-gray-500">Select a webhook to see its deliveries.</p>
+              ) : deliveriesLoading && deliveries.length === 0 ? (
+                <div className="flex justify-center py-8">
+                  <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+                </div>
+              ) : deliveries.length === 0 ? (
+                <p className="text-sm text-gray-500">No deliveries yet. Use Test to send one.</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full text-sm">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="py-2 pr-4 font-medium">Sent</th>
+                        <th className="py-2 pr-4 font-medium">Event</th>
+                        <th className="py-2 pr-4 font-medium">Status</th>
+                        <th className="py-2 pr-4 font-medium text-right">Attempts</th>
+                        <th className="py-2 pr-4 font-medium">Response</th>
+                        <th className="py-2 font-medium" />
+                      </tr>
+                    </thead>
+                    <tbody className="divide-y dark:divide-gray-800">
+                      {deliveries.map((delivery) => (
+                        <Fragment key={delivery.id}>
+                          <tr
+                            className="cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-900"
+                            onClick={() => setExpandedId(expandedId === delivery.id ? null : delivery.id)}
+                          >
+                            <td className="py-2 pr-4 whitespace-nowrap" title={format(new Date(delivery.createdAt), "MMM d, yyyy HH:mm:ss")}>
+                              {formatDistanceToNow(new Date(delivery.createdAt), { addSuffix: true })}
+                            </td>
+                            <td className="py-2 pr-4">{EVENT_LABELS[delivery.eventType] || delivery.eventType}</td>
+                            <td className="py-2 pr-4">
+                              <span className={cn("rounded px-1.5 py-0.5 text-xs font-medium", STATUS_STYLES[delivery.status])}>
+                                {delivery.status === "pending" ? "Retrying" : delivery.status === "succeeded" ? "Delivered" : "Failed"}
+                              </span>
+                              {delivery.status === "pending" && delivery.nextAttemptAt && (
+                                <div className="text-xs text-gray-500">
+                                  next {formatDistanceToNow(new Date(delivery.nextAttemptAt), { addSuffix: true })}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2 pr-4 text-right tabular-nums">{delivery.attempts}</td>
+                            <td className="py-2 pr-4">
+                              {delivery.responseStatus && <span className="font-mono">{delivery.responseStatus}</span>}
+                              {delivery.lastError && (
+                                <div className="max-w-xs truncate text-xs text-red-600 dark:text-red-400" title={delivery.lastError}>
+                                  {delivery.lastError}
+                                </div>
+                              )}
+                            </td>
+                            <td className="py-2" onClick={(e) => e.stopPropagation()}>
+                              {delivery.status !== "succeeded" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => handleRedeliver(delivery)}
+                                  disabled={busyId === delivery.id}
+                                >
+                                  {busyId === delivery.id ? (
+                                    <Loader2 className="mr-1.5 h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <RotateCw className="mr-1.5 h-4 w-4" />
+                                  )}
+                                  Redeliver
+                                </Button>
+                              )}
+                            </td>
+                          </tr>
+                          {expandedId === delivery.id && (
+                            <tr>
+                              <td colSpan={6} className="pb-3">
+                                <pre className="max-h-64 overflow-auto rounded bg-gray-50 p-3 text-xs dark:bg-gray-900">
+                                  {JSON.stringify(delivery.payload, null, 2)}
+                                </pre>
+                              </td>
+                            </tr>
+                          )}
+                        </Fragment>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {pagination && pagination.totalPages > 1 && (
+                <div className="mt-3 flex items-center justify-between text-sm text-gray-500">
+                  <span>
+                    Page {pagination.page} of {pagination.totalPages} ({pagination.totalCount} deliveries)
+                  </span>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" disabled={!pagination.hasPrev} onClick={() => setPage(page - 1)}>
+                      <ChevronLeft className="h-4 w-4" />
+                    </Button>
+                    <Button size="sm" variant="outline" disabled={!pagination.hasNext} onClick={() => setPage(page + 1)}>
+                      <ChevronRight className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Create/edit dialog */}
+      <Dialog open={formOpen} onOpenChange={setFormOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Edit Webhook" : "Add Webhook"}</DialogTitle>
+            <DialogDescription>
+              Events are POSTed as JSON, signed with HMAC-SHA256 in the X-Webhook-Signature header.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="webhook-name">Name</Label>
+              <Input
+                id="webhook-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="DMC situation room"
+                maxLength={100}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="webhook-url">Endpoint URL</Label>
+              <Input
+                id="webhook-url"
+                value={url}
+                onChange={(e) => setUrl(e.target.value)}
+                placeholder="https://partner.example.lk/hooks/road-status"
+                maxLength={500}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Events</Label>
+              <div className="space-y-1">
+                {eventTypes.map((eventType) => (
+                  <label key={eventType} className="flex items-center gap-2 cursor-pointer text-sm">
+                    <input
+                      type="checkbox"
+                      checked={selectedEvents.has(eventType)}
+                      onChange={(e) => toggleEvent(eventType, e.target.checked)}
+                      className="w-4 h-4 text-primary-600 rounded"
+                    />
+                    <span>{EVENT_LABELS[eventType] || eventType}</span>
+                    <span className="font-mono text-xs text-gray-400">{eventType}</span>
+                  </label>
+                ))}
+              </div>
+            </div>
+            {formError && (
+              <p className="text-sm text-red-600 dark:text-red-400">{formError}</p>
+            )}
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setFormOpen(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button onClick={handleSave} disabled={saving || !name.trim() || !url.trim() || selectedEvents.size === 0}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {editing ? "Save" : "Add"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Signing secret, shown once */}
+      <Dialog open={!!revealedSecret} onOpenChange={(open) => !open && setRevealedSecret(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Signing Secret for {revealedSecret?.name}</DialogTitle>
+            <DialogDescription>
+              Share this with the partner so they can verify deliveries. It won't be shown again; rotate it if it is
+              lost.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="flex items-center gap-2">
+            <Input readOnly value={revealedSecret?.secret || ""} className="font-mono text-xs" />
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => revealedSecret && navigator.clipboard.writeText(revealedSecret.secret)}
+              title="Copy"
+            >
+              <Copy className="h-4 w-4" />
+            </Button>
+          </div>
+          <DialogFooter>
+            <Button onClick={() => setRevealedSecret(null)}>Done</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,265 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { formatDistanceToNow } from "date-fns";
+import { CheckCircle, Loader2, Mail, Send, UserCircle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useAuthStore } from "@/stores/auth";
+import { provinces } from "@/data/sriLankaLocations";
+
+type DigestFrequency = "off" | "daily" | "weekdays";
+type DigestScope = "area" | "organization";
+
+interface DigestSettings {
+  frequency: DigestFrequency;
+  sendHour: number;
+  scope: DigestScope;
+  lastSentAt: string | null;
+  provinceScope: string | null;
+  districtScope: string | null;
+  organizations: { id: string; name: string }[];
+}
+
+const FREQUENCIES: DigestFrequency[] = ["off", "daily", "weekdays"];
+const SCOPES: DigestScope[] = ["area", "organization"];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+function formatHour(hour: number): string {
+  return `${String(hour).padStart(2, "0")}:00`;
+}
+
+function getAreaName(provinceScope: string | null, districtScope: string | null): string | null {
+  if (districtScope) {
+    const district = provinces.flatMap((p) => p.districts).find((d) => d.id === districtScope);
+    return district?.name || districtScope;
+  }
+  if (provinceScope) {
+    return provinces.find((p) => p.id === provinceScope)?.name || provinceScope;
+  }
+  return null;
+}
+
+export function Profile() {
+  const { t } = useTranslation();
+  const { user } = useAuthStore();
+
+  const [settings, setSettings] = useState<DigestSettings | null>(null);
+  const [frequency, setFrequency] = useState<DigestFrequency>("off");
+  const [sendHour, setSendHour] = useState(7);
+  const [scope, setScope] = useState<DigestScope>("area");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isSending, setIsSending] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/v1/notifications/digest", { credentials: "include" })
+      .then((response) => {
+        if (!response.ok) throw new Error();
+        return response.json() as Promise<DigestSettings>;
+      })
+      .then((data) => {
+        setSettings(data);
+        setFrequency(data.frequency);
+        setSendHour(data.sendHour);
+        setScope(data.scope);
+      })
+      .catch(() => setError(t("profile.digest.loadFailed")))
+      .finally(() => setIsLoading(false));
+  }, [t]);
+
+  const isDirty =
+    !!settings && (frequency !== settings.frequency || sendHour !== settings.sendHour || scope !== settings.scope);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSaving(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/notifications/digest", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ frequency, sendHour, scope }),
+      });
+      const data = (await response.json()) as { error?: string };
+      if (!response.ok) throw new Error(data.error || t("profile.digest.saveFailed"));
+      setSettings((prev) => (prev ? { ...prev, frequency, sendHour, scope } : prev));
+      setMessage(t("profile.digest.saved"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("profile.digest.saveFailed"));
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSendNow = async () => {
+    setIsSending(true);
+    setMessage(null);
+    setError(null);
+    try {
+      const response = await fetch("/api/v1/notifications/digest/send-now", {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) throw new Error(t("profile.digest.sendFailed"));
+      const data = (await response.json()) as { sent: boolean };
+      setMessage(data.sent ? t("profile.digest.sentNow", { email: user?.email }) : t("profile.digest.nothingToSend"));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("profile.digest.sendFailed"));
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  const areaName = settings ? getAreaName(settings.provinceScope, settings.districtScope) : null;
+  const hasOrganizations = !!settings && settings.organizations.length > 0;
+
+  return (
+    <div className="p-4 lg:p-6">
+      <div className="max-w-2xl space-y-4">
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCircle className="h-5 w-5 text-primary-600" />
+              {t("profile.title")}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-[auto_1fr] gap-x-6 gap-y-2 text-sm">
+              <dt className="text-gray-500">{t("profile.name")}</dt>
+              <dd>{user?.name}</dd>
+              <dt className="text-gray-500">{t("profile.email")}</dt>
+              <dd>{user?.email}</dd>
+              <dt className="text-gray-500">{t("nav.role")}</dt>
+              <dd className="capitalize">{user?.role.replace("_", " ")}</dd>
+              {settings && (
+                <>
+                  <dt className="text-gray-500">{t("profile.area")}</dt>
+                  <dd>{areaName || t("profile.allAreas")}</dd>
+                  <dt className="text-gray-500">{t("profile.organizations")}</dt>
+                  <dd>
+                    {hasOrganizations
+                      ? settings.organizations.map((org) => org.name).join(", ")
+                      : t("profile.noOrganizations")}
+                  </dd>
+                </>
+              )}
+            </dl>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5 text-primary-600" />
+              {t("profile.digest.title")}
+            </CardTitle>
+            <CardDescription>{t("profile.digest.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {isLoading ? (
+              <div className="flex items-center justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-primary-600" />
+              </div>
+            ) : !settings ? (
+              <p className="text-sm text-red-600 dark:text-red-400">{error}</p>
+            ) : (
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                  <Label>{t("profile.digest.frequency")}</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {FREQUENCIES.map((option) => (
+                      <Button
+                        key={option}
+                        type="button"
+                        variant={frequency === option ? "default" : "outline"}
+                        onClick={() => setFrequency(option)}
+                      >
+                        {t(`profile.digest.frequencies.${option}`)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {frequency !== "off" && (
+                  <>
+                    <div className="space-y-2">
+                      <Label>{t("profile.digest.sendHour")}</Label>
+                      <Select value={String(sendHour)} onValueChange={(value) => setSendHour(Number(value))}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {HOURS.map((hour) => (
+                            <SelectItem key={hour} value={String(hour)}>
+                              {formatHour(hour)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-gray-500">{t("profile.digest.sendHourHint")}</p>
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label>{t("profile.digest.scope")}</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {SCOPES.map((option) => (
+                          <Button
+                            key={option}
+                            type="button"
+                            variant={scope === option ? "default" : "outline"}
+                            disabled={option === "organization" && !hasOrganizations}
+                            onClick={() => setScope(option)}
+                          >
+                            {t(`profile.digest.scopes.${option}`)}
+                          </Button>
+                        ))}
+                      </div>
+                      <p className="text-xs text-gray-500">
+                        {scope === "organization"
+                          ? t("profile.digest.scopeOrganizationHint")
+                          : t("profile.digest.scopeAreaHint", { area: areaName || t("profile.allAreas") })}
+                      </p>
+                    </div>
+                  </>
+                )}
+
+                {settings.lastSentAt && (
+                  <p className="text-xs text-gray-500">
+                    {t("profile.digest.lastSent", {
+                      time: formatDistanceToNow(new Date(settings.lastSentAt), { addSuffix: true }),
+                    })}
+                  </p>
+                )}
+
+                {message && (
+                  <div className="flex items-center gap-2 text-sm text-green-700 dark:text-green-400">
+                    <CheckCircle className="h-4 w-4 shrink-0" />
+                    {message}
+                  </div>
+                )}
+                {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+                <div className="flex flex-wrap gap-2">
+                  <Button type="submit" disabled={isSaving || !isDirty}>
+                    {isSaving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    {t("profile.digest.save")}
+                  </Button>
+                  <Button type="button" variant="outline" onClick={handleSendNow} disabled={isSending}>
+                    {isSending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Send className="mr-2 h-4 w-4" />}
+                    {t("profile.digest.sendNow")}
+                  </Button>
+                </div>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
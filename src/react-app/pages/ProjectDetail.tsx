@@ -0,0 +1,285 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useParams } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  ArrowLeft,
+  Archive,
+  Loader2,
+  Pencil,
+  RefreshCw,
+} from "lucide-react";
+import {
+  ProjectFormDialog,
+  ProjectMilestones,
+  ProjectLinkedReports,
+  projectStatusLabels,
+  projectStatusColors,
+  formatCurrency,
+} from "@/components/projects";
+import { useAuthStore } from "@/stores/auth";
+
+interface Project {
+  id: string;
+  projectCode: string;
+  name: string;
+  description: string | null;
+  ownerDepartment: string | null;
+  projectManagerId: string | null;
+  projectManagerName: string | null;
+  projectManagerEmail: string | null;
+  provinceId: string | null;
+  districtId: string | null;
+  cityId: string | null;
+  status: string;
+  plannedStart: string | null;
+  plannedEnd: string | null;
+  actualStart: string | null;
+  actualEnd: string | null;
+  progressPercent: number | null;
+  fundingSource: string | null;
+  estimatedBudget: number | null;
+  actualExpenditure: number | null;
+  contractorInfo: { name?: string; contactPerson?: string; phone?: string; email?: string; contractNumber?: string } | null;
+  linkedReportCount: number;
+  milestoneCount: number;
+  archivedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+const EDITOR_ROLES = ["planner", "admin", "super_admin"];
+
+function DetailRow({ label, value }: { label: string; value: React.ReactNode }) {
+  return (
+    <div className="flex justify-between gap-4 py-1.5 text-sm">
+      <span className="text-gray-500">{label}</span>
+      <span className="text-right font-medium">{value || "—"}</span>
+    </div>
+  );
+}
+
+export function ProjectDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { user } = useAuthStore();
+  const canEdit = user ? EDITOR_ROLES.includes(user.role) : false;
+  const canArchive = user?.role === "admin" || user?.role === "super_admin";
+
+  const [project, setProject] = useState<Project | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [editOpen, setEditOpen] = useState(false);
+  const [archiving, setArchiving] = useState(false);
+  const [reportsRefreshKey, setReportsRefreshKey] = useState(0);
+
+  const fetchProject = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/v1/projects/${id}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        if (response.status === 404) {
+          throw new Error("Project not found");
+        }
+        throw new Error("Failed to fetch project");
+      }
+      const data = await response.json() as { project: Project };
+      setProject(data.project);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load project");
+    } finally {
+      setLoading(false);
+    }
+  }, [id]);
+
+  useEffect(() => {
+    fetchProject();
+  }, [fetchProject]);
+
+  const handleArchive = async () => {
+    if (!project) return;
+    if (!confirm(`Archive ${project.projectCode}? It will be hidden from the project list.`)) return;
+    setArchiving(true);
+    try {
+      const response = await fetch(`/api/v1/projects/${project.id}/archive`, {
+        method: "POST",
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const data = await response.json() as { error?: string };
+        throw new Error(data.error || "Failed to archive project");
+      }
+      fetchProject();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to archive project");
+    } finally {
+      setArchiving(false);
+    }
+  };
+
+  if (loading && !project) {
+    return (
+      <div className="flex items-center justify-center py-12">
+        <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+      </div>
+    );
+  }
+
+  if (error || !project) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error || "Project not found"}</p>
+          <Button onClick={fetchProject} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
+
+  const progress = Math.round(project.progressPercent || 0);
+  const isArchived = Boolean(project.archivedAt);
+
+  return (
+    <div className="p-4 lg:p-6 space-y-4">
+      <Button variant="ghost" size="sm" asChild>
+        <Link to="/projects">
+          <ArrowLeft className="mr-2 h-4 w-4" />
+          All Projects
+        </Link>
+      </Button>
+
+      {/* Header */}
+      <div className="flex flex-col gap-4 sm:flex-row sm:items-start sm:justify-between">
+        <div>
+          <p className="text-sm text-gray-400">{project.projectCode}</p>
+          <h1 className="text-2xl font-bold">{project.name}</h1>
+          <div className="mt-2 flex items-center gap-2">
+            <span
+              className={`rounded-full px-2 py-1 text-xs font-medium ${
+                projectStatusColors[project.status] || projectStatusColors.planned
+              }`}
+            >
+              {projectStatusLabels[project.status] || project.status}
+            </span>
+            {isArchived && (
+              <span className="rounded-full bg-gray-100 px-2 py-1 text-xs font-medium text-gray-600 dark:bg-gray-800 dark:text-gray-400">
+                Archived
+              </span>
+            )}
+          </div>
+        </div>
+        {!isArchived && (
+          <div className="flex items-center gap-2">
+            {canEdit && (
+              <Button variant="outline" onClick={() => setEditOpen(true)}>
+                <Pencil className="mr-2 h-4 w-4" />
+                Edit
+              </Button>
+            )}
+            {canArchive && (
+              <Button variant="outline" onClick={handleArchive} disabled={archiving}>
+                {archiving ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Archive className="mr-2 h-4 w-4" />
+                )}
+                Archive
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {project.description && (
+        <p className="text-gray-600 dark:text-gray-400 whitespace-pre-wrap">{project.description}</p>
+      )}
+
+      {/* Progress */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="mb-1 flex justify-between text-sm">
+            <span className="text-gray-500">Progress</span>
+            <span className="font-medium">{progress}%</span>
+          </div>
+          <div className="h-2 overflow-hidden rounded-full bg-gray-200">
+            <div
+              className="h-full rounded-full bg-primary-600 transition-all"
+              style={{ width: `${progress}%` }}
+            />
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Timeline</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y dark:divide-gray-800">
+            <DetailRow label="Planned Start" value={project.plannedStart} />
+            <DetailRow label="Planned End" value={project.plannedEnd} />
+            <DetailRow label="Actual Start" value={project.actualStart} />
+            <DetailRow label="Actual End" value={project.actualEnd} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Budget</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y dark:divide-gray-800">
+            <DetailRow label="Funding Source" value={project.fundingSource} />
+            <DetailRow label="Estimated Budget" value={formatCurrency(project.estimatedBudget)} />
+            <DetailRow label="Actual Expenditure" value={formatCurrency(project.actualExpenditure)} />
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-base">Ownership</CardTitle>
+          </CardHeader>
+          <CardContent className="divide-y dark:divide-gray-800">
+            <DetailRow label="Owner Department" value={project.ownerDepartment} />
+            <DetailRow
+              label="Project Manager"
+              value={project.projectManagerName || project.projectManagerEmail}
+            />
+            <DetailRow label="Contractor" value={project.contractorInfo?.name} />
+            <DetailRow label="Contact Person" value={project.contractorInfo?.contactPerson} />
+            <DetailRow label="Contact Phone" value={project.contractorInfo?.phone} />
+          </CardContent>
+        </Card>
+      </div>
+
+      <ProjectMilestones
+        projectId={project.id}
+        canEdit={canEdit && !isArchived}
+        onChanged={fetchProject}
+      />
+
+      <ProjectLinkedReports
+        projectId={project.id}
+        canEdit={canEdit && !isArchived}
+        refreshKey={reportsRefreshKey}
+        onChanged={fetchProject}
+      />
+
+      <ProjectFormDialog
+        open={editOpen}
+        onOpenChange={setEditOpen}
+        project={project}
+        progressLocked={project.milestoneCount > 0}
+        onSaved={() => {
+          fetchProject();
+          // Completing the project resolves its linked reports
+          setReportsRefreshKey((key) => key + 1);
+        }}
+      />
+    </div>
+  );
+}
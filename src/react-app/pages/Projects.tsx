@@ -1,65 +1,94 @@
+import { useCallback, useEffect, useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
-import { Plus } from "lucide-react";
-import { Link } from "react-router-dom";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Plus, Loader2, RefreshCw, FolderKanban } from "lucide-react";
+import {
+  ProjectFormDialog,
+  PROJECT_STATUSES,
+  projectStatusLabels,
+  projectStatusColors,
+  formatCurrency,
+} from "@/components/projects";
+import { useAuthStore } from "@/stores/auth";
+
+interface ProjectSummary {
+  id: string;
+  projectCode: string;
+  name: string;
+  status: string;
+  progressPercent: number | null;
+  estimatedBudget: number | null;
+  linkedReportCount: number;
+  archivedAt: string | null;
+}
+
+// Roles allowed to create and edit projects (stakeholders are read-only)
+const EDITOR_ROLES = ["planner", "admin", "super_admin"];
 
 export function Projects() {
-  // TODO: Fetch real projects from API
-  const mockProjects = [
-    {
-      id: "RP-2025-0001",
-      name: "A1 Highway Repair - Colombo Section",
-      status: "in_progress" as const,
-      progress: 65,
-      linkedReports: 5,
-      estimatedBudget: 15000000,
-    },
-    {
-      id: "RP-2025-0002",
-      name: "Galle Bridge Reconstruction",
-      status: "planned" as const,
-      progress: 0,
-      linkedReports: 3,
-      estimatedBudget: 45000000,
-    },
-    {
-      id: "RP-2025-0003",
-      name: "Central Province Road Network Restoration",
-      status: "design" as const,
-      progress: 25,
-      linkedReports: 12,
-      estimatedBudget: 120000000,
-    },
-  ];
+  const navigate = useNavigate();
+  const { user } = useAuthStore();
+  const canEdit = user ? EDITOR_ROLES.includes(user.role) : false;
+  const canArchive = user?.role === "admin" || user?.role === "super_admin";
+
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [createOpen, setCreateOpen] = useState(false);
 
-  const statusLabels = {
-    planned: "Planned",
-    design: "In Design",
-    tendering: "Tendering",
-    in_progress: "In Progress",
-    on_hold: "On Hold",
-    completed: "Completed",
-    cancelled: "Cancelled",
-  };
+  const fetchProjects = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (statusFilter !== "all") params.set("status", statusFilter);
+      if (showArchived) params.set("includeArchived", "true");
 
-  const statusColors = {
-    planned: "bg-blue-100 text-blue-800",
-    design: "bg-purple-100 text-purple-800",
-    tendering: "bg-yellow-100 text-yellow-800",
-    in_progress: "bg-green-100 text-green-800",
-    on_hold: "bg-orange-100 text-orange-800",
-    completed: "bg-gray-100 text-gray-800",
-    cancelled: "bg-red-100 text-red-800",
-  };
+      const response = await fetch(`/api/v1/projects?${params}`, {
+        credentials: "include",
+      });
+      if (!response.ok) {
+        if (response.status === 403) {
+          throw new Error("You don't have permission to view projects");
+        }
+        throw new Error("Failed to fetch projects");
+      }
+      const data = await response.json() as { projects: ProjectSummary[] };
+      setProjects(data.projects);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load projects");
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter, showArchived]);
 
-  const formatCurrency = (amount: number) => {
-    return new Intl.NumberFormat("en-LK", {
-      style: "currency",
-      currency: "LKR",
-      minimumFractionDigits: 0,
-      maximumFractionDigits: 0,
-    }).format(amount);
-  };
+  useEffect(() => {
+    fetchProjects();
+  }, [fetchProjects]);
+
+  if (error) {
+    return (
+      <div className="p-4">
+        <div className="border border-red-200 bg-red-50 dark:bg-red-900/20 rounded-lg p-6 text-center">
+          <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
+          <Button onClick={fetchProjects} variant="outline">
+            <RefreshCw className="w-4 h-4 mr-2" />
+            Retry
+          </Button>
+        </div>
+      </div>
+    );
+  }
 
   return (
     <div className="p-4 lg:p-6">
@@ -70,72 +99,121 @@ export function Projects() {
             Track infrastructure rebuild and repair projects
           </p>
         </div>
-        <Button asChild>
-          <Link to="/projects/new">
-            <Plus className="mr-2 h-4 w-4" />
-            New Project
-          </Link>
-        </Button>
+        <div className="flex items-center gap-2">
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-[150px]">
+              <SelectValue placeholder="All Statuses" />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All Statuses</SelectItem>
+              {PROJECT_STATUSES.map((status) => (
+                <SelectItem key={status} value={status}>
+                  {projectStatusLabels[status]}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          {canArchive && (
+            <Button
+              variant={showArchived ? "secondary" : "outline"}
+              onClick={() => setShowArchived((prev) => !prev)}
+            >
+              {showArchived ? "Hide Archived" : "Show Archived"}
+            </Button>
+          )}
+          {canEdit && (
+            <Button onClick={() => setCreateOpen(true)}>
+              <Plus className="mr-2 h-4 w-4" />
+              New Project
+            </Button>
+          )}
+        </div>
       </div>
 
+      {loading && (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-8 h-8 animate-spin text-primary-600" />
+        </div>
+      )}
+
+      {!loading && projects.length === 0 && (
+        <div className="flex flex-col items-center justify-center py-12 text-gray-500">
+          <FolderKanban className="mb-2 h-10 w-10 text-gray-300" />
+          <p>No projects found</p>
+        </div>
+      )}
+
       {/* Projects Grid */}
-      <div className="grid gap-4 lg:grid-cols-2 xl:grid-cols-3">
-        {mockProjects.map((project) => (
-          <Card
-            key={project.id}
-            className="transition-shadow hover:shadow-md"
-          >
-            <CardHeader className="pb-2">
-              <div className="flex items-start justify-between gap-2">
-                <div>
-                  <p className="text-xs text-gray-400">{project.id}</p>
-                  <CardTitle className="text-base">{project.name}</CardTitle>
-                </div>
-                <span
-                  className={`rounded-full px-2 py-1 text-xs font-medium ${
-                    statusColors[project.status]
-                  }`}
-                >
-                  {statusLabels[project.status]}
-                </span>
-              </div>
-            </CardHeader>
-            <CardContent>
-              {/* Progress Bar */}
-              <div className="mb-3">
-                <div className="mb-1 flex justify-between text-xs">
-                  <span className="text-gray-500">Progress</span>
-                  <span className="font-medium">{project.progress}%</span>
-                </div>
-                <div className="h-2 overflow-hidden rounded-full bg-gray-200">
-                  <div
-                    className="h-full rounded-full bg-primary-600 transition-all"
-                    style={{ width: `${project.progress}%` }}
-                  />
-                </div>
-              </div>
+      {!loading && projects.length > 0 && (
+        <div className="grid gap-4 lg:grid-cols-2 xl:grid-cols-3">
+          {projects.map((project) => {
+            const progress = Math.round(project.progressPercent || 0);
+            return (
+              <Card
+                key={project.id}
+                className={`transition-shadow hover:shadow-md ${project.archivedAt ? "opacity-60" : ""}`}
+              >
+                <CardHeader className="pb-2">
+                  <div className="flex items-start justify-between gap-2">
+                    <div>
+                      <p className="text-xs text-gray-400">{project.projectCode}</p>
+                      <CardTitle className="text-base">{project.name}</CardTitle>
+                    </div>
+                    <span
+                      className={`rounded-full px-2 py-1 text-xs font-medium ${
+                        project.archivedAt
+                          ? projectStatusColors.completed
+                          : projectStatusColors[project.status] || projectStatusColors.planned
+                      }`}
+                    >
+                      {project.archivedAt ? "Archived" : projectStatusLabels[project.status] || project.status}
+                    </span>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  {/* Progress Bar */}
+                  <div className="mb-3">
+                    <div className="mb-1 flex justify-between text-xs">
+                      <span className="text-gray-500">Progress</span>
+                      <span className="font-medium">{progress}%</span>
+                    </div>
+                    <div className="h-2 overflow-hidden rounded-full bg-gray-200">
+                      <div
+                        className="h-full rounded-full bg-primary-600 transition-all"
+                        style={{ width: `${progress}%` }}
+                      />
+                    </div>
+                  </div>
 
-              {/* Stats */}
-              <div className="mb-3 flex justify-between text-sm">
-                <div>
-                  <span className="text-gray-500">Linked Reports:</span>{" "}
-                  <span className="font-medium">{project.linkedReports}</span>
-                </div>
-                <div>
-                  <span className="text-gray-500">Budget:</span>{" "}
-                  <span className="font-medium">
-                    {formatCurrency(project.estimatedBudget)}
-                  </span>
-                </div>
-              </div>
+                  {/* Stats */}
+                  <div className="mb-3 flex justify-between text-sm">
+                    <div>
+                      <span className="text-gray-500">Linked Reports:</span>{" "}
+                      <span className="font-medium">{project.linkedReportCount}</span>
+                    </div>
+                    <div>
+                      <span className="text-gray-500">Budget:</span>{" "}
+                      <span className="font-medium">
+                        {formatCurrency(project.estimatedBudget)}
+                      </span>
+                    </div>
+                  </div>
 
-              <Button variant="outline" size="sm" className="w-full" asChild>
-                <Link to={`/projects/${project.id}`}>View Details</Link>
-              </Button>
-            </CardContent>
-          </Card>
-        ))}
-      </div>
+                  <Button variant="outline" size="sm" className="w-full" asChild>
+                    <Link to={`/projects/${project.id}`}>View Details</Link>
+                  </Button>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </div>
+      )}
+
+      <ProjectFormDialog
+        open={createOpen}
+        onOpenChange={setCreateOpen}
+        onSaved={(project) => navigate(`/projects/${project.id}`)}
+      />
     </div>
   );
 }
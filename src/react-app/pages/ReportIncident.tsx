@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef } from "react";
 import { useNavigate, Link } from "react-router-dom";
 import { useTranslation } from "react-i18next";
 import clsx from "clsx";
@@ -20,6 +20,7 @@ import { PhotoGallery, type Photo } from "@/components/camera/PhotoGallery";
 import { IncidentCategorySelect } from "@/components/forms/IncidentCategorySelect";
 import { PassabilityScale } from "@/components/forms/PassabilityScale";
 import { RoadNumberInput } from "@/components/forms/RoadNumberInput";
+import { DivisionSelect } from "@/components/forms/DivisionSelect";
 import { useIncidentReportStore } from "@/stores/incidentReport";
 import { useAuthStore } from "@/stores/auth";
 import {
@@ -44,8 +45,10 @@ interface ReportResult {
 
 export function ReportIncident() {
   const navigate = useNavigate();
-  const { t } = useTranslation();
+  const { t, i18n } = useTranslation();
   const [showCamera, setShowCamera] = useState(false);
+  const lastSnappedPoint = useRef<string>("");
+  const lastChainageLookup = useRef<string>("");
 
   const { user } = useAuthStore();
   const {
@@ -54,6 +57,8 @@ export function ReportIncident() {
     longitude,
     province,
     district,
+    dsDivision,
+    gnDivision,
     locationName,
     isLoadingLocation,
     damageType,
@@ -72,6 +77,8 @@ export function ReportIncident() {
     removePhoto,
     setProvince,
     setDistrict,
+    setDsDivision,
+    setGnDivision,
     setLocationName,
     setIsLoadingLocation,
     setDamageType,
@@ -91,6 +98,8 @@ export function ReportIncident() {
     selectedRoad,
     setRoadNumberInput,
     setSelectedRoad,
+    chainageKm,
+    setChainageKm,
   } = useIncidentReportStore();
 
   // Prefill contact info from signed-in user when available (but keep editable)
@@ -123,74 +132,49 @@ export function ReportIncident() {
 
     // Fetch reverse geocoding for location name
     setIsLoadingLocation(true);
-    interface NominatimResponse {
-      address?: {
-        road?: string;
-        neighbourhood?: string;
-        suburb?: string;
-        village?: string;
-        town?: string;
-        city?: string;
-        county?: string;
-        state_district?: string;
-        state?: string;
-      };
+    interface ReverseGeocodeResponse {
+      city: { name: { en: string } } | null;
+      district: { name: { en: string } } | null;
+      locationName: string | null;
     }
 
-    fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${latitude}&lon=${longitude}&zoom=16&addressdetails=1`,
-      {
-        headers: {
-          "User-Agent": "SriLankaRoadStatus/1.0",
-          "Accept-Language": "en",
-        },
-      }
-    )
-      .then((res) => res.json() as Promise<NominatimResponse>)
+    fetch(`/api/v1/map/reverse-geocode?lat=${latitude}&lng=${longitude}`)
+      .then((res) => {
+        if (!res.ok) throw new Error(`Reverse geocoding returned ${res.status}`);
+        return res.json() as Promise<ReverseGeocodeResponse>;
+      })
       .then((data) => {
-        if (data.address) {
-          const addr = data.address;
-          // Build location name
-          const parts: string[] = [];
-          if (addr.road) parts.push(addr.road);
-          const area = addr.neighbourhood || addr.suburb || addr.village || addr.town;
-          if (area && !parts.includes(area)) parts.push(area);
-          if (parts.length > 0) {
-            setLocationName(parts.join(", "));
-          }
+        if (data.locationName) {
+          setLocationName(data.locationName);
+        }
 
-          // Try to detect district from address (use the locally detected province, not state)
-          if (detectedProvinceId) {
-            const districts = getDistrictsForProvince(detectedProvinceId);
-            // Try multiple address fields that might contain district info
-            const possibleDistrictNames = [
-              addr.county,
-              addr.state_district,
-              addr.city,
-              addr.town,
-            ].filter((n): n is string => !!n);
-
-            for (const rawName of possibleDistrictNames) {
-              // Normalize: remove "District" suffix and extra whitespace
-              const normalized = rawName
-                .toLowerCase()
-                .replace(/\s*district\s*/gi, "")
-                .trim();
-              
-              // Try flexible matching: exact match, includes, or district includes name
-              const matchedDistrict = districts.find((d) => {
-                const dName = d.name.toLowerCase();
-                return (
-                  dName === normalized ||
-                  dName.includes(normalized) ||
-                  normalized.includes(dName)
-                );
-              });
-
-              if (matchedDistrict) {
-                setDistrict(matchedDistrict.id);
-                break; // Found a match, stop searching
-              }
+        // Try to match the district by name (use the locally detected province)
+        if (detectedProvinceId) {
+          const districts = getDistrictsForProvince(detectedProvinceId);
+          const possibleDistrictNames = [data.district?.name.en, data.city?.name.en].filter(
+            (n): n is string => !!n
+          );
+
+          for (const rawName of possibleDistrictNames) {
+            // Normalize: remove "District" suffix and extra whitespace
+            const normalized = rawName
+              .toLowerCase()
+              .replace(/\s*district\s*/gi, "")
+              .trim();
+
+            // Try flexible matching: exact match, includes, or district includes name
+            const matchedDistrict = districts.find((d) => {
+              const dName = d.name.toLowerCase();
+              return (
+                dName === normalized ||
+                dName.includes(normalized) ||
+                normalized.includes(dName)
+              );
+            });
+
+            if (matchedDistrict) {
+              setDistrict(matchedDistrict.id);
+              break; // Found a match, stop searching
             }
           }
         }
@@ -199,7 +183,69 @@ export function ReportIncident() {
       .finally(() => setIsLoadingLocation(false));
   }, [latitude, longitude, province, locationName, isLoadingLocation, setProvince, setDistrict, setLocationName, setIsLoadingLocation]);
 
-  const handlePhotoCapture = (blob: Blob, coords: { lat: number; lng: number } | null) => {
+  // Suggest the nearest numbered road when coordinates change and no road is picked yet.
+  // Only once per point, so clearing the suggestion doesn't bring it back.
+  useEffect(() => {
+    if (!latitude || !longitude) return;
+    const point = `${latitude},${longitude}`;
+    if (lastSnappedPoint.current === point) return;
+    lastSnappedPoint.current = point;
+    if (roadNumberInput || selectedRoad) return;
+
+    interface NearestRoad {
+      id: string;
+      roadNumber: string;
+      roadClass: string;
+      name: { en: string };
+    }
+
+    let cancelled = false;
+    fetch(`/api/v1/roads/nearest?lat=${latitude}&lng=${longitude}&limit=1`)
+      .then((res) => (res.ok ? (res.json() as Promise<NearestRoad[]>) : []))
+      .then(([road]) => {
+        if (cancelled || !road) return;
+        setSelectedRoad({
+          id: road.id,
+          roadNumber: road.roadNumber,
+          roadClass: road.roadClass,
+          name: road.name.en,
+        });
+        setRoadNumberInput(road.roadNumber);
+      })
+      .catch((err) => console.error("Nearest road lookup failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude, roadNumberInput, selectedRoad, setSelectedRoad, setRoadNumberInput]);
+
+  // Fill in the km post of the point along the selected road, once per point and road
+  useEffect(() => {
+    if (!latitude || !longitude || !selectedRoad) return;
+    const lookup = `${latitude},${longitude},${selectedRoad.roadNumber}`;
+    if (lastChainageLookup.current === lookup) return;
+    lastChainageLookup.current = lookup;
+    if (chainageKm !== null) return;
+
+    let cancelled = false;
+    const params = new URLSearchParams({
+      lat: String(latitude),
+      lng: String(longitude),
+      roadNumber: selectedRoad.roadNumber,
+    });
+    fetch(`/api/v1/roads/chainage?${params}`)
+      .then((res) => (res.ok ? (res.json() as Promise<{ km: number }>) : null))
+      .then((chainage) => {
+        if (!cancelled && chainage) setChainageKm(chainage.km);
+      })
+      .catch((err) => console.error("Chainage lookup failed:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [latitude, longitude, selectedRoad, chainageKm, setChainageKm]);
+
+  const handlePhotoCapture =(blob: Blob, coords: { lat: number; lng: number } | null) => {
     const photo: Photo = {
       id: crypto.randomUUID(),
       blob,
@@ -215,6 +261,12 @@ export function ReportIncident() {
     return /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email);
   };
 
+  // Message for a 429 from the submission rate limiter, using its Retry-After header
+  const rateLimitMessage = (response: Response) => {
+    const retryAfter = Number(response.headers.get("Retry-After")) || 3600;
+    return t("report:submit.rateLimited", { minutes: Math.ceil(retryAfter / 60) });
+  };
+
   const handleSubmit = async () => {
     // Validate required fields
     if (photos.length === 0) {
@@ -262,7 +314,11 @@ export function ReportIncident() {
       });
 
       if (!uploadResponse.ok) {
-        throw new Error(t("report:submit.uploadError"));
+        throw new Error(
+          uploadResponse.status === 429
+            ? rateLimitMessage(uploadResponse)
+            : t("report:submit.uploadError")
+        );
       }
 
       const uploadResult: UploadResult = await uploadResponse.json();
@@ -274,6 +330,8 @@ export function ReportIncident() {
         longitude,
         province: province || undefined,
         district: district || undefined,
+        dsDivisionId: dsDivision || undefined,
+        gnDivisionId: gnDivision || undefined,
         locationName: locationName || undefined,
         damageType,
         passabilityLevel: passabilityLevel || undefined,
@@ -289,6 +347,9 @@ export function ReportIncident() {
         roadId: selectedRoad?.id || undefined,
         roadNumberInput: roadNumberInput || undefined,
         roadClass: selectedRoad?.roadClass || undefined,
+        chainageKm: chainageKm ?? undefined,
+        // Status update emails are sent in the language the report was filed in
+        language: i18n.resolvedLanguage || "en",
       };
 
       const reportResponse = await fetch("/api/v1/reports", {
@@ -299,7 +360,11 @@ export function ReportIncident() {
       });
 
       if (!reportResponse.ok) {
-        throw new Error(t("report:submit.error"));
+        throw new Error(
+          reportResponse.status === 429
+            ? rateLimitMessage(reportResponse)
+            : t("report:submit.error")
+        );
       }
 
       const reportResult: ReportResult = await reportResponse.json();
@@ -555,6 +620,14 @@ export function ReportIncident() {
                 </div>
               </div>
 
+              <DivisionSelect
+                districtId={district}
+                dsDivisionId={dsDivision}
+                gnDivisionId={gnDivision}
+                onDsDivisionChange={setDsDivision}
+                onGnDivisionChange={setGnDivision}
+              />
+
               <RoadNumberInput
                 value={roadNumberInput}
                 selectedRoad={selectedRoad}
@@ -562,6 +635,23 @@ export function ReportIncident() {
                 onRoadSelect={setSelectedRoad}
               />
 
+              {selectedRoad && (
+                <div className="space-y-2">
+                  <Label htmlFor="chainageKm">{t("report:location.kmPost")}</Label>
+                  <Input
+                    id="chainageKm"
+                    type="number"
+                    step={0.1}
+                    placeholder={t("report:location.kmPostPlaceholder")}
+                    value={chainageKm ?? ""}
+                    onChange={(e) => setChainageKm(e.target.value ? Number(e.target.value) : null)}
+                  />
+                  <p className="text-xs text-gray-500">
+                    {t("report:location.kmPostHint", { road: selectedRoad.roadNumber })}
+                  </p>
+                </div>
+              )}
+
               <div className="space-y-2">
                 <Label htmlFor="locationName">{t("report:location.roadNumber")}</Label>
                 <Input
@@ -0,0 +1,317 @@
+import { useEffect, useState } from "react";
+import { useTranslation } from "react-i18next";
+import { useSearchParams } from "react-router-dom";
+import { MapContainer, TileLayer, Rectangle, useMapEvents } from "react-leaflet";
+import type { LatLng } from "leaflet";
+import "leaflet/dist/leaflet.css";
+import { BellRing, CheckCircle, Eraser, Loader2, MailCheck } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useLocationName, type LocationNode } from "@/hooks/useLocationChildren";
+
+type WatchKind = "road" | "district" | "area";
+
+interface RoadSuggestion {
+  id: string;
+  roadNumber: string;
+  roadClass: string;
+  name: string | null;
+}
+
+interface Bounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+const SRI_LANKA_CENTER: [number, number] = [7.8731, 80.7718];
+
+// Must match MAX_WATCH_AREA_DEGREES on the server
+const MAX_AREA_DEGREES = 1;
+
+const KINDS: WatchKind[] = ["road", "district", "area"];
+
+// First click sets one corner of the box, the second click the opposite corner
+function AreaDrawHandler({ onClick }: { onClick: (latlng: LatLng) => void }) {
+  useMapEvents({
+    click(e) {
+      onClick(e.latlng);
+    },
+  });
+  return null;
+}
+
+export function WatchSubscriptions() {
+  const { t } = useTranslation();
+  const locationName = useLocationName();
+  const [searchParams] = useSearchParams();
+  const confirmedLabel = searchParams.get("confirmed");
+
+  const [kind, setKind] = useState<WatchKind>("road");
+  const [email, setEmail] = useState("");
+  const [roadQuery, setRoadQuery] = useState("");
+  const [roadSuggestions, setRoadSuggestions] = useState<RoadSuggestion[]>([]);
+  const [road, setRoad] = useState<RoadSuggestion | null>(null);
+  const [districts, setDistricts] = useState<LocationNode[]>([]);
+  const [districtId, setDistrictId] = useState("");
+  const [corner, setCorner] = useState<LatLng | null>(null);
+  const [bounds, setBounds] = useState<Bounds | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [pendingLabel, setPendingLabel] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/v1/locations?level=district")
+      .then((res) => (res.ok ? (res.json() as Promise<LocationNode[]>) : []))
+      .then(setDistricts)
+      .catch(() => setDistricts([]));
+  }, []);
+
+  // Road suggestions while typing, until a road is picked
+  useEffect(() => {
+    const q = roadQuery.trim();
+    if (!q || road) {
+      setRoadSuggestions([]);
+      return;
+    }
+
+    const controller = new AbortController();
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/v1/roads/suggest?${new URLSearchParams({ q })}`, {
+          signal: controller.signal,
+        });
+        if (response.ok) setRoadSuggestions((await response.json()) as RoadSuggestion[]);
+      } catch {
+        // Aborted or offline; keep the previous suggestions
+      }
+    }, 250);
+
+    return () => {
+      clearTimeout(timeout);
+      controller.abort();
+    };
+  }, [roadQuery, road]);
+
+  const handleMapClick = (latlng: LatLng) => {
+    if (!corner) {
+      setCorner(latlng);
+      setBounds(null);
+      return;
+    }
+    setBounds({
+      minLat: Math.min(corner.lat, latlng.lat),
+      minLng: Math.min(corner.lng, latlng.lng),
+      maxLat: Math.max(corner.lat, latlng.lat),
+      maxLng: Math.max(corner.lng, latlng.lng),
+    });
+    setCorner(null);
+  };
+
+  const areaTooLarge =
+    !!bounds && (bounds.maxLat - bounds.minLat > MAX_AREA_DEGREES || bounds.maxLng - bounds.minLng > MAX_AREA_DEGREES);
+
+  const hasTarget =
+    (kind === "road" && !!road) || (kind === "district" && !!districtId) || (kind === "area" && !!bounds && !areaTooLarge);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!hasTarget) return;
+    setIsSubmitting(true);
+    setError(null);
+    try {
+      const target =
+        kind === "road" ? { roadNumber: road!.roadNumber } : kind === "district" ? { districtId } : { bounds };
+      const response = await fetch("/api/v1/watch", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        credentials: "include",
+        body: JSON.stringify({ kind, email, ...target }),
+      });
+      const data = (await response.json()) as { label?: string; error?: string };
+      if (!response.ok) throw new Error(data.error || t("watch.subscribeFailed"));
+      setPendingLabel(data.label || "");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : t("watch.subscribeFailed"));
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 dark:bg-gray-900 p-4">
+      <div className="max-w-2xl mx-auto pt-4 space-y-4">
+        {confirmedLabel && (
+          <div className="flex items-start gap-3 rounded-lg border border-green-200 bg-green-50 p-4 text-green-800 dark:border-green-900 dark:bg-green-900/20 dark:text-green-300">
+            <CheckCircle className="mt-0.5 h-5 w-5 shrink-0" />
+            <p className="text-sm">{t("watch.confirmed", { label: confirmedLabel })}</p>
+          </div>
+        )}
+
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <BellRing className="h-5 w-5 text-primary-600" />
+              {t("watch.title")}
+            </CardTitle>
+            <CardDescription>{t("watch.description")}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pendingLabel !== null ? (
+              <div className="space-y-4 py-4 text-center">
+                <MailCheck className="mx-auto h-10 w-10 text-primary-600" />
+                <p className="font-medium">{t("watch.checkEmail", { email })}</p>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {t("watch.checkEmailHint", { label: pendingLabel })}
+                </p>
+                <Button variant="outline" onClick={() => setPendingLabel(null)}>
+                  {t("watch.addAnother")}
+                </Button>
+              </div>
+            ) : (
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="watch-email">{t("watch.email")}</Label>
+                  <Input
+                    id="watch-email"
+                    type="email"
+                    required
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    placeholder="you@example.com"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t("watch.watchBy")}</Label>
+                  <div className="grid grid-cols-3 gap-2">
+                    {KINDS.map((option) => (
+                      <Button
+                        key={option}
+                        type="button"
+                        variant={kind === option ? "default" : "outline"}
+                        onClick={() => setKind(option)}
+                      >
+                        {t(`watch.kinds.${option}`)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                {kind === "road" && (
+                  <div className="relative space-y-2">
+                    <Label htmlFor="watch-road">{t("watch.road")}</Label>
+                    <Input
+                      id="watch-road"
+                      value={roadQuery}
+                      onChange={(e) => {
+                        setRoadQuery(e.target.value);
+                        setRoad(null);
+                      }}
+                      placeholder={t("watch.roadPlaceholder")}
+                      autoComplete="off"
+                    />
+                    {roadSuggestions.length > 0 && (
+                      <ul className="absolute left-0 right-0 top-full z-[1100] mt-1 max-h-60 overflow-y-auto rounded-md border border-gray-200 bg-white shadow-lg dark:border-gray-800 dark:bg-gray-950">
+                        {roadSuggestions.map((suggestion) => (
+                          <li key={suggestion.id}>
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setRoad(suggestion);
+                                setRoadQuery(
+                                  suggestion.name ? `${suggestion.roadNumber} - ${suggestion.name}` : suggestion.roadNumber
+                                );
+                              }}
+                              className="w-full px-3 py-2 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-800"
+                            >
+                              <span className="font-mono font-medium">{suggestion.roadNumber}</span>
+                              {suggestion.name && <span className="text-gray-500"> · {suggestion.name}</span>}
+                            </button>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
+
+                {kind === "district" && (
+                  <div className="space-y-2">
+                    <Label>{t("watch.district")}</Label>
+                    <Select value={districtId} onValueChange={setDistrictId}>
+                      <SelectTrigger>
+                        <SelectValue placeholder={t("watch.districtPlaceholder")} />
+                      </SelectTrigger>
+                      <SelectContent className="z-[1100]">
+                        {districts.map((district) => (
+                          <SelectItem key={district.id} value={district.id}>
+                            {locationName(district)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+
+                {kind === "area" && (
+                  <div className="space-y-2">
+                    <div className="flex items-center justify-between">
+                      <Label>{t("watch.area")}</Label>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        disabled={!corner && !bounds}
+                        onClick={() => {
+                          setCorner(null);
+                          setBounds(null);
+                        }}
+                      >
+                        <Eraser className="mr-1 h-4 w-4" />
+                        {t("buttons.clear")}
+                      </Button>
+                    </div>
+                    <p className="text-xs text-gray-500 dark:text-gray-400">
+                      {corner ? t("watch.areaSecondCorner") : t("watch.areaFirstCorner")}
+                    </p>
+                    <div className="h-80 overflow-hidden rounded-md border border-gray-200 dark:border-gray-800">
+                      <MapContainer center={SRI_LANKA_CENTER} zoom={7} className="h-full w-full">
+                        <TileLayer
+                          attribution='&copy; <a href="https://www.openstreetmap.org/copyright">OpenStreetMap</a> contributors'
+                          url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
+                        />
+                        <AreaDrawHandler onClick={handleMapClick} />
+                        {bounds && (
+                          <Rectangle
+                            bounds={[
+                              [bounds.minLat, bounds.minLng],
+                              [bounds.maxLat, bounds.maxLng],
+                            ]}
+                            pathOptions={{ color: areaTooLarge ? "#DC2626" : "#2563EB", weight: 2 }}
+                          />
+                        )}
+                      </MapContainer>
+                    </div>
+                    {areaTooLarge && <p className="text-sm text-red-600">{t("watch.areaTooLarge")}</p>}
+                  </div>
+                )}
+
+                {error && <p className="text-sm text-red-600">{error}</p>}
+
+                <Button type="submit" className="w-full" disabled={!hasTarget || !email || isSubmitting}>
+                  {isSubmitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {t("watch.subscribe")}
+                </Button>
+                <p className="text-center text-xs text-gray-500 dark:text-gray-400">{t("watch.alertsInfo")}</p>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -1,14 +1,22 @@
 export { Home } from "./Home";
 export { Projects } from "./Projects";
+export { ProjectDetail } from "./ProjectDetail";
 export { Dashboard } from "./Dashboard";
 export { Login } from "./Login";
 export { Register } from "./Register";
 export { SubmitReport } from "./SubmitReport";
 export { ReportIncident } from "./ReportIncident";
 export { ReportVerified } from "./ReportVerified";
+export { WatchSubscriptions } from "./WatchSubscriptions";
+export { Profile } from "./Profile";
 export { AdminReports } from "./AdminReports";
 export { AdminUsers } from "./AdminUsers";
 export { AdminAuditTrail } from "./AdminAuditTrail";
+export { AdminPriorityWeights } from "./AdminPriorityWeights";
+export { AdminRateLimits } from "./AdminRateLimits";
+export { AdminClosureImport } from "./AdminClosureImport";
+export { AdminWebhooks } from "./AdminWebhooks";
+export { AdminEmailOutbox } from "./AdminEmailOutbox";
 export { AcceptInvitation } from "./AcceptInvitation";
 export { BulkUpload } from "./BulkUpload";
 export { UnverifiedReports } from "./UnverifiedReports";
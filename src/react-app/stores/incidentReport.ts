@@ -38,12 +38,15 @@ interface IncidentReportState {
   longitude: number | null;
   province: string | null;
   district: string | null;
+  dsDivision: string | null;
+  gnDivision: string | null;
   locationName: string;
   isLoadingLocation: boolean;
 
   // Road classification
   roadNumberInput: string;
   selectedRoad: SelectedRoad | null;
+  chainageKm: number | null; // Kilometre post along the selected road
 
   // Step 2: Incident Details
   damageType: DamageType | null;
@@ -75,12 +78,15 @@ interface IncidentReportActions {
   setLocation: (lat: number, lng: number) => void;
   setProvince: (province: string | null) => void;
   setDistrict: (district: string | null) => void;
+  setDsDivision: (dsDivision: string | null) => void;
+  setGnDivision: (gnDivision: string | null) => void;
   setLocationName: (name: string) => void;
   setIsLoadingLocation: (loading: boolean) => void;
 
   // Road actions
   setRoadNumberInput: (input: string) => void;
   setSelectedRoad: (road: SelectedRoad | null) => void;
+  setChainageKm: (km: number | null) => void;
 
   // Form field actions
   setDamageType: (type: DamageType) => void;
@@ -108,10 +114,13 @@ const initialState: IncidentReportState = {
   longitude: null,
   province: null,
   district: null,
+  dsDivision: null,
+  gnDivision: null,
   locationName: "",
   isLoadingLocation: false,
   roadNumberInput: "",
   selectedRoad: null,
+  chainageKm: null,
   damageType: null,
   passabilityLevel: null,
   isSingleLane: false,
@@ -174,11 +183,19 @@ export const useIncidentReportStore = create<IncidentReportState & IncidentRepor
       },
 
       setProvince: (province: string | null) => {
-        set({ province, district: null }); // Reset district when province changes
+        set({ province, district: null, dsDivision: null, gnDivision: null }); // Reset district when province changes
       },
 
       setDistrict: (district: string | null) => {
-        set({ district });
+        set({ district, dsDivision: null, gnDivision: null });
+      },
+
+      setDsDivision: (dsDivision: string | null) => {
+        set({ dsDivision, gnDivision: null });
+      },
+
+      setGnDivision: (gnDivision: string | null) => {
+        set({ gnDivision });
       },
 
       setLocationName: (name: string) => {
@@ -194,7 +211,11 @@ export const useIncidentReportStore = create<IncidentReportState & IncidentRepor
       },
 
       setSelectedRoad: (road: SelectedRoad | null) => {
-        set({ selectedRoad: road });
+        set({ selectedRoad: road, chainageKm: null }); // A km post only means something on its road
+      },
+
+      setChainageKm: (km: number | null) => {
+        set({ chainageKm: km });
       },
 
       setDamageType: (type: DamageType) => {
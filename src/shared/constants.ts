@@ -43,9 +43,14 @@ export const JWT_SETTINGS = {
 export const RATE_LIMITS = {
   anonymousSubmissionsPerHour: 5,
   authenticatedSubmissionsPerHour: 20,
+  // Officials bulk-upload: one request per incident plus one per 5 photos, up to 50 photos a batch
+  officialSubmissionsPerHour: 500,
   apiRequestsPerMinute: 60,
 } as const;
 
+// Roles held to officialSubmissionsPerHour instead of the signed-in citizen limit
+export const OFFICIAL_SUBMITTER_ROLES = ["field_officer", "planner", "admin", "super_admin"];
+
 // Duplicate detection radius (in meters)
 export const DUPLICATE_DETECTION_RADIUS = 50;
 
@@ -63,6 +68,7 @@ export const STATUS_COLORS = {
   rejected: "#ef4444",
   linked_to_project: "#8b5cf6",
   resolved: "#6b7280",
+  merged: "#94a3b8",
 } as const;
 
 // Severity colors for UI
@@ -73,6 +79,9 @@ export const SEVERITY_COLORS = {
   4: "#dc2626", // Critical - Red
 } as const;
 
+// Highest severity level (Critical); severities run 1 to MAX_SEVERITY
+export const MAX_SEVERITY = 4;
+
 // Severity labels
 export const SEVERITY_LABELS = {
   1: "Low",
@@ -86,12 +95,33 @@ export const REPORT_STATUSES = [
   "new",
   "verified",
   "in_progress",
+  "linked_to_project",
   "resolved",
   "rejected",
+  "merged",
 ] as const;
 
 export type ReportStatusType = typeof REPORT_STATUSES[number];
 
+// Events partner agencies can subscribe a webhook to
+export const WEBHOOK_EVENT_TYPES = [
+  "report.verified",
+  "report.resolved",
+  "segment.created",
+  "segment.deleted",
+  "project.updated",
+] as const;
+
+export type WebhookEventType = typeof WEBHOOK_EVENT_TYPES[number];
+
+// Daily situation digest for officials (profile page)
+export const DIGEST_ROLES = ["field_officer", "planner", "admin", "super_admin", "stakeholder"];
+export const DIGEST_FREQUENCIES = ["off", "daily", "weekdays"] as const;
+export const DIGEST_SCOPES = ["area", "organization"] as const;
+
+export type DigestFrequency = typeof DIGEST_FREQUENCIES[number];
+export type DigestScope = typeof DIGEST_SCOPES[number];
+
 // Role types for status transitions
 export type UserRoleType =
   | "citizen"
@@ -108,30 +138,40 @@ export const STATUS_TRANSITIONS: Record<string, Record<string, readonly string[]
     new: ["verified", "rejected"],
     verified: ["in_progress"],
     in_progress: ["resolved", "verified"], // Can revert if needed
+    // Project-driven: resolved automatically when the linked project completes
+    linked_to_project: [],
     resolved: [],
     rejected: [],
+    // Merged duplicates are closed; reports only reach this status through a merge
+    merged: [],
   },
   planner: {
     new: ["verified", "rejected"],
-    verified: ["in_progress"],
-    in_progress: ["resolved", "verified"],
+    verified: ["in_progress", "linked_to_project"],
+    in_progress: ["resolved", "verified", "linked_to_project"],
+    linked_to_project: ["in_progress", "resolved"],
     resolved: ["in_progress"], // Can reopen
     rejected: ["new"], // Can re-review
+    merged: [],
   },
   admin: {
     new: ["verified", "rejected", "in_progress"],
-    verified: ["in_progress", "rejected", "new"],
-    in_progress: ["resolved", "verified", "rejected"],
+    verified: ["in_progress", "rejected", "new", "linked_to_project"],
+    in_progress: ["resolved", "verified", "rejected", "linked_to_project"],
+    linked_to_project: ["in_progress", "verified", "resolved"],
     resolved: ["in_progress", "verified"],
     rejected: ["new", "verified"],
+    merged: [],
   },
   super_admin: {
     // Super admin can do all transitions
-    new: ["verified", "rejected", "in_progress", "resolved"],
-    verified: ["new", "rejected", "in_progress", "resolved"],
-    in_progress: ["new", "verified", "rejected", "resolved"],
-    resolved: ["new", "verified", "in_progress", "rejected"],
-    rejected: ["new", "verified", "in_progress", "resolved"],
+    new: ["verified", "rejected", "in_progress", "resolved", "linked_to_project"],
+    verified: ["new", "rejected", "in_progress", "resolved", "linked_to_project"],
+    in_progress: ["new", "verified", "rejected", "resolved", "linked_to_project"],
+    linked_to_project: ["new", "verified", "in_progress", "resolved", "rejected"],
+    resolved: ["new", "verified", "in_progress", "rejected", "linked_to_project"],
+    rejected: ["new", "verified", "in_progress", "resolved", "linked_to_project"],
+    merged: [],
   },
 } as const;
 
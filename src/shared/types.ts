@@ -121,6 +121,7 @@ export const ReportStatus = {
   REJECTED: "rejected",
   LINKED_TO_PROJECT: "linked_to_project",
   RESOLVED: "resolved",
+  MERGED: "merged",
 } as const;
 export type ReportStatus = (typeof ReportStatus)[keyof typeof ReportStatus];
 
@@ -166,6 +167,7 @@ export const LocationLevel = {
   PROVINCE: "province",
   DISTRICT: "district",
   CITY: "city",
+  DS_DIVISION: "ds_division",
   GN_DIVISION: "gn_division",
 } as const;
 export type LocationLevel =
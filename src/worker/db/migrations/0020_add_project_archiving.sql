@@ -0,0 +1,5 @@
+-- Soft-delete support for rebuild projects
+-- Archived projects are hidden from the default project listing but kept for history
+ALTER TABLE rebuild_projects ADD COLUMN archived_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS idx_projects_archived_at ON rebuild_projects(archived_at);
@@ -0,0 +1,7 @@
+-- Threaded comments on damage reports
+-- parent_id points at the top-level comment of a thread; edits and soft deletes are audited
+ALTER TABLE comments ADD COLUMN parent_id TEXT;
+ALTER TABLE comments ADD COLUMN updated_at INTEGER;
+ALTER TABLE comments ADD COLUMN deleted_at INTEGER;
+
+CREATE INDEX IF NOT EXISTS comments_parent_idx ON comments(parent_id);
@@ -0,0 +1,5 @@
+-- Member of the assigned organization currently working a report
+-- Cleared when the report is reassigned to another organization
+ALTER TABLE damage_reports ADD COLUMN assigned_user_id TEXT REFERENCES user(id);
+
+CREATE INDEX IF NOT EXISTS reports_assigned_user_idx ON damage_reports(assigned_user_id);
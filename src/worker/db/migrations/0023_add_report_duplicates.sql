@@ -0,0 +1,21 @@
+-- Candidate duplicates flagged when a report is submitted near an open report of the same damage type
+-- report_id is the newer report; matched_report_id is the existing report it was matched against
+CREATE TABLE IF NOT EXISTS report_duplicates (
+  id TEXT PRIMARY KEY,
+  report_id TEXT NOT NULL REFERENCES damage_reports(id),
+  matched_report_id TEXT NOT NULL REFERENCES damage_reports(id),
+  distance_meters REAL NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending', -- pending, merged, dismissed
+  resolved_by TEXT REFERENCES user(id),
+  resolved_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS duplicates_report_idx ON report_duplicates(report_id);
+CREATE INDEX IF NOT EXISTS duplicates_matched_report_idx ON report_duplicates(matched_report_id);
+CREATE INDEX IF NOT EXISTS duplicates_status_idx ON report_duplicates(status);
+
+-- Canonical report a merged duplicate was folded into
+ALTER TABLE damage_reports ADD COLUMN merged_into_id TEXT REFERENCES damage_reports(id);
+
+CREATE INDEX IF NOT EXISTS reports_merged_into_idx ON damage_reports(merged_into_id);
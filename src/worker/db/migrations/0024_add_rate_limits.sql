@@ -0,0 +1,35 @@
+-- Fixed-window request counters for rate-limited routes
+-- client_key is "ip:<address>" or "user:<id>"; rows from past windows are pruned as new windows open
+CREATE TABLE IF NOT EXISTS rate_limit_counters (
+  bucket TEXT NOT NULL,
+  client_key TEXT NOT NULL,
+  window_start INTEGER NOT NULL,
+  count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (bucket, client_key, window_start)
+);
+
+-- Clients that hit a rate limit, one row per client and bucket (shown in the admin view)
+CREATE TABLE IF NOT EXISTS rate_limit_blocks (
+  id TEXT PRIMARY KEY,
+  bucket TEXT NOT NULL,
+  client_key TEXT NOT NULL,
+  ip_address TEXT,
+  user_id TEXT REFERENCES user(id),
+  user_agent TEXT,
+  blocked_count INTEGER NOT NULL DEFAULT 1,
+  first_blocked_at INTEGER NOT NULL,
+  last_blocked_at INTEGER NOT NULL,
+  blocked_until INTEGER NOT NULL
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS rate_limit_blocks_client_idx ON rate_limit_blocks(bucket, client_key);
+CREATE INDEX IF NOT EXISTS rate_limit_blocks_last_idx ON rate_limit_blocks(last_blocked_at);
+
+-- Trusted IP addresses or IPv4 CIDR ranges (e.g. government offices) exempt from rate limits
+CREATE TABLE IF NOT EXISTS ip_allowlist (
+  id TEXT PRIMARY KEY,
+  ip_range TEXT NOT NULL UNIQUE,
+  label TEXT NOT NULL,
+  created_by TEXT REFERENCES user(id),
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,8 @@
+-- Bounding boxes for administrative boundary polygons, so point-in-polygon lookups
+-- only parse the GeoJSON of locations whose box contains the point
+ALTER TABLE locations ADD COLUMN bbox_min_lat REAL;
+ALTER TABLE locations ADD COLUMN bbox_min_lng REAL;
+ALTER TABLE locations ADD COLUMN bbox_max_lat REAL;
+ALTER TABLE locations ADD COLUMN bbox_max_lng REAL;
+
+CREATE INDEX IF NOT EXISTS locations_bbox_idx ON locations(level, bbox_min_lat, bbox_max_lat);
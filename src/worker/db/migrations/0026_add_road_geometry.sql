@@ -0,0 +1,2 @@
+-- Road centrelines for the offline reverse geocoder, as GeoJSON MultiLineString text
+ALTER TABLE roads ADD COLUMN geometry TEXT;
@@ -0,0 +1,6 @@
+-- Divisional Secretariat and Grama Niladhari divisions on reports, for local coordination
+ALTER TABLE damage_reports ADD COLUMN ds_division_id TEXT REFERENCES locations(id);
+ALTER TABLE damage_reports ADD COLUMN gn_division_id TEXT REFERENCES locations(id);
+
+CREATE INDEX IF NOT EXISTS reports_ds_division_idx ON damage_reports(ds_division_id);
+CREATE INDEX IF NOT EXISTS reports_gn_division_idx ON damage_reports(gn_division_id);
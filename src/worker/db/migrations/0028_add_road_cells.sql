@@ -0,0 +1,8 @@
+-- Geohash grid index over road geometry for nearest-road lookups
+CREATE TABLE IF NOT EXISTS road_cells (
+  geohash TEXT NOT NULL,
+  road_id TEXT NOT NULL REFERENCES roads(id) ON DELETE CASCADE,
+  PRIMARY KEY (geohash, road_id)
+);
+
+CREATE INDEX IF NOT EXISTS road_cells_road_idx ON road_cells(road_id);
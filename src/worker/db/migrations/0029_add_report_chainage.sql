@@ -0,0 +1,2 @@
+-- Kilometre post of a report along its road, entered by the submitter or derived from the road geometry
+ALTER TABLE damage_reports ADD COLUMN chainage_km REAL;
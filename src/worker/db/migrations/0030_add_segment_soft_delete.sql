@@ -0,0 +1,4 @@
+-- Blocked segments are edited and soft-deleted from the admin segment editor
+ALTER TABLE road_segments ADD COLUMN updated_at INTEGER;
+ALTER TABLE road_segments ADD COLUMN deleted_at INTEGER;
+ALTER TABLE road_segments ADD COLUMN deleted_by TEXT REFERENCES user(id);
@@ -0,0 +1,74 @@
+-- Full-text index over reports for admin search. Triggers keep it in step with
+-- damage_reports and the report's (non-deleted) comments.
+-- Each row's rowid is its report's damage_reports rowid, so triggers find it by key
+-- instead of scanning the index.
+-- Marks (M*) are token characters so Sinhala and Tamil words are not split at vowel signs.
+CREATE VIRTUAL TABLE IF NOT EXISTS report_search USING fts5(
+  report_number,
+  description,
+  location_name,
+  landmark,
+  road_number,
+  comments,
+  tokenize = "unicode61 remove_diacritics 2 categories 'L* N* Co M*'",
+  prefix = '2 3'
+);
+
+CREATE TRIGGER IF NOT EXISTS damage_reports_search_insert AFTER INSERT ON damage_reports BEGIN
+  INSERT INTO report_search (rowid, report_number, description, location_name, landmark, road_number)
+  VALUES (new.rowid, new.report_number, new.description, new.location_name, new.landmark, new.road_number_input);
+END;
+
+CREATE TRIGGER IF NOT EXISTS damage_reports_search_update
+AFTER UPDATE OF report_number, description, location_name, landmark, road_number_input ON damage_reports BEGIN
+  UPDATE report_search
+  SET report_number = new.report_number,
+      description = new.description,
+      location_name = new.location_name,
+      landmark = new.landmark,
+      road_number = new.road_number_input
+  WHERE rowid = new.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS damage_reports_search_delete AFTER DELETE ON damage_reports BEGIN
+  DELETE FROM report_search WHERE rowid = old.rowid;
+END;
+
+CREATE TRIGGER IF NOT EXISTS comments_search_insert AFTER INSERT ON comments
+WHEN new.report_id IS NOT NULL BEGIN
+  UPDATE report_search
+  SET comments = (
+    SELECT group_concat(content, char(10)) FROM comments WHERE report_id = new.report_id AND deleted_at IS NULL
+  )
+  WHERE rowid = (SELECT rowid FROM damage_reports WHERE id = new.report_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS comments_search_update AFTER UPDATE OF content, deleted_at ON comments
+WHEN new.report_id IS NOT NULL BEGIN
+  UPDATE report_search
+  SET comments = (
+    SELECT group_concat(content, char(10)) FROM comments WHERE report_id = new.report_id AND deleted_at IS NULL
+  )
+  WHERE rowid = (SELECT rowid FROM damage_reports WHERE id = new.report_id);
+END;
+
+CREATE TRIGGER IF NOT EXISTS comments_search_delete AFTER DELETE ON comments
+WHEN old.report_id IS NOT NULL BEGIN
+  UPDATE report_search
+  SET comments = (
+    SELECT group_concat(content, char(10)) FROM comments WHERE report_id = old.report_id AND deleted_at IS NULL
+  )
+  WHERE rowid = (SELECT rowid FROM damage_reports WHERE id = old.report_id);
+END;
+
+-- Index existing reports
+INSERT INTO report_search (rowid, report_number, description, location_name, landmark, road_number, comments)
+SELECT
+  r.rowid,
+  r.report_number,
+  r.description,
+  r.location_name,
+  r.landmark,
+  r.road_number_input,
+  (SELECT group_concat(c.content, char(10)) FROM comments c WHERE c.report_id = r.id AND c.deleted_at IS NULL)
+FROM damage_reports r;
@@ -0,0 +1,8 @@
+-- Submitters are emailed when their report is verified, rejected, started or resolved,
+-- in the language they reported in, unless their address has opted out
+ALTER TABLE damage_reports ADD COLUMN submitter_language TEXT;
+
+CREATE TABLE IF NOT EXISTS email_opt_outs (
+  email TEXT PRIMARY KEY,
+  created_at INTEGER NOT NULL
+);
@@ -0,0 +1,23 @@
+-- Public watch subscriptions: email alerts when a report on a road, in a district or inside
+-- a drawn box is verified or resolved, or a closure is added there. Confirmed by email
+-- (double opt-in) before any alert is sent.
+CREATE TABLE IF NOT EXISTS watch_subscriptions (
+  id TEXT PRIMARY KEY,
+  email TEXT NOT NULL,
+  kind TEXT NOT NULL,
+  label TEXT NOT NULL,
+  road_number TEXT,
+  district_id TEXT REFERENCES locations(id),
+  min_lat REAL,
+  min_lng REAL,
+  max_lat REAL,
+  max_lng REAL,
+  confirm_token TEXT UNIQUE,
+  unsubscribe_token TEXT NOT NULL UNIQUE,
+  confirmed_at INTEGER,
+  created_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS watch_subscriptions_email_idx ON watch_subscriptions(email);
+CREATE INDEX IF NOT EXISTS watch_subscriptions_road_idx ON watch_subscriptions(road_number);
+CREATE INDEX IF NOT EXISTS watch_subscriptions_district_idx ON watch_subscriptions(district_id);
@@ -0,0 +1,20 @@
+-- Every email the worker sends goes through this outbox; pending rows are retried with backoff
+-- until they are sent or run out of attempts. headers is a JSON object of extra headers
+-- (List-Unsubscribe and so on). html is cleared once sent, since most bodies carry tokens.
+CREATE TABLE IF NOT EXISTS email_outbox (
+  id TEXT PRIMARY KEY,
+  to_address TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  html TEXT NOT NULL,
+  headers TEXT,
+  status TEXT NOT NULL DEFAULT 'pending',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at INTEGER,
+  transport TEXT,
+  last_error TEXT,
+  created_at INTEGER NOT NULL,
+  sent_at INTEGER
+);
+
+CREATE INDEX IF NOT EXISTS email_outbox_due_idx ON email_outbox(status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS email_outbox_created_idx ON email_outbox(created_at);
@@ -0,0 +1,15 @@
+-- Daily situation digest settings for officials, chosen on their profile page.
+-- frequency: off, daily or weekdays; send_hour is the hour of day in Sri Lanka time.
+-- scope: area (everything within the user's province/district scope) or organization
+-- (reports assigned to the user's organizations).
+CREATE TABLE IF NOT EXISTS digest_preferences (
+  user_id TEXT PRIMARY KEY REFERENCES user(id) ON DELETE CASCADE,
+  frequency TEXT NOT NULL DEFAULT 'off',
+  send_hour INTEGER NOT NULL DEFAULT 7,
+  scope TEXT NOT NULL DEFAULT 'area',
+  unsubscribe_token TEXT NOT NULL UNIQUE,
+  last_sent_at INTEGER,
+  updated_at INTEGER NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS digest_preferences_due_idx ON digest_preferences(frequency, send_hour);
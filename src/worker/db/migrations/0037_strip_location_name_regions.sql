@@ -0,0 +1,34 @@
+-- Reports from before boundary assignment stored "Road (district, province)" as the
+-- location name, and the app parsed the region back out of it. Move the bracketed
+-- district and province into workflow_data, where reports without a boundary match
+-- take their region from, and keep only the road part as the location name.
+UPDATE damage_reports
+SET location_name = CASE WHEN legacy.road <> '' THEN legacy.road ELSE damage_reports.location_name END,
+    workflow_data = json_set(
+      legacy.workflow,
+      '$.district', coalesce(json_extract(legacy.workflow, '$.district'), legacy.district),
+      '$.province', coalesce(json_extract(legacy.workflow, '$.province'), legacy.province)
+    )
+FROM (
+  SELECT
+    id,
+    trim(substr(location_name, 1, open_at - 1)) AS road,
+    trim(substr(rest, 1, comma_at - 1)) AS district,
+    trim(substr(rest, comma_at + 1, close_at - comma_at - 1)) AS province,
+    CASE WHEN json_valid(workflow_data) THEN workflow_data ELSE '{}' END AS workflow
+  FROM (
+    SELECT id, location_name, workflow_data, open_at, rest, instr(rest, ',') AS comma_at, instr(rest, ')') AS close_at
+    FROM (
+      SELECT
+        id,
+        location_name,
+        workflow_data,
+        instr(location_name, '(') AS open_at,
+        substr(location_name, instr(location_name, '(') + 1) AS rest
+      FROM damage_reports
+      WHERE location_name LIKE '%(%,%)%'
+    )
+  )
+  WHERE comma_at > 1 AND close_at > comma_at + 1
+) AS legacy
+WHERE damage_reports.id = legacy.id;
@@ -1,4 +1,4 @@
-import { sqliteTable, text, integer, real, index } from "drizzle-orm/sqlite-core";
+import { sqliteTable, text, integer, real, index, uniqueIndex, primaryKey } from "drizzle-orm/sqlite-core";
 import { relations, sql } from "drizzle-orm";
 
 // Re-export auth schema tables
@@ -45,18 +45,24 @@ export const locations = sqliteTable(
   {
     id: text("id").primaryKey(),
     parentId: text("parent_id"), // Self-reference handled in relations
-    level: text("level").notNull(), // country, province, district, city, gn_division
+    level: text("level").notNull(), // country, province, district, city, ds_division, gn_division
     nameEn: text("name_en").notNull(),
     nameSi: text("name_si"),
     nameTa: text("name_ta"),
     boundaryGeojson: text("boundary_geojson"), // JSON stored as text
     centroidLat: real("centroid_lat"),
     centroidLng: real("centroid_lng"),
+    // Bounding box of boundaryGeojson, used to prefilter point-in-polygon lookups
+    bboxMinLat: real("bbox_min_lat"),
+    bboxMinLng: real("bbox_min_lng"),
+    bboxMaxLat: real("bbox_max_lat"),
+    bboxMaxLng: real("bbox_max_lng"),
     isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
   },
   (table) => [
     index("locations_level_idx").on(table.level),
     index("locations_parent_idx").on(table.parentId),
+    index("locations_bbox_idx").on(table.level, table.bboxMinLat, table.bboxMaxLat),
   ]
 );
 
@@ -79,6 +85,8 @@ export const damageReports = sqliteTable(
     provinceId: text("province_id").references(() => locations.id),
     districtId: text("district_id").references(() => locations.id),
     cityId: text("city_id").references(() => locations.id),
+    dsDivisionId: text("ds_division_id").references(() => locations.id),
+    gnDivisionId: text("gn_division_id").references(() => locations.id),
     landmark: text("landmark"),
     locationName: text("location_name"), // Reverse-geocoded address/area name
     // Asset info
@@ -108,13 +116,17 @@ export const damageReports = sqliteTable(
     submissionSource: text("submission_source"), // citizen_web, citizen_mobile, official
     isVerifiedSubmitter: integer("is_verified_submitter", { mode: "boolean" }).default(false),
     claimToken: text("claim_token"), // For anonymous users to claim reports later
+    submitterLanguage: text("submitter_language"), // en, si or ta; language for status emails
     // Workflow data (admin/field officer updates)
     workflowData: text("workflow_data"), // JSON: { progressPercent, estimatedCostLkr, notes, etc. }
     // Classification fields
     roadId: text("road_id"), // FK to roads table (if matched)
     roadNumberInput: text("road_number_input"), // What user typed (free text)
     roadClass: text("road_class"), // A, B, C, D, E, or NULL
+    chainageKm: real("chainage_km"), // Kilometre post along the road
     assignedOrgId: text("assigned_org_id"), // FK to organizations
+    assignedUserId: text("assigned_user_id").references(() => user.id), // Org member working the report
+    mergedIntoId: text("merged_into_id"), // Canonical report this duplicate was merged into
     classificationStatus: text("classification_status").default("pending"), // pending, auto_classified, manual_classified, legacy, unclassifiable
     classifiedBy: text("classified_by"), // User ID who classified
     classifiedAt: integer("classified_at", { mode: "timestamp" }),
@@ -132,12 +144,16 @@ export const damageReports = sqliteTable(
     index("reports_severity_idx").on(table.severity),
     index("reports_province_idx").on(table.provinceId),
     index("reports_district_idx").on(table.districtId),
+    index("reports_ds_division_idx").on(table.dsDivisionId),
+    index("reports_gn_division_idx").on(table.gnDivisionId),
     index("reports_asset_type_idx").on(table.assetType),
     index("reports_priority_idx").on(table.priorityScore),
     index("reports_location_idx").on(table.latitude, table.longitude),
     index("reports_claim_token_idx").on(table.claimToken),
     index("reports_road_id_idx").on(table.roadId),
     index("reports_assigned_org_idx").on(table.assignedOrgId),
+    index("reports_assigned_user_idx").on(table.assignedUserId),
+    index("reports_merged_into_idx").on(table.mergedIntoId),
     index("reports_classification_status_idx").on(table.classificationStatus),
     index("reports_road_class_idx").on(table.roadClass),
   ]
@@ -230,11 +246,14 @@ export const rebuildProjects = sqliteTable(
     // Timestamps
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
     updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+    // Soft delete - archived projects are hidden from the default listing
+    archivedAt: integer("archived_at", { mode: "timestamp" }),
   },
   (table) => [
     index("projects_status_idx").on(table.status),
     index("projects_province_idx").on(table.provinceId),
     index("projects_district_idx").on(table.districtId),
+    index("projects_archived_at_idx").on(table.archivedAt),
   ]
 );
 
@@ -283,6 +302,32 @@ export const reportProjectLinks = sqliteTable(
   ]
 );
 
+// ============ REPORT DUPLICATES ============
+export const reportDuplicates = sqliteTable(
+  "report_duplicates",
+  {
+    id: text("id").primaryKey(),
+    // Newer report flagged on submission
+    reportId: text("report_id")
+      .notNull()
+      .references(() => damageReports.id),
+    // Existing open report it was matched against
+    matchedReportId: text("matched_report_id")
+      .notNull()
+      .references(() => damageReports.id),
+    distanceMeters: real("distance_meters").notNull(),
+    status: text("status").notNull().default("pending"), // pending, merged, dismissed
+    resolvedBy: text("resolved_by").references(() => user.id),
+    resolvedAt: integer("resolved_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("duplicates_report_idx").on(table.reportId),
+    index("duplicates_matched_report_idx").on(table.matchedReportId),
+    index("duplicates_status_idx").on(table.status),
+  ]
+);
+
 // ============ ROAD SEGMENTS ============
 export const roadSegments = sqliteTable(
   "road_segments",
@@ -303,6 +348,9 @@ export const roadSegments = sqliteTable(
     dataSource: text("data_source"),
     province: text("province"),
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }),
+    deletedAt: integer("deleted_at", { mode: "timestamp" }), // Soft delete keeps the audit trail resolvable
+    deletedBy: text("deleted_by").references(() => user.id),
   },
   (table) => [
     index("road_segments_report_idx").on(table.reportId),
@@ -332,14 +380,32 @@ export const comments = sqliteTable(
     isInternal: integer("is_internal", { mode: "boolean" })
       .notNull()
       .default(false),
+    parentId: text("parent_id"), // Top-level comment this is a reply to (NULL for thread starters)
     createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    updatedAt: integer("updated_at", { mode: "timestamp" }),
+    deletedAt: integer("deleted_at", { mode: "timestamp" }), // Soft delete keeps replies attached
   },
   (table) => [
     index("comments_report_idx").on(table.reportId),
     index("comments_project_idx").on(table.projectId),
+    index("comments_parent_idx").on(table.parentId),
   ]
 );
 
+// ============ REPORT SEARCH ============
+// FTS5 virtual table created and kept in sync by triggers in migration 0031;
+// declared here only so queries can reference its columns. rowid is the report's
+// damage_reports rowid.
+export const reportSearch = sqliteTable("report_search", {
+  rowid: integer("rowid").notNull(),
+  reportNumber: text("report_number"),
+  description: text("description"),
+  locationName: text("location_name"),
+  landmark: text("landmark"),
+  roadNumber: text("road_number"),
+  comments: text("comments"),
+});
+
 // ============ ROADS (from OpenStreetMap) ============
 export const roads = sqliteTable(
   "roads",
@@ -353,6 +419,7 @@ export const roads = sqliteTable(
     nameTa: text("name_ta"),
     province: text("province"),
     districts: text("districts"), // JSON array
+    geometry: text("geometry"), // Simplified GeoJSON MultiLineString stored as text
     lastUpdated: integer("last_updated", { mode: "timestamp" }).notNull(),
   },
   (table) => [
@@ -363,6 +430,21 @@ export const roads = sqliteTable(
   ]
 );
 
+// Geohash grid over road geometry: one row per cell a road passes through
+export const roadCells = sqliteTable(
+  "road_cells",
+  {
+    geohash: text("geohash").notNull(),
+    roadId: text("road_id")
+      .notNull()
+      .references(() => roads.id, { onDelete: "cascade" }),
+  },
+  (table) => [
+    primaryKey({ columns: [table.geohash, table.roadId] }),
+    index("road_cells_road_idx").on(table.roadId),
+  ]
+);
+
 // ============ ORGANIZATIONS ============
 export const organizations = sqliteTable(
   "organizations",
@@ -436,6 +518,160 @@ export const classificationHistory = sqliteTable(
   ]
 );
 
+// ============ RATE LIMITING ============
+export const rateLimitCounters = sqliteTable(
+  "rate_limit_counters",
+  {
+    bucket: text("bucket").notNull(), // report_submission, photo_upload
+    clientKey: text("client_key").notNull(), // ip:<address> or user:<id>
+    windowStart: integer("window_start").notNull(), // Epoch ms at the start of the window
+    count: integer("count").notNull().default(0),
+  },
+  (table) => [primaryKey({ columns: [table.bucket, table.clientKey, table.windowStart] })]
+);
+
+export const rateLimitBlocks = sqliteTable(
+  "rate_limit_blocks",
+  {
+    id: text("id").primaryKey(),
+    bucket: text("bucket").notNull(),
+    clientKey: text("client_key").notNull(),
+    ipAddress: text("ip_address"),
+    userId: text("user_id").references(() => user.id),
+    userAgent: text("user_agent"),
+    blockedCount: integer("blocked_count").notNull().default(1),
+    firstBlockedAt: integer("first_blocked_at", { mode: "timestamp" }).notNull(),
+    lastBlockedAt: integer("last_blocked_at", { mode: "timestamp" }).notNull(),
+    blockedUntil: integer("blocked_until", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    uniqueIndex("rate_limit_blocks_client_idx").on(table.bucket, table.clientKey),
+    index("rate_limit_blocks_last_idx").on(table.lastBlockedAt),
+  ]
+);
+
+export const ipAllowlist = sqliteTable("ip_allowlist", {
+  id: text("id").primaryKey(),
+  ipRange: text("ip_range").notNull().unique(), // Single address or IPv4 CIDR range
+  label: text("label").notNull(),
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// ============ EMAIL OPT-OUTS ============
+// Addresses (lower-cased) that no longer get report status emails
+export const emailOptOuts = sqliteTable("email_opt_outs", {
+  email: text("email").primaryKey(),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+});
+
+// ============ WATCH SUBSCRIPTIONS ============
+// Public email alerts for a road, a district or a drawn bounding box
+export const watchSubscriptions = sqliteTable(
+  "watch_subscriptions",
+  {
+    id: text("id").primaryKey(),
+    email: text("email").notNull(), // Lower-cased
+    kind: text("kind").notNull(), // road, district, area
+    label: text("label").notNull(), // e.g. "A1" or "Kandy District", shown in emails
+    roadNumber: text("road_number"), // Normalized road number (road ids change on re-import)
+    districtId: text("district_id").references(() => locations.id),
+    minLat: real("min_lat"),
+    minLng: real("min_lng"),
+    maxLat: real("max_lat"),
+    maxLng: real("max_lng"),
+    confirmToken: text("confirm_token").unique(), // Cleared once confirmed
+    unsubscribeToken: text("unsubscribe_token").notNull().unique(),
+    confirmedAt: integer("confirmed_at", { mode: "timestamp" }),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [
+    index("watch_subscriptions_email_idx").on(table.email),
+    index("watch_subscriptions_road_idx").on(table.roadNumber),
+    index("watch_subscriptions_district_idx").on(table.districtId),
+  ]
+);
+
+// ============ WEBHOOKS ============
+// Admin-managed endpoints that partner agencies receive signed event notifications on
+export const webhooks = sqliteTable("webhooks", {
+  id: text("id").primaryKey(),
+  name: text("name").notNull(), // e.g. "DMC situation room"
+  url: text("url").notNull(),
+  secret: text("secret").notNull(), // HMAC-SHA256 signing key, shown to admins to share with the partner
+  eventTypes: text("event_types").notNull(), // JSON array of WEBHOOK_EVENT_TYPES
+  isActive: integer("is_active", { mode: "boolean" }).notNull().default(true),
+  createdBy: text("created_by").references(() => user.id),
+  createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+  updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+});
+
+// Delivery log: one row per event per webhook, retried with backoff while pending
+export const webhookDeliveries = sqliteTable(
+  "webhook_deliveries",
+  {
+    id: text("id").primaryKey(),
+    webhookId: text("webhook_id")
+      .notNull()
+      .references(() => webhooks.id, { onDelete: "cascade" }),
+    eventType: text("event_type").notNull(),
+    payload: text("payload").notNull(), // Exact JSON body that is signed and sent
+    status: text("status").notNull().default("pending"), // pending, succeeded, failed
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }), // NULL once finished
+    responseStatus: integer("response_status"), // HTTP status of the last attempt
+    lastError: text("last_error"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("webhook_deliveries_webhook_idx").on(table.webhookId, table.createdAt),
+    index("webhook_deliveries_due_idx").on(table.status, table.nextAttemptAt),
+  ]
+);
+
+// ============ EMAIL OUTBOX ============
+// Every outgoing email, retried with backoff while pending (services/email.ts)
+export const emailOutbox = sqliteTable(
+  "email_outbox",
+  {
+    id: text("id").primaryKey(),
+    toAddress: text("to_address").notNull(),
+    subject: text("subject").notNull(),
+    html: text("html").notNull(), // Cleared once sent; links in most emails carry tokens
+    headers: text("headers"), // JSON object of extra headers, e.g. List-Unsubscribe
+    status: text("status").notNull().default("pending"), // pending, sent, failed
+    attempts: integer("attempts").notNull().default(0),
+    nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" }), // NULL once finished
+    transport: text("transport"), // mailgun, smtp or console; set on the last attempt
+    lastError: text("last_error"),
+    createdAt: integer("created_at", { mode: "timestamp" }).notNull(),
+    sentAt: integer("sent_at", { mode: "timestamp" }),
+  },
+  (table) => [
+    index("email_outbox_due_idx").on(table.status, table.nextAttemptAt),
+    index("email_outbox_created_idx").on(table.createdAt),
+  ]
+);
+
+// ============ DIGEST PREFERENCES ============
+// Officials' daily situation digest schedule and scope (services/digest.ts)
+export const digestPreferences = sqliteTable(
+  "digest_preferences",
+  {
+    userId: text("user_id")
+      .primaryKey()
+      .references(() => user.id, { onDelete: "cascade" }),
+    frequency: text("frequency").notNull().default("off"), // off, daily, weekdays
+    sendHour: integer("send_hour").notNull().default(7), // Hour of day in Sri Lanka time
+    scope: text("scope").notNull().default("area"), // area, organization
+    unsubscribeToken: text("unsubscribe_token").notNull().unique(),
+    lastSentAt: integer("last_sent_at", { mode: "timestamp" }),
+    updatedAt: integer("updated_at", { mode: "timestamp" }).notNull(),
+  },
+  (table) => [index("digest_preferences_due_idx").on(table.frequency, table.sendHour)]
+);
+
 // ============ RELATIONS ============
 export const userRelations = relations(user, ({ one, many }) => ({
   damageReports: many(damageReports),
@@ -8,6 +8,15 @@ import { uploadRoutes } from "./routes/upload";
 import { invitationsRoutes } from "./routes/invitations";
 import roadsRoutes from "./routes/roads";
 import { publicMetricsRoutes } from "./routes/public-metrics";
+import { projectsRoutes } from "./routes/projects";
+import { commentsRoutes } from "./routes/comments";
+import { locationsRoutes } from "./routes/locations";
+import { notificationsRoutes } from "./routes/notifications";
+import { watchRoutes } from "./routes/watch";
+import { createDb } from "./db";
+import { processDueWebhookDeliveries } from "./services/webhooks";
+import { processDueEmails } from "./services/email";
+import { sendDueDigests } from "./services/digest";
 
 const app = new Hono<{ Bindings: Env }>();
 
@@ -35,6 +44,11 @@ app.route("/api/v1/upload", uploadRoutes);
 app.route("/api/v1/invitations", invitationsRoutes);
 app.route("/api/v1/roads", roadsRoutes);
 app.route("/api/v1/public", publicMetricsRoutes);
+app.route("/api/v1/projects", projectsRoutes);
+app.route("/api/v1/comments", commentsRoutes);
+app.route("/api/v1/locations", locationsRoutes);
+app.route("/api/v1/notifications", notificationsRoutes);
+app.route("/api/v1/watch", watchRoutes);
 
 // Catch-all route to serve SPA for non-API routes
 // This is required when using run_worker_first: true
@@ -42,4 +56,14 @@ app.get("*", (c) => {
   return c.env.ASSETS.fetch(c.req.raw);
 });
 
-export default app;
+export default {
+  fetch: app.fetch,
+  // Cron trigger (wrangler.json): retries webhook deliveries and emails whose backoff has elapsed,
+  // and sends situation digests whose hour has come
+  scheduled(_controller, env, ctx) {
+    const db = createDb(env.DB);
+    ctx.waitUntil(processDueWebhookDeliveries(db));
+    ctx.waitUntil(processDueEmails(env, db));
+    ctx.waitUntil(sendDueDigests(env, db, env.PRODUCTION_URL || "http://localhost:5173"));
+  },
+} satisfies ExportedHandler<Env>;
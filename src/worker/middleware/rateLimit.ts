@@ -0,0 +1,86 @@
+import { Context, Next } from "hono";
+import { createDb } from "../db";
+import { getAuth } from "./auth";
+import {
+  createD1RateLimitStore,
+  getClientIp,
+  isIpAllowlisted,
+  recordRateLimitBlock,
+} from "../services/rateLimit";
+import { OFFICIAL_SUBMITTER_ROLES, RATE_LIMITS } from "../../shared/constants";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface RateLimitOptions {
+  // Counter namespace, e.g. report_submission
+  bucket: string;
+  windowMs: number;
+  // Requests per window for anonymous clients (keyed by IP) and signed-in users (keyed by user)
+  anonymousLimit: number;
+  authenticatedLimit: number;
+  // Higher limit for signed-in users in OFFICIAL_SUBMITTER_ROLES; defaults to authenticatedLimit
+  officialLimit?: number;
+}
+
+// Rate limit middleware - run after optionalAuthMiddleware so signed-in users get their own limit
+export function rateLimit(options: RateLimitOptions) {
+  return async (c: Context<{ Bindings: Env }>, next: Next) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const ip = getClientIp((name) => c.req.header(name));
+    const clientKey = auth ? `user:${auth.userId}` : `ip:${ip || "unknown"}`;
+    const limit = !auth
+      ? options.anonymousLimit
+      : OFFICIAL_SUBMITTER_ROLES.includes(auth.role)
+        ? (options.officialLimit ?? options.authenticatedLimit)
+        : options.authenticatedLimit;
+
+    const now = Date.now();
+    const windowStart = now - (now % options.windowMs);
+    const retryAfterSeconds = Math.ceil((windowStart + options.windowMs - now) / 1000);
+
+    try {
+      if (ip && (await isIpAllowlisted(db, ip))) {
+        return next();
+      }
+
+      const count = await createD1RateLimitStore(db).increment(options.bucket, clientKey, windowStart);
+
+      if (count > limit) {
+        await recordRateLimitBlock(db, {
+          bucket: options.bucket,
+          clientKey,
+          ipAddress: ip,
+          userId: auth?.userId || null,
+          userAgent: c.req.header("user-agent") || null,
+          blockedUntil: new Date(windowStart + options.windowMs),
+        });
+
+        c.header("Retry-After", String(retryAfterSeconds));
+        return c.json(
+          {
+            error: `Too many requests. Please try again in ${Math.ceil(retryAfterSeconds / 60)} minutes.`,
+            retryAfter: retryAfterSeconds,
+          },
+          429
+        );
+      }
+    } catch (error) {
+      // Never turn away a submission because the limiter itself failed
+      console.error(`Rate limit check failed for ${options.bucket}:`, error);
+    }
+
+    await next();
+  };
+}
+
+// Hourly submission caps from RATE_LIMITS, shared by report submission and photo uploads
+export function submissionRateLimit(bucket: string) {
+  return rateLimit({
+    bucket,
+    windowMs: HOUR_MS,
+    anonymousLimit: RATE_LIMITS.anonymousSubmissionsPerHour,
+    authenticatedLimit: RATE_LIMITS.authenticatedSubmissionsPerHour,
+    officialLimit: RATE_LIMITS.officialSubmissionsPerHour,
+  });
+}
@@ -2,11 +2,59 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { createDb } from "../db";
-import { damageReports, roadSegments, mediaAttachments, user, userInvitations, locations, organizations, classificationHistory, userOrganizations, stateTransitions, session, account, verification } from "../db/schema";
-import { eq, desc, or, isNull, isNotNull, and, sql } from "drizzle-orm";
+import { damageReports, roadSegments, mediaAttachments, user, userInvitations, locations, organizations, classificationHistory, userOrganizations, stateTransitions, session, account, verification, reportProjectLinks, rebuildProjects, priorityConfig, reportDuplicates, rateLimitBlocks, ipAllowlist, webhooks, webhookDeliveries, emailOutbox } from "../db/schema";
+import { eq, ne, asc, desc, or, isNull, isNotNull, and, sql, inArray, gte, lt, like } from "drizzle-orm";
 import { alias } from "drizzle-orm/sqlite-core";
-import { sendEmail, getInvitationEmailHtml } from "../services/email";
+import { sendEmail, getInvitationEmailHtml, processDueEmails, retryEmail } from "../services/email";
+import { getEmailTransport } from "../services/emailTransport";
 import { recordAuditEntries, createFieldChangeEntries } from "../services/audit";
+import { hasProjectDrivenLink } from "../services/projectLinks";
+import {
+  checkReportScope,
+  getReportRegion,
+  hasRegionScope,
+  isReportInScope,
+  normalizeRegionName,
+  regionNameSql,
+  reportScopeCondition,
+} from "../services/reportScope";
+import { BOUNDARY_LEVELS, importBoundaries, backfillReportRegions } from "../services/regions";
+import { getDuplicateCandidates, getReportSubmitters, mergeReports } from "../services/duplicates";
+import { createD1RateLimitStore, ipMatchesRange, normalizeIpRange } from "../services/rateLimit";
+import { resolveSegmentGeometry } from "../services/roadSegments";
+import {
+  planClosureImport,
+  commitClosureImport,
+  summarizeClosureImport,
+  MAX_CLOSURE_IMPORT_ROWS,
+} from "../services/closureImport";
+import { searchReports } from "../services/reportSearch";
+import { notifyStatusChange } from "../services/statusNotifications";
+import { getClosureWatchEvent, notifyReportWatchers, notifyWatchers } from "../services/watch";
+import {
+  deliverWebhooks,
+  dispatchReportStatusWebhook,
+  dispatchWebhookEvent,
+  generateWebhookSecret,
+  parseEventTypes,
+  queueWebhookEvent,
+  toSegmentWebhookData,
+} from "../services/webhooks";
+import {
+  ORG_MANAGER_ROLES,
+  getUserMemberships,
+  getOrgWorkloads,
+  notifyOrgReassignment,
+} from "../services/workQueue";
+import {
+  getActivePriorityConfig,
+  updateReportPriority,
+  rescoreOpenReports,
+  previewPriorityChange,
+  DEFAULT_PRIORITY_VERSION,
+  OPEN_REPORT_STATUSES,
+  type PriorityWeights,
+} from "../services/priority";
 import { getAuth } from "../middleware/auth";
 import {
   initialRoadSegments,
@@ -14,8 +62,9 @@ import {
   mapReasonToSeverity,
 } from "../../react-app/data/initialRoadSegments";
 import { snappedRoadPaths } from "../../react-app/data/snappedRoadPaths";
+import { provinces } from "../../react-app/data/sriLankaLocations";
 import { authMiddleware, requireRole } from "../middleware/auth";
-import { isValidTransition, getAllowedTransitions } from "../../shared/constants";
+import { isValidTransition, getAllowedTransitions, DEFAULT_PRIORITY_WEIGHTS, WEBHOOK_EVENT_TYPES, MAX_SEVERITY } from "../../shared/constants";
 
 const adminRoutes = new Hono<{ Bindings: Env }>();
 
@@ -66,6 +115,7 @@ adminRoutes.post("/import-segments", requireRole("admin", "super_admin"), async
 
   let imported = 0;
   const errors: string[] = [];
+  const priority = await getActivePriorityConfig(db);
 
   for (const seg of data) {
     try {
@@ -85,6 +135,7 @@ adminRoutes.post("/import-segments", requireRole("admin", "super_admin"), async
         createdAt: now,
         updatedAt: now,
       });
+      await updateReportPriority(db, seg.reportId, priority);
 
       // Create road segment
       await db.insert(roadSegments).values({
@@ -123,86 +174,366 @@ adminRoutes.post("/import-segments", requireRole("admin", "super_admin"), async
 // Requires admin or super_admin role
 adminRoutes.get("/segments-count", requireRole("admin", "super_admin"), async (c) => {
   const db = createDb(c.env.DB);
-  const results = await db.select().from(roadSegments);
+  const results = await db.select().from(roadSegments).where(isNull(roadSegments.deletedAt));
   return c.json({ count: results.length });
 });
 
-// GET /api/v1/admin/reports - Get all citizen reports for review
-// Requires field_officer, planner, admin or super_admin role
-adminRoutes.get("/reports", requireRole("field_officer", "planner", "admin", "super_admin"), async (c) => {
+const importClosuresSchema = z.object({
+  fileName: z.string().min(1).max(200),
+  dryRun: z.boolean().default(true),
+  // Spreadsheet rows keyed by column header, parsed client-side from CSV or XLSX
+  rows: z.array(z.record(z.string(), z.union([z.string(), z.number(), z.null()]))).min(1).max(MAX_CLOSURE_IMPORT_ROWS),
+});
+
+// POST /api/v1/admin/import-closures - Import an official RDA closure list
+// Body: rows in the plans/road_coordinates.csv layout. With dryRun (the default) nothing is written
+// and each row comes back as new, changed, unchanged or invalid. Otherwise the next
+// CLOSURE_COMMIT_CHUNK_SIZE new and changed rows are upserted as verified reports with road
+// segments, and `remaining` says how many are left; the client repeats the request until it is 0.
+// Invalid rows are skipped.
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/import-closures",
+  requireRole("admin", "super_admin"),
+  zValidator("json", importClosuresSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { fileName, dryRun, rows } = c.req.valid("json");
+
+    const plan = await planClosureImport(db, rows);
+    if (dryRun) {
+      return c.json({ dryRun, summary: summarizeClosureImport(plan), rows: plan });
+    }
+
+    const { created, applied, remaining } = await commitClosureImport(db, plan, {
+      userId: auth.userId,
+      role: auth.role,
+      fileName,
+    });
+    await notifyWatchers(
+      c.env,
+      db,
+      created.map(({ report, segment }) => getClosureWatchEvent(report, segment)),
+      c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173"
+    );
+    for (const { report, segment } of created) {
+      await dispatchWebhookEvent(db, c.executionCtx, "segment.created", toSegmentWebhookData(report, segment));
+    }
+
+    return c.json({ dryRun, summary: summarizeClosureImport(plan), applied, remaining });
+  }
+);
+
+const ringSchema = z.array(z.array(z.number()).min(2)).min(4);
+
+const importBoundariesSchema = z.object({
+  type: z.literal("FeatureCollection"),
+  features: z
+    .array(
+      z.object({
+        type: z.literal("Feature"),
+        properties: z.object({
+          id: z.string().min(1),
+          parentId: z.string().min(1).nullable().optional(),
+          level: z.enum(BOUNDARY_LEVELS),
+          nameEn: z.string().min(1),
+          nameSi: z.string().nullable().optional(),
+          nameTa: z.string().nullable().optional(),
+        }),
+        geometry: z.discriminatedUnion("type", [
+          z.object({ type: z.literal("Polygon"), coordinates: z.array(ringSchema).min(1) }),
+          z.object({ type: z.literal("MultiPolygon"), coordinates: z.array(z.array(ringSchema).min(1)).min(1) }),
+        ]),
+      })
+    )
+    .min(1),
+});
+
+// POST /api/v1/admin/import-boundaries - Import province/district/city/GN division boundary polygons into locations
+// Body: GeoJSON FeatureCollection; each feature's properties carry id, parentId, level and nameEn
+// Assigns regions to existing reports that don't have them yet
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/import-boundaries",
+  requireRole("admin", "super_admin"),
+  zValidator("json", importBoundariesSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { features } = c.req.valid("json");
+
+    const importedCount = await importBoundaries(
+      db,
+      features.map((feature) => ({
+        ...feature.properties,
+        parentId: feature.properties.parentId ?? null,
+        geometry: feature.geometry,
+      }))
+    );
+    const backfill = await backfillReportRegions(db);
+
+    return c.json({
+      success: true,
+      importedCount,
+      reportsChecked: backfill.checked,
+      reportsUpdated: backfill.updated,
+    });
+  }
+);
+
+// POST /api/v1/admin/backfill-regions - Assign regions to reports that are missing them
+// Used after loading boundaries outside the API, e.g. with scripts/import-admin-divisions.ts
+// Requires admin or super_admin role
+adminRoutes.post("/backfill-regions", requireRole("admin", "super_admin"), async (c) => {
   const db = createDb(c.env.DB);
+  const backfill = await backfillReportRegions(db);
 
-  // Create aliases for joining locations table twice
-  const provinceLocation = alias(locations, "province_location");
-  const districtLocation = alias(locations, "district_location");
+  return c.json({
+    success: true,
+    reportsChecked: backfill.checked,
+    reportsUpdated: backfill.updated,
+  });
+});
 
-  const rawReports = await db
-    .select({
-      id: damageReports.id,
+const dateParam = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Use YYYY-MM-DD");
+
+const listReportsSchema = z.object({
+  page: z.coerce.number().int().min(1).optional().default(1),
+  limit: z.coerce.number().int().min(1).max(500).optional().default(20),
+  queue: z.enum(["all", "mine"]).optional().default("all"),
+  // Comma-separated list of statuses
+  status: z.string().optional(),
+  province: z.string().optional(),
+  district: z.string().optional(),
+  dsDivision: z.string().optional(),
+  gnDivision: z.string().optional(),
+  org: z.string().optional(),
+  damageType: z.string().optional(),
+  severity: z.coerce.number().int().min(1).max(MAX_SEVERITY).optional(),
+  classificationStatus: z.string().optional(),
+  // Submission date range (inclusive, Sri Lanka time)
+  from: dateParam.optional(),
+  to: dateParam.optional(),
+  q: z.string().trim().max(100).optional(),
+  sort: z
+    .enum(["createdAt", "priorityScore", "severity", "reportNumber", "damageType", "status", "districtName", "roadLocation"])
+    .optional()
+    .default("createdAt"),
+  order: z.enum(["asc", "desc"]).optional().default("desc"),
+});
+
+// Start of a calendar day in Sri Lanka (UTC+05:30)
+function sriLankaDayStart(date: string, addDays = 0): Date {
+  const day = new Date(`${date}T00:00:00+05:30`);
+  day.setUTCDate(day.getUTCDate() + addDays);
+  return day;
+}
+
+// GET /api/v1/admin/reports - Page of citizen reports for review
+// Query: page, limit (max 500), queue=mine (only reports assigned to the user's organizations)
+//        filters: status (comma-separated), province, district (names), dsDivision, gnDivision, org (ids),
+//                 damageType, severity, classificationStatus, from/to (YYYY-MM-DD), q (free text)
+//        sort (createdAt, priorityScore, severity, reportNumber, damageType, status, districtName, roadLocation)
+//        and order (asc/desc); reports without a value for the sort column come last
+// Returns the page, per-status counts for the other filters, and pagination totals
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.get(
+  "/reports",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("query", listReportsSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const query = c.req.valid("query");
+    const { page, limit } = query;
+
+    // Organization work queue: reports assigned to any org the user belongs to
+    let queueOrgIds: string[] | null = null;
+    if (query.queue === "mine") {
+      queueOrgIds = (await getUserMemberships(db, auth.userId)).map((m) => m.organizationId);
+      if (queueOrgIds.length === 0) {
+        return c.json({
+          reports: [],
+          statusCounts: {},
+          pagination: { page, limit, totalCount: 0, totalPages: 0, hasNext: false, hasPrev: page > 1 },
+        });
+      }
+    }
+
+    // Create aliases for joining the locations table once per level
+    const provinceLocation = alias(locations, "province_location");
+    const districtLocation = alias(locations, "district_location");
+    const dsDivisionLocation = alias(locations, "ds_division_location");
+    const gnDivisionLocation = alias(locations, "gn_division_location");
+    const assigneeUser = alias(user, "assignee_user");
+
+    // Every filter but status, which is applied separately so the status summary can count
+    // reports in each status
+    const searchPattern = query.q ? `%${query.q}%` : null;
+    const conditions = [
+      queueOrgIds ? inArray(damageReports.assignedOrgId, queueOrgIds) : undefined,
+      // Users limited to a province/district only see reports in their area
+      reportScopeCondition(auth, provinceLocation.nameEn, districtLocation.nameEn),
+      query.province
+        ? eq(regionNameSql(provinceLocation.nameEn, "province"), normalizeRegionName(query.province))
+        : undefined,
+      query.district
+        ? eq(regionNameSql(districtLocation.nameEn, "district"), normalizeRegionName(query.district))
+        : undefined,
+      query.dsDivision ? eq(damageReports.dsDivisionId, query.dsDivision) : undefined,
+      query.gnDivision ? eq(damageReports.gnDivisionId, query.gnDivision) : undefined,
+      query.org ? eq(damageReports.assignedOrgId, query.org) : undefined,
+      query.damageType ? eq(damageReports.damageType, query.damageType) : undefined,
+      query.severity ? eq(damageReports.severity, query.severity) : undefined,
+      query.classificationStatus ? eq(damageReports.classificationStatus, query.classificationStatus) : undefined,
+      query.from ? gte(damageReports.createdAt, sriLankaDayStart(query.from)) : undefined,
+      query.to ? lt(damageReports.createdAt, sriLankaDayStart(query.to, 1)) : undefined,
+      searchPattern
+        ? or(
+            like(damageReports.reportNumber, searchPattern),
+            like(damageReports.description, searchPattern),
+            like(damageReports.damageType, searchPattern),
+            like(damageReports.locationName, searchPattern),
+            like(damageReports.roadNumberInput, searchPattern)
+          )
+        : undefined,
+    ];
+    const statuses = query.status?.split(",").filter(Boolean) || [];
+    const where = and(...conditions, statuses.length > 0 ? inArray(damageReports.status, statuses) : undefined);
+
+    const statusRows = await db
+      .select({ status: damageReports.status, count: sql<number>`count(*)` })
+      .from(damageReports)
+      .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+      .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+      .where(and(...conditions))
+      .groupBy(damageReports.status);
+    const statusCounts = Object.fromEntries(statusRows.map((row) => [row.status, row.count]));
+    const totalCount = statusRows
+      .filter((row) => statuses.length === 0 || statuses.includes(row.status))
+      .reduce((sum, row) => sum + row.count, 0);
+
+    const sortColumns = {
+      createdAt: damageReports.createdAt,
+      priorityScore: damageReports.priorityScore,
+      severity: damageReports.severity,
       reportNumber: damageReports.reportNumber,
       damageType: damageReports.damageType,
-      severity: damageReports.severity,
       status: damageReports.status,
-      latitude: damageReports.latitude,
-      longitude: damageReports.longitude,
-      locationName: damageReports.locationName,
-      description: damageReports.description,
-      passabilityLevel: damageReports.passabilityLevel,
-      anonymousName: damageReports.anonymousName,
-      anonymousEmail: damageReports.anonymousEmail,
-      anonymousContact: damageReports.anonymousContact,
-      isVerifiedSubmitter: damageReports.isVerifiedSubmitter,
-      sourceType: damageReports.sourceType,
-      workflowData: damageReports.workflowData,
-      createdAt: damageReports.createdAt,
-      updatedAt: damageReports.updatedAt,
-      provinceId: damageReports.provinceId,
-      districtId: damageReports.districtId,
-      provinceName: provinceLocation.nameEn,
       districtName: districtLocation.nameEn,
-      locationPickedManually: damageReports.locationPickedManually,
-    })
-    .from(damageReports)
-    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
-    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
-    .orderBy(desc(damageReports.createdAt));
+      roadLocation: damageReports.locationName,
+    };
+    const sortColumn = sortColumns[query.sort];
 
-  // Parse locationName to extract district and province if not already populated
-  const reports = rawReports.map(report => {
-    let districtName = report.districtName;
-    let provinceName = report.provinceName;
-    let roadLocation = report.locationName;
-
-    // If district/province not populated but locationName exists, parse it
-    // Format is typically: "Road Name (district, province)" or "(district, province)"
-    if ((!districtName || !provinceName) && report.locationName) {
-      const match = report.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-      if (match) {
-        districtName = districtName || match[1].trim();
-        provinceName = provinceName || match[2].trim();
-        // Extract road/location name (part before the parentheses)
-        const roadMatch = report.locationName.match(/^([^(]+)/);
-        if (roadMatch) {
-          roadLocation = roadMatch[1].trim() || report.locationName;
-        }
-      }
-    }
+    const rawReports = await db
+      .select({
+        id: damageReports.id,
+        reportNumber: damageReports.reportNumber,
+        damageType: damageReports.damageType,
+        severity: damageReports.severity,
+        status: damageReports.status,
+        priorityScore: damageReports.priorityScore,
+        priorityVersion: damageReports.priorityVersion,
+        latitude: damageReports.latitude,
+        longitude: damageReports.longitude,
+        locationName: damageReports.locationName,
+        description: damageReports.description,
+        passabilityLevel: damageReports.passabilityLevel,
+        anonymousName: damageReports.anonymousName,
+        anonymousEmail: damageReports.anonymousEmail,
+        anonymousContact: damageReports.anonymousContact,
+        isVerifiedSubmitter: damageReports.isVerifiedSubmitter,
+        sourceType: damageReports.sourceType,
+        workflowData: damageReports.workflowData,
+        createdAt: damageReports.createdAt,
+        updatedAt: damageReports.updatedAt,
+        provinceId: damageReports.provinceId,
+        districtId: damageReports.districtId,
+        provinceName: provinceLocation.nameEn,
+        districtName: districtLocation.nameEn,
+        dsDivisionId: damageReports.dsDivisionId,
+        gnDivisionId: damageReports.gnDivisionId,
+        dsDivisionName: dsDivisionLocation.nameEn,
+        gnDivisionName: gnDivisionLocation.nameEn,
+        locationPickedManually: damageReports.locationPickedManually,
+        roadNumberInput: damageReports.roadNumberInput,
+        roadClass: damageReports.roadClass,
+        classificationStatus: damageReports.classificationStatus,
+        assignedOrgId: damageReports.assignedOrgId,
+        assignedOrgName: organizations.name,
+        assignedOrgCode: organizations.code,
+        assignedUserId: damageReports.assignedUserId,
+        assignedUserName: assigneeUser.name,
+      })
+      .from(damageReports)
+      .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+      .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+      .leftJoin(dsDivisionLocation, eq(damageReports.dsDivisionId, dsDivisionLocation.id))
+      .leftJoin(gnDivisionLocation, eq(damageReports.gnDivisionId, gnDivisionLocation.id))
+      .leftJoin(organizations, eq(damageReports.assignedOrgId, organizations.id))
+      .leftJoin(assigneeUser, eq(damageReports.assignedUserId, assigneeUser.id))
+      .where(where)
+      .orderBy(
+        sql`${sortColumn} IS NULL`,
+        query.order === "asc" ? asc(sortColumn) : desc(sortColumn),
+        desc(damageReports.createdAt),
+        asc(damageReports.id)
+      )
+      .limit(limit)
+      .offset((page - 1) * limit);
 
-    return {
+    // Region names come from the boundary-assigned locations, falling back to workflowData
+    const reports = rawReports.map(report => ({
       ...report,
-      districtName: districtName || null,
-      provinceName: provinceName || null,
-      roadLocation: roadLocation || null,
-    };
-  });
+      ...getReportRegion(report),
+      roadLocation: report.locationName,
+    }));
+
+    return c.json({
+      reports,
+      statusCounts,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
+    });
+  }
+);
 
-  return c.json(reports);
+const searchReportsSchema = z.object({
+  q: z.string().trim().min(1).max(200),
+  limit: z.coerce.number().int().min(1).max(50).optional().default(10),
 });
 
+// GET /api/v1/admin/search - Full-text search over report number, description, location,
+// landmark, entered road number and comments
+// Query: q, limit (max 50). Results are ranked best match first with a highlighted snippet
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.get(
+  "/search",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("query", searchReportsSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { q, limit } = c.req.valid("query");
+
+    const results = await searchReports(db, auth, q, limit);
+    return c.json({ results });
+  }
+);
+
 // GET /api/v1/admin/reports/unverified - Get all unverified citizen reports for map view
 // Requires field_officer, planner, admin or super_admin role
 adminRoutes.get("/reports/unverified", requireRole("field_officer", "planner", "admin", "super_admin"), async (c) => {
   const db = createDb(c.env.DB);
+  const auth = getAuth(c)!;
+  const provinceLocation = alias(locations, "province_location");
+  const districtLocation = alias(locations, "district_location");
 
   const reports = await db
     .select({
@@ -223,48 +554,39 @@ adminRoutes.get("/reports/unverified", requireRole("field_officer", "planner", "
       anonymousContact: damageReports.anonymousContact,
       sourceType: damageReports.sourceType,
       locationPickedManually: damageReports.locationPickedManually,
+      workflowData: damageReports.workflowData,
+      provinceName: provinceLocation.nameEn,
+      districtName: districtLocation.nameEn,
     })
     .from(damageReports)
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
     .where(eq(damageReports.status, "new"))
     .orderBy(desc(damageReports.createdAt));
 
-  // Parse locationName to extract province and district
-  const reportsWithLocation = reports.map(report => {
-    let districtName = null;
-    let provinceName = null;
-    let roadLocation = report.locationName;
-
-    if (report.locationName) {
-      const match = report.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-      if (match) {
-        districtName = match[1].trim();
-        provinceName = match[2].trim();
-        const roadMatch = report.locationName.match(/^([^(]+)/);
-        if (roadMatch && roadMatch[1].trim()) {
-          roadLocation = roadMatch[1].trim();
-        }
-      }
-    }
+  const reportsWithLocation = reports.map(report => ({
+    ...report,
+    ...getReportRegion(report),
+    roadLocation: report.locationName,
+  }));
 
-    return {
-      ...report,
-      districtName,
-      provinceName,
-      roadLocation,
-    };
-  });
+  const scopedReports = hasRegionScope(auth)
+    ? reportsWithLocation.filter((report) => isReportInScope(auth, report))
+    : reportsWithLocation;
 
-  return c.json(reportsWithLocation);
+  return c.json(scopedReports);
 });
 
 // GET /api/v1/admin/reports/:id - Get single report with media, submitter info, and audit trail
 // Requires field_officer, planner, admin or super_admin role
 adminRoutes.get("/reports/:id", requireRole("field_officer", "planner", "admin", "super_admin"), async (c) => {
   const db = createDb(c.env.DB);
+  const auth = getAuth(c);
   const { id } = c.req.param();
 
   // Create alias for the performer user
   const performerUser = alias(user, "performer_user");
+  const assigneeUser = alias(user, "assignee_user");
 
   const [result] = await db
     .select({
@@ -274,16 +596,22 @@ adminRoutes.get("/reports/:id", requireRole("field_officer", "planner", "admin",
       submitterPhone: user.phone,
       assignedOrgName: organizations.name,
       assignedOrgCode: organizations.code,
+      assignedUserName: assigneeUser.name,
     })
     .from(damageReports)
     .leftJoin(user, eq(damageReports.submitterId, user.id))
     .leftJoin(organizations, eq(damageReports.assignedOrgId, organizations.id))
+    .leftJoin(assigneeUser, eq(damageReports.assignedUserId, assigneeUser.id))
     .where(eq(damageReports.id, id));
 
   if (!result) {
     return c.json({ error: "Report not found" }, 404);
   }
 
+  if (!(await checkReportScope(db, auth!, id, c.req))) {
+    return c.json({ error: "This report is outside your assigned area" }, 403);
+  }
+
   const media = await db
     .select()
     .from(mediaAttachments)
@@ -308,6 +636,58 @@ adminRoutes.get("/reports/:id", requireRole("field_officer", "planner", "admin",
     .where(eq(stateTransitions.reportId, id))
     .orderBy(desc(stateTransitions.createdAt));
 
+  // Rebuild projects this report is linked to
+  const projectLinks = await db
+    .select({
+      id: reportProjectLinks.id,
+      projectId: reportProjectLinks.projectId,
+      linkType: reportProjectLinks.linkType,
+      notes: reportProjectLinks.notes,
+      createdAt: reportProjectLinks.createdAt,
+      projectCode: rebuildProjects.projectCode,
+      projectName: rebuildProjects.name,
+      projectStatus: rebuildProjects.status,
+    })
+    .from(reportProjectLinks)
+    .innerJoin(rebuildProjects, eq(reportProjectLinks.projectId, rebuildProjects.id))
+    .where(eq(reportProjectLinks.reportId, id))
+    .orderBy(desc(reportProjectLinks.createdAt));
+
+  // Blocked road segments drawn on the map for this report
+  const segmentRows = await db
+    .select({
+      id: roadSegments.id,
+      roadNo: roadSegments.roadNo,
+      roadName: roadSegments.roadName,
+      reason: roadSegments.reason,
+      fromKm: roadSegments.fromKm,
+      toKm: roadSegments.toKm,
+      snappedPath: roadSegments.snappedPath,
+      dataSource: roadSegments.dataSource,
+      createdAt: roadSegments.createdAt,
+      updatedAt: roadSegments.updatedAt,
+    })
+    .from(roadSegments)
+    .where(and(eq(roadSegments.reportId, id), isNull(roadSegments.deletedAt)))
+    .orderBy(roadSegments.createdAt);
+  const segments = segmentRows.map(({ snappedPath, ...segment }) => ({
+    ...segment,
+    path: JSON.parse(snappedPath || "[]"),
+  }));
+
+  // Nearby open reports flagged as possible duplicates, and everyone who reported the incident
+  const duplicateCandidates = await getDuplicateCandidates(db, id);
+  const submitters = await getReportSubmitters(db, id);
+
+  let mergedIntoNumber: string | null = null;
+  if (result.report.mergedIntoId) {
+    const [canonical] = await db
+      .select({ reportNumber: damageReports.reportNumber })
+      .from(damageReports)
+      .where(eq(damageReports.id, result.report.mergedIntoId));
+    mergedIntoNumber = canonical?.reportNumber || null;
+  }
+
   return c.json({
     ...result.report,
     submitterName: result.submitterName,
@@ -315,14 +695,22 @@ adminRoutes.get("/reports/:id", requireRole("field_officer", "planner", "admin",
     submitterPhone: result.submitterPhone,
     assignedOrgName: result.assignedOrgName,
     assignedOrgCode: result.assignedOrgCode,
+    assignedUserName: result.assignedUserName,
     media,
     auditTrail,
+    projectLinks,
+    segments,
+    duplicateCandidates,
+    submitters,
+    mergedIntoNumber,
   });
 });
 
 // Update report status schema
 const updateStatusSchema = z.object({
-  status: z.enum(["new", "verified", "in_progress", "resolved", "rejected"]),
+  status: z.enum(["new", "verified", "in_progress", "linked_to_project", "resolved", "rejected"]),
+  // Why the status changed (e.g. the rejection reason), stored in the audit trail and emailed to submitters
+  reason: z.string().trim().max(1000).optional(),
 });
 
 // Workflow data schema (flexible JSON for progress, cost, location, etc.)
@@ -337,7 +725,7 @@ const workflowDataSchema = z.object({
 
 // Update report schema (all editable fields)
 const updateReportSchema = z.object({
-  status: z.enum(["new", "verified", "in_progress", "resolved", "rejected"]).optional(),
+  status: z.enum(["new", "verified", "in_progress", "linked_to_project", "resolved", "rejected"]).optional(),
   damageType: z.enum([
     "tree_fall",
     "bridge_collapse",
@@ -361,15 +749,19 @@ const updateReportSchema = z.object({
   locationName: z.string().nullable().optional(),
   roadNumberInput: z.string().nullable().optional(),
   roadClass: z.string().nullable().optional(),
+  chainageKm: z.number().min(0).max(1000).nullable().optional(),
   // Incident detail fields
   isSingleLane: z.boolean().nullable().optional(),
   needsSafetyBarriers: z.boolean().nullable().optional(),
   blockedDistanceMeters: z.number().nullable().optional(),
   // Organization assignment
   assignedOrgId: z.string().nullable().optional(),
+  // Why the status changed (e.g. the rejection reason), stored with the status audit entry
+  statusReason: z.string().trim().max(1000).optional(),
 });
 
 // PATCH /api/v1/admin/reports/:id/status - Update report status
+// Submitters are emailed when their report is verified, rejected, started or resolved
 // Requires field_officer, planner, admin or super_admin role
 adminRoutes.patch(
   "/reports/:id/status",
@@ -379,7 +771,7 @@ adminRoutes.patch(
     const db = createDb(c.env.DB);
     const auth = getAuth(c);
     const { id } = c.req.param();
-    const { status: newStatus } = c.req.valid("json");
+    const { status: newStatus, reason } = c.req.valid("json");
 
     const [report] = await db
       .select()
@@ -390,6 +782,10 @@ adminRoutes.patch(
       return c.json({ error: "Report not found" }, 404);
     }
 
+    if (!(await checkReportScope(db, auth!, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
     // Validate status transition based on user role
     const userRole = auth?.role || "citizen";
     if (!isValidTransition(userRole, report.status, newStatus)) {
@@ -403,16 +799,50 @@ adminRoutes.patch(
       );
     }
 
+    // linked_to_project is only valid while the report is attached to a project
+    if (newStatus === "linked_to_project" && !(await hasProjectDrivenLink(db, id))) {
+      return c.json({ error: "Link the report to a project before moving it to linked_to_project" }, 400);
+    }
+
+    const now = new Date();
     await db
       .update(damageReports)
-      .set({ status: newStatus, updatedAt: new Date() })
+      .set({ status: newStatus, updatedAt: now })
       .where(eq(damageReports.id, id));
 
+    if (newStatus !== report.status) {
+      await db.insert(stateTransitions).values({
+        id: crypto.randomUUID(),
+        reportId: id,
+        fieldName: "status",
+        oldValue: report.status,
+        newValue: newStatus,
+        fromStatus: report.status,
+        toStatus: newStatus,
+        userId: auth?.userId || null,
+        userRole: auth?.role || null,
+        reason: reason || null,
+        createdAt: now,
+      });
+
+      const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+      await notifyStatusChange(c.env, db, {
+        report,
+        status: newStatus,
+        reason,
+        changedBy: auth?.userId || null,
+        baseUrl,
+      });
+      await notifyReportWatchers(c.env, db, { reportId: id, status: newStatus, baseUrl });
+      await dispatchReportStatusWebhook(db, c.executionCtx, { reportId: id, status: newStatus, reason });
+    }
+
     return c.json({ success: true, status: newStatus });
   }
 );
 
 // PATCH /api/v1/admin/reports/:id - Update report (all fields) with audit trail
+// Status changes email the submitters, as for PATCH /reports/:id/status
 // Requires field_officer, planner, admin or super_admin role
 adminRoutes.patch(
   "/reports/:id",
@@ -439,6 +869,10 @@ adminRoutes.patch(
       return c.json({ error: "Report not found" }, 404);
     }
 
+    if (!(await checkReportScope(db, auth!, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
     // Validate status transition if status is being updated
     if (updates.status !== undefined && updates.status !== report.status) {
       const userRole = auth?.role || "citizen";
@@ -452,6 +886,10 @@ adminRoutes.patch(
           400
         );
       }
+
+      if (updates.status === "linked_to_project" && !(await hasProjectDrivenLink(db, id))) {
+        return c.json({ error: "Link the report to a project before moving it to linked_to_project" }, 400);
+      }
     }
 
     // Track changes for audit trail
@@ -461,6 +899,7 @@ adminRoutes.patch(
       newValue: string | null;
       fromStatus?: string | null;
       toStatus?: string | null;
+      reason?: string | null;
     }> = [];
 
     // Build update object with only provided fields and track changes
@@ -474,6 +913,7 @@ adminRoutes.patch(
         newValue: updates.status,
         fromStatus: report.status,
         toStatus: updates.status,
+        reason: updates.statusReason || null,
       });
 
       // Set resolution tracking timestamps based on status change
@@ -521,31 +961,12 @@ adminRoutes.patch(
       });
     }
 
-    // Handle locationName with auto-formatting
-    // Auto-format location name to include (district, province) if available in workflowData
-    let formattedLocationName = updates.locationName;
-
-    if (formattedLocationName !== undefined && formattedLocationName !== null) {
-      // Get province/district from updates.workflowData or existing report.workflowData
-      const existingWorkflow = report.workflowData ? JSON.parse(report.workflowData as string) : {};
-      const newWorkflow = updates.workflowData || {};
-      const province = newWorkflow.province || existingWorkflow.province;
-      const district = newWorkflow.district || existingWorkflow.district;
-
-      // Auto-format if province and district exist and location name doesn't have parentheses
-      if (province && district && formattedLocationName) {
-        if (!formattedLocationName.includes('(') || !formattedLocationName.includes(')')) {
-          formattedLocationName = `${formattedLocationName} (${district}, ${province})`;
-        }
-      }
-    }
-
-    if (formattedLocationName !== undefined && formattedLocationName !== report.locationName) {
-      updateData.locationName = formattedLocationName;
+    if (updates.locationName !== undefined && updates.locationName !== report.locationName) {
+      updateData.locationName = updates.locationName;
       auditEntries.push({
         fieldName: "locationName",
         oldValue: report.locationName,
-        newValue: formattedLocationName,
+        newValue: updates.locationName,
       });
     }
 
@@ -567,6 +988,15 @@ adminRoutes.patch(
       });
     }
 
+    if (updates.chainageKm !== undefined && updates.chainageKm !== report.chainageKm) {
+      updateData.chainageKm = updates.chainageKm;
+      auditEntries.push({
+        fieldName: "chainageKm",
+        oldValue: report.chainageKm !== null ? String(report.chainageKm) : null,
+        newValue: updates.chainageKm !== null ? String(updates.chainageKm) : null,
+      });
+    }
+
     // Handle incident detail fields
     if (updates.isSingleLane !== undefined && updates.isSingleLane !== report.isSingleLane) {
       updateData.isSingleLane = updates.isSingleLane;
@@ -598,6 +1028,8 @@ adminRoutes.patch(
     // Handle organization assignment
     if (updates.assignedOrgId !== undefined && updates.assignedOrgId !== report.assignedOrgId) {
       updateData.assignedOrgId = updates.assignedOrgId;
+      // The previous assignee belongs to the old org's queue
+      updateData.assignedUserId = null;
       auditEntries.push({
         fieldName: "assignedOrgId",
         oldValue: report.assignedOrgId,
@@ -624,12 +1056,26 @@ adminRoutes.patch(
       }
     }
 
+    // Scoped users can't move a report out of their area. Reports placed by the boundary
+    // polygons keep their region; only a workflowData-derived region can be edited away.
+    if (
+      updateData.workflowData !== undefined &&
+      !report.provinceId &&
+      !report.districtId &&
+      !isReportInScope(auth!, getReportRegion({ workflowData: updateData.workflowData as string }))
+    ) {
+      return c.json({ error: "Reports can't be moved outside your assigned area" }, 403);
+    }
+
     // Only update if there are changes
     if (Object.keys(updateData).length > 1) { // more than just updatedAt
       await db
         .update(damageReports)
         .set(updateData)
         .where(eq(damageReports.id, id));
+
+      // Severity, passability, road class and blocked distance all feed the priority score
+      await updateReportPriority(db, id);
     }
 
     // Record audit entries
@@ -650,11 +1096,39 @@ adminRoutes.patch(
           toStatus: entry.toStatus ?? currentStatus,
           userId: auth?.userId || null,
           userRole: auth?.role || null,
+          reason: entry.reason ?? null,
           createdAt: now,
         }))
       );
     }
 
+    if (updateData.status) {
+      const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+      await notifyStatusChange(c.env, db, {
+        report,
+        status: updateData.status as string,
+        reason: updates.statusReason,
+        changedBy: auth?.userId || null,
+        baseUrl,
+      });
+      await notifyReportWatchers(c.env, db, { reportId: id, status: updateData.status as string, baseUrl });
+      await dispatchReportStatusWebhook(db, c.executionCtx, {
+        reportId: id,
+        status: updateData.status as string,
+        reason: updates.statusReason,
+      });
+    }
+
+    if (updateData.assignedOrgId) {
+      await notifyOrgReassignment(c.env, db, {
+        report,
+        toOrgId: updateData.assignedOrgId as string,
+        fromOrgId: report.assignedOrgId,
+        assignedByName: auth?.name || "An administrator",
+        baseUrl: c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173",
+      });
+    }
+
     // Fetch updated report
     const [updated] = await db
       .select()
@@ -672,101 +1146,112 @@ adminRoutes.patch(
   }
 );
 
-// ============ CLASSIFICATION MANAGEMENT ============
+// ============ ORGANIZATION WORK QUEUES ============
 
-// GET /api/v1/admin/reports/pending-classification - Get reports needing manual classification
+// GET /api/v1/admin/work-queue - The user's organizations and which of them they manage
+// Requires field_officer, planner, admin or super_admin role
 adminRoutes.get(
-  "/reports/pending-classification",
+  "/work-queue",
   requireRole("field_officer", "planner", "admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
 
-    const reports = await db
+    const memberships = await db
       .select({
-        id: damageReports.id,
-        reportNumber: damageReports.reportNumber,
-        latitude: damageReports.latitude,
-        longitude: damageReports.longitude,
-        locationName: damageReports.locationName,
-        damageType: damageReports.damageType,
-        status: damageReports.status,
-        roadNumberInput: damageReports.roadNumberInput,
-        roadClass: damageReports.roadClass,
-        classificationStatus: damageReports.classificationStatus,
-        createdAt: damageReports.createdAt,
+        id: organizations.id,
+        code: organizations.code,
+        name: organizations.name,
+        orgRole: userOrganizations.role,
+        isPrimary: userOrganizations.isPrimary,
       })
-      .from(damageReports)
-      .where(
-        or(
-          eq(damageReports.classificationStatus, "pending"),
-          isNull(damageReports.classificationStatus)
-        )
-      )
-      .orderBy(desc(damageReports.createdAt));
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(eq(userOrganizations.userId, auth.userId))
+      .orderBy(desc(userOrganizations.isPrimary), organizations.code);
 
-    return c.json(reports);
+    const isAdmin = auth.role === "admin" || auth.role === "super_admin";
+
+    return c.json({
+      organizations: memberships,
+      // Admins can view every organization's workload
+      canViewWorkloads: isAdmin || memberships.some((m) => ORG_MANAGER_ROLES.includes(m.orgRole)),
+    });
   }
 );
 
-// GET /api/v1/admin/organizations - Get all organizations
+// GET /api/v1/admin/work-queue/workload - Open reports per member for organizations the user manages
+// Admins and super admins see every organization with members
+// Requires field_officer, planner, admin or super_admin role
 adminRoutes.get(
-  "/organizations",
+  "/work-queue/workload",
   requireRole("field_officer", "planner", "admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+
+    let orgIds: string[];
+    if (auth.role === "admin" || auth.role === "super_admin") {
+      const orgsWithMembers = await db
+        .selectDistinct({ organizationId: userOrganizations.organizationId })
+        .from(userOrganizations);
+      orgIds = orgsWithMembers.map((row) => row.organizationId);
+    } else {
+      const memberships = await getUserMemberships(db, auth.userId);
+      orgIds = memberships
+        .filter((m) => ORG_MANAGER_ROLES.includes(m.orgRole))
+        .map((m) => m.organizationId);
+      if (orgIds.length === 0) {
+        return c.json({ error: "Only organization managers can view workloads" }, 403);
+      }
+    }
 
-    const orgs = await db
+    return c.json({ workloads: await getOrgWorkloads(db, orgIds) });
+  }
+);
+
+// GET /api/v1/admin/organizations/:id/members - Active members of an organization (assignee picker)
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.get(
+  "/organizations/:id/members",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    const members = await db
       .select({
-        id: organizations.id,
-        name: organizations.name,
-        code: organizations.code,
-        type: organizations.type,
-        province: organizations.province,
-        roadClasses: organizations.roadClasses,
+        userId: user.id,
+        name: user.name,
+        email: user.email,
+        orgRole: userOrganizations.role,
       })
-      .from(organizations)
-      .where(eq(organizations.isActive, true))
-      .orderBy(organizations.type, organizations.code);
-
-    // Sort: national orgs first (RDA, UDA), then provincial alphabetically
-    const sorted = orgs.sort((a, b) => {
-      if (a.type === "national" && b.type !== "national") return -1;
-      if (a.type !== "national" && b.type === "national") return 1;
-      if (a.type === "national" && b.type === "national") {
-        // RDA first, then UDA
-        if (a.code === "RDA") return -1;
-        if (b.code === "RDA") return 1;
-        if (a.code === "UDA") return -1;
-        if (b.code === "UDA") return 1;
-      }
-      return a.code.localeCompare(b.code);
-    });
+      .from(userOrganizations)
+      .innerJoin(user, eq(userOrganizations.userId, user.id))
+      .where(and(eq(userOrganizations.organizationId, id), eq(user.isActive, true)))
+      .orderBy(user.name);
 
-    return c.json(sorted);
+    return c.json({ members });
   }
 );
 
-// Classification schema
-const classifyReportSchema = z.object({
-  roadId: z.string().optional(),
-  roadClass: z.enum(["A", "B", "C", "D", "E"]).optional(),
-  assignedOrgId: z.string(),
-  reason: z.string().max(500).optional(),
+const updateAssigneeSchema = z.object({
+  assignedUserId: z.string().nullable(),
 });
 
-// PATCH /api/v1/admin/reports/:id/classify - Manually classify a report
+// PATCH /api/v1/admin/reports/:id/assignee - Assign a report to a member of its organization
+// Members can pick up or release reports themselves; org managers and admins can assign anyone
+// Requires field_officer, planner, admin or super_admin role
 adminRoutes.patch(
-  "/reports/:id/classify",
+  "/reports/:id/assignee",
   requireRole("field_officer", "planner", "admin", "super_admin"),
-  zValidator("json", classifyReportSchema),
+  zValidator("json", updateAssigneeSchema),
   async (c) => {
     const db = createDb(c.env.DB);
-    const auth = getAuth(c);
+    const auth = getAuth(c)!;
     const { id } = c.req.param();
-    const { roadId, roadClass, assignedOrgId, reason } = c.req.valid("json");
-    const now = new Date();
+    const { assignedUserId } = c.req.valid("json");
 
-    // Get current report
     const [report] = await db
       .select()
       .from(damageReports)
@@ -776,1164 +1261,2646 @@ adminRoutes.patch(
       return c.json({ error: "Report not found" }, 404);
     }
 
-    // Record classification history
-    await db.insert(classificationHistory).values({
-      id: crypto.randomUUID(),
-      reportId: id,
-      previousRoadClass: report.roadClass || null,
-      newRoadClass: roadClass || null,
-      previousOrgId: report.assignedOrgId || null,
-      newOrgId: assignedOrgId,
-      changedBy: auth?.userId || "system",
-      reason: reason || null,
-      createdAt: now,
-    });
+    if (!(await checkReportScope(db, auth, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
 
-    // Update the report
-    const nowTs = Math.floor(now.getTime() / 1000);
-    await c.env.DB.prepare(`
-      UPDATE damage_reports
-      SET road_id = ?,
-          road_class = ?,
-          assigned_org_id = ?,
-          classification_status = 'manual_classified',
-          classified_by = ?,
-          classified_at = ?,
-          updated_at = ?
-      WHERE id = ?
-    `).bind(
-      roadId || null,
-      roadClass || null,
-      assignedOrgId,
-      auth?.userId || null,
-      nowTs,
-      nowTs,
-      id
-    ).run();
+    if (!report.assignedOrgId) {
+      return c.json({ error: "Assign the report to an organization first" }, 400);
+    }
 
-    return c.json({
-      success: true,
-      classificationStatus: "manual_classified",
-      assignedOrgId,
-      roadClass: roadClass || null,
-    });
+    if (assignedUserId === report.assignedUserId) {
+      return c.json({ success: true, assignedUserId });
+    }
+
+    const memberships = await db
+      .select({ userId: userOrganizations.userId, orgRole: userOrganizations.role, name: user.name })
+      .from(userOrganizations)
+      .innerJoin(user, eq(userOrganizations.userId, user.id))
+      .where(eq(userOrganizations.organizationId, report.assignedOrgId));
+
+    const callerMembership = memberships.find((m) => m.userId === auth.userId);
+    const canAssignOthers =
+      auth.role === "admin" ||
+      auth.role === "super_admin" ||
+      Boolean(callerMembership && ORG_MANAGER_ROLES.includes(callerMembership.orgRole));
+    // Members may only take an unassigned report or release their own
+    const isSelfService =
+      Boolean(callerMembership) &&
+      (assignedUserId === auth.userId ? !report.assignedUserId : report.assignedUserId === auth.userId);
+
+    if (!canAssignOthers && !isSelfService) {
+      return c.json({ error: "Only organization managers can assign reports to other members" }, 403);
+    }
+
+    const assignee = assignedUserId ? memberships.find((m) => m.userId === assignedUserId) : null;
+    if (assignedUserId && !assignee) {
+      return c.json({ error: "Assignee must be a member of the report's organization" }, 400);
+    }
+
+    await db
+      .update(damageReports)
+      .set({ assignedUserId, updatedAt: new Date() })
+      .where(eq(damageReports.id, id));
+
+    const previous = memberships.find((m) => m.userId === report.assignedUserId);
+    await recordAuditEntries(db, [
+      {
+        targetType: "report",
+        targetId: id,
+        fieldName: "assignee",
+        oldValue: report.assignedUserId ? previous?.name || "Former member" : null,
+        newValue: assignee?.name || null,
+        fromStatus: report.status,
+        toStatus: report.status,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: {
+          organizationId: report.assignedOrgId,
+          previousUserId: report.assignedUserId,
+          assignedUserId,
+        },
+      },
+    ]);
+
+    return c.json({ success: true, assignedUserId, assignedUserName: assignee?.name || null });
   }
 );
 
-// PATCH /api/v1/admin/reports/:id/unclassifiable - Mark report as unclassifiable
-adminRoutes.patch(
-  "/reports/:id/unclassifiable",
+// ============ DUPLICATE REPORTS ============
+
+const mergeReportSchema = z.object({
+  canonicalId: z.string(),
+});
+
+// POST /api/v1/admin/reports/:id/merge - Merge a duplicate report into a canonical report
+// Moves media and submitters to the canonical report and marks this one as merged
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.post(
+  "/reports/:id/merge",
   requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("json", mergeReportSchema),
   async (c) => {
     const db = createDb(c.env.DB);
-    const auth = getAuth(c);
+    const auth = getAuth(c)!;
     const { id } = c.req.param();
-    const now = new Date();
+    const { canonicalId } = c.req.valid("json");
 
-    const [report] = await db
+    if (canonicalId === id) {
+      return c.json({ error: "A report cannot be merged into itself" }, 400);
+    }
+
+    const reports = await db
       .select()
       .from(damageReports)
-      .where(eq(damageReports.id, id));
+      .where(inArray(damageReports.id, [id, canonicalId]));
+    const duplicate = reports.find((r) => r.id === id);
+    const canonical = reports.find((r) => r.id === canonicalId);
 
-    if (!report) {
+    if (!duplicate || !canonical) {
       return c.json({ error: "Report not found" }, 404);
     }
 
-    const nowTs = Math.floor(now.getTime() / 1000);
-    await c.env.DB.prepare(`
-      UPDATE damage_reports
-      SET classification_status = 'unclassifiable',
-          classified_by = ?,
-          classified_at = ?,
-          updated_at = ?
-      WHERE id = ?
-    `).bind(
-      auth?.userId || null,
-      nowTs,
-      nowTs,
-      id
-    ).run();
+    if (
+      !(await checkReportScope(db, auth, id, c.req)) ||
+      !(await checkReportScope(db, auth, canonicalId, c.req))
+    ) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
+    if (!OPEN_REPORT_STATUSES.includes(duplicate.status) || !OPEN_REPORT_STATUSES.includes(canonical.status)) {
+      return c.json({ error: "Only open reports can be merged" }, 400);
+    }
+
+    const mediaMoved = await mergeReports(db, duplicate, canonical, { userId: auth.userId, role: auth.role });
 
     return c.json({
       success: true,
-      classificationStatus: "unclassifiable",
+      status: "merged",
+      mergedIntoId: canonical.id,
+      mergedIntoNumber: canonical.reportNumber,
+      mediaMoved,
     });
   }
 );
 
-// ============ USER MANAGEMENT (Super Admin Only) ============
+// POST /api/v1/admin/reports/:id/duplicates/:candidateId/dismiss - Mark a duplicate candidate as not a duplicate
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.post(
+  "/reports/:id/duplicates/:candidateId/dismiss",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { id, candidateId } = c.req.param();
 
-// Validation schemas
-// "engineer" is an alias for "field_officer"
-const ROLE_VALUES = ["citizen", "field_officer", "engineer", "planner", "admin", "super_admin", "stakeholder"] as const;
+    const [candidate] = await db
+      .select()
+      .from(reportDuplicates)
+      .where(
+        and(
+          eq(reportDuplicates.id, candidateId),
+          or(eq(reportDuplicates.reportId, id), eq(reportDuplicates.matchedReportId, id))
+        )
+      );
 
-const inviteUserSchema = z.object({
-  email: z.string().email(),
-  role: z.enum(ROLE_VALUES),
-  designation: z.string().max(100).optional(),
-  note: z.string().max(500).optional(),
-});
+    if (!candidate) {
+      return c.json({ error: "Duplicate candidate not found" }, 404);
+    }
 
-const updateUserSchema = z.object({
-  name: z.string().min(1).max(100).nullable().optional(),
-  role: z.enum(["citizen", "field_officer", "engineer", "planner", "admin", "super_admin", "stakeholder"]).optional(),
-  isActive: z.boolean().optional(),
-  designation: z.string().max(100).nullable().optional(),
-  phone: z.string().max(20).nullable().optional(),
-});
+    if (!(await checkReportScope(db, auth, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
 
-// GET /api/v1/admin/users - List all users with their invitation status and organizations
-adminRoutes.get("/users", requireRole("super_admin", "admin"), async (c) => {
-  const db = createDb(c.env.DB);
+    if (candidate.status !== "pending") {
+      return c.json({ error: `Duplicate candidate is already ${candidate.status}` }, 400);
+    }
 
-  // Get all users with their primary organization
-  const usersData = await db
-    .select({
-      id: user.id,
-      name: user.name,
-      email: user.email,
-      role: user.role,
-      designation: user.designation,
-      isActive: user.isActive,
-      emailVerified: user.emailVerified,
-      createdAt: user.createdAt,
-      lastLogin: user.lastLogin,
-      phone: user.phone,
-    })
-    .from(user)
-    .orderBy(desc(user.createdAt));
+    await db
+      .update(reportDuplicates)
+      .set({ status: "dismissed", resolvedBy: auth.userId, resolvedAt: new Date() })
+      .where(eq(reportDuplicates.id, candidateId));
 
-  // Get all user-organization assignments with org details
-  const allMemberships = await db
-    .select({
-      userId: userOrganizations.userId,
-      orgId: userOrganizations.organizationId,
-      orgCode: organizations.code,
-      orgName: organizations.name,
-      orgRole: userOrganizations.role,
-      isPrimary: userOrganizations.isPrimary,
-    })
-    .from(userOrganizations)
-    .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id));
+    const otherId = candidate.reportId === id ? candidate.matchedReportId : candidate.reportId;
+    const [other] = await db
+      .select({ reportNumber: damageReports.reportNumber })
+      .from(damageReports)
+      .where(eq(damageReports.id, otherId));
 
-  // Group memberships by user
-  const membershipsByUser = new Map<string, typeof allMemberships>();
-  for (const m of allMemberships) {
-    if (!membershipsByUser.has(m.userId)) {
-      membershipsByUser.set(m.userId, []);
-    }
-    membershipsByUser.get(m.userId)!.push(m);
+    await recordAuditEntries(db, [
+      {
+        targetType: "report",
+        targetId: id,
+        fieldName: "duplicateDismissed",
+        oldValue: null,
+        newValue: other?.reportNumber || otherId,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { candidateId, otherReportId: otherId, distanceMeters: candidate.distanceMeters },
+      },
+    ]);
+
+    return c.json({ success: true });
   }
+);
 
-  // Attach organizations to users
-  const users = usersData.map((u) => ({
-    ...u,
-    organizations: membershipsByUser.get(u.id) || [],
-  }));
+const segmentPathSchema = z
+  .array(z.object({ lat: z.number().min(-90).max(90), lng: z.number().min(-180).max(180) }))
+  .min(2)
+  .max(2000);
+
+// A segment is drawn as a path on the map, or given as road number and km range
+const createReportSegmentSchema = z
+  .object({
+    path: segmentPathSchema.optional(),
+    roadNumber: z.string().min(1).max(20).optional(),
+    fromKm: z.number().min(0).optional(),
+    toKm: z.number().min(0).optional(),
+    roadName: z.string().max(200).optional(),
+    reason: z.string().max(500).optional(),
+  })
+  .refine((body) => body.path || (body.roadNumber && body.fromKm !== undefined && body.toKm !== undefined), {
+    message: "Provide a path, or roadNumber with fromKm and toKm",
+  });
 
-  // Get pending invitations (including expired ones for visibility)
-  // Include the token so we can build the invite URL for copy
-  const allPendingInvitations = await db
-    .select({
-      id: userInvitations.id,
-      email: userInvitations.email,
-      role: userInvitations.role,
-      status: userInvitations.status,
-      expiresAt: userInvitations.expiresAt,
-      createdAt: userInvitations.createdAt,
-      resendCount: userInvitations.resendCount,
-      lastResentAt: userInvitations.lastResentAt,
-      token: userInvitations.token, // Include token for building invite URL
-    })
-    .from(userInvitations)
-    .where(eq(userInvitations.status, "pending"))
-    .orderBy(desc(userInvitations.createdAt));
+const updateReportSegmentSchema = z.object({
+  path: segmentPathSchema.optional(),
+  roadNumber: z.string().min(1).max(20).optional(),
+  fromKm: z.number().min(0).nullable().optional(),
+  toKm: z.number().min(0).nullable().optional(),
+  roadName: z.string().max(200).nullable().optional(),
+  reason: z.string().max(500).nullable().optional(),
+});
 
-  // Get magic tokens from verification table for each invitation's email
-  // The magicToken is stored as the identifier, and the email is in the value JSON
-  // Note: expires_at is stored as Unix timestamp (seconds), so compare with unixepoch('now')
-  const verificationTokens = await db
-    .select({
-      identifier: verification.identifier,
-      value: verification.value,
-      expiresAt: verification.expiresAt,
-    })
-    .from(verification)
-    .where(sql`${verification.expiresAt} > unixepoch('now')`);
+function segmentLabel(segment: { roadNo: string | null; fromKm: number | null; toKm: number | null }) {
+  if (!segment.roadNo) return "Segment";
+  if (segment.fromKm === null || segment.toKm === null) return segment.roadNo;
+  return `${segment.roadNo} km ${segment.fromKm}-${segment.toKm}`;
+}
 
-  // Build a map of email -> magicToken
-  const emailToMagicToken = new Map<string, string>();
-  for (const v of verificationTokens) {
-    try {
-      const parsed = JSON.parse(v.value) as { email?: string };
-      if (parsed.email) {
-        emailToMagicToken.set(parsed.email, v.identifier);
-      }
-    } catch {
-      // Skip invalid JSON
-    }
-  }
-
-  // Mark expired invitations and calculate resend availability
-  const now = new Date();
-  const RESEND_COOLOFF_MS_CHECK = 60 * 60 * 1000; // 1 hour
-  const pendingInvitations = allPendingInvitations.map(inv => {
-    const isExpired = inv.expiresAt ? new Date(inv.expiresAt) < now : false;
-    const resendCount = inv.resendCount ?? 0;
-    const canResend = resendCount < 3 && (!inv.lastResentAt || (now.getTime() - inv.lastResentAt.getTime() >= RESEND_COOLOFF_MS_CHECK));
-    const cooloffRemaining = inv.lastResentAt
-      ? Math.max(0, Math.ceil((RESEND_COOLOFF_MS_CHECK - (now.getTime() - inv.lastResentAt.getTime())) / 60000))
-      : 0;
-
-    // Get the magicToken for this invitation's email
-    const magicToken = emailToMagicToken.get(inv.email);
-
-    return {
-      ...inv,
-      isExpired,
-      resendCount,
-      canResend: !isExpired && canResend,
-      resendsRemaining: Math.max(0, 3 - resendCount),
-      cooloffMinutes: cooloffRemaining,
-      // Include invite URL if we have both tokens
-      inviteUrl: magicToken ? `/accept-invite?token=${inv.token}&magicToken=${magicToken}` : null,
-    };
-  });
-
-  // Get all organizations for filter dropdown
-  const orgs = await db
-    .select({
-      id: organizations.id,
-      code: organizations.code,
-      name: organizations.name,
-      type: organizations.type,
-    })
-    .from(organizations)
-    .where(eq(organizations.isActive, true))
-    .orderBy(organizations.type, organizations.code);
-
-  return c.json({ users, pendingInvitations, organizations: orgs });
-});
-
-// POST /api/v1/admin/users/invite - Send invitation to new user with audit trail
+// POST /api/v1/admin/reports/:id/segments - Add a blocked segment to a report
+// Requires field_officer, planner, admin or super_admin role
 adminRoutes.post(
-  "/users/invite",
-  requireRole("super_admin"),
-  zValidator("json", inviteUserSchema),
+  "/reports/:id/segments",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("json", createReportSegmentSchema),
   async (c) => {
     const db = createDb(c.env.DB);
-    const auth = getAuth(c);
-    const { email: rawEmail, role: rawRole, designation, note } = c.req.valid("json");
-
-    // Normalize email to lowercase for deduplication
-    const email = rawEmail.toLowerCase().trim();
-
-    // Normalize "engineer" to "field_officer" (engineer is an alias)
-    const role = rawRole === "engineer" ? "field_officer" : rawRole;
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
+    const body = c.req.valid("json");
 
-    // Check if user already exists (case-insensitive via lowercase comparison)
-    const [existingUser] = await db
-      .select()
-      .from(user)
-      .where(sql`LOWER(${user.email}) = ${email}`);
+    const [report] = await db
+      .select({ id: damageReports.id, reportNumber: damageReports.reportNumber, districtId: damageReports.districtId })
+      .from(damageReports)
+      .where(eq(damageReports.id, id));
 
-    if (existingUser) {
-      return c.json({ error: "User with this email already exists" }, 400);
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
     }
 
-    // Check if there's already a pending invitation (case-insensitive)
-    const [existingInvite] = await db
-      .select()
-      .from(userInvitations)
-      .where(sql`LOWER(${userInvitations.email}) = ${email}`);
+    if (!(await checkReportScope(db, auth, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
 
-    if (existingInvite && existingInvite.status === "pending") {
-      return c.json({ error: "Pending invitation already exists for this email" }, 400);
+    const geometry = await resolveSegmentGeometry(db, body);
+    if (!geometry) {
+      return c.json({ error: "Chainage is outside the road's stored geometry" }, 400);
     }
 
-    // Generate invitation token and ID
-    const inviteId = crypto.randomUUID();
-    const token = crypto.randomUUID();
-    // Magic link token for auto-login - must match better-auth format:
-    // 32 character random string using a-z and A-Z
-    const magicToken = generateRandomString(32);
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    const segmentId = crypto.randomUUID();
     const now = new Date();
-
-    // Create invitation record
-    await db.insert(userInvitations).values({
-      id: inviteId,
-      email,
-      role,
-      designation: designation || null,
-      note: note || null,
-      invitedBy: auth?.userId || null,
-      token,
-      status: "pending",
-      expiresAt,
-    });
-
-    // Create magic link verification token in the EXACT format better-auth expects:
-    // - identifier: the token itself (not email)
-    // - value: JSON string with {email, name}
-    // This matches how better-auth's signInMagicLink endpoint stores tokens
-    await db.insert(verification).values({
-      id: crypto.randomUUID(),
-      identifier: magicToken, // Token is stored as identifier
-      value: JSON.stringify({ email, name: "" }), // Email stored in value as JSON
-      expiresAt,
+    const start = geometry.path[0];
+    const end = geometry.path[geometry.path.length - 1];
+    const segment = {
+      id: segmentId,
+      reportId: id,
+      startLat: start.lat,
+      startLng: start.lng,
+      endLat: end.lat,
+      endLng: end.lng,
+      snappedPath: JSON.stringify(geometry.path),
+      roadName: body.roadName || null,
+      roadNo: geometry.roadNumber,
+      fromKm: geometry.fromKm,
+      toKm: geometry.toKm,
+      reason: body.reason || null,
+      dataSource: "admin",
       createdAt: now,
       updatedAt: now,
-    });
-
-    // Get inviter name for email
-    const inviterName = auth?.name || "An administrator";
+    };
 
-    // Build invitation URL with both tokens
-    const baseUrl = c.req.header("origin") || "https://road-lk.org";
-    const inviteUrl = `${baseUrl}/accept-invite?token=${token}&magicToken=${magicToken}`;
+    await db.insert(roadSegments).values(segment);
 
-    // Send invitation email
-    try {
-      await sendEmail(
-        c.env,
-        email,
-        "You're Invited to Sri Lanka Road Status",
-        getInvitationEmailHtml({
-          inviterName,
-          role,
-          inviteUrl,
-          expiresAt,
-          note: note || undefined,
-        })
-      );
-    } catch (error) {
-      // If email fails, delete the invitation
-      await db.delete(userInvitations).where(eq(userInvitations.id, inviteId));
-      console.error("Failed to send invitation email:", error);
-      return c.json({ error: "Failed to send invitation email" }, 500);
-    }
+    await recordAuditEntries(db, [
+      {
+        targetType: "road_segment",
+        targetId: segmentId,
+        fieldName: "created",
+        oldValue: null,
+        newValue: segmentLabel(segment),
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "created", reportId: id, reportNumber: report.reportNumber },
+      },
+    ]);
 
-    // Record audit entry for invitation created
-    await recordAuditEntries(db, [{
-      targetType: "invitation",
-      targetId: inviteId,
-      fieldName: "status",
-      oldValue: null,
-      newValue: "pending",
-      performedBy: auth?.userId || null,
-      performerRole: auth?.role || null,
-      metadata: { email, role, expiresAt: expiresAt.toISOString() },
-    }]);
+    await notifyWatchers(
+      c.env,
+      db,
+      [getClosureWatchEvent(report, { ...segment, path: geometry.path })],
+      c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173"
+    );
+    await dispatchWebhookEvent(
+      db,
+      c.executionCtx,
+      "segment.created",
+      toSegmentWebhookData(report, { ...segment, path: geometry.path })
+    );
 
-    return c.json({
-      success: true,
-      invitation: {
-        id: inviteId,
-        email,
-        role,
-        expiresAt,
-      },
-    });
+    return c.json({ id: segmentId, ...geometry, reason: segment.reason, roadName: segment.roadName });
   }
 );
 
-// PATCH /api/v1/admin/users/:id - Update user role, status, designation, etc. with audit trail
+// PATCH /api/v1/admin/reports/:id/segments/:segmentId - Edit a segment's path, km range, road or reason
+// A new path is kept as drawn; a new km range without a path re-locates the path on the road
+// Requires field_officer, planner, admin or super_admin role
 adminRoutes.patch(
-  "/users/:id",
-  requireRole("super_admin", "admin"),
-  zValidator("json", updateUserSchema, (result, c) => {
-    if (!result.success) {
-      const firstError = result.error.errors[0];
-      return c.json({ error: firstError?.message || "Invalid request data" }, 400);
-    }
-  }),
+  "/reports/:id/segments/:segmentId",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("json", updateReportSegmentSchema),
   async (c) => {
     const db = createDb(c.env.DB);
-    const auth = getAuth(c);
-    const { id } = c.req.param();
-    const rawUpdates = c.req.valid("json");
+    const auth = getAuth(c)!;
+    const { id, segmentId } = c.req.param();
+    const body = c.req.valid("json");
 
-    // Normalize "engineer" to "field_officer" (engineer is an alias)
-    const updates = {
-      ...rawUpdates,
-      role: rawUpdates.role === "engineer" ? "field_officer" : rawUpdates.role,
-    };
-
-    // Check if user exists
-    const [existingUser] = await db
+    const [existing] = await db
       .select()
-      .from(user)
-      .where(eq(user.id, id));
+      .from(roadSegments)
+      .where(and(eq(roadSegments.id, segmentId), eq(roadSegments.reportId, id), isNull(roadSegments.deletedAt)));
 
-    if (!existingUser) {
-      return c.json({ error: "User not found" }, 404);
+    if (!existing) {
+      return c.json({ error: "Segment not found" }, 404);
     }
 
-    // Prevent self-modification of role/status (but allow updating own name, designation, phone)
-    if (id === auth?.userId) {
-      const isChangingRole = updates.role !== undefined && updates.role !== existingUser.role;
-      const isChangingStatus = updates.isActive !== undefined && updates.isActive !== Boolean(existingUser.isActive);
-      if (isChangingRole || isChangingStatus) {
-        return c.json({ error: "Cannot modify your own role or status" }, 400);
+    if (!(await checkReportScope(db, auth, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
+    const updates: Partial<typeof roadSegments.$inferInsert> = {};
+    if (body.roadName !== undefined) updates.roadName = body.roadName;
+    if (body.reason !== undefined) updates.reason = body.reason;
+
+    let newPath: { lat: number; lng: number }[] | null = null;
+    const kmChanged = body.roadNumber !== undefined || body.fromKm !== undefined || body.toKm !== undefined;
+    if (body.path || kmChanged) {
+      const geometry = await resolveSegmentGeometry(db, {
+        path: body.path,
+        roadNumber: body.roadNumber ?? existing.roadNo,
+        fromKm: body.fromKm !== undefined ? body.fromKm : existing.fromKm,
+        toKm: body.toKm !== undefined ? body.toKm : existing.toKm,
+      });
+      if (!geometry) {
+        return c.json({ error: "Chainage is outside the road's stored geometry" }, 400);
       }
+
+      newPath = geometry.path;
+      const start = geometry.path[0];
+      const end = geometry.path[geometry.path.length - 1];
+      Object.assign(updates, {
+        startLat: start.lat,
+        startLng: start.lng,
+        endLat: end.lat,
+        endLng: end.lng,
+        snappedPath: JSON.stringify(geometry.path),
+        roadNo: geometry.roadNumber,
+        fromKm: geometry.fromKm,
+        toKm: geometry.toKm,
+      });
     }
 
-    // Track changes for audit trail
+    const [report] = await db
+      .select({ reportNumber: damageReports.reportNumber })
+      .from(damageReports)
+      .where(eq(damageReports.id, id));
+    const metadata = { reportId: id, reportNumber: report?.reportNumber, segment: segmentLabel(existing) };
+
     const auditEntries = createFieldChangeEntries(
-      "user",
-      id,
+      "road_segment",
+      segmentId,
       {
-        name: existingUser.name,
-        role: existingUser.role,
-        isActive: existingUser.isActive,
-        designation: existingUser.designation,
-        phone: existingUser.phone,
+        roadNo: existing.roadNo,
+        fromKm: existing.fromKm,
+        toKm: existing.toKm,
+        roadName: existing.roadName,
+        reason: existing.reason,
       },
-      updates,
-      auth?.userId || null,
-      auth?.role || null,
-      { targetEmail: existingUser.email }
+      {
+        roadNo: updates.roadNo,
+        fromKm: updates.fromKm,
+        toKm: updates.toKm,
+        roadName: updates.roadName,
+        reason: updates.reason,
+      },
+      auth.userId,
+      auth.role,
+      metadata
     );
-
-    // Build update object - only include fields that have actual values
-    // Note: name has NOT NULL constraint, so skip empty strings
-    const updateData: Record<string, unknown> = { updatedAt: new Date() };
-    if (updates.name !== undefined && updates.name !== null && updates.name !== "") {
-      updateData.name = updates.name;
-    }
-    if (updates.role !== undefined) updateData.role = updates.role;
-    if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
-    // For nullable fields, allow empty string to be saved as null
-    if (updates.designation !== undefined) {
-      updateData.designation = updates.designation || null;
+    if (newPath && updates.snappedPath !== existing.snappedPath) {
+      // Paths are too long to diff in the audit trail; record the point counts
+      auditEntries.push({
+        targetType: "road_segment",
+        targetId: segmentId,
+        fieldName: "path",
+        oldValue: `${JSON.parse(existing.snappedPath || "[]").length} points`,
+        newValue: `${newPath.length} points`,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata,
+      });
     }
-    if (updates.phone !== undefined) {
-      updateData.phone = updates.phone || null;
+
+    if (auditEntries.length === 0) {
+      return c.json({ success: true });
     }
 
     await db
-      .update(user)
-      .set(updateData)
-      .where(eq(user.id, id));
+      .update(roadSegments)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(roadSegments.id, segmentId));
+    await recordAuditEntries(db, auditEntries);
 
-    // Record audit entries
-    if (auditEntries.length > 0) {
-      await recordAuditEntries(db, auditEntries);
+    return c.json({ success: true });
+  }
+);
+
+// DELETE /api/v1/admin/reports/:id/segments/:segmentId - Soft-delete a blocked segment
+// Requires field_officer, planner, admin or super_admin role
+adminRoutes.delete(
+  "/reports/:id/segments/:segmentId",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { id, segmentId } = c.req.param();
+
+    const [segment] = await db
+      .select()
+      .from(roadSegments)
+      .where(and(eq(roadSegments.id, segmentId), eq(roadSegments.reportId, id), isNull(roadSegments.deletedAt)));
+
+    if (!segment) {
+      return c.json({ error: "Segment not found" }, 404);
     }
 
-    // Fetch updated user
-    const [updated] = await db
+    if (!(await checkReportScope(db, auth, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
+    const now = new Date();
+    await db
+      .update(roadSegments)
+      .set({ deletedAt: now, deletedBy: auth.userId, updatedAt: now })
+      .where(eq(roadSegments.id, segmentId));
+
+    const [report] = await db
+      .select({ reportNumber: damageReports.reportNumber })
+      .from(damageReports)
+      .where(eq(damageReports.id, id));
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "road_segment",
+        targetId: segmentId,
+        fieldName: "deleted",
+        oldValue: segmentLabel(segment),
+        newValue: null,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "deleted", reportId: id, reportNumber: report?.reportNumber },
+      },
+    ]);
+
+    await dispatchWebhookEvent(
+      db,
+      c.executionCtx,
+      "segment.deleted",
+      toSegmentWebhookData(
+        { id, reportNumber: report?.reportNumber || "" },
+        { ...segment, path: JSON.parse(segment.snappedPath || "[]") }
+      )
+    );
+
+    return c.json({ success: true });
+  }
+);
+
+// ============ CLASSIFICATION MANAGEMENT ============
+
+// GET /api/v1/admin/reports/pending-classification - Get reports needing manual classification
+adminRoutes.get(
+  "/reports/pending-classification",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const provinceLocation = alias(locations, "province_location");
+    const districtLocation = alias(locations, "district_location");
+
+    const reports = await db
       .select({
-        id: user.id,
-        name: user.name,
-        email: user.email,
-        role: user.role,
-        designation: user.designation,
-        phone: user.phone,
-        isActive: user.isActive,
-        emailVerified: user.emailVerified,
-        createdAt: user.createdAt,
-        lastLogin: user.lastLogin,
+        id: damageReports.id,
+        reportNumber: damageReports.reportNumber,
+        latitude: damageReports.latitude,
+        longitude: damageReports.longitude,
+        locationName: damageReports.locationName,
+        damageType: damageReports.damageType,
+        status: damageReports.status,
+        roadNumberInput: damageReports.roadNumberInput,
+        roadClass: damageReports.roadClass,
+        classificationStatus: damageReports.classificationStatus,
+        createdAt: damageReports.createdAt,
+        workflowData: damageReports.workflowData,
+        provinceName: provinceLocation.nameEn,
+        districtName: districtLocation.nameEn,
       })
-      .from(user)
-      .where(eq(user.id, id));
+      .from(damageReports)
+      .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+      .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+      .where(
+        or(
+          eq(damageReports.classificationStatus, "pending"),
+          isNull(damageReports.classificationStatus)
+        )
+      )
+      .orderBy(desc(damageReports.createdAt));
 
-    return c.json({ success: true, user: updated });
+    if (hasRegionScope(auth)) {
+      return c.json(reports.filter((report) => isReportInScope(auth, getReportRegion(report))));
+    }
+
+    return c.json(reports);
   }
 );
 
-// DELETE /api/v1/admin/users/:id - Delete a user (super_admin only)
-adminRoutes.delete(
-  "/users/:id",
-  requireRole("super_admin"),
+// GET /api/v1/admin/organizations - Get all organizations
+adminRoutes.get(
+  "/organizations",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+
+    const orgs = await db
+      .select({
+        id: organizations.id,
+        name: organizations.name,
+        code: organizations.code,
+        type: organizations.type,
+        province: organizations.province,
+        roadClasses: organizations.roadClasses,
+      })
+      .from(organizations)
+      .where(eq(organizations.isActive, true))
+      .orderBy(organizations.type, organizations.code);
+
+    // Sort: national orgs first (RDA, UDA), then provincial alphabetically
+    const sorted = orgs.sort((a, b) => {
+      if (a.type === "national" && b.type !== "national") return -1;
+      if (a.type !== "national" && b.type === "national") return 1;
+      if (a.type === "national" && b.type === "national") {
+        // RDA first, then UDA
+        if (a.code === "RDA") return -1;
+        if (b.code === "RDA") return 1;
+        if (a.code === "UDA") return -1;
+        if (b.code === "UDA") return 1;
+      }
+      return a.code.localeCompare(b.code);
+    });
+
+    return c.json(sorted);
+  }
+);
+
+// Classification schema
+const classifyReportSchema = z.object({
+  roadId: z.string().optional(),
+  roadClass: z.enum(["A", "B", "C", "D", "E"]).optional(),
+  assignedOrgId: z.string(),
+  reason: z.string().max(500).optional(),
+});
+
+// PATCH /api/v1/admin/reports/:id/classify - Manually classify a report
+adminRoutes.patch(
+  "/reports/:id/classify",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
+  zValidator("json", classifyReportSchema),
   async (c) => {
     const db = createDb(c.env.DB);
     const auth = getAuth(c);
     const { id } = c.req.param();
+    const { roadId, roadClass, assignedOrgId, reason } = c.req.valid("json");
+    const now = new Date();
 
-    // Check if user exists
-    const [existingUser] = await db
+    // Get current report
+    const [report] = await db
       .select()
-      .from(user)
-      .where(eq(user.id, id));
-
-    if (!existingUser) {
-      return c.json({ error: "User not found" }, 404);
-    }
+      .from(damageReports)
+      .where(eq(damageReports.id, id));
 
-    // Prevent self-deletion
-    if (id === auth?.userId) {
-      return c.json({ error: "Cannot delete your own account" }, 400);
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
     }
 
-    // Prevent deleting other super_admins (safety measure)
-    if (existingUser.role === "super_admin") {
-      return c.json({ error: "Cannot delete super admin accounts" }, 400);
+    if (!(await checkReportScope(db, auth!, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
     }
 
-    try {
-      // Handle all foreign key references before deleting user
-      // 1. Delete user's sessions
-      await db.delete(session).where(eq(session.userId, id));
-
-      // 2. Delete user's accounts (OAuth/password records)
-      await db.delete(account).where(eq(account.userId, id));
-
-      // 3. Delete user's organization memberships
-      await db.delete(userOrganizations).where(eq(userOrganizations.userId, id));
+    // Record classification history
+    await db.insert(classificationHistory).values({
+      id: crypto.randomUUID(),
+      reportId: id,
+      previousRoadClass: report.roadClass || null,
+      newRoadClass: roadClass || null,
+      previousOrgId: report.assignedOrgId || null,
+      newOrgId: assignedOrgId,
+      changedBy: auth?.userId || "system",
+      reason: reason || null,
+      createdAt: now,
+    });
 
-      // 4. Set nullable FK references to NULL using raw SQL for reliability
-      // Some tables have broken FK constraints (referencing non-existent 'users' table)
-      // so we wrap each in try-catch and continue on error
-      const nullifyQueries = [
-        sql`UPDATE user_invitations SET invited_by = NULL WHERE invited_by = ${id}`,
-        sql`UPDATE damage_reports SET submitter_id = NULL WHERE submitter_id = ${id}`,
-        sql`UPDATE state_transitions SET user_id = NULL WHERE user_id = ${id}`,
-        sql`UPDATE rebuild_projects SET project_manager_id = NULL WHERE project_manager_id = ${id}`,
-        sql`UPDATE report_project_links SET linked_by = NULL WHERE linked_by = ${id}`,
-        sql`UPDATE priority_config SET created_by = NULL WHERE created_by = ${id}`,
-        sql`UPDATE comments SET user_id = NULL WHERE user_id = ${id}`,
-      ];
-      for (const query of nullifyQueries) {
-        try {
-          await db.run(query);
-        } catch (e) {
-          console.warn("Non-fatal error nullifying FK reference:", e);
-        }
-      }
+    // Update the report
+    const nowTs = Math.floor(now.getTime() / 1000);
+    await c.env.DB.prepare(`
+      UPDATE damage_reports
+      SET road_id = ?,
+          road_class = ?,
+          assigned_org_id = ?,
+          classification_status = 'manual_classified',
+          classified_by = ?,
+          classified_at = ?,
+          updated_at = ?
+      WHERE id = ?
+    `).bind(
+      roadId || null,
+      roadClass || null,
+      assignedOrgId,
+      auth?.userId || null,
+      nowTs,
+      nowTs,
+      id
+    ).run();
 
-      // 4. Delete the user
-      await db.delete(user).where(eq(user.id, id));
+    // Road class feeds the priority score
+    await updateReportPriority(db, id);
 
-      // Record audit entry for user deletion
-      await recordAuditEntries(db, [{
-        targetType: "user",
-        targetId: id,
-        fieldName: "deleted",
-        oldValue: "active",
-        newValue: "deleted",
-        performedBy: auth?.userId || null,
-        performerRole: auth?.role || null,
-        metadata: {
-          deletedUserEmail: existingUser.email,
-          deletedUserName: existingUser.name,
-          deletedUserRole: existingUser.role,
-        },
-      }]);
+    if (assignedOrgId !== report.assignedOrgId) {
+      // The previous assignee belongs to the old org's queue
+      await db
+        .update(damageReports)
+        .set({ assignedUserId: null })
+        .where(eq(damageReports.id, id));
 
-      return c.json({ success: true });
-    } catch (error) {
-      console.error("Error deleting user:", error);
-      return c.json({
-        error: "Failed to delete user",
-        details: error instanceof Error ? error.message : String(error),
-      }, 500);
+      await notifyOrgReassignment(c.env, db, {
+        report,
+        toOrgId: assignedOrgId,
+        fromOrgId: report.assignedOrgId,
+        assignedByName: auth?.name || "An administrator",
+        baseUrl: c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173",
+      });
     }
+
+    return c.json({
+      success: true,
+      classificationStatus: "manual_classified",
+      assignedOrgId,
+      roadClass: roadClass || null,
+    });
   }
 );
 
-// DELETE /api/v1/admin/users/invitations/:id - Cancel pending invitation with audit trail
-adminRoutes.delete(
-  "/users/invitations/:id",
-  requireRole("super_admin"),
+// PATCH /api/v1/admin/reports/:id/unclassifiable - Mark report as unclassifiable
+adminRoutes.patch(
+  "/reports/:id/unclassifiable",
+  requireRole("field_officer", "planner", "admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
     const auth = getAuth(c);
     const { id } = c.req.param();
+    const now = new Date();
 
-    const [invitation] = await db
+    const [report] = await db
       .select()
-      .from(userInvitations)
-      .where(eq(userInvitations.id, id));
+      .from(damageReports)
+      .where(eq(damageReports.id, id));
+
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
+    }
+
+    if (!(await checkReportScope(db, auth!, id, c.req))) {
+      return c.json({ error: "This report is outside your assigned area" }, 403);
+    }
+
+    const nowTs = Math.floor(now.getTime() / 1000);
+    await c.env.DB.prepare(`
+      UPDATE damage_reports
+      SET classification_status = 'unclassifiable',
+          classified_by = ?,
+          classified_at = ?,
+          updated_at = ?
+      WHERE id = ?
+    `).bind(
+      auth?.userId || null,
+      nowTs,
+      nowTs,
+      id
+    ).run();
+
+    return c.json({
+      success: true,
+      classificationStatus: "unclassifiable",
+    });
+  }
+);
+
+// ============ USER MANAGEMENT (Super Admin Only) ============
+
+// Validation schemas
+// "engineer" is an alias for "field_officer"
+const ROLE_VALUES = ["citizen", "field_officer", "engineer", "planner", "admin", "super_admin", "stakeholder"] as const;
+
+const inviteUserSchema = z.object({
+  email: z.string().email(),
+  role: z.enum(ROLE_VALUES),
+  designation: z.string().max(100).optional(),
+  note: z.string().max(500).optional(),
+});
+
+const updateUserSchema = z.object({
+  name: z.string().min(1).max(100).nullable().optional(),
+  role: z.enum(["citizen", "field_officer", "engineer", "planner", "admin", "super_admin", "stakeholder"]).optional(),
+  isActive: z.boolean().optional(),
+  designation: z.string().max(100).nullable().optional(),
+  phone: z.string().max(20).nullable().optional(),
+  // Province/district ids from sriLankaLocations; null removes the restriction (super_admin only)
+  provinceScope: z.string().nullable().optional(),
+  districtScope: z.string().nullable().optional(),
+});
+
+// GET /api/v1/admin/users - List all users with their invitation status and organizations
+adminRoutes.get("/users", requireRole("super_admin", "admin"), async (c) => {
+  const db = createDb(c.env.DB);
+
+  // Get all users with their primary organization
+  const usersData = await db
+    .select({
+      id: user.id,
+      name: user.name,
+      email: user.email,
+      role: user.role,
+      designation: user.designation,
+      isActive: user.isActive,
+      emailVerified: user.emailVerified,
+      createdAt: user.createdAt,
+      lastLogin: user.lastLogin,
+      phone: user.phone,
+      provinceScope: user.provinceScope,
+      districtScope: user.districtScope,
+    })
+    .from(user)
+    .orderBy(desc(user.createdAt));
+
+  // Get all user-organization assignments with org details
+  const allMemberships = await db
+    .select({
+      userId: userOrganizations.userId,
+      orgId: userOrganizations.organizationId,
+      orgCode: organizations.code,
+      orgName: organizations.name,
+      orgRole: userOrganizations.role,
+      isPrimary: userOrganizations.isPrimary,
+    })
+    .from(userOrganizations)
+    .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id));
+
+  // Group memberships by user
+  const membershipsByUser = new Map<string, typeof allMemberships>();
+  for (const m of allMemberships) {
+    if (!membershipsByUser.has(m.userId)) {
+      membershipsByUser.set(m.userId, []);
+    }
+    membershipsByUser.get(m.userId)!.push(m);
+  }
+
+  // Attach organizations to users
+  const users = usersData.map((u) => ({
+    ...u,
+    organizations: membershipsByUser.get(u.id) || [],
+  }));
+
+  // Get pending invitations (including expired ones for visibility)
+  // Include the token so we can build the invite URL for copy
+  const allPendingInvitations = await db
+    .select({
+      id: userInvitations.id,
+      email: userInvitations.email,
+      role: userInvitations.role,
+      status: userInvitations.status,
+      expiresAt: userInvitations.expiresAt,
+      createdAt: userInvitations.createdAt,
+      resendCount: userInvitations.resendCount,
+      lastResentAt: userInvitations.lastResentAt,
+      token: userInvitations.token, // Include token for building invite URL
+    })
+    .from(userInvitations)
+    .where(eq(userInvitations.status, "pending"))
+    .orderBy(desc(userInvitations.createdAt));
+
+  // Get magic tokens from verification table for each invitation's email
+  // The magicToken is stored as the identifier, and the email is in the value JSON
+  // Note: expires_at is stored as Unix timestamp (seconds), so compare with unixepoch('now')
+  const verificationTokens = await db
+    .select({
+      identifier: verification.identifier,
+      value: verification.value,
+      expiresAt: verification.expiresAt,
+    })
+    .from(verification)
+    .where(sql`${verification.expiresAt} > unixepoch('now')`);
+
+  // Build a map of email -> magicToken
+  const emailToMagicToken = new Map<string, string>();
+  for (const v of verificationTokens) {
+    try {
+      const parsed = JSON.parse(v.value) as { email?: string };
+      if (parsed.email) {
+        emailToMagicToken.set(parsed.email, v.identifier);
+      }
+    } catch {
+      // Skip invalid JSON
+    }
+  }
+
+  // Mark expired invitations and calculate resend availability
+  const now = new Date();
+  const RESEND_COOLOFF_MS_CHECK = 60 * 60 * 1000; // 1 hour
+  const pendingInvitations = allPendingInvitations.map(inv => {
+    const isExpired = inv.expiresAt ? new Date(inv.expiresAt) < now : false;
+    const resendCount = inv.resendCount ?? 0;
+    const canResend = resendCount < 3 && (!inv.lastResentAt || (now.getTime() - inv.lastResentAt.getTime() >= RESEND_COOLOFF_MS_CHECK));
+    const cooloffRemaining = inv.lastResentAt
+      ? Math.max(0, Math.ceil((RESEND_COOLOFF_MS_CHECK - (now.getTime() - inv.lastResentAt.getTime())) / 60000))
+      : 0;
+
+    // Get the magicToken for this invitation's email
+    const magicToken = emailToMagicToken.get(inv.email);
+
+    return {
+      ...inv,
+      isExpired,
+      resendCount,
+      canResend: !isExpired && canResend,
+      resendsRemaining: Math.max(0, 3 - resendCount),
+      cooloffMinutes: cooloffRemaining,
+      // Include invite URL if we have both tokens
+      inviteUrl: magicToken ? `/accept-invite?token=${inv.token}&magicToken=${magicToken}` : null,
+    };
+  });
+
+  // Get all organizations for filter dropdown
+  const orgs = await db
+    .select({
+      id: organizations.id,
+      code: organizations.code,
+      name: organizations.name,
+      type: organizations.type,
+    })
+    .from(organizations)
+    .where(eq(organizations.isActive, true))
+    .orderBy(organizations.type, organizations.code);
+
+  return c.json({ users, pendingInvitations, organizations: orgs });
+});
+
+// POST /api/v1/admin/users/invite - Send invitation to new user with audit trail
+adminRoutes.post(
+  "/users/invite",
+  requireRole("super_admin"),
+  zValidator("json", inviteUserSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { email: rawEmail, role: rawRole, designation, note } = c.req.valid("json");
+
+    // Normalize email to lowercase for deduplication
+    const email = rawEmail.toLowerCase().trim();
+
+    // Normalize "engineer" to "field_officer" (engineer is an alias)
+    const role = rawRole === "engineer" ? "field_officer" : rawRole;
+
+    // Check if user already exists (case-insensitive via lowercase comparison)
+    const [existingUser] = await db
+      .select()
+      .from(user)
+      .where(sql`LOWER(${user.email}) = ${email}`);
+
+    if (existingUser) {
+      return c.json({ error: "User with this email already exists" }, 400);
+    }
+
+    // Check if there's already a pending invitation (case-insensitive)
+    const [existingInvite] = await db
+      .select()
+      .from(userInvitations)
+      .where(sql`LOWER(${userInvitations.email}) = ${email}`);
+
+    if (existingInvite && existingInvite.status === "pending") {
+      return c.json({ error: "Pending invitation already exists for this email" }, 400);
+    }
+
+    // Generate invitation token and ID
+    const inviteId = crypto.randomUUID();
+    const token = crypto.randomUUID();
+    // Magic link token for auto-login - must match better-auth format:
+    // 32 character random string using a-z and A-Z
+    const magicToken = generateRandomString(32);
+    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    const now = new Date();
+
+    // Create invitation record
+    await db.insert(userInvitations).values({
+      id: inviteId,
+      email,
+      role,
+      designation: designation || null,
+      note: note || null,
+      invitedBy: auth?.userId || null,
+      token,
+      status: "pending",
+      expiresAt,
+    });
+
+    // Create magic link verification token in the EXACT format better-auth expects:
+    // - identifier: the token itself (not email)
+    // - value: JSON string with {email, name}
+    // This matches how better-auth's signInMagicLink endpoint stores tokens
+    await db.insert(verification).values({
+      id: crypto.randomUUID(),
+      identifier: magicToken, // Token is stored as identifier
+      value: JSON.stringify({ email, name: "" }), // Email stored in value as JSON
+      expiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Get inviter name for email
+    const inviterName = auth?.name || "An administrator";
+
+    // Build invitation URL with both tokens
+    const baseUrl = c.req.header("origin") || "https://road-lk.org";
+    const inviteUrl = `${baseUrl}/accept-invite?token=${token}&magicToken=${magicToken}`;
+
+    // Send invitation email
+    try {
+      await sendEmail(
+        c.env,
+        email,
+        "You're Invited to Sri Lanka Road Status",
+        getInvitationEmailHtml({
+          inviterName,
+          role,
+          inviteUrl,
+          expiresAt,
+          note: note || undefined,
+        })
+      );
+    } catch (error) {
+      // If email fails, delete the invitation
+      await db.delete(userInvitations).where(eq(userInvitations.id, inviteId));
+      console.error("Failed to send invitation email:", error);
+      return c.json({ error: "Failed to send invitation email" }, 500);
+    }
+
+    // Record audit entry for invitation created
+    await recordAuditEntries(db, [{
+      targetType: "invitation",
+      targetId: inviteId,
+      fieldName: "status",
+      oldValue: null,
+      newValue: "pending",
+      performedBy: auth?.userId || null,
+      performerRole: auth?.role || null,
+      metadata: { email, role, expiresAt: expiresAt.toISOString() },
+    }]);
+
+    return c.json({
+      success: true,
+      invitation: {
+        id: inviteId,
+        email,
+        role,
+        expiresAt,
+      },
+    });
+  }
+);
+
+// PATCH /api/v1/admin/users/:id - Update user role, status, designation, etc. with audit trail
+adminRoutes.patch(
+  "/users/:id",
+  requireRole("super_admin", "admin"),
+  zValidator("json", updateUserSchema, (result, c) => {
+    if (!result.success) {
+      const firstError = result.error.errors[0];
+      return c.json({ error: firstError?.message || "Invalid request data" }, 400);
+    }
+  }),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+    const rawUpdates = c.req.valid("json");
+
+    // Normalize "engineer" to "field_officer" (engineer is an alias)
+    const updates = {
+      ...rawUpdates,
+      role: rawUpdates.role === "engineer" ? "field_officer" : rawUpdates.role,
+    };
+
+    // Check if user exists
+    const [existingUser] = await db
+      .select()
+      .from(user)
+      .where(eq(user.id, id));
+
+    if (!existingUser) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Prevent self-modification of role/status (but allow updating own name, designation, phone)
+    if (id === auth?.userId) {
+      const isChangingRole = updates.role !== undefined && updates.role !== existingUser.role;
+      const isChangingStatus = updates.isActive !== undefined && updates.isActive !== Boolean(existingUser.isActive);
+      if (isChangingRole || isChangingStatus) {
+        return c.json({ error: "Cannot modify your own role or status" }, 400);
+      }
+    }
+
+    // Only super admins can change where a user is allowed to work
+    const isChangingScope = updates.provinceScope !== undefined || updates.districtScope !== undefined;
+    if (isChangingScope) {
+      if (auth?.role !== "super_admin") {
+        return c.json({ error: "Only super admins can change a user's scope" }, 403);
+      }
+
+      const provinceScope = updates.provinceScope !== undefined ? updates.provinceScope : existingUser.provinceScope;
+      const districtScope = updates.districtScope !== undefined ? updates.districtScope : existingUser.districtScope;
+      const province = provinceScope ? provinces.find((p) => p.id === provinceScope) : null;
+      if (provinceScope && !province) {
+        return c.json({ error: "Unknown province" }, 400);
+      }
+      if (districtScope && !province?.districts.some((d) => d.id === districtScope)) {
+        return c.json({ error: "District scope must be a district in the selected province" }, 400);
+      }
+    }
+
+    // Track changes for audit trail
+    const auditEntries = createFieldChangeEntries(
+      "user",
+      id,
+      {
+        name: existingUser.name,
+        role: existingUser.role,
+        isActive: existingUser.isActive,
+        designation: existingUser.designation,
+        phone: existingUser.phone,
+        provinceScope: existingUser.provinceScope,
+        districtScope: existingUser.districtScope,
+      },
+      updates,
+      auth?.userId || null,
+      auth?.role || null,
+      { targetEmail: existingUser.email }
+    );
+
+    // Build update object - only include fields that have actual values
+    // Note: name has NOT NULL constraint, so skip empty strings
+    const updateData: Record<string, unknown> = { updatedAt: new Date() };
+    if (updates.name !== undefined && updates.name !== null && updates.name !== "") {
+      updateData.name = updates.name;
+    }
+    if (updates.role !== undefined) updateData.role = updates.role;
+    if (updates.isActive !== undefined) updateData.isActive = updates.isActive;
+    // For nullable fields, allow empty string to be saved as null
+    if (updates.designation !== undefined) {
+      updateData.designation = updates.designation || null;
+    }
+    if (updates.phone !== undefined) {
+      updateData.phone = updates.phone || null;
+    }
+    if (updates.provinceScope !== undefined) {
+      updateData.provinceScope = updates.provinceScope || null;
+    }
+    if (updates.districtScope !== undefined) {
+      updateData.districtScope = updates.districtScope || null;
+    }
+
+    await db
+      .update(user)
+      .set(updateData)
+      .where(eq(user.id, id));
+
+    // Record audit entries
+    if (auditEntries.length > 0) {
+      await recordAuditEntries(db, auditEntries);
+    }
+
+    // Fetch updated user
+    const [updated] = await db
+      .select({
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        designation: user.designation,
+        phone: user.phone,
+        isActive: user.isActive,
+        emailVerified: user.emailVerified,
+        createdAt: user.createdAt,
+        lastLogin: user.lastLogin,
+        provinceScope: user.provinceScope,
+        districtScope: user.districtScope,
+      })
+      .from(user)
+      .where(eq(user.id, id));
+
+    return c.json({ success: true, user: updated });
+  }
+);
+
+// DELETE /api/v1/admin/users/:id - Delete a user (super_admin only)
+adminRoutes.delete(
+  "/users/:id",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+
+    // Check if user exists
+    const [existingUser] = await db
+      .select()
+      .from(user)
+      .where(eq(user.id, id));
+
+    if (!existingUser) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Prevent self-deletion
+    if (id === auth?.userId) {
+      return c.json({ error: "Cannot delete your own account" }, 400);
+    }
+
+    // Prevent deleting other super_admins (safety measure)
+    if (existingUser.role === "super_admin") {
+      return c.json({ error: "Cannot delete super admin accounts" }, 400);
+    }
+
+    try {
+      // Handle all foreign key references before deleting user
+      // 1. Delete user's sessions
+      await db.delete(session).where(eq(session.userId, id));
+
+      // 2. Delete user's accounts (OAuth/password records)
+      await db.delete(account).where(eq(account.userId, id));
+
+      // 3. Delete user's organization memberships
+      await db.delete(userOrganizations).where(eq(userOrganizations.userId, id));
+
+      // 4. Set nullable FK references to NULL using raw SQL for reliability
+      // Some tables have broken FK constraints (referencing non-existent 'users' table)
+      // so we wrap each in try-catch and continue on error
+      const nullifyQueries = [
+        sql`UPDATE user_invitations SET invited_by = NULL WHERE invited_by = ${id}`,
+        sql`UPDATE damage_reports SET submitter_id = NULL WHERE submitter_id = ${id}`,
+        sql`UPDATE state_transitions SET user_id = NULL WHERE user_id = ${id}`,
+        sql`UPDATE rebuild_projects SET project_manager_id = NULL WHERE project_manager_id = ${id}`,
+        sql`UPDATE report_project_links SET linked_by = NULL WHERE linked_by = ${id}`,
+        sql`UPDATE priority_config SET created_by = NULL WHERE created_by = ${id}`,
+        sql`UPDATE comments SET user_id = NULL WHERE user_id = ${id}`,
+        sql`UPDATE damage_reports SET assigned_user_id = NULL WHERE assigned_user_id = ${id}`,
+      ];
+      for (const query of nullifyQueries) {
+        try {
+          await db.run(query);
+        } catch (e) {
+          console.warn("Non-fatal error nullifying FK reference:", e);
+        }
+      }
+
+      // 4. Delete the user
+      await db.delete(user).where(eq(user.id, id));
+
+      // Record audit entry for user deletion
+      await recordAuditEntries(db, [{
+        targetType: "user",
+        targetId: id,
+        fieldName: "deleted",
+        oldValue: "active",
+        newValue: "deleted",
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: {
+          deletedUserEmail: existingUser.email,
+          deletedUserName: existingUser.name,
+          deletedUserRole: existingUser.role,
+        },
+      }]);
+
+      return c.json({ success: true });
+    } catch (error) {
+      console.error("Error deleting user:", error);
+      return c.json({
+        error: "Failed to delete user",
+        details: error instanceof Error ? error.message : String(error),
+      }, 500);
+    }
+  }
+);
+
+// DELETE /api/v1/admin/users/invitations/:id - Cancel pending invitation with audit trail
+adminRoutes.delete(
+  "/users/invitations/:id",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+
+    const [invitation] = await db
+      .select()
+      .from(userInvitations)
+      .where(eq(userInvitations.id, id));
+
+    if (!invitation) {
+      return c.json({ error: "Invitation not found" }, 404);
+    }
+
+    if (invitation.status !== "pending") {
+      return c.json({ error: "Can only cancel pending invitations" }, 400);
+    }
+
+    await db
+      .update(userInvitations)
+      .set({ status: "cancelled" })
+      .where(eq(userInvitations.id, id));
+
+    // Record audit entry for invitation cancelled
+    await recordAuditEntries(db, [{
+      targetType: "invitation",
+      targetId: id,
+      fieldName: "status",
+      oldValue: "pending",
+      newValue: "cancelled",
+      performedBy: auth?.userId || null,
+      performerRole: auth?.role || null,
+      metadata: { email: invitation.email, role: invitation.role },
+    }]);
+
+    return c.json({ success: true });
+  }
+);
+
+// POST /api/v1/admin/users/invitations/:id/resend - Resend invitation email
+// Max 3 resends, with 1 hour cooloff between resends
+const MAX_RESENDS = 3;
+const RESEND_COOLOFF_MS = 60 * 60 * 1000; // 1 hour
+
+adminRoutes.post(
+  "/users/invitations/:id/resend",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+
+    const [invitation] = await db
+      .select()
+      .from(userInvitations)
+      .where(eq(userInvitations.id, id));
+
+    if (!invitation) {
+      return c.json({ error: "Invitation not found" }, 404);
+    }
+
+    if (invitation.status !== "pending") {
+      return c.json({ error: "Can only resend pending invitations" }, 400);
+    }
+
+    // Check resend limit
+    const resendCount = invitation.resendCount ?? 0;
+    if (resendCount >= MAX_RESENDS) {
+      return c.json({ error: "Maximum resend limit reached (3 times)" }, 400);
+    }
+
+    // Check cooloff period
+    if (invitation.lastResentAt) {
+      const timeSinceLastResend = Date.now() - invitation.lastResentAt.getTime();
+      if (timeSinceLastResend < RESEND_COOLOFF_MS) {
+        const minutesRemaining = Math.ceil((RESEND_COOLOFF_MS - timeSinceLastResend) / 60000);
+        return c.json({ error: `Please wait ${minutesRemaining} minutes before resending` }, 400);
+      }
+    }
+
+    // Generate new token, magic token, and extend expiry
+    const newToken = crypto.randomUUID();
+    // Magic link token - must match better-auth format (32 char a-zA-Z)
+    const newMagicToken = generateRandomString(32);
+    const newExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+    const now = new Date();
+
+    // Update invitation with new token, expiry, and resend tracking
+    await db
+      .update(userInvitations)
+      .set({
+        token: newToken,
+        expiresAt: newExpiresAt,
+        resendCount: resendCount + 1,
+        lastResentAt: now,
+      })
+      .where(eq(userInvitations.id, id));
+
+    // Create magic link verification token in the EXACT format better-auth expects
+    await db.insert(verification).values({
+      id: crypto.randomUUID(),
+      identifier: newMagicToken, // Token is stored as identifier
+      value: JSON.stringify({ email: invitation.email, name: "" }), // Email stored in value as JSON
+      expiresAt: newExpiresAt,
+      createdAt: now,
+      updatedAt: now,
+    });
+
+    // Get inviter name for email
+    const inviterName = auth?.name || "An administrator";
+
+    // Build invitation URL with both tokens
+    const baseUrl = c.req.header("origin") || "https://road-lk.org";
+    const inviteUrl = `${baseUrl}/accept-invite?token=${newToken}&magicToken=${newMagicToken}`;
+
+    // Send invitation email
+    try {
+      await sendEmail(
+        c.env,
+        invitation.email,
+        "Reminder: You're Invited to Sri Lanka Road Status",
+        getInvitationEmailHtml({
+          inviterName,
+          role: invitation.role,
+          inviteUrl,
+          expiresAt: newExpiresAt,
+        })
+      );
+    } catch (error) {
+      console.error("Failed to resend invitation email:", error);
+      return c.json({ error: "Failed to send invitation email" }, 500);
+    }
+
+    // Record audit entry for invitation resent
+    await recordAuditEntries(db, [{
+      targetType: "invitation",
+      targetId: id,
+      fieldName: "resent",
+      oldValue: String(resendCount),
+      newValue: String(resendCount + 1),
+      performedBy: auth?.userId || null,
+      performerRole: auth?.role || null,
+      metadata: { email: invitation.email, role: invitation.role, expiresAt: newExpiresAt.toISOString() },
+    }]);
+
+    return c.json({
+      success: true,
+      expiresAt: newExpiresAt,
+      resendCount: resendCount + 1,
+      resendsRemaining: MAX_RESENDS - (resendCount + 1),
+    });
+  }
+);
+
+// GET /api/v1/admin/users/:id/audit-trail - Get audit trail for a user
+adminRoutes.get(
+  "/users/:id/audit-trail",
+  requireRole("super_admin", "admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    // Check user exists
+    const [existingUser] = await db
+      .select({ id: user.id, email: user.email })
+      .from(user)
+      .where(eq(user.id, id));
+
+    if (!existingUser) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Get user's organization membership IDs for audit lookup
+    const userOrgMemberships = await db
+      .select({ id: userOrganizations.id })
+      .from(userOrganizations)
+      .where(eq(userOrganizations.userId, id));
+    const membershipIds = userOrgMemberships.map(m => m.id);
+
+    // Get invitations for this user's email
+    const userInvites = await db
+      .select({ id: userInvitations.id })
+      .from(userInvitations)
+      .where(eq(userInvitations.email, existingUser.email));
+    const invitationIds = userInvites.map(i => i.id);
+
+    // Alias for performer user lookup
+    const performer = alias(user, "performer");
+
+    // Build query for all audit entries related to this user:
+    // 1. Direct user changes (targetType='user' AND targetId=userId)
+    // 2. Their invitations (targetType='invitation' AND targetId IN invitationIds)
+    // 3. Their org memberships (targetType='user_organization' AND targetId IN membershipIds)
+    // 4. Changes they performed (userId=id)
+    const conditions = [
+      and(eq(stateTransitions.targetType, "user"), eq(stateTransitions.targetId, id)),
+      eq(stateTransitions.userId, id),
+    ];
+
+    if (invitationIds.length > 0) {
+      conditions.push(
+        and(
+          eq(stateTransitions.targetType, "invitation"),
+          or(...invitationIds.map(invId => eq(stateTransitions.targetId, invId)))
+        )
+      );
+    }
+
+    if (membershipIds.length > 0) {
+      conditions.push(
+        and(
+          eq(stateTransitions.targetType, "user_organization"),
+          or(...membershipIds.map(memId => eq(stateTransitions.targetId, memId)))
+        )
+      );
+    }
+
+    const auditEntries = await db
+      .select({
+        id: stateTransitions.id,
+        targetType: stateTransitions.targetType,
+        targetId: stateTransitions.targetId,
+        fieldName: stateTransitions.fieldName,
+        oldValue: stateTransitions.oldValue,
+        newValue: stateTransitions.newValue,
+        reason: stateTransitions.reason,
+        metadata: stateTransitions.metadata,
+        createdAt: stateTransitions.createdAt,
+        performedById: stateTransitions.userId,
+        performerRole: stateTransitions.userRole,
+        performerName: performer.name,
+      })
+      .from(stateTransitions)
+      .leftJoin(performer, eq(stateTransitions.userId, performer.id))
+      .where(or(...conditions))
+      .orderBy(desc(stateTransitions.createdAt))
+      .limit(100);
+
+    // Parse metadata JSON and format response
+    const formattedEntries = auditEntries.map(entry => ({
+      ...entry,
+      metadata: entry.metadata ? JSON.parse(entry.metadata) : null,
+    }));
+
+    return c.json({
+      userId: id,
+      entries: formattedEntries,
+    });
+  }
+);
+
+// ============ USER-ORGANIZATION MANAGEMENT ============
+
+// GET /api/v1/admin/users/:id/organizations - Get user's organization memberships
+adminRoutes.get(
+  "/users/:id/organizations",
+  requireRole("super_admin", "admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    // Check user exists
+    const [existingUser] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, id));
+
+    if (!existingUser) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Get user's organizations with details
+    const memberships = await db
+      .select({
+        organizationId: userOrganizations.organizationId,
+        role: userOrganizations.role,
+        isPrimary: userOrganizations.isPrimary,
+        assignedAt: userOrganizations.createdAt,
+        orgName: organizations.name,
+        orgCode: organizations.code,
+        orgType: organizations.type,
+        orgProvince: organizations.province,
+      })
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(eq(userOrganizations.userId, id));
+
+    return c.json(memberships);
+  }
+);
+
+// Assign user to organization schema
+const assignOrgSchema = z.object({
+  organizationId: z.string(),
+  role: z.enum(["member", "manager", "admin"]).default("member"),
+  isPrimary: z.boolean().default(false),
+});
+
+// POST /api/v1/admin/users/:id/organizations - Assign user to organization
+adminRoutes.post(
+  "/users/:id/organizations",
+  requireRole("super_admin", "admin"),
+  zValidator("json", assignOrgSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+    const { organizationId, role, isPrimary } = c.req.valid("json");
+
+    // Check user exists
+    const [existingUser] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, id));
+
+    if (!existingUser) {
+      return c.json({ error: "User not found" }, 404);
+    }
+
+    // Check organization exists
+    const [org] = await db
+      .select({ id: organizations.id })
+      .from(organizations)
+      .where(eq(organizations.id, organizationId));
+
+    if (!org) {
+      return c.json({ error: "Organization not found" }, 404);
+    }
+
+    // Check if assignment already exists
+    const [existing] = await db
+      .select()
+      .from(userOrganizations)
+      .where(
+        and(
+          eq(userOrganizations.userId, id),
+          eq(userOrganizations.organizationId, organizationId)
+        )
+      );
+
+    if (existing) {
+      return c.json({ error: "User is already a member of this organization" }, 400);
+    }
+
+    // If this is being set as primary, unset other primaries
+    if (isPrimary) {
+      await db
+        .update(userOrganizations)
+        .set({ isPrimary: false })
+        .where(eq(userOrganizations.userId, id));
+    }
+
+    // Create assignment
+    const assignmentId = crypto.randomUUID();
+    await db.insert(userOrganizations).values({
+      id: assignmentId,
+      userId: id,
+      organizationId,
+      role,
+      isPrimary,
+    });
+
+    // Fetch the created assignment with org details
+    const [assignment] = await db
+      .select({
+        organizationId: userOrganizations.organizationId,
+        role: userOrganizations.role,
+        isPrimary: userOrganizations.isPrimary,
+        assignedAt: userOrganizations.createdAt,
+        orgName: organizations.name,
+        orgCode: organizations.code,
+        orgType: organizations.type,
+      })
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(eq(userOrganizations.id, assignmentId));
+
+    // Record audit entry for organization assignment
+    const auth = getAuth(c);
+    await recordAuditEntries(db, [{
+      targetType: "user_organization",
+      targetId: assignmentId,
+      fieldName: "assignment",
+      oldValue: null,
+      newValue: "created",
+      performedBy: auth?.userId || null,
+      performerRole: auth?.role || null,
+      metadata: {
+        userId: id,
+        organizationId,
+        orgName: assignment?.orgName,
+        role,
+        isPrimary,
+      },
+    }]);
+
+    return c.json({ success: true, assignment });
+  }
+);
+
+// PATCH /api/v1/admin/users/:id/organizations/:orgId - Update membership
+adminRoutes.patch(
+  "/users/:id/organizations/:orgId",
+  requireRole("super_admin", "admin"),
+  zValidator("json", z.object({
+    role: z.enum(["member", "manager", "admin"]).optional(),
+    isPrimary: z.boolean().optional(),
+  })),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id, orgId } = c.req.param();
+    const updates = c.req.valid("json");
+
+    // Check membership exists
+    const [membership] = await db
+      .select()
+      .from(userOrganizations)
+      .where(
+        and(
+          eq(userOrganizations.userId, id),
+          eq(userOrganizations.organizationId, orgId)
+        )
+      );
+
+    if (!membership) {
+      return c.json({ error: "Membership not found" }, 404);
+    }
+
+    // If setting as primary, unset other primaries first
+    if (updates.isPrimary) {
+      await db
+        .update(userOrganizations)
+        .set({ isPrimary: false })
+        .where(eq(userOrganizations.userId, id));
+    }
+
+    // Update membership
+    const updateData: Record<string, unknown> = {};
+    if (updates.role !== undefined) updateData.role = updates.role;
+    if (updates.isPrimary !== undefined) updateData.isPrimary = updates.isPrimary;
+
+    await db
+      .update(userOrganizations)
+      .set(updateData)
+      .where(
+        and(
+          eq(userOrganizations.userId, id),
+          eq(userOrganizations.organizationId, orgId)
+        )
+      );
+
+    // Record audit entries for changed fields
+    const auth = getAuth(c);
+    const auditEntries = createFieldChangeEntries(
+      "user_organization",
+      membership.id,
+      { role: membership.role, isPrimary: membership.isPrimary },
+      updateData as { role?: string; isPrimary?: boolean },
+      auth?.userId || null,
+      auth?.role || null,
+      { userId: id, organizationId: orgId }
+    );
+    if (auditEntries.length > 0) {
+      await recordAuditEntries(db, auditEntries);
+    }
+
+    return c.json({ success: true });
+  }
+);
+
+// DELETE /api/v1/admin/users/:id/organizations/:orgId - Remove user from organization
+adminRoutes.delete(
+  "/users/:id/organizations/:orgId",
+  requireRole("super_admin", "admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id, orgId } = c.req.param();
+
+    // Check membership exists
+    const [membership] = await db
+      .select()
+      .from(userOrganizations)
+      .where(
+        and(
+          eq(userOrganizations.userId, id),
+          eq(userOrganizations.organizationId, orgId)
+        )
+      );
+
+    if (!membership) {
+      return c.json({ error: "Membership not found" }, 404);
+    }
+
+    // Delete the membership
+    await db
+      .delete(userOrganizations)
+      .where(
+        and(
+          eq(userOrganizations.userId, id),
+          eq(userOrganizations.organizationId, orgId)
+        )
+      );
+
+    // Record audit entry for organization removal
+    const auth = getAuth(c);
+    await recordAuditEntries(db, [{
+      targetType: "user_organization",
+      targetId: membership.id,
+      fieldName: "assignment",
+      oldValue: "active",
+      newValue: "removed",
+      performedBy: auth?.userId || null,
+      performerRole: auth?.role || null,
+      metadata: {
+        userId: id,
+        organizationId: orgId,
+        previousRole: membership.role,
+        wasPrimary: membership.isPrimary,
+      },
+    }]);
+
+    return c.json({ success: true });
+  }
+);
+
+// ============ UNIVERSAL AUDIT TRAIL ============
+
+// GET /api/v1/admin/audit-trail - Get all audit entries with pagination
+adminRoutes.get(
+  "/audit-trail",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const url = new URL(c.req.url);
+
+    // Pagination params
+    const page = Math.max(1, parseInt(url.searchParams.get("page") || "1"));
+    const limit = Math.min(100, Math.max(10, parseInt(url.searchParams.get("limit") || "50")));
+    const offset = (page - 1) * limit;
+
+    // Filter params
+    const targetType = url.searchParams.get("targetType"); // report, user, invitation, user_organization
+    const performerId = url.searchParams.get("performerId");
+
+    // Alias for performer user lookup
+    const performer = alias(user, "performer");
+
+    // Build conditions
+    const conditions = [];
+    if (targetType) {
+      conditions.push(eq(stateTransitions.targetType, targetType));
+    }
+    if (performerId) {
+      conditions.push(eq(stateTransitions.userId, performerId));
+    }
+
+    // This is a workaround since D1 doesn't have COUNT()
+    const allIds = await db
+      .select({ id: stateTransitions.id })
+      .from(stateTransitions)
+      .where(conditions.length > 0 ? and(...conditions) : undefined);
+    const totalCount = allIds.length;
+
+    // Get paginated entries
+    const entries = await db
+      .select({
+        id: stateTransitions.id,
+        targetType: stateTransitions.targetType,
+        targetId: stateTransitions.targetId,
+        reportId: stateTransitions.reportId,
+        fieldName: stateTransitions.fieldName,
+        oldValue: stateTransitions.oldValue,
+        newValue: stateTransitions.newValue,
+        fromStatus: stateTransitions.fromStatus,
+        toStatus: stateTransitions.toStatus,
+        reason: stateTransitions.reason,
+        metadata: stateTransitions.metadata,
+        createdAt: stateTransitions.createdAt,
+        performedById: stateTransitions.userId,
+        performerRole: stateTransitions.userRole,
+        performerName: performer.name,
+        performerEmail: performer.email,
+      })
+      .from(stateTransitions)
+      .leftJoin(performer, eq(stateTransitions.userId, performer.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(stateTransitions.createdAt))
+      .limit(limit)
+      .offset(offset);
+
+    // Parse metadata JSON
+    const formattedEntries = entries.map(entry => ({
+      ...entry,
+      metadata: entry.metadata ? JSON.parse(entry.metadata) : null,
+    }));
+
+    return c.json({
+      entries: formattedEntries,
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
+    });
+  }
+);
+
+// POST /api/v1/admin/fix-location-names - Fix location names to include (district, province) format
+adminRoutes.post(
+  "/fix-location-names",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+
+    // Get all reports with provinceId and districtId but locationName doesn't have parentheses
+    const reportsToFix = await db
+      .select({
+        id: damageReports.id,
+        locationName: damageReports.locationName,
+        provinceId: damageReports.provinceId,
+        districtId: damageReports.districtId,
+      })
+      .from(damageReports)
+      .where(
+        and(
+          sql`${damageReports.provinceId} IS NOT NULL`,
+          sql`${damageReports.districtId} IS NOT NULL`,
+          sql`${damageReports.locationName} IS NOT NULL`
+        )
+      );
+
+    // Create aliases for location lookups
+    const provinceLocation = alias(locations, "province_location");
+    const districtLocation = alias(locations, "district_location");
+
+    let fixedCount = 0;
+    const updates: Array<{ id: string; oldName: string; newName: string }> = [];
+
+    for (const report of reportsToFix) {
+      // Check if location name already has the (district, province) format
+      if (report.locationName && report.locationName.includes('(') && report.locationName.includes(')')) {
+        continue; // Already formatted, skip
+      }
+
+      // Get province and district names
+      const [provinceData] = await db
+        .select({ nameEn: provinceLocation.nameEn })
+        .from(provinceLocation)
+        .where(eq(provinceLocation.id, report.provinceId!));
+
+      const [districtData] = await db
+        .select({ nameEn: districtLocation.nameEn })
+        .from(districtLocation)
+        .where(eq(districtLocation.id, report.districtId!));
+
+      if (!provinceData || !districtData) {
+        continue; // Skip if location data not found
+      }
+
+      // Format: "Road Name (district, province)"
+      const newLocationName = `${report.locationName} (${districtData.nameEn}, ${provinceData.nameEn})`;
+
+      // Update the report
+      await db
+        .update(damageReports)
+        .set({
+          locationName: newLocationName,
+          updatedAt: new Date()
+        })
+        .where(eq(damageReports.id, report.id));
+
+      updates.push({
+        id: report.id,
+        oldName: report.locationName!,
+        newName: newLocationName,
+      });
+
+      fixedCount++;
+    }
+
+    return c.json({
+      success: true,
+      fixedCount,
+      totalChecked: reportsToFix.length,
+      updates,
+    });
+  }
+);
+
+// POST /api/v1/admin/auto-verify-trusted-reports - Auto-verify reports from trusted users
+adminRoutes.post(
+  "/auto-verify-trusted-reports",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+
+    // Get all "new" status reports that have a submitter (not anonymous)
+    // and where the submitter is not a citizen
+    const unverifiedReports = await db
+      .select({
+        id: damageReports.id,
+        reportNumber: damageReports.reportNumber,
+        submitterId: damageReports.submitterId,
+        sourceType: damageReports.sourceType,
+        status: damageReports.status,
+      })
+      .from(damageReports)
+      .leftJoin(user, eq(damageReports.submitterId, user.id))
+      .where(
+        and(
+          eq(damageReports.status, "new"),
+          isNotNull(damageReports.submitterId)
+        )
+      );
+
+    // For each report, check if submitter is a trusted user
+    let verifiedCount = 0;
+    const verifiedReports: Array<{ id: string; reportNumber: string; userRole: string }> = [];
+
+    for (const report of unverifiedReports) {
+      if (!report.submitterId) continue;
+
+      // Get user details
+      const [submitter] = await db
+        .select({ role: user.role })
+        .from(user)
+        .where(eq(user.id, report.submitterId));
+
+      if (!submitter) continue;
+
+      // Check if user is a trusted submitter (not a citizen)
+      const isTrusted = submitter.role && submitter.role !== "citizen";
+
+      if (isTrusted) {
+        // Update report status to verified
+        await db
+          .update(damageReports)
+          .set({
+            status: "verified",
+            updatedAt: new Date(),
+          })
+          .where(eq(damageReports.id, report.id));
+
+        verifiedReports.push({
+          id: report.id,
+          reportNumber: report.reportNumber,
+          userRole: submitter.role,
+        });
+
+        verifiedCount++;
+      }
+    }
+
+    return c.json({
+      success: true,
+      verifiedCount,
+      totalChecked: unverifiedReports.length,
+      verifiedReports,
+    });
+  }
+);
+
+// ============ PRIORITY CONFIG ============
+
+const priorityWeight = z.number().min(0).max(1);
+
+const createPriorityConfigSchema = z.object({
+  // Generated as v1, v2, ... when omitted
+  version: z.string().trim().min(1).max(50).optional(),
+  weights: z
+    .object({
+      severity: priorityWeight,
+      trafficImpact: priorityWeight,
+      populationAffected: priorityWeight,
+      strategicImportance: priorityWeight,
+      safetyRisk: priorityWeight,
+      reportAge: priorityWeight,
+      alternativeRoutes: priorityWeight,
+    })
+    .refine((weights) => Object.values(weights).some((weight) => weight > 0), {
+      message: "At least one weight must be greater than zero",
+    }),
+});
+
+// GET /api/v1/admin/priority-configs - List priority weight versions
+// Requires super_admin role
+adminRoutes.get(
+  "/priority-configs",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+
+    const configs = await db
+      .select({
+        id: priorityConfig.id,
+        version: priorityConfig.version,
+        weights: priorityConfig.weights,
+        isActive: priorityConfig.isActive,
+        createdAt: priorityConfig.createdAt,
+        createdByName: user.name,
+      })
+      .from(priorityConfig)
+      .leftJoin(user, eq(priorityConfig.createdBy, user.id))
+      .orderBy(desc(priorityConfig.createdAt));
+
+    const active = configs.find((config) => config.isActive);
+
+    return c.json({
+      configs: configs.map((config) => ({
+        ...config,
+        weights: JSON.parse(config.weights) as PriorityWeights,
+      })),
+      activeVersion: active?.version || DEFAULT_PRIORITY_VERSION,
+      defaultWeights: DEFAULT_PRIORITY_WEIGHTS,
+    });
+  }
+);
+
+// POST /api/v1/admin/priority-configs - Create a new (inactive) priority weight version
+// Requires super_admin role
+adminRoutes.post(
+  "/priority-configs",
+  requireRole("super_admin"),
+  zValidator("json", createPriorityConfigSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { version: requestedVersion, weights } = c.req.valid("json");
+
+    const existing = await db
+      .select({ version: priorityConfig.version })
+      .from(priorityConfig);
+
+    const version = requestedVersion || `v${existing.length + 1}`;
+    if (version === DEFAULT_PRIORITY_VERSION || existing.some((config) => config.version === version)) {
+      return c.json({ error: `Version "${version}" already exists` }, 409);
+    }
+
+    const now = new Date();
+    const config = {
+      id: crypto.randomUUID(),
+      version,
+      weights: JSON.stringify(weights),
+      createdBy: auth?.userId || null,
+      createdAt: now,
+      isActive: false,
+    };
+    await db.insert(priorityConfig).values(config);
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "priority_config",
+        targetId: config.id,
+        fieldName: "version",
+        oldValue: null,
+        newValue: version,
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: { action: "created", version, weights },
+      },
+    ]);
+
+    return c.json({ config: { ...config, weights } }, 201);
+  }
+);
+
+// GET /api/v1/admin/priority-configs/:id/preview - Preview how open report ranking changes under a version
+// Requires super_admin role
+adminRoutes.get(
+  "/priority-configs/:id/preview",
+  requireRole("super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
 
-    if (!invitation) {
-      return c.json({ error: "Invitation not found" }, 404);
-    }
+    const [config] = await db
+      .select()
+      .from(priorityConfig)
+      .where(eq(priorityConfig.id, id));
 
-    if (invitation.status !== "pending") {
-      return c.json({ error: "Can only cancel pending invitations" }, 400);
+    if (!config) {
+      return c.json({ error: "Priority config not found" }, 404);
     }
 
-    await db
-      .update(userInvitations)
-      .set({ status: "cancelled" })
-      .where(eq(userInvitations.id, id));
-
-    // Record audit entry for invitation cancelled
-    await recordAuditEntries(db, [{
-      targetType: "invitation",
-      targetId: id,
-      fieldName: "status",
-      oldValue: "pending",
-      newValue: "cancelled",
-      performedBy: auth?.userId || null,
-      performerRole: auth?.role || null,
-      metadata: { email: invitation.email, role: invitation.role },
-    }]);
+    const active = await getActivePriorityConfig(db);
+    const preview = await previewPriorityChange(db, {
+      ...DEFAULT_PRIORITY_WEIGHTS,
+      ...(JSON.parse(config.weights) as Partial<PriorityWeights>),
+    });
 
-    return c.json({ success: true });
+    return c.json({
+      currentVersion: active.version,
+      version: config.version,
+      ...preview,
+    });
   }
 );
 
-// POST /api/v1/admin/users/invitations/:id/resend - Resend invitation email
-// Max 3 resends, with 1 hour cooloff between resends
-const MAX_RESENDS = 3;
-const RESEND_COOLOFF_MS = 60 * 60 * 1000; // 1 hour
-
+// POST /api/v1/admin/priority-configs/:id/activate - Activate a version (or roll back to an older one)
+// Re-scores all open reports with the activated weights
+// Requires super_admin role
 adminRoutes.post(
-  "/users/invitations/:id/resend",
+  "/priority-configs/:id/activate",
   requireRole("super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
     const auth = getAuth(c);
     const { id } = c.req.param();
 
-    const [invitation] = await db
+    const [config] = await db
       .select()
-      .from(userInvitations)
-      .where(eq(userInvitations.id, id));
-
-    if (!invitation) {
-      return c.json({ error: "Invitation not found" }, 404);
-    }
+      .from(priorityConfig)
+      .where(eq(priorityConfig.id, id));
 
-    if (invitation.status !== "pending") {
-      return c.json({ error: "Can only resend pending invitations" }, 400);
-    }
-
-    // Check resend limit
-    const resendCount = invitation.resendCount ?? 0;
-    if (resendCount >= MAX_RESENDS) {
-      return c.json({ error: "Maximum resend limit reached (3 times)" }, 400);
+    if (!config) {
+      return c.json({ error: "Priority config not found" }, 404);
     }
 
-    // Check cooloff period
-    if (invitation.lastResentAt) {
-      const timeSinceLastResend = Date.now() - invitation.lastResentAt.getTime();
-      if (timeSinceLastResend < RESEND_COOLOFF_MS) {
-        const minutesRemaining = Math.ceil((RESEND_COOLOFF_MS - timeSinceLastResend) / 60000);
-        return c.json({ error: `Please wait ${minutesRemaining} minutes before resending` }, 400);
-      }
+    if (config.isActive) {
+      return c.json({ error: `Version "${config.version}" is already active` }, 400);
     }
 
-    // Generate new token, magic token, and extend expiry
-    const newToken = crypto.randomUUID();
-    // Magic link token - must match better-auth format (32 char a-zA-Z)
-    const newMagicToken = generateRandomString(32);
-    const newExpiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    const now = new Date();
+    const previous = await getActivePriorityConfig(db);
 
-    // Update invitation with new token, expiry, and resend tracking
     await db
-      .update(userInvitations)
-      .set({
-        token: newToken,
-        expiresAt: newExpiresAt,
-        resendCount: resendCount + 1,
-        lastResentAt: now,
-      })
-      .where(eq(userInvitations.id, id));
+      .update(priorityConfig)
+      .set({ isActive: false })
+      .where(eq(priorityConfig.isActive, true));
+    await db
+      .update(priorityConfig)
+      .set({ isActive: true })
+      .where(eq(priorityConfig.id, id));
 
-    // Create magic link verification token in the EXACT format better-auth expects
-    await db.insert(verification).values({
-      id: crypto.randomUUID(),
-      identifier: newMagicToken, // Token is stored as identifier
-      value: JSON.stringify({ email: invitation.email, name: "" }), // Email stored in value as JSON
-      expiresAt: newExpiresAt,
-      createdAt: now,
-      updatedAt: now,
-    });
+    const activated = await getActivePriorityConfig(db);
+    const rescoredCount = await rescoreOpenReports(db, activated);
 
-    // Get inviter name for email
-    const inviterName = auth?.name || "An administrator";
+    await recordAuditEntries(db, [
+      {
+        targetType: "priority_config",
+        targetId: config.id,
+        fieldName: "activeVersion",
+        oldValue: previous.version,
+        newValue: config.version,
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: {
+          action: "activated",
+          version: config.version,
+          previousVersion: previous.version,
+          rescoredCount,
+        },
+      },
+    ]);
 
-    // Build invitation URL with both tokens
-    const baseUrl = c.req.header("origin") || "https://road-lk.org";
-    const inviteUrl = `${baseUrl}/accept-invite?token=${newToken}&magicToken=${newMagicToken}`;
+    return c.json({
+      success: true,
+      version: config.version,
+      previousVersion: previous.version,
+      rescoredCount,
+    });
+  }
+);
 
-    // Send invitation email
-    try {
-      await sendEmail(
-        c.env,
-        invitation.email,
-        "Reminder: You're Invited to Sri Lanka Road Status",
-        getInvitationEmailHtml({
-          inviterName,
-          role: invitation.role,
-          inviteUrl,
-          expiresAt: newExpiresAt,
-        })
-      );
-    } catch (error) {
-      console.error("Failed to resend invitation email:", error);
-      return c.json({ error: "Failed to send invitation email" }, 500);
-    }
+// POST /api/v1/admin/recalculate-priorities - Re-score all open reports with the active priority config
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/recalculate-priorities",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
 
-    // Record audit entry for invitation resent
-    await recordAuditEntries(db, [{
-      targetType: "invitation",
-      targetId: id,
-      fieldName: "resent",
-      oldValue: String(resendCount),
-      newValue: String(resendCount + 1),
-      performedBy: auth?.userId || null,
-      performerRole: auth?.role || null,
-      metadata: { email: invitation.email, role: invitation.role, expiresAt: newExpiresAt.toISOString() },
-    }]);
+    const config = await getActivePriorityConfig(db);
+    const rescoredCount = await rescoreOpenReports(db, config);
 
     return c.json({
       success: true,
-      expiresAt: newExpiresAt,
-      resendCount: resendCount + 1,
-      resendsRemaining: MAX_RESENDS - (resendCount + 1),
+      rescoredCount,
+      priorityVersion: config.version,
     });
   }
 );
 
-// GET /api/v1/admin/users/:id/audit-trail - Get audit trail for a user
+// ============ RATE LIMITS ============
+
+// How long blocked clients stay listed in the admin view
+const BLOCK_HISTORY_DAYS = 7;
+
+const addAllowlistSchema = z.object({
+  ipRange: z.string().trim().min(1).max(64),
+  label: z.string().trim().min(1).max(100),
+});
+
+// GET /api/v1/admin/rate-limits - Recently blocked clients and the IP allowlist
+// Requires admin or super_admin role
 adminRoutes.get(
-  "/users/:id/audit-trail",
-  requireRole("super_admin", "admin"),
+  "/rate-limits",
+  requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
-    const { id } = c.req.param();
-
-    // Check user exists
-    const [existingUser] = await db
-      .select({ id: user.id, email: user.email })
-      .from(user)
-      .where(eq(user.id, id));
-
-    if (!existingUser) {
-      return c.json({ error: "User not found" }, 404);
-    }
+    const now = new Date();
+    const since = new Date(now.getTime() - BLOCK_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+    const creator = alias(user, "creator_user");
 
-    // Get user's organization membership IDs for audit lookup
-    const userOrgMemberships = await db
-      .select({ id: userOrganizations.id })
-      .from(userOrganizations)
-      .where(eq(userOrganizations.userId, id));
-    const membershipIds = userOrgMemberships.map(m => m.id);
+    const allowlist = await db
+      .select({
+        id: ipAllowlist.id,
+        ipRange: ipAllowlist.ipRange,
+        label: ipAllowlist.label,
+        createdAt: ipAllowlist.createdAt,
+        createdByName: creator.name,
+      })
+      .from(ipAllowlist)
+      .leftJoin(creator, eq(ipAllowlist.createdBy, creator.id))
+      .orderBy(ipAllowlist.ipRange);
 
-    // Get invitations for this user's email
-    const userInvites = await db
-      .select({ id: userInvitations.id })
-      .from(userInvitations)
-      .where(eq(userInvitations.email, existingUser.email));
-    const invitationIds = userInvites.map(i => i.id);
+    const blocks = await db
+      .select({
+        id: rateLimitBlocks.id,
+        bucket: rateLimitBlocks.bucket,
+        clientKey: rateLimitBlocks.clientKey,
+        ipAddress: rateLimitBlocks.ipAddress,
+        userId: rateLimitBlocks.userId,
+        userName: user.name,
+        userEmail: user.email,
+        userAgent: rateLimitBlocks.userAgent,
+        blockedCount: rateLimitBlocks.blockedCount,
+        firstBlockedAt: rateLimitBlocks.firstBlockedAt,
+        lastBlockedAt: rateLimitBlocks.lastBlockedAt,
+        blockedUntil: rateLimitBlocks.blockedUntil,
+      })
+      .from(rateLimitBlocks)
+      .leftJoin(user, eq(rateLimitBlocks.userId, user.id))
+      .where(gte(rateLimitBlocks.lastBlockedAt, since))
+      .orderBy(desc(rateLimitBlocks.lastBlockedAt));
 
-    // Alias for performer user lookup
-    const performer = alias(user, "performer");
+    return c.json({
+      blocked: blocks.map((block) => ({
+        ...block,
+        isActive: block.blockedUntil > now,
+        isAllowlisted: Boolean(
+          block.ipAddress && allowlist.some((entry) => ipMatchesRange(block.ipAddress!, entry.ipRange))
+        ),
+      })),
+      allowlist,
+    });
+  }
+);
 
-    // Build query for all audit entries related to this user:
-    // 1. Direct user changes (targetType='user' AND targetId=userId)
-    // 2. Their invitations (targetType='invitation' AND targetId IN invitationIds)
-    // 3. Their org memberships (targetType='user_organization' AND targetId IN membershipIds)
-    // 4. Changes they performed (userId=id)
-    const conditions = [
-      and(eq(stateTransitions.targetType, "user"), eq(stateTransitions.targetId, id)),
-      eq(stateTransitions.userId, id),
-    ];
+// POST /api/v1/admin/rate-limits/allowlist - Exempt an IP address or IPv4 CIDR range from rate limits
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/rate-limits/allowlist",
+  requireRole("admin", "super_admin"),
+  zValidator("json", addAllowlistSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { ipRange: input, label } = c.req.valid("json");
 
-    if (invitationIds.length > 0) {
-      conditions.push(
-        and(
-          eq(stateTransitions.targetType, "invitation"),
-          or(...invitationIds.map(invId => eq(stateTransitions.targetId, invId)))
-        )
-      );
+    const ipRange = normalizeIpRange(input);
+    if (!ipRange) {
+      return c.json({ error: "Enter an IP address or an IPv4 CIDR range such as 203.0.113.0/24" }, 400);
     }
 
-    if (membershipIds.length > 0) {
-      conditions.push(
-        and(
-          eq(stateTransitions.targetType, "user_organization"),
-          or(...membershipIds.map(memId => eq(stateTransitions.targetId, memId)))
-        )
-      );
+    const [existing] = await db
+      .select({ id: ipAllowlist.id })
+      .from(ipAllowlist)
+      .where(eq(ipAllowlist.ipRange, ipRange));
+    if (existing) {
+      return c.json({ error: `${ipRange} is already allowlisted` }, 409);
     }
 
-    const auditEntries = await db
-      .select({
-        id: stateTransitions.id,
-        targetType: stateTransitions.targetType,
-        targetId: stateTransitions.targetId,
-        fieldName: stateTransitions.fieldName,
-        oldValue: stateTransitions.oldValue,
-        newValue: stateTransitions.newValue,
-        reason: stateTransitions.reason,
-        metadata: stateTransitions.metadata,
-        createdAt: stateTransitions.createdAt,
-        performedById: stateTransitions.userId,
-        performerRole: stateTransitions.userRole,
-        performerName: performer.name,
-      })
-      .from(stateTransitions)
-      .leftJoin(performer, eq(stateTransitions.userId, performer.id))
-      .where(or(...conditions))
-      .orderBy(desc(stateTransitions.createdAt))
-      .limit(100);
+    const entry = {
+      id: crypto.randomUUID(),
+      ipRange,
+      label,
+      createdBy: auth.userId,
+      createdAt: new Date(),
+    };
+    await db.insert(ipAllowlist).values(entry);
 
-    // Parse metadata JSON and format response
-    const formattedEntries = auditEntries.map(entry => ({
-      ...entry,
-      metadata: entry.metadata ? JSON.parse(entry.metadata) : null,
-    }));
+    await recordAuditEntries(db, [
+      {
+        targetType: "ip_allowlist",
+        targetId: entry.id,
+        fieldName: "ipRange",
+        oldValue: null,
+        newValue: ipRange,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "created", ipRange, label },
+      },
+    ]);
 
-    return c.json({
-      userId: id,
-      entries: formattedEntries,
-    });
+    return c.json({ entry }, 201);
   }
 );
 
-// ============ USER-ORGANIZATION MANAGEMENT ============
-
-// GET /api/v1/admin/users/:id/organizations - Get user's organization memberships
-adminRoutes.get(
-  "/users/:id/organizations",
-  requireRole("super_admin", "admin"),
+// DELETE /api/v1/admin/rate-limits/allowlist/:id - Remove an allowlist entry
+// Requires admin or super_admin role
+adminRoutes.delete(
+  "/rate-limits/allowlist/:id",
+  requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
     const { id } = c.req.param();
-
-    // Check user exists
-    const [existingUser] = await db
-      .select({ id: user.id })
-      .from(user)
-      .where(eq(user.id, id));
-
-    if (!existingUser) {
-      return c.json({ error: "User not found" }, 404);
+
+    const [entry] = await db
+      .select()
+      .from(ipAllowlist)
+      .where(eq(ipAllowlist.id, id));
+    if (!entry) {
+      return c.json({ error: "Allowlist entry not found" }, 404);
     }
 
-    // Get user's organizations with details
-    const memberships = await db
-      .select({
-        organizationId: userOrganizations.organizationId,
-        role: userOrganizations.role,
-        isPrimary: userOrganizations.isPrimary,
-        assignedAt: userOrganizations.createdAt,
-        orgName: organizations.name,
-        orgCode: organizations.code,
-        orgType: organizations.type,
-        orgProvince: organizations.province,
-      })
-      .from(userOrganizations)
-      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
-      .where(eq(userOrganizations.userId, id));
+    await db.delete(ipAllowlist).where(eq(ipAllowlist.id, id));
 
-    return c.json(memberships);
+    await recordAuditEntries(db, [
+      {
+        targetType: "ip_allowlist",
+        targetId: id,
+        fieldName: "ipRange",
+        oldValue: entry.ipRange,
+        newValue: null,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "deleted", ipRange: entry.ipRange, label: entry.label },
+      },
+    ]);
+
+    return c.json({ success: true });
   }
 );
 
-// Assign user to organization schema
-const assignOrgSchema = z.object({
-  organizationId: z.string(),
-  role: z.enum(["member", "manager", "admin"]).default("member"),
-  isPrimary: z.boolean().default(false),
-});
-
-// POST /api/v1/admin/users/:id/organizations - Assign user to organization
-adminRoutes.post(
-  "/users/:id/organizations",
-  requireRole("super_admin", "admin"),
-  zValidator("json", assignOrgSchema),
+// DELETE /api/v1/admin/rate-limits/blocks/:id - Unblock a client by clearing its counters
+// Requires admin or super_admin role
+adminRoutes.delete(
+  "/rate-limits/blocks/:id",
+  requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
     const { id } = c.req.param();
-    const { organizationId, role, isPrimary } = c.req.valid("json");
-
-    // Check user exists
-    const [existingUser] = await db
-      .select({ id: user.id })
-      .from(user)
-      .where(eq(user.id, id));
 
-    if (!existingUser) {
-      return c.json({ error: "User not found" }, 404);
+    const [block] = await db
+      .select()
+      .from(rateLimitBlocks)
+      .where(eq(rateLimitBlocks.id, id));
+    if (!block) {
+      return c.json({ error: "Blocked client not found" }, 404);
     }
 
-    // Check organization exists
-    const [org] = await db
-      .select({ id: organizations.id })
-      .from(organizations)
-      .where(eq(organizations.id, organizationId));
+    await createD1RateLimitStore(db).reset(block.bucket, block.clientKey);
+    await db.delete(rateLimitBlocks).where(eq(rateLimitBlocks.id, id));
 
-    if (!org) {
-      return c.json({ error: "Organization not found" }, 404);
-    }
+    return c.json({ success: true });
+  }
+);
 
-    // Check if assignment already exists
-    const [existing] = await db
-      .select()
-      .from(userOrganizations)
-      .where(
-        and(
-          eq(userOrganizations.userId, id),
-          eq(userOrganizations.organizationId, organizationId)
-        )
-      );
+// ============ WEBHOOKS ============
+
+// Partner endpoints must use HTTPS; plain HTTP is allowed for a local receiver during development
+const webhookUrlSchema = z
+  .string()
+  .trim()
+  .url()
+  .max(500)
+  .refine((value) => {
+    const url = new URL(value);
+    return url.protocol === "https:" || (url.protocol === "http:" && ["localhost", "127.0.0.1"].includes(url.hostname));
+  }, "Webhook URLs must use https");
+
+const createWebhookSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  url: webhookUrlSchema,
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1),
+});
 
-    if (existing) {
-      return c.json({ error: "User is already a member of this organization" }, 400);
-    }
+const updateWebhookSchema = z.object({
+  name: z.string().trim().min(1).max(100).optional(),
+  url: webhookUrlSchema.optional(),
+  eventTypes: z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).optional(),
+  isActive: z.boolean().optional(),
+});
 
-    // If this is being set as primary, unset other primaries
-    if (isPrimary) {
-      await db
-        .update(userOrganizations)
-        .set({ isPrimary: false })
-        .where(eq(userOrganizations.userId, id));
-    }
+const listDeliveriesSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  status: z.enum(["pending", "succeeded", "failed"]).optional(),
+});
 
-    // Create assignment
-    const assignmentId = crypto.randomUUID();
-    await db.insert(userOrganizations).values({
-      id: assignmentId,
-      userId: id,
-      organizationId,
-      role,
-      isPrimary,
-    });
+// The list only shows the end of the secret; the whole secret is returned on create and rotate
+function formatWebhook(webhook: typeof webhooks.$inferSelect) {
+  const { secret, eventTypes, ...fields } = webhook;
+  return { ...fields, eventTypes: parseEventTypes(eventTypes), secretHint: secret.slice(-4) };
+}
 
-    // Fetch the created assignment with org details
-    const [assignment] = await db
+// GET /api/v1/admin/webhooks - Registered webhooks with pending/failed delivery counts
+// Requires admin or super_admin role
+adminRoutes.get(
+  "/webhooks",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+
+    const rows = await db.select().from(webhooks).orderBy(webhooks.name);
+    const stats = await db
       .select({
-        organizationId: userOrganizations.organizationId,
-        role: userOrganizations.role,
-        isPrimary: userOrganizations.isPrimary,
-        assignedAt: userOrganizations.createdAt,
-        orgName: organizations.name,
-        orgCode: organizations.code,
-        orgType: organizations.type,
+        webhookId: webhookDeliveries.webhookId,
+        status: webhookDeliveries.status,
+        count: sql<number>`count(*)`,
+        lastDeliveryAt: sql<number | null>`max(${webhookDeliveries.createdAt})`,
       })
-      .from(userOrganizations)
-      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
-      .where(eq(userOrganizations.id, assignmentId));
+      .from(webhookDeliveries)
+      .groupBy(webhookDeliveries.webhookId, webhookDeliveries.status);
 
-    // Record audit entry for organization assignment
-    const auth = getAuth(c);
-    await recordAuditEntries(db, [{
-      targetType: "user_organization",
-      targetId: assignmentId,
-      fieldName: "assignment",
-      oldValue: null,
-      newValue: "created",
-      performedBy: auth?.userId || null,
-      performerRole: auth?.role || null,
-      metadata: {
-        userId: id,
-        organizationId,
-        orgName: assignment?.orgName,
-        role,
-        isPrimary,
+    return c.json({
+      eventTypes: WEBHOOK_EVENT_TYPES,
+      webhooks: rows.map((webhook) => {
+        const webhookStats = stats.filter((row) => row.webhookId === webhook.id);
+        const countOf = (status: string) => webhookStats.find((row) => row.status === status)?.count || 0;
+        const lastDeliveryAt = Math.max(0, ...webhookStats.map((row) => row.lastDeliveryAt || 0));
+        return {
+          ...formatWebhook(webhook),
+          pendingCount: countOf("pending"),
+          failedCount: countOf("failed"),
+          succeededCount: countOf("succeeded"),
+          lastDeliveryAt: lastDeliveryAt ? new Date(lastDeliveryAt * 1000) : null,
+        };
+      }),
+    });
+  }
+);
+
+// POST /api/v1/admin/webhooks - Register a webhook; the response holds its signing secret
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/webhooks",
+  requireRole("admin", "super_admin"),
+  zValidator("json", createWebhookSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { name, url, eventTypes } = c.req.valid("json");
+
+    const now = new Date();
+    const webhook = {
+      id: crypto.randomUUID(),
+      name,
+      url,
+      secret: generateWebhookSecret(),
+      eventTypes: JSON.stringify(eventTypes),
+      isActive: true,
+      createdBy: auth.userId,
+      createdAt: now,
+      updatedAt: now,
+    };
+    await db.insert(webhooks).values(webhook);
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "webhook",
+        targetId: webhook.id,
+        fieldName: "url",
+        oldValue: null,
+        newValue: url,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "created", name, eventTypes },
       },
-    }]);
+    ]);
 
-    return c.json({ success: true, assignment });
+    return c.json({ webhook: formatWebhook(webhook), secret: webhook.secret }, 201);
   }
 );
 
-// PATCH /api/v1/admin/users/:id/organizations/:orgId - Update membership
+// PATCH /api/v1/admin/webhooks/:id - Rename, change URL or events, or pause/resume a webhook
+// Requires admin or super_admin role
 adminRoutes.patch(
-  "/users/:id/organizations/:orgId",
-  requireRole("super_admin", "admin"),
-  zValidator("json", z.object({
-    role: z.enum(["member", "manager", "admin"]).optional(),
-    isPrimary: z.boolean().optional(),
-  })),
+  "/webhooks/:id",
+  requireRole("admin", "super_admin"),
+  zValidator("json", updateWebhookSchema),
   async (c) => {
     const db = createDb(c.env.DB);
-    const { id, orgId } = c.req.param();
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
     const updates = c.req.valid("json");
 
-    // Check membership exists
-    const [membership] = await db
-      .select()
-      .from(userOrganizations)
-      .where(
-        and(
-          eq(userOrganizations.userId, id),
-          eq(userOrganizations.organizationId, orgId)
-        )
-      );
-
-    if (!membership) {
-      return c.json({ error: "Membership not found" }, 404);
-    }
-
-    // If setting as primary, unset other primaries first
-    if (updates.isPrimary) {
-      await db
-        .update(userOrganizations)
-        .set({ isPrimary: false })
-        .where(eq(userOrganizations.userId, id));
+    const [existing] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    if (!existing) {
+      return c.json({ error: "Webhook not found" }, 404);
     }
 
-    // Update membership
-    const updateData: Record<string, unknown> = {};
-    if (updates.role !== undefined) updateData.role = updates.role;
-    if (updates.isPrimary !== undefined) updateData.isPrimary = updates.isPrimary;
-
-    await db
-      .update(userOrganizations)
-      .set(updateData)
-      .where(
-        and(
-          eq(userOrganizations.userId, id),
-          eq(userOrganizations.organizationId, orgId)
-        )
-      );
-
-    // Record audit entries for changed fields
-    const auth = getAuth(c);
+    const columnValues: Partial<typeof webhooks.$inferInsert> = {
+      ...(updates.name !== undefined && { name: updates.name }),
+      ...(updates.url !== undefined && { url: updates.url }),
+      ...(updates.eventTypes !== undefined && { eventTypes: JSON.stringify(updates.eventTypes) }),
+      ...(updates.isActive !== undefined && { isActive: updates.isActive }),
+    };
     const auditEntries = createFieldChangeEntries(
-      "user_organization",
-      membership.id,
-      { role: membership.role, isPrimary: membership.isPrimary },
-      updateData as { role?: string; isPrimary?: boolean },
-      auth?.userId || null,
-      auth?.role || null,
-      { userId: id, organizationId: orgId }
+      "webhook",
+      id,
+      existing as unknown as Record<string, unknown>,
+      columnValues,
+      auth.userId,
+      auth.role,
+      { name: existing.name }
     );
-    if (auditEntries.length > 0) {
-      await recordAuditEntries(db, auditEntries);
+    if (auditEntries.length === 0) {
+      return c.json({ webhook: formatWebhook(existing) });
     }
 
-    return c.json({ success: true });
+    await db
+      .update(webhooks)
+      .set({ ...columnValues, updatedAt: new Date() })
+      .where(eq(webhooks.id, id));
+    await recordAuditEntries(db, auditEntries);
+
+    const [updated] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    return c.json({ webhook: formatWebhook(updated) });
   }
 );
 
-// DELETE /api/v1/admin/users/:id/organizations/:orgId - Remove user from organization
-adminRoutes.delete(
-  "/users/:id/organizations/:orgId",
-  requireRole("super_admin", "admin"),
+// POST /api/v1/admin/webhooks/:id/rotate-secret - Replace the signing secret
+// Deliveries are signed with the new secret straight away, including retries
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/webhooks/:id/rotate-secret",
+  requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
-    const { id, orgId } = c.req.param();
-
-    // Check membership exists
-    const [membership] = await db
-      .select()
-      .from(userOrganizations)
-      .where(
-        and(
-          eq(userOrganizations.userId, id),
-          eq(userOrganizations.organizationId, orgId)
-        )
-      );
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
 
-    if (!membership) {
-      return c.json({ error: "Membership not found" }, 404);
+    const [existing] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    if (!existing) {
+      return c.json({ error: "Webhook not found" }, 404);
     }
 
-    // Delete the membership
+    const secret = generateWebhookSecret();
     await db
-      .delete(userOrganizations)
-      .where(
-        and(
-          eq(userOrganizations.userId, id),
-          eq(userOrganizations.organizationId, orgId)
-        )
-      );
+      .update(webhooks)
+      .set({ secret, updatedAt: new Date() })
+      .where(eq(webhooks.id, id));
 
-    // Record audit entry for organization removal
-    const auth = getAuth(c);
-    await recordAuditEntries(db, [{
-      targetType: "user_organization",
-      targetId: membership.id,
-      fieldName: "assignment",
-      oldValue: "active",
-      newValue: "removed",
-      performedBy: auth?.userId || null,
-      performerRole: auth?.role || null,
-      metadata: {
-        userId: id,
-        organizationId: orgId,
-        previousRole: membership.role,
-        wasPrimary: membership.isPrimary,
+    await recordAuditEntries(db, [
+      {
+        targetType: "webhook",
+        targetId: id,
+        fieldName: "secret",
+        oldValue: null,
+        newValue: null,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "rotated", name: existing.name },
       },
-    }]);
+    ]);
 
-    return c.json({ success: true });
+    return c.json({ secret });
   }
 );
 
-// ============ UNIVERSAL AUDIT TRAIL ============
-
-// GET /api/v1/admin/audit-trail - Get all audit entries with pagination
-adminRoutes.get(
-  "/audit-trail",
-  requireRole("super_admin"),
+// DELETE /api/v1/admin/webhooks/:id - Remove a webhook and its delivery log
+// Requires admin or super_admin role
+adminRoutes.delete(
+  "/webhooks/:id",
+  requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
-    const url = new URL(c.req.url);
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
 
-    // Pagination params
-    const page = Math.max(1, parseInt(url.searchParams.get("page") || "1"));
-    const limit = Math.min(100, Math.max(10, parseInt(url.searchParams.get("limit") || "50")));
-    const offset = (page - 1) * limit;
+    const [existing] = await db.select().from(webhooks).where(eq(webhooks.id, id));
+    if (!existing) {
+      return c.json({ error: "Webhook not found" }, 404);
+    }
 
-    // Filter params
-    const targetType = url.searchParams.get("targetType"); // report, user, invitation, user_organization
-    const performerId = url.searchParams.get("performerId");
+    await db.delete(webhookDeliveries).where(eq(webhookDeliveries.webhookId, id));
+    await db.delete(webhooks).where(eq(webhooks.id, id));
 
-    // Alias for performer user lookup
-    const performer = alias(user, "performer");
+    await recordAuditEntries(db, [
+      {
+        targetType: "webhook",
+        targetId: id,
+        fieldName: "url",
+        oldValue: existing.url,
+        newValue: null,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "deleted", name: existing.name },
+      },
+    ]);
 
-    // Build conditions
-    const conditions = [];
-    if (targetType) {
-      conditions.push(eq(stateTransitions.targetType, targetType));
-    }
-    if (performerId) {
-      conditions.push(eq(stateTransitions.userId, performerId));
-    }
+    return c.json({ success: true });
+  }
+);
 
-    // This is a workaround since D1 doesn't have COUNT()
-    const allIds = await db
-      .select({ id: stateTransitions.id })
-      .from(stateTransitions)
-      .where(conditions.length > 0 ? and(...conditions) : undefined);
-    const totalCount = allIds.length;
+// GET /api/v1/admin/webhooks/:id/deliveries - Delivery history, newest first
+// Query: page, limit, status (pending, succeeded, failed)
+// Requires admin or super_admin role
+adminRoutes.get(
+  "/webhooks/:id/deliveries",
+  requireRole("admin", "super_admin"),
+  zValidator("query", listDeliveriesSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+    const { page, limit, status } = c.req.valid("query");
 
-    // Get paginated entries
-    const entries = await db
-      .select({
-        id: stateTransitions.id,
-        targetType: stateTransitions.targetType,
-        targetId: stateTransitions.targetId,
-        reportId: stateTransitions.reportId,
-        fieldName: stateTransitions.fieldName,
-        oldValue: stateTransitions.oldValue,
-        newValue: stateTransitions.newValue,
-        fromStatus: stateTransitions.fromStatus,
-        toStatus: stateTransitions.toStatus,
-        reason: stateTransitions.reason,
-        metadata: stateTransitions.metadata,
-        createdAt: stateTransitions.createdAt,
-        performedById: stateTransitions.userId,
-        performerRole: stateTransitions.userRole,
-        performerName: performer.name,
-        performerEmail: performer.email,
-      })
-      .from(stateTransitions)
-      .leftJoin(performer, eq(stateTransitions.userId, performer.id))
-      .where(conditions.length > 0 ? and(...conditions) : undefined)
-      .orderBy(desc(stateTransitions.createdAt))
-      .limit(limit)
-      .offset(offset);
+    const where = and(eq(webhookDeliveries.webhookId, id), status ? eq(webhookDeliveries.status, status) : undefined);
+    const [{ totalCount }] = await db
+      .select({ totalCount: sql<number>`count(*)` })
+      .from(webhookDeliveries)
+      .where(where);
 
-    // Parse metadata JSON
-    const formattedEntries = entries.map(entry => ({
-      ...entry,
-      metadata: entry.metadata ? JSON.parse(entry.metadata) : null,
-    }));
+    const deliveries = await db
+      .select()
+      .from(webhookDeliveries)
+      .where(where)
+      .orderBy(desc(webhookDeliveries.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
 
     return c.json({
-      entries: formattedEntries,
+      deliveries: deliveries.map(({ payload, ...delivery }) => ({ ...delivery, payload: JSON.parse(payload) })),
       pagination: {
         page,
         limit,
@@ -1946,158 +3913,206 @@ adminRoutes.get(
   }
 );
 
-// POST /api/v1/admin/fix-location-names - Fix location names to include (district, province) format
+// POST /api/v1/admin/webhooks/:id/test - Send a webhook.test event now and return the outcome
+// Requires admin or super_admin role
 adminRoutes.post(
-  "/fix-location-names",
+  "/webhooks/:id/test",
   requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
 
-    // Get all reports with provinceId and districtId but locationName doesn't have parentheses
-    const reportsToFix = await db
-      .select({
-        id: damageReports.id,
-        locationName: damageReports.locationName,
-        provinceId: damageReports.provinceId,
-        districtId: damageReports.districtId,
-      })
-      .from(damageReports)
-      .where(
-        and(
-          sql`${damageReports.provinceId} IS NOT NULL`,
-          sql`${damageReports.districtId} IS NOT NULL`,
-          sql`${damageReports.locationName} IS NOT NULL`
-        )
-      );
+    const [existing] = await db.select({ id: webhooks.id }).from(webhooks).where(eq(webhooks.id, id));
+    if (!existing) {
+      return c.json({ error: "Webhook not found" }, 404);
+    }
 
-    // Create aliases for location lookups
-    const provinceLocation = alias(locations, "province_location");
-    const districtLocation = alias(locations, "district_location");
+    const [deliveryId] = await queueWebhookEvent(db, "webhook.test", { sentBy: auth.name }, id);
+    await deliverWebhooks(db, [deliveryId]);
 
-    let fixedCount = 0;
-    const updates: Array<{ id: string; oldName: string; newName: string }> = [];
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+    return c.json({ delivery: { ...delivery, payload: JSON.parse(delivery.payload) } });
+  }
+);
 
-    for (const report of reportsToFix) {
-      // Check if location name already has the (district, province) format
-      if (report.locationName && report.locationName.includes('(') && report.locationName.includes(')')) {
-        continue; // Already formatted, skip
-      }
+// POST /api/v1/admin/webhooks/deliveries/:deliveryId/redeliver - Retry a delivery now
+// Failed deliveries get a fresh set of retries
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/webhooks/deliveries/:deliveryId/redeliver",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { deliveryId } = c.req.param();
 
-      // Get province and district names
-      const [provinceData] = await db
-        .select({ nameEn: provinceLocation.nameEn })
-        .from(provinceLocation)
-        .where(eq(provinceLocation.id, report.provinceId!));
+    const [existing] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+    if (!existing) {
+      return c.json({ error: "Delivery not found" }, 404);
+    }
+    if (existing.status === "succeeded") {
+      return c.json({ error: "This delivery already succeeded" }, 400);
+    }
 
-      const [districtData] = await db
-        .select({ nameEn: districtLocation.nameEn })
-        .from(districtLocation)
-        .where(eq(districtLocation.id, report.districtId!));
+    // Only a failed delivery is reset; a pending one is sent now as its next attempt. Either
+    // way it is claimed before sending, so a cron run sending it at the same time wins cleanly.
+    await db
+      .update(webhookDeliveries)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(and(eq(webhookDeliveries.id, deliveryId), eq(webhookDeliveries.status, "failed")));
+    await deliverWebhooks(db, [deliveryId]);
 
-      if (!provinceData || !districtData) {
-        continue; // Skip if location data not found
-      }
+    const [delivery] = await db.select().from(webhookDeliveries).where(eq(webhookDeliveries.id, deliveryId));
+    return c.json({ delivery: { ...delivery, payload: JSON.parse(delivery.payload) } });
+  }
+);
 
-      // Format: "Road Name (district, province)"
-      const newLocationName = `${report.locationName} (${districtData.nameEn}, ${provinceData.nameEn})`;
+// ============ EMAIL OUTBOX ============
 
-      // Update the report
-      await db
-        .update(damageReports)
-        .set({
-          locationName: newLocationName,
-          updatedAt: new Date()
-        })
-        .where(eq(damageReports.id, report.id));
+const listEmailsSchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  status: z.enum(["pending", "sent", "failed"]).optional(),
+  q: z.string().trim().max(100).optional(),
+});
 
-      updates.push({
-        id: report.id,
-        oldName: report.locationName!,
-        newName: newLocationName,
-      });
+// Bodies are left out: they hold sign-in and verification links meant only for the recipient
+const outboxColumns = {
+  id: emailOutbox.id,
+  toAddress: emailOutbox.toAddress,
+  subject: emailOutbox.subject,
+  status: emailOutbox.status,
+  attempts: emailOutbox.attempts,
+  nextAttemptAt: emailOutbox.nextAttemptAt,
+  transport: emailOutbox.transport,
+  lastError: emailOutbox.lastError,
+  createdAt: emailOutbox.createdAt,
+  sentAt: emailOutbox.sentAt,
+};
+
+// GET /api/v1/admin/emails - Outgoing email log, newest first, with counts per status
+// Query: page, limit, status (pending, sent, failed), q (recipient or subject)
+// Requires admin or super_admin role
+adminRoutes.get(
+  "/emails",
+  requireRole("admin", "super_admin"),
+  zValidator("query", listEmailsSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { page, limit, status, q } = c.req.valid("query");
 
-      fixedCount++;
+    const where = and(
+      status ? eq(emailOutbox.status, status) : undefined,
+      q ? or(like(emailOutbox.toAddress, `%${q}%`), like(emailOutbox.subject, `%${q}%`)) : undefined
+    );
+    const [{ totalCount }] = await db
+      .select({ totalCount: sql<number>`count(*)` })
+      .from(emailOutbox)
+      .where(where);
+
+    const emails = await db
+      .select(outboxColumns)
+      .from(emailOutbox)
+      .where(where)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(limit)
+      .offset((page - 1) * limit);
+
+    const statusCounts = await db
+      .select({ status: emailOutbox.status, count: sql<number>`count(*)` })
+      .from(emailOutbox)
+      .groupBy(emailOutbox.status);
+    const countOf = (value: string) => statusCounts.find((row) => row.status === value)?.count || 0;
+
+    // A misconfigured EMAIL_TRANSPORT shows up here as well as on every failed send
+    let transport: string | null = null;
+    try {
+      transport = getEmailTransport(c.env).name;
+    } catch (error) {
+      console.error("Invalid email transport:", error);
     }
 
     return c.json({
-      success: true,
-      fixedCount,
-      totalChecked: reportsToFix.length,
-      updates,
+      emails,
+      transport,
+      counts: { pending: countOf("pending"), sent: countOf("sent"), failed: countOf("failed") },
+      pagination: {
+        page,
+        limit,
+        totalCount,
+        totalPages: Math.ceil(totalCount / limit),
+        hasNext: page * limit < totalCount,
+        hasPrev: page > 1,
+      },
     });
   }
 );
 
-// POST /api/v1/admin/auto-verify-trusted-reports - Auto-verify reports from trusted users
+// POST /api/v1/admin/emails/retry-failed - Give every failed email a fresh set of retries
+// They are sent in the background, the same way the cron trigger sends due emails
+// Requires admin or super_admin role
 adminRoutes.post(
-  "/auto-verify-trusted-reports",
+  "/emails/retry-failed",
   requireRole("admin", "super_admin"),
   async (c) => {
     const db = createDb(c.env.DB);
 
-    // Get all "new" status reports that have a submitter (not anonymous)
-    // and where the submitter is not a citizen
-    const unverifiedReports = await db
-      .select({
-        id: damageReports.id,
-        reportNumber: damageReports.reportNumber,
-        submitterId: damageReports.submitterId,
-        sourceType: damageReports.sourceType,
-        status: damageReports.status,
-      })
-      .from(damageReports)
-      .leftJoin(user, eq(damageReports.submitterId, user.id))
-      .where(
-        and(
-          eq(damageReports.status, "new"),
-          isNotNull(damageReports.submitterId)
-        )
-      );
-
-    // For each report, check if submitter is a trusted user
-    let verifiedCount = 0;
-    const verifiedReports: Array<{ id: string; reportNumber: string; userRole: string }> = [];
+    const requeued = await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0, nextAttemptAt: new Date() })
+      .where(eq(emailOutbox.status, "failed"))
+      .returning({ id: emailOutbox.id });
+    if (requeued.length > 0) {
+      c.executionCtx.waitUntil(processDueEmails(c.env, db));
+    }
 
-    for (const report of unverifiedReports) {
-      if (!report.submitterId) continue;
+    return c.json({ count: requeued.length });
+  }
+);
 
-      // Get user details
-      const [submitter] = await db
-        .select({ role: user.role })
-        .from(user)
-        .where(eq(user.id, report.submitterId));
+// POST /api/v1/admin/emails/:id/retry - Send a pending or failed email now
+// Failed emails get a fresh set of retries
+// Requires admin or super_admin role
+adminRoutes.post(
+  "/emails/:id/retry",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
 
-      if (!submitter) continue;
+    const [existing] = await db.select().from(emailOutbox).where(eq(emailOutbox.id, id));
+    if (!existing) {
+      return c.json({ error: "Email not found" }, 404);
+    }
+    if (existing.status === "sent") {
+      return c.json({ error: "This email was already sent" }, 400);
+    }
 
-      // Check if user is a trusted submitter (not a citizen)
-      const isTrusted = submitter.role && submitter.role !== "citizen";
+    await retryEmail(c.env, db, existing);
 
-      if (isTrusted) {
-        // Update report status to verified
-        await db
-          .update(damageReports)
-          .set({
-            status: "verified",
-            updatedAt: new Date(),
-          })
-          .where(eq(damageReports.id, report.id));
+    const [email] = await db.select(outboxColumns).from(emailOutbox).where(eq(emailOutbox.id, id));
+    return c.json({ email });
+  }
+);
 
-        verifiedReports.push({
-          id: report.id,
-          reportNumber: report.reportNumber,
-          userRole: submitter.role,
-        });
+// DELETE /api/v1/admin/emails/:id - Discard an email that shouldn't be retried
+// Requires admin or super_admin role
+adminRoutes.delete(
+  "/emails/:id",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
 
-        verifiedCount++;
-      }
+    const deleted = await db
+      .delete(emailOutbox)
+      .where(and(eq(emailOutbox.id, id), ne(emailOutbox.status, "sent")))
+      .returning({ id: emailOutbox.id });
+    if (deleted.length === 0) {
+      return c.json({ error: "Email not found or already sent" }, 404);
     }
 
-    return c.json({
-      success: true,
-      verifiedCount,
-      totalChecked: unverifiedReports.length,
-      verifiedReports,
-    });
+    return c.json({ success: true });
   }
 );
 
@@ -0,0 +1,362 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { createDb } from "../db";
+import { comments, damageReports, user } from "../db/schema";
+import { eq, and, asc, inArray, isNull, like, or } from "drizzle-orm";
+import { recordAuditEntries, createFieldChangeEntries } from "../services/audit";
+import {
+  COMMENT_AUTHOR_ROLES,
+  extractMentionIds,
+  stripMentionMarkup,
+  notifyMentionedUsers,
+} from "../services/comments";
+import { authMiddleware, optionalAuthMiddleware, requireRole, getAuth } from "../middleware/auth";
+
+const commentsRoutes = new Hono<{ Bindings: Env }>();
+
+// Reports whose public updates may be shown to anyone (the statuses shown on the public map)
+const PUBLIC_REPORT_STATUSES = ["verified", "in_progress", "linked_to_project", "resolved"];
+
+const createCommentSchema = z.object({
+  reportId: z.string().min(1),
+  content: z.string().trim().min(1).max(5000),
+  // Internal notes are visible only to officials; public updates appear on the map
+  isInternal: z.boolean().default(true),
+  // Reply to an existing comment; replies inherit the thread's visibility
+  parentId: z.string().optional(),
+});
+
+const updateCommentSchema = z.object({
+  content: z.string().trim().min(1).max(5000).optional(),
+  isInternal: z.boolean().optional(),
+});
+
+function getBaseUrl(c: { env: Env; req: { header: (name: string) => string | undefined } }): string {
+  return c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+}
+
+// GET /api/v1/comments?reportId=... - List comments on a report
+// Officials see internal notes and deleted placeholders; everyone else sees public updates only
+commentsRoutes.get("/", optionalAuthMiddleware(), async (c) => {
+  const db = createDb(c.env.DB);
+  const auth = getAuth(c);
+  const reportId = c.req.query("reportId");
+
+  if (!reportId) {
+    return c.json({ error: "reportId is required" }, 400);
+  }
+
+  const [report] = await db
+    .select({ id: damageReports.id, status: damageReports.status })
+    .from(damageReports)
+    .where(eq(damageReports.id, reportId));
+
+  if (!report) {
+    return c.json({ error: "Report not found" }, 404);
+  }
+
+  const isOfficial = Boolean(auth && COMMENT_AUTHOR_ROLES.includes(auth.role));
+
+  if (!isOfficial) {
+    if (!PUBLIC_REPORT_STATUSES.includes(report.status)) {
+      return c.json({ comments: [] });
+    }
+
+    const publicComments = await db
+      .select({
+        id: comments.id,
+        parentId: comments.parentId,
+        content: comments.content,
+        createdAt: comments.createdAt,
+        updatedAt: comments.updatedAt,
+        authorName: user.name,
+      })
+      .from(comments)
+      .leftJoin(user, eq(comments.userId, user.id))
+      .where(
+        and(
+          eq(comments.reportId, reportId),
+          eq(comments.isInternal, false),
+          isNull(comments.deletedAt)
+        )
+      )
+      .orderBy(asc(comments.createdAt));
+
+    // Mention markup carries user ids, which aren't shown publicly
+    return c.json({
+      comments: publicComments.map((comment) => ({
+        ...comment,
+        content: stripMentionMarkup(comment.content),
+      })),
+    });
+  }
+
+  const rows = await db
+    .select({
+      id: comments.id,
+      reportId: comments.reportId,
+      parentId: comments.parentId,
+      content: comments.content,
+      isInternal: comments.isInternal,
+      createdAt: comments.createdAt,
+      updatedAt: comments.updatedAt,
+      deletedAt: comments.deletedAt,
+      authorId: comments.userId,
+      authorName: user.name,
+      authorRole: user.role,
+    })
+    .from(comments)
+    .leftJoin(user, eq(comments.userId, user.id))
+    .where(eq(comments.reportId, reportId))
+    .orderBy(asc(comments.createdAt));
+
+  // Deleted comments stay as placeholders so their replies keep their context
+  return c.json({
+    comments: rows.map((row) => (row.deletedAt ? { ...row, content: "" } : row)),
+  });
+});
+
+// GET /api/v1/comments/mentionable-users?q=... - Officials that can be @-mentioned
+// Requires field_officer, planner, admin or super_admin role
+commentsRoutes.get(
+  "/mentionable-users",
+  authMiddleware(),
+  requireRole(...COMMENT_AUTHOR_ROLES),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const query = (c.req.query("q") || "").trim();
+
+    const conditions = [inArray(user.role, COMMENT_AUTHOR_ROLES), eq(user.isActive, true)];
+    if (query) {
+      const pattern = `%${query}%`;
+      conditions.push(or(like(user.name, pattern), like(user.email, pattern))!);
+    }
+
+    const users = await db
+      .select({ id: user.id, name: user.name, email: user.email, role: user.role })
+      .from(user)
+      .where(and(...conditions))
+      .orderBy(asc(user.name))
+      .limit(10);
+
+    return c.json({ users });
+  }
+);
+
+// POST /api/v1/comments - Add a comment or reply to a report
+// Mentioned users are notified by email
+// Requires field_officer, planner, admin or super_admin role
+commentsRoutes.post(
+  "/",
+  authMiddleware(),
+  requireRole(...COMMENT_AUTHOR_ROLES),
+  zValidator("json", createCommentSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { reportId, content, parentId } = c.req.valid("json");
+    let { isInternal } = c.req.valid("json");
+
+    const [report] = await db
+      .select({ id: damageReports.id, reportNumber: damageReports.reportNumber })
+      .from(damageReports)
+      .where(eq(damageReports.id, reportId));
+
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
+    }
+
+    let threadId: string | null = null;
+    if (parentId) {
+      const [parent] = await db
+        .select()
+        .from(comments)
+        .where(and(eq(comments.id, parentId), eq(comments.reportId, reportId)));
+
+      if (!parent) {
+        return c.json({ error: "Parent comment not found" }, 404);
+      }
+
+      // Threads are one level deep: replying to a reply joins the same thread
+      threadId = parent.parentId || parent.id;
+      isInternal = parent.isInternal;
+    }
+
+    const now = new Date();
+    const comment = {
+      id: crypto.randomUUID(),
+      reportId,
+      userId: auth.userId,
+      content,
+      isInternal,
+      parentId: threadId,
+      createdAt: now,
+    };
+    await db.insert(comments).values(comment);
+
+    const notifiedUserIds = await notifyMentionedUsers(c.env, db, {
+      mentionIds: extractMentionIds(content),
+      author: { userId: auth.userId, name: auth.name },
+      reportId,
+      reportNumber: report.reportNumber,
+      content,
+      isInternal,
+      baseUrl: getBaseUrl(c),
+    });
+
+    return c.json(
+      {
+        comment: {
+          ...comment,
+          updatedAt: null,
+          deletedAt: null,
+          authorId: auth.userId,
+          authorName: auth.name,
+          authorRole: auth.role,
+        },
+        notifiedUserIds,
+      },
+      201
+    );
+  }
+);
+
+// PATCH /api/v1/comments/:id - Edit a comment (author only)
+// Only thread starters can change visibility; newly mentioned users are notified
+// Requires field_officer, planner, admin or super_admin role
+commentsRoutes.patch(
+  "/:id",
+  authMiddleware(),
+  requireRole(...COMMENT_AUTHOR_ROLES),
+  zValidator("json", updateCommentSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
+    const updates = c.req.valid("json");
+
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(eq(comments.id, id));
+
+    if (!comment || comment.deletedAt) {
+      return c.json({ error: "Comment not found" }, 404);
+    }
+
+    if (comment.userId !== auth.userId) {
+      return c.json({ error: "Only the author can edit a comment" }, 403);
+    }
+
+    if (updates.isInternal !== undefined && comment.parentId) {
+      return c.json({ error: "Replies follow the visibility of their thread" }, 400);
+    }
+
+    const auditEntries = createFieldChangeEntries(
+      "comment",
+      id,
+      { content: comment.content, isInternal: comment.isInternal },
+      updates,
+      auth.userId,
+      auth.role,
+      { reportId: comment.reportId }
+    );
+
+    if (auditEntries.length === 0) {
+      return c.json({ comment });
+    }
+
+    const now = new Date();
+    await db
+      .update(comments)
+      .set({ ...updates, updatedAt: now })
+      .where(eq(comments.id, id));
+
+    // Changing a thread's visibility changes its replies too
+    if (updates.isInternal !== undefined && updates.isInternal !== comment.isInternal) {
+      await db
+        .update(comments)
+        .set({ isInternal: updates.isInternal })
+        .where(eq(comments.parentId, id));
+    }
+
+    await recordAuditEntries(db, auditEntries);
+
+    let notifiedUserIds: string[] = [];
+    if (updates.content !== undefined && comment.reportId) {
+      const previousMentions = new Set(extractMentionIds(comment.content));
+      const [report] = await db
+        .select({ reportNumber: damageReports.reportNumber })
+        .from(damageReports)
+        .where(eq(damageReports.id, comment.reportId));
+
+      notifiedUserIds = await notifyMentionedUsers(c.env, db, {
+        mentionIds: extractMentionIds(updates.content).filter((mentionId) => !previousMentions.has(mentionId)),
+        author: { userId: auth.userId, name: auth.name },
+        reportId: comment.reportId,
+        reportNumber: report?.reportNumber || "",
+        content: updates.content,
+        isInternal: updates.isInternal ?? comment.isInternal,
+        baseUrl: getBaseUrl(c),
+      });
+    }
+
+    const [updated] = await db
+      .select()
+      .from(comments)
+      .where(eq(comments.id, id));
+
+    return c.json({ comment: updated, notifiedUserIds });
+  }
+);
+
+// DELETE /api/v1/comments/:id - Soft delete a comment (author, admin or super_admin)
+// Requires field_officer, planner, admin or super_admin role
+commentsRoutes.delete(
+  "/:id",
+  authMiddleware(),
+  requireRole(...COMMENT_AUTHOR_ROLES),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { id } = c.req.param();
+
+    const [comment] = await db
+      .select()
+      .from(comments)
+      .where(eq(comments.id, id));
+
+    if (!comment || comment.deletedAt) {
+      return c.json({ error: "Comment not found" }, 404);
+    }
+
+    const isAdmin = auth.role === "admin" || auth.role === "super_admin";
+    if (comment.userId !== auth.userId && !isAdmin) {
+      return c.json({ error: "Only the author or an admin can delete a comment" }, 403);
+    }
+
+    await db
+      .update(comments)
+      .set({ deletedAt: new Date() })
+      .where(eq(comments.id, id));
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "comment",
+        targetId: id,
+        fieldName: "deleted",
+        // Keep the deleted text in the audit trail
+        oldValue: comment.content,
+        newValue: null,
+        performedBy: auth.userId,
+        performerRole: auth.role,
+        metadata: { action: "deleted", reportId: comment.reportId, authorId: comment.userId },
+      },
+    ]);
+
+    return c.json({ success: true });
+  }
+);
+
+export { commentsRoutes };
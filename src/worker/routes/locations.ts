@@ -0,0 +1,111 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { createDb } from "../db";
+import { locations } from "../db/schema";
+import { and, eq, isNotNull, like, or } from "drizzle-orm";
+import { parseBoundary } from "../services/regions";
+
+const locationsRoutes = new Hono<{ Bindings: Env }>();
+
+// Deepest chain is province > district > DS division > GN division
+const MAX_HIERARCHY_DEPTH = 6;
+
+const listLocationsSchema = z.object({
+  parentId: z.string().min(1).optional(),
+  level: z.enum(["country", "province", "district", "city", "ds_division", "gn_division"]).optional(),
+  q: z.string().trim().min(2).max(100).optional(),
+});
+
+const SEARCH_RESULT_LIMIT = 10;
+
+const locationSummary = {
+  id: locations.id,
+  parentId: locations.parentId,
+  level: locations.level,
+  nameEn: locations.nameEn,
+  nameSi: locations.nameSi,
+  nameTa: locations.nameTa,
+  centroidLat: locations.centroidLat,
+  centroidLng: locations.centroidLng,
+};
+
+// GET /api/v1/locations - Browse the location hierarchy
+// Query: parentId (children of a location, e.g. a district's DS divisions)
+//        level (filter by level; without parentId or q defaults to provinces)
+//        q (name search in any language across all levels, limited to places with a centroid)
+locationsRoutes.get("/", zValidator("query", listLocationsSchema), async (c) => {
+  const { parentId, level, q } = c.req.valid("query");
+  const db = createDb(c.env.DB);
+
+  if (q) {
+    const pattern = `%${q}%`;
+    const matches = await db
+      .select(locationSummary)
+      .from(locations)
+      .where(
+        and(
+          eq(locations.isActive, true),
+          isNotNull(locations.centroidLat),
+          isNotNull(locations.centroidLng),
+          parentId ? eq(locations.parentId, parentId) : undefined,
+          level ? eq(locations.level, level) : undefined,
+          or(like(locations.nameEn, pattern), like(locations.nameSi, pattern), like(locations.nameTa, pattern))
+        )
+      )
+      .orderBy(locations.nameEn)
+      .limit(SEARCH_RESULT_LIMIT);
+
+    return c.json(matches);
+  }
+
+  const results = await db
+    .select(locationSummary)
+    .from(locations)
+    .where(
+      and(
+        eq(locations.isActive, true),
+        parentId ? eq(locations.parentId, parentId) : undefined,
+        level || !parentId ? eq(locations.level, level || "province") : undefined
+      )
+    )
+    .orderBy(locations.nameEn);
+
+  return c.json(results);
+});
+
+// GET /api/v1/locations/:id - Get a location with its ancestors (outermost first)
+// Query: boundary=true to include the boundary polygon as GeoJSON
+locationsRoutes.get("/:id", async (c) => {
+  const db = createDb(c.env.DB);
+  const id = c.req.param("id");
+  const includeBoundary = c.req.query("boundary") === "true";
+
+  const [location] = await db
+    .select({ ...locationSummary, boundaryGeojson: locations.boundaryGeojson })
+    .from(locations)
+    .where(eq(locations.id, id));
+
+  if (!location) {
+    return c.json({ error: "Location not found" }, 404);
+  }
+
+  const { boundaryGeojson, ...summary } = location;
+
+  const ancestors: (typeof summary)[] = [];
+  let nextParentId = location.parentId;
+  while (nextParentId && ancestors.length < MAX_HIERARCHY_DEPTH) {
+    const [parent] = await db.select(locationSummary).from(locations).where(eq(locations.id, nextParentId));
+    if (!parent) break;
+    ancestors.unshift(parent);
+    nextParentId = parent.parentId;
+  }
+
+  return c.json({
+    ...summary,
+    boundary: includeBoundary ? parseBoundary(boundaryGeojson) : undefined,
+    ancestors,
+  });
+});
+
+export { locationsRoutes };
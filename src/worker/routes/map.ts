@@ -2,9 +2,12 @@ import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
 import { createDb } from "../db";
-import { damageReports, roadSegments, organizations } from "../db/schema";
-import { eq, and, desc, or, sql } from "drizzle-orm";
+import { damageReports, roadSegments, organizations, locations } from "../db/schema";
+import { eq, and, desc, or, sql, isNull } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
 import { snapToRoads, calculateMidpoint } from "../services/roadsService";
+import { getReportRegion } from "../services/reportScope";
+import { reverseGeocode, formatLocationName, nominatimLocationName } from "../services/geocoder";
 
 const mapRoutes = new Hono<{ Bindings: Env }>();
 
@@ -14,73 +17,51 @@ const snapRoadSchema = z.object({
   startLng: z.number(),
   endLat: z.number(),
   endLng: z.number(),
+  roadNumber: z.string().optional(),
 });
 
-const createSegmentSchema = z.object({
-  reportId: z.string(),
-  startLat: z.number(),
-  startLng: z.number(),
-  endLat: z.number(),
-  endLng: z.number(),
-  roadName: z.string().optional(),
+const reverseGeocodeSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  lang: z.enum(["en", "si", "ta"]).optional().default("en"),
 });
 
 // POST /api/v1/map/snap-road - Get snapped road path between two points
+// Follows the stored geometry of roadNumber (or the road nearest the start point),
+// falling back to Google Directions and then a straight line; `source` says which was used
 mapRoutes.post("/snap-road", zValidator("json", snapRoadSchema), async (c) => {
-  const { startLat, startLng, endLat, endLng } = c.req.valid("json");
+  const { startLat, startLng, endLat, endLng, roadNumber } = c.req.valid("json");
+  const db = createDb(c.env.DB);
 
-  const snappedPath = await snapToRoads(
-    startLat,
-    startLng,
-    endLat,
-    endLng,
-    c.env.GOOGLE_MAPS_API_KEY
-  );
+  const snapped = await snapToRoads(db, startLat, startLng, endLat, endLng, {
+    roadNumber,
+    apiKey: c.env.GOOGLE_MAPS_API_KEY,
+  });
 
   return c.json({
-    path: snappedPath,
-    midpoint: calculateMidpoint(snappedPath),
+    path: snapped.path,
+    midpoint: calculateMidpoint(snapped.path),
+    source: snapped.source,
+    roadNumber: snapped.roadNumber,
   });
 });
 
-// POST /api/v1/map/segments - Create a new road segment
-mapRoutes.post(
-  "/segments",
-  zValidator("json", createSegmentSchema),
-  async (c) => {
-    const body = c.req.valid("json");
-    const db = createDb(c.env.DB);
-
-    // Snap the road path
-    const snappedPath = await snapToRoads(
-      body.startLat,
-      body.startLng,
-      body.endLat,
-      body.endLng,
-      c.env.GOOGLE_MAPS_API_KEY
-    );
-
-    const segmentId = crypto.randomUUID();
-
-    await db.insert(roadSegments).values({
-      id: segmentId,
-      reportId: body.reportId,
-      startLat: body.startLat,
-      startLng: body.startLng,
-      endLat: body.endLat,
-      endLng: body.endLng,
-      snappedPath: JSON.stringify(snappedPath),
-      roadName: body.roadName || null,
-      createdAt: new Date(),
-    });
+// GET /api/v1/map/reverse-geocode - Name a coordinate from the offline gazetteer
+// Returns the nearest road and containing GN/DS division, city, district and province in en/si/ta,
+// plus a display label in the requested language. The label falls back to Nominatim only when
+// NOMINATIM_FALLBACK is enabled and the gazetteer finds nothing.
+mapRoutes.get("/reverse-geocode", zValidator("query", reverseGeocodeSchema), async (c) => {
+  const { lat, lng, lang } = c.req.valid("query");
+  const db = createDb(c.env.DB);
 
-    return c.json({
-      id: segmentId,
-      path: snappedPath,
-      midpoint: calculateMidpoint(snappedPath),
-    });
+  const result = await reverseGeocode(db, lat, lng);
+  let locationName = formatLocationName(result, lang);
+  if (!locationName && c.env.NOMINATIM_FALLBACK === "true") {
+    locationName = await nominatimLocationName(lat, lng);
   }
-);
+
+  return c.json({ ...result, locationName });
+});
 
 // GET /api/v1/map/segments - Get only verified road segments for public display
 mapRoutes.get("/segments", async (c) => {
@@ -107,9 +88,13 @@ mapRoutes.get("/segments", async (c) => {
     .from(roadSegments)
     .innerJoin(damageReports, eq(roadSegments.reportId, damageReports.id))
     .where(
-      or(
-        eq(damageReports.status, "verified"),
-        eq(damageReports.status, "in_progress")
+      and(
+        isNull(roadSegments.deletedAt),
+        or(
+          eq(damageReports.status, "verified"),
+          eq(damageReports.status, "in_progress"),
+          eq(damageReports.status, "linked_to_project")
+        )
       )
     );
 
@@ -156,9 +141,13 @@ mapRoutes.get("/segments/verified", async (c) => {
     .from(roadSegments)
     .innerJoin(damageReports, eq(roadSegments.reportId, damageReports.id))
     .where(
-      or(
-        eq(damageReports.status, "verified"),
-        eq(damageReports.status, "in_progress")
+      and(
+        isNull(roadSegments.deletedAt),
+        or(
+          eq(damageReports.status, "verified"),
+          eq(damageReports.status, "in_progress"),
+          eq(damageReports.status, "linked_to_project")
+        )
       )
     );
 
@@ -191,6 +180,8 @@ mapRoutes.get("/incidents", async (c) => {
   const oneYearAgo = new Date();
   oneYearAgo.setDate(oneYearAgo.getDate() - 365);
   const oneYearAgoTimestamp = Math.floor(oneYearAgo.getTime() / 1000);
+  const provinceLocation = alias(locations, "province_location");
+  const districtLocation = alias(locations, "district_location");
 
   const reports = await db
     .select({
@@ -216,13 +207,18 @@ mapRoutes.get("/incidents", async (c) => {
       assignedOrgId: damageReports.assignedOrgId,
       orgName: organizations.name,
       orgCode: organizations.code,
+      provinceName: provinceLocation.nameEn,
+      districtName: districtLocation.nameEn,
     })
     .from(damageReports)
     .leftJoin(organizations, eq(damageReports.assignedOrgId, organizations.id))
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
     .where(
       or(
         eq(damageReports.status, "verified"),
         eq(damageReports.status, "in_progress"),
+        eq(damageReports.status, "linked_to_project"),
         // Include resolved items within last 365 days
         and(
           eq(damageReports.status, "resolved"),
@@ -232,33 +228,12 @@ mapRoutes.get("/incidents", async (c) => {
     )
     .orderBy(desc(damageReports.createdAt));
 
-  // Parse locationName to extract province and district
-  const reportsWithLocation = reports.map(report => {
-    let districtName = null;
-    let provinceName = null;
-    let roadLocation = report.locationName;
-
-    // Format is typically: "Road Name (district, province)" or "(district, province)"
-    if (report.locationName) {
-      const match = report.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-      if (match) {
-        districtName = match[1].trim();
-        provinceName = match[2].trim();
-        // Extract road/location name (part before the parentheses)
-        const roadMatch = report.locationName.match(/^([^(]+)/);
-        if (roadMatch && roadMatch[1].trim()) {
-          roadLocation = roadMatch[1].trim();
-        }
-      }
-    }
-
-    return {
-      ...report,
-      districtName,
-      provinceName,
-      roadLocation,
-    };
-  });
+  // Region names come from the boundary-assigned locations, falling back to workflowData
+  const reportsWithLocation = reports.map(report => ({
+    ...report,
+    ...getReportRegion(report),
+    roadLocation: report.locationName,
+  }));
 
   return c.json(reportsWithLocation);
 });
@@ -275,7 +250,8 @@ mapRoutes.get("/last-updated", async (c) => {
     .where(
       or(
         eq(damageReports.status, "verified"),
-        eq(damageReports.status, "in_progress")
+        eq(damageReports.status, "in_progress"),
+        eq(damageReports.status, "linked_to_project")
       )
     )
     .orderBy(desc(damageReports.updatedAt))
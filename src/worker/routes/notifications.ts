@@ -0,0 +1,241 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { createDb } from "../db";
+import { digestPreferences, organizations, userOrganizations } from "../db/schema";
+import { authMiddleware, getAuth, requireRole } from "../middleware/auth";
+import {
+  getConfirmPageHtml,
+  getConfirmUnsubscribePageHtml,
+  getMessagePageHtml,
+  getUnsubscribePageHtml,
+} from "../services/email";
+import { getDigestRecipient, getSriLankaClock, sendDigest } from "../services/digest";
+import { DIGEST_FREQUENCIES, DIGEST_ROLES, DIGEST_SCOPES } from "../../shared/constants";
+import {
+  isEmailOptedOut,
+  setEmailOptOut,
+  toEmailLanguage,
+  verifyUnsubscribeToken,
+} from "../services/statusNotifications";
+
+const notificationsRoutes = new Hono<{ Bindings: Env }>();
+
+// GET /api/v1/notifications/unsubscribe - Unsubscribe link in status emails
+// Query: email, token (HMAC of the address), lang (page language)
+// Only asks for confirmation; the page's button POSTs back to the same link
+notificationsRoutes.get("/unsubscribe", async (c) => {
+  const email = c.req.query("email");
+  const token = c.req.query("token");
+  const language = toEmailLanguage(c.req.query("lang"));
+
+  if (!email || !token || !(await verifyUnsubscribeToken(c.env, email, token))) {
+    return c.html(getUnsubscribePageHtml(language, false), 400);
+  }
+
+  return c.html(getConfirmUnsubscribePageHtml(language, c.req.url));
+});
+
+// POST /api/v1/notifications/unsubscribe - Confirm page button and one-click unsubscribe (List-Unsubscribe-Post)
+// Opts the address in the link out of report status emails
+notificationsRoutes.post("/unsubscribe", async (c) => {
+  const email = c.req.query("email");
+  const token = c.req.query("token");
+  const language = toEmailLanguage(c.req.query("lang"));
+
+  if (!email || !token || !(await verifyUnsubscribeToken(c.env, email, token))) {
+    return c.html(getUnsubscribePageHtml(language, false), 400);
+  }
+
+  await setEmailOptOut(createDb(c.env.DB), email, true);
+  return c.html(getUnsubscribePageHtml(language, true));
+});
+
+// GET /api/v1/notifications/preferences - Whether the signed-in user gets report status emails
+notificationsRoutes.get("/preferences", authMiddleware(), async (c) => {
+  const db = createDb(c.env.DB);
+  const auth = getAuth(c)!;
+
+  return c.json({ statusEmails: !(await isEmailOptedOut(db, auth.email)) });
+});
+
+const updatePreferencesSchema = z.object({
+  statusEmails: z.boolean(),
+});
+
+// PUT /api/v1/notifications/preferences - Turn report status emails on or off
+notificationsRoutes.put(
+  "/preferences",
+  authMiddleware(),
+  zValidator("json", updatePreferencesSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const { statusEmails } = c.req.valid("json");
+
+    await setEmailOptOut(db, auth.email, !statusEmails);
+    return c.json({ statusEmails });
+  }
+);
+
+// ============ DAILY DIGEST ============
+
+const updateDigestSchema = z.object({
+  frequency: z.enum(DIGEST_FREQUENCIES),
+  sendHour: z.number().int().min(0).max(23),
+  scope: z.enum(DIGEST_SCOPES),
+});
+
+// GET /api/v1/notifications/digest - The signed-in official's digest schedule and scope
+// Also returns their region scope and organizations, which the scope options depend on
+notificationsRoutes.get("/digest", authMiddleware(), requireRole(...DIGEST_ROLES), async (c) => {
+  const db = createDb(c.env.DB);
+  const auth = getAuth(c)!;
+
+  const [preferences] = await db
+    .select()
+    .from(digestPreferences)
+    .where(eq(digestPreferences.userId, auth.userId));
+  const orgs = await db
+    .select({ id: organizations.id, name: organizations.name })
+    .from(userOrganizations)
+    .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+    .where(eq(userOrganizations.userId, auth.userId))
+    .orderBy(organizations.name);
+
+  return c.json({
+    frequency: preferences?.frequency || "off",
+    sendHour: preferences?.sendHour ?? 7,
+    scope: preferences?.scope || "area",
+    lastSentAt: preferences?.lastSentAt || null,
+    provinceScope: auth.role === "super_admin" ? null : auth.provinceScope || null,
+    districtScope: auth.role === "super_admin" ? null : auth.districtScope || null,
+    organizations: orgs,
+  });
+});
+
+// PUT /api/v1/notifications/digest - Change the digest schedule (Sri Lanka time) and scope
+notificationsRoutes.put(
+  "/digest",
+  authMiddleware(),
+  requireRole(...DIGEST_ROLES),
+  zValidator("json", updateDigestSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c)!;
+    const data = c.req.valid("json");
+
+    if (data.scope === "organization") {
+      const [membership] = await db
+        .select({ id: userOrganizations.id })
+        .from(userOrganizations)
+        .where(eq(userOrganizations.userId, auth.userId))
+        .limit(1);
+      if (!membership) {
+        return c.json({ error: "You don't belong to an organization" }, 400);
+      }
+    }
+
+    const now = new Date();
+    const [existing] = await db
+      .select({ lastSentAt: digestPreferences.lastSentAt })
+      .from(digestPreferences)
+      .where(eq(digestPreferences.userId, auth.userId));
+    // If today's send hour has already passed, the first digest goes out tomorrow rather than
+    // within the minute
+    const lastSentAt = getSriLankaClock(now).hour >= data.sendHour ? now : existing?.lastSentAt || null;
+
+    await db
+      .insert(digestPreferences)
+      .values({
+        userId: auth.userId,
+        ...data,
+        unsubscribeToken: crypto.randomUUID(),
+        lastSentAt,
+        updatedAt: now,
+      })
+      .onConflictDoUpdate({
+        target: digestPreferences.userId,
+        set: { ...data, lastSentAt, updatedAt: now },
+      });
+
+    return c.json(data);
+  }
+);
+
+// POST /api/v1/notifications/digest/send-now - Email the signed-in official their digest now
+// Uses the saved scope; doesn't affect the schedule
+notificationsRoutes.post("/digest/send-now", authMiddleware(), requireRole(...DIGEST_ROLES), async (c) => {
+  const db = createDb(c.env.DB);
+  const auth = getAuth(c)!;
+
+  // Officials who never saved a schedule get an "off" row, so the email's unsubscribe link has a token
+  await db
+    .insert(digestPreferences)
+    .values({ userId: auth.userId, unsubscribeToken: crypto.randomUUID(), updatedAt: new Date() })
+    .onConflictDoNothing();
+
+  const recipient = await getDigestRecipient(db, auth.userId);
+  if (!recipient) {
+    return c.json({ error: "User not found" }, 404);
+  }
+
+  const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+  const sent = await sendDigest(c.env, db, recipient, baseUrl);
+
+  return c.json({ sent });
+});
+
+// GET /api/v1/notifications/digest/unsubscribe - Unsubscribe link in digest emails
+// Only asks for confirmation; the page's button POSTs back to the same link
+notificationsRoutes.get("/digest/unsubscribe", async (c) => {
+  const db = createDb(c.env.DB);
+  const token = c.req.query("token");
+
+  const [preferences] = token
+    ? await db
+        .select({ userId: digestPreferences.userId })
+        .from(digestPreferences)
+        .where(eq(digestPreferences.unsubscribeToken, token))
+        .limit(1)
+    : [];
+
+  if (!preferences) {
+    return c.html(getMessagePageHtml("Link Invalid", "This unsubscribe link is invalid."), 400);
+  }
+
+  return c.html(
+    getConfirmPageHtml(
+      "Stop Situation Digests?",
+      "You won't receive any more situation digests. You can turn them back on from your profile.",
+      "Unsubscribe",
+      c.req.url
+    )
+  );
+});
+
+// POST /api/v1/notifications/digest/unsubscribe - Confirm page button and one-click unsubscribe (List-Unsubscribe-Post)
+// Turns off the digest the link belongs to
+notificationsRoutes.post("/digest/unsubscribe", async (c) => {
+  const db = createDb(c.env.DB);
+  const token = c.req.query("token");
+
+  const updated = token
+    ? await db
+        .update(digestPreferences)
+        .set({ frequency: "off", updatedAt: new Date() })
+        .where(eq(digestPreferences.unsubscribeToken, token))
+        .returning({ userId: digestPreferences.userId })
+    : [];
+
+  if (updated.length === 0) {
+    return c.html(getMessagePageHtml("Link Invalid", "This unsubscribe link is invalid."), 400);
+  }
+
+  return c.html(
+    getMessagePageHtml("Digest Stopped", "You won't receive any more situation digests. You can turn them back on from your profile.")
+  );
+});
+
+export { notificationsRoutes };
@@ -0,0 +1,1039 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { createDb, type Database } from "../db";
+import { rebuildProjects, reportProjectLinks, locations, user, milestones, damageReports } from "../db/schema";
+import { eq, desc, and, isNull, like, sql, inArray } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { buildAuditInserts, recordAuditEntries, createFieldChangeEntries } from "../services/audit";
+import {
+  deriveMilestoneStatus,
+  refreshMilestoneStatuses,
+  recomputeProjectProgress,
+  todayIsoDate,
+} from "../services/milestones";
+import {
+  isProjectDrivenLink,
+  hasProjectDrivenLink,
+  resolveLinkedReports,
+  setReportStatus,
+} from "../services/projectLinks";
+import { dispatchWebhookEvent } from "../services/webhooks";
+import { authMiddleware, requireRole, getAuth } from "../middleware/auth";
+import { PROJECT_ID_PREFIX, isValidTransition } from "../../shared/constants";
+
+const projectsRoutes = new Hono<{ Bindings: Env }>();
+
+// All project routes require login
+projectsRoutes.use("/*", authMiddleware());
+
+const PROJECT_STATUS_VALUES = ["planned", "design", "tendering", "in_progress", "on_hold", "completed", "cancelled"] as const;
+
+// ISO date (YYYY-MM-DD) used for planned/actual start and end
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be in YYYY-MM-DD format");
+
+const contractorInfoSchema = z.object({
+  name: z.string().max(200).optional(),
+  contactPerson: z.string().max(200).optional(),
+  phone: z.string().max(30).optional(),
+  email: z.string().email().optional(),
+  contractNumber: z.string().max(100).optional(),
+});
+
+const projectFieldsSchema = z.object({
+  name: z.string().min(1, "Project name is required").max(200),
+  description: z.string().max(5000).nullable().optional(),
+  ownerDepartment: z.string().max(200).nullable().optional(),
+  projectManagerId: z.string().nullable().optional(),
+  provinceId: z.string().nullable().optional(),
+  districtId: z.string().nullable().optional(),
+  cityId: z.string().nullable().optional(),
+  geoExtent: z.record(z.unknown()).nullable().optional(),
+  status: z.enum(PROJECT_STATUS_VALUES).optional(),
+  plannedStart: isoDate.nullable().optional(),
+  plannedEnd: isoDate.nullable().optional(),
+  actualStart: isoDate.nullable().optional(),
+  actualEnd: isoDate.nullable().optional(),
+  progressPercent: z.number().min(0).max(100).optional(),
+  fundingSource: z.string().max(200).nullable().optional(),
+  estimatedBudget: z.number().nonnegative().nullable().optional(),
+  actualExpenditure: z.number().nonnegative().nullable().optional(),
+  contractorInfo: contractorInfoSchema.nullable().optional(),
+});
+
+const createProjectSchema = projectFieldsSchema;
+const updateProjectSchema = projectFieldsSchema.partial();
+
+type ProjectFields = z.infer<typeof updateProjectSchema>;
+
+// Generate the next project code for the current year, e.g. RP-2025-0007
+async function generateProjectCode(db: Database): Promise<string> {
+  const prefix = `${PROJECT_ID_PREFIX}-${new Date().getFullYear()}-`;
+
+  // Codes are zero-padded, so the lexically greatest code is the latest one
+  const [latest] = await db
+    .select({ projectCode: rebuildProjects.projectCode })
+    .from(rebuildProjects)
+    .where(like(rebuildProjects.projectCode, `${prefix}%`))
+    .orderBy(desc(rebuildProjects.projectCode))
+    .limit(1);
+
+  const lastNumber = latest ? parseInt(latest.projectCode.slice(prefix.length), 10) || 0 : 0;
+  return `${prefix}${String(lastNumber + 1).padStart(4, "0")}`;
+}
+
+// Check that referenced locations and project manager exist.
+// Returns an error message, or null when everything checks out.
+async function validateReferences(db: Database, fields: ProjectFields): Promise<string | null> {
+  const locationRefs: Array<[string, string | null | undefined]> = [
+    ["provinceId", fields.provinceId],
+    ["districtId", fields.districtId],
+    ["cityId", fields.cityId],
+  ];
+
+  for (const [field, locationId] of locationRefs) {
+    if (!locationId) continue;
+    const [location] = await db
+      .select({ id: locations.id })
+      .from(locations)
+      .where(eq(locations.id, locationId));
+    if (!location) {
+      return `Unknown location for ${field}`;
+    }
+  }
+
+  if (fields.projectManagerId) {
+    const [manager] = await db
+      .select({ id: user.id })
+      .from(user)
+      .where(eq(user.id, fields.projectManagerId));
+    if (!manager) {
+      return "Project manager not found";
+    }
+  }
+
+  return null;
+}
+
+// Convert validated fields into column values (JSON fields are stored as text)
+function toColumnValues(fields: ProjectFields): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(fields)) {
+    if (value === undefined) continue;
+    if ((key === "geoExtent" || key === "contractorInfo") && value !== null) {
+      values[key] = JSON.stringify(value);
+    } else {
+      values[key] = value;
+    }
+  }
+  return values;
+}
+
+// Parse JSON text columns for API responses
+function formatProject<T extends { geoExtent: string | null; contractorInfo: string | null }>(project: T) {
+  return {
+    ...project,
+    geoExtent: project.geoExtent ? JSON.parse(project.geoExtent) : null,
+    contractorInfo: project.contractorInfo ? JSON.parse(project.contractorInfo) : null,
+  };
+}
+
+// Linked report count per project, used by list and detail responses
+const linkedReportCount = sql<number>`(
+  SELECT COUNT(*) FROM ${reportProjectLinks}
+  WHERE ${reportProjectLinks.projectId} = ${rebuildProjects.id}
+)`;
+
+// Milestone count per project - progress is derived from milestones when non-zero
+const milestoneCount = sql<number>`(
+  SELECT COUNT(*) FROM ${milestones}
+  WHERE ${milestones.projectId} = ${rebuildProjects.id}
+)`;
+
+// GET /api/v1/projects - List projects
+// Requires planner, admin, super_admin or stakeholder role
+// Query: status, includeArchived=true
+projectsRoutes.get(
+  "/",
+  requireRole("planner", "admin", "super_admin", "stakeholder"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const status = c.req.query("status");
+    const includeArchived = c.req.query("includeArchived") === "true";
+
+    const conditions = [];
+    if (status) {
+      conditions.push(eq(rebuildProjects.status, status));
+    }
+    if (!includeArchived) {
+      conditions.push(isNull(rebuildProjects.archivedAt));
+    }
+
+    const projects = await db
+      .select({
+        id: rebuildProjects.id,
+        projectCode: rebuildProjects.projectCode,
+        name: rebuildProjects.name,
+        status: rebuildProjects.status,
+        progressPercent: rebuildProjects.progressPercent,
+        estimatedBudget: rebuildProjects.estimatedBudget,
+        actualExpenditure: rebuildProjects.actualExpenditure,
+        plannedStart: rebuildProjects.plannedStart,
+        plannedEnd: rebuildProjects.plannedEnd,
+        provinceId: rebuildProjects.provinceId,
+        districtId: rebuildProjects.districtId,
+        archivedAt: rebuildProjects.archivedAt,
+        createdAt: rebuildProjects.createdAt,
+        updatedAt: rebuildProjects.updatedAt,
+        linkedReportCount,
+      })
+      .from(rebuildProjects)
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(rebuildProjects.createdAt));
+
+    return c.json({ projects });
+  }
+);
+
+// GET /api/v1/projects/:id - Get project detail
+// Requires planner, admin, super_admin or stakeholder role
+projectsRoutes.get(
+  "/:id",
+  requireRole("planner", "admin", "super_admin", "stakeholder"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    const [project] = await db
+      .select({
+        project: rebuildProjects,
+        projectManagerName: user.name,
+        projectManagerEmail: user.email,
+        linkedReportCount,
+        milestoneCount,
+      })
+      .from(rebuildProjects)
+      .leftJoin(user, eq(rebuildProjects.projectManagerId, user.id))
+      .where(eq(rebuildProjects.id, id));
+
+    if (!project) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    return c.json({
+      project: {
+        ...formatProject(project.project),
+        projectManagerName: project.projectManagerName,
+        projectManagerEmail: project.projectManagerEmail,
+        linkedReportCount: project.linkedReportCount,
+        milestoneCount: project.milestoneCount,
+      },
+    });
+  }
+);
+
+// POST /api/v1/projects - Create a project with a generated RP-YYYY-NNNN code
+// Requires planner, admin or super_admin role
+projectsRoutes.post(
+  "/",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", createProjectSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const data = c.req.valid("json");
+
+    const referenceError = await validateReferences(db, data);
+    if (referenceError) {
+      return c.json({ error: referenceError }, 400);
+    }
+
+    const id = crypto.randomUUID();
+    const now = new Date();
+    const status = data.status || "planned";
+
+    // Two concurrent creates can pick the same code; retry on the unique constraint
+    let projectCode = "";
+    for (let attempt = 0; attempt < 3; attempt++) {
+      projectCode = await generateProjectCode(db);
+      try {
+        await db.insert(rebuildProjects).values({
+          ...toColumnValues(data),
+          id,
+          projectCode,
+          name: data.name,
+          status,
+          createdAt: now,
+          updatedAt: now,
+        });
+        break;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempt < 2 && message.includes("UNIQUE")) continue;
+        console.error("Failed to create project:", error);
+        return c.json({ error: "Failed to create project", details: message }, 500);
+      }
+    }
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "project",
+        targetId: id,
+        fieldName: "status",
+        oldValue: null,
+        newValue: status,
+        fromStatus: null,
+        toStatus: status,
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: { action: "created", projectCode },
+      },
+    ]);
+
+    const [created] = await db
+      .select()
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    return c.json({ success: true, project: formatProject(created) }, 201);
+  }
+);
+
+// PATCH /api/v1/projects/:id - Update project fields with audit trail
+// Requires planner, admin or super_admin role
+projectsRoutes.patch(
+  "/:id",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", updateProjectSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+    const updates = c.req.valid("json");
+
+    const [existing] = await db
+      .select()
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    if (!existing) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    if (existing.archivedAt) {
+      return c.json({ error: "Archived projects cannot be edited" }, 400);
+    }
+
+    const referenceError = await validateReferences(db, updates);
+    if (referenceError) {
+      return c.json({ error: referenceError }, 400);
+    }
+
+    // Progress is derived from milestones once a project has any
+    if (updates.progressPercent !== undefined && updates.progressPercent !== existing.progressPercent) {
+      const [milestone] = await db
+        .select({ id: milestones.id })
+        .from(milestones)
+        .where(eq(milestones.projectId, id))
+        .limit(1);
+      if (milestone) {
+        return c.json({ error: "Progress is calculated from milestones for this project" }, 400);
+      }
+    }
+
+    const columnValues = toColumnValues(updates);
+
+    // Track changes for audit trail
+    const auditEntries = createFieldChangeEntries(
+      "project",
+      id,
+      existing as unknown as Record<string, unknown>,
+      columnValues,
+      auth?.userId || null,
+      auth?.role || null,
+      { projectCode: existing.projectCode }
+    );
+
+    // Status changes also fill fromStatus/toStatus so they read like report transitions
+    for (const entry of auditEntries) {
+      if (entry.fieldName === "status") {
+        entry.fromStatus = entry.oldValue;
+        entry.toStatus = entry.newValue;
+      }
+    }
+
+    if (auditEntries.length === 0) {
+      return c.json({ success: true, project: formatProject(existing) });
+    }
+
+    // The update and its audit rows land together or not at all
+    await db.batch([
+      db
+        .update(rebuildProjects)
+        .set({ ...columnValues, updatedAt: new Date() })
+        .where(eq(rebuildProjects.id, id)),
+      ...buildAuditInserts(db, auditEntries),
+    ]);
+
+    // Completing a project resolves the reports it was driving
+    let resolvedReports = 0;
+    if (updates.status === "completed" && existing.status !== "completed") {
+      resolvedReports = await resolveLinkedReports(
+        db,
+        existing,
+        { userId: auth?.userId || null, role: auth?.role || null },
+        {
+          env: c.env,
+          ctx: c.executionCtx,
+          baseUrl: c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173",
+        }
+      );
+    }
+
+    const [updated] = await db
+      .select()
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    await dispatchWebhookEvent(db, c.executionCtx, "project.updated", {
+      project: formatProject(updated),
+      changedFields: auditEntries.map((entry) => entry.fieldName),
+      resolvedReports,
+    });
+
+    return c.json({ success: true, project: formatProject(updated), resolvedReports });
+  }
+);
+
+// POST /api/v1/projects/:id/archive - Archive (soft delete) a project
+// Requires admin or super_admin role
+projectsRoutes.post(
+  "/:id/archive",
+  requireRole("admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id } = c.req.param();
+
+    const [existing] = await db
+      .select()
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    if (!existing) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    if (existing.archivedAt) {
+      return c.json({ error: "Project is already archived" }, 400);
+    }
+
+    const now = new Date();
+    await db
+      .update(rebuildProjects)
+      .set({ archivedAt: now, updatedAt: now })
+      .where(eq(rebuildProjects.id, id));
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "project",
+        targetId: id,
+        fieldName: "archived",
+        oldValue: "active",
+        newValue: "archived",
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: { projectCode: existing.projectCode },
+      },
+    ]);
+
+    return c.json({ success: true });
+  }
+);
+
+// ============ MILESTONES ============
+
+const MILESTONE_TYPE_VALUES = [
+  "project_start",
+  "design_complete",
+  "permits_approved",
+  "construction_start",
+  "halfway_complete",
+  "construction_complete",
+  "inspection_passed",
+  "project_delivered",
+] as const;
+
+// "delayed" is derived from the dates and cannot be set directly
+const MILESTONE_STATUS_VALUES = ["not_started", "on_track", "completed"] as const;
+
+const createMilestoneSchema = z.object({
+  name: z.string().min(1, "Milestone name is required").max(200),
+  description: z.string().max(2000).nullable().optional(),
+  milestoneType: z.enum(MILESTONE_TYPE_VALUES).nullable().optional(),
+  targetDate: isoDate.nullable().optional(),
+  actualDate: isoDate.nullable().optional(),
+  status: z.enum(MILESTONE_STATUS_VALUES).optional(),
+  orderIndex: z.number().int().min(0).optional(),
+});
+
+const updateMilestoneSchema = createMilestoneSchema.partial();
+
+const reorderMilestonesSchema = z.object({
+  milestoneIds: z.array(z.string()).min(1),
+});
+
+// Load a project for milestone writes; archived projects are read-only
+async function getEditableProject(db: Database, projectId: string) {
+  const [project] = await db
+    .select({ id: rebuildProjects.id, projectCode: rebuildProjects.projectCode, archivedAt: rebuildProjects.archivedAt })
+    .from(rebuildProjects)
+    .where(eq(rebuildProjects.id, projectId));
+
+  if (!project) return { error: "Project not found", status: 404 as const };
+  if (project.archivedAt) return { error: "Archived projects cannot be edited", status: 400 as const };
+  return { project };
+}
+
+// GET /api/v1/projects/:id/milestones - List milestones in order
+// Overdue milestones are marked delayed before being returned
+// Requires planner, admin, super_admin or stakeholder role
+projectsRoutes.get(
+  "/:id/milestones",
+  requireRole("planner", "admin", "super_admin", "stakeholder"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    const [project] = await db
+      .select({ id: rebuildProjects.id })
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    if (!project) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    const rows = await refreshMilestoneStatuses(db, id);
+    return c.json({ milestones: rows });
+  }
+);
+
+// POST /api/v1/projects/:id/milestones - Add a milestone
+// Requires planner, admin or super_admin role
+projectsRoutes.post(
+  "/:id/milestones",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", createMilestoneSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId } = c.req.param();
+    const data = c.req.valid("json");
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    // Append to the end unless an explicit position was given
+    let orderIndex = data.orderIndex;
+    if (orderIndex === undefined) {
+      const [last] = await db
+        .select({ orderIndex: milestones.orderIndex })
+        .from(milestones)
+        .where(eq(milestones.projectId, projectId))
+        .orderBy(desc(milestones.orderIndex))
+        .limit(1);
+      orderIndex = last ? last.orderIndex + 1 : 0;
+    }
+
+    const actualDate = data.actualDate || (data.status === "completed" ? todayIsoDate() : null);
+    const status = deriveMilestoneStatus({
+      status: data.status || "not_started",
+      targetDate: data.targetDate || null,
+      actualDate,
+    });
+
+    const id = crypto.randomUUID();
+    await db.insert(milestones).values({
+      id,
+      projectId,
+      name: data.name,
+      description: data.description || null,
+      milestoneType: data.milestoneType || null,
+      targetDate: data.targetDate || null,
+      actualDate,
+      status,
+      orderIndex,
+      createdAt: new Date(),
+    });
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "milestone",
+        targetId: id,
+        fieldName: "status",
+        oldValue: null,
+        newValue: status,
+        fromStatus: null,
+        toStatus: status,
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: { action: "created", projectId, projectCode: result.project.projectCode, name: data.name },
+      },
+    ]);
+
+    await recomputeProjectProgress(db, projectId, {
+      userId: auth?.userId || null,
+      role: auth?.role || null,
+    });
+
+    const [created] = await db
+      .select()
+      .from(milestones)
+      .where(eq(milestones.id, id));
+
+    return c.json({ success: true, milestone: created }, 201);
+  }
+);
+
+// PUT /api/v1/projects/:id/milestones/order - Reorder milestones
+// Body lists milestone ids in their new order
+// Requires planner, admin or super_admin role
+projectsRoutes.put(
+  "/:id/milestones/order",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", reorderMilestonesSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId } = c.req.param();
+    const { milestoneIds } = c.req.valid("json");
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    const existing = await db
+      .select({ id: milestones.id, orderIndex: milestones.orderIndex })
+      .from(milestones)
+      .where(eq(milestones.projectId, projectId));
+
+    const existingIds = new Set(existing.map((m) => m.id));
+    if (milestoneIds.length !== existing.length || !milestoneIds.every((mid) => existingIds.has(mid))) {
+      return c.json({ error: "milestoneIds must list every milestone of the project exactly once" }, 400);
+    }
+
+    const writes: BatchItem<"sqlite">[] = [];
+    const auditEntries = [];
+    for (const [index, milestoneId] of milestoneIds.entries()) {
+      const current = existing.find((m) => m.id === milestoneId)!;
+      if (current.orderIndex === index) continue;
+
+      writes.push(db.update(milestones).set({ orderIndex: index }).where(eq(milestones.id, milestoneId)));
+
+      auditEntries.push(
+        ...createFieldChangeEntries(
+          "milestone",
+          milestoneId,
+          { orderIndex: current.orderIndex },
+          { orderIndex: index },
+          auth?.userId || null,
+          auth?.role || null,
+          { projectId, projectCode: result.project.projectCode }
+        )
+      );
+    }
+
+    if (writes.length > 0) {
+      await db.batch([writes[0], ...writes.slice(1), ...buildAuditInserts(db, auditEntries)]);
+    }
+
+    const rows = await refreshMilestoneStatuses(db, projectId);
+    return c.json({ success: true, milestones: rows });
+  }
+);
+
+// PATCH /api/v1/projects/:id/milestones/:milestoneId - Update a milestone with audit trail
+// Requires planner, admin or super_admin role
+projectsRoutes.patch(
+  "/:id/milestones/:milestoneId",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", updateMilestoneSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId, milestoneId } = c.req.param();
+    const updates = c.req.valid("json");
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(milestones)
+      .where(and(eq(milestones.id, milestoneId), eq(milestones.projectId, projectId)));
+
+    if (!existing) {
+      return c.json({ error: "Milestone not found" }, 404);
+    }
+
+    // Completing a milestone stamps today's date; moving it back out of completed clears it
+    let actualDate = updates.actualDate !== undefined ? updates.actualDate : existing.actualDate;
+    if (updates.status === "completed" && !actualDate) {
+      actualDate = todayIsoDate();
+    } else if (updates.status && updates.status !== "completed" && updates.actualDate === undefined) {
+      actualDate = null;
+    }
+
+    const targetDate = updates.targetDate !== undefined ? updates.targetDate : existing.targetDate;
+    const status = deriveMilestoneStatus({
+      status: updates.status || existing.status,
+      targetDate,
+      actualDate,
+    });
+
+    const newValues = {
+      name: updates.name,
+      description: updates.description,
+      milestoneType: updates.milestoneType,
+      targetDate: updates.targetDate,
+      actualDate,
+      status,
+      orderIndex: updates.orderIndex,
+    };
+
+    const auditEntries = createFieldChangeEntries(
+      "milestone",
+      milestoneId,
+      existing as unknown as Record<string, unknown>,
+      newValues,
+      auth?.userId || null,
+      auth?.role || null,
+      { projectId, projectCode: result.project.projectCode }
+    );
+
+    for (const entry of auditEntries) {
+      if (entry.fieldName === "status") {
+        entry.fromStatus = entry.oldValue;
+        entry.toStatus = entry.newValue;
+      }
+    }
+
+    if (auditEntries.length > 0) {
+      const updateData: Record<string, unknown> = {};
+      for (const entry of auditEntries) {
+        updateData[entry.fieldName] = newValues[entry.fieldName as keyof typeof newValues];
+      }
+
+      await db.batch([
+        db.update(milestones).set(updateData).where(eq(milestones.id, milestoneId)),
+        ...buildAuditInserts(db, auditEntries),
+      ]);
+
+      await recomputeProjectProgress(db, projectId, {
+        userId: auth?.userId || null,
+        role: auth?.role || null,
+      });
+    }
+
+    const [updated] = await db
+      .select()
+      .from(milestones)
+      .where(eq(milestones.id, milestoneId));
+
+    return c.json({ success: true, milestone: updated });
+  }
+);
+
+// DELETE /api/v1/projects/:id/milestones/:milestoneId - Remove a milestone
+// Requires planner, admin or super_admin role
+projectsRoutes.delete(
+  "/:id/milestones/:milestoneId",
+  requireRole("planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId, milestoneId } = c.req.param();
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(milestones)
+      .where(and(eq(milestones.id, milestoneId), eq(milestones.projectId, projectId)));
+
+    if (!existing) {
+      return c.json({ error: "Milestone not found" }, 404);
+    }
+
+    await db.delete(milestones).where(eq(milestones.id, milestoneId));
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "milestone",
+        targetId: milestoneId,
+        fieldName: "deleted",
+        oldValue: existing.name,
+        newValue: null,
+        performedBy: auth?.userId || null,
+        performerRole: auth?.role || null,
+        metadata: { action: "deleted", projectId, projectCode: result.project.projectCode, name: existing.name },
+      },
+    ]);
+
+    await recomputeProjectProgress(db, projectId, {
+      userId: auth?.userId || null,
+      role: auth?.role || null,
+    });
+
+    return c.json({ success: true });
+  }
+);
+
+// ============ LINKED REPORTS ============
+
+const linkReportsSchema = z.object({
+  reportIds: z.array(z.string()).min(1).max(100),
+  linkType: z.enum(["primary", "related", "contributing"]).default("primary"),
+  notes: z.string().max(1000).optional(),
+});
+
+// GET /api/v1/projects/:id/reports - List reports linked to a project
+// Requires planner, admin, super_admin or stakeholder role
+projectsRoutes.get(
+  "/:id/reports",
+  requireRole("planner", "admin", "super_admin", "stakeholder"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const { id } = c.req.param();
+
+    const [project] = await db
+      .select({ id: rebuildProjects.id })
+      .from(rebuildProjects)
+      .where(eq(rebuildProjects.id, id));
+
+    if (!project) {
+      return c.json({ error: "Project not found" }, 404);
+    }
+
+    const reports = await db
+      .select({
+        linkId: reportProjectLinks.id,
+        linkType: reportProjectLinks.linkType,
+        notes: reportProjectLinks.notes,
+        linkedAt: reportProjectLinks.createdAt,
+        linkedByName: user.name,
+        id: damageReports.id,
+        reportNumber: damageReports.reportNumber,
+        damageType: damageReports.damageType,
+        severity: damageReports.severity,
+        status: damageReports.status,
+        locationName: damageReports.locationName,
+        latitude: damageReports.latitude,
+        longitude: damageReports.longitude,
+      })
+      .from(reportProjectLinks)
+      .innerJoin(damageReports, eq(reportProjectLinks.reportId, damageReports.id))
+      .leftJoin(user, eq(reportProjectLinks.linkedBy, user.id))
+      .where(eq(reportProjectLinks.projectId, id))
+      .orderBy(desc(reportProjectLinks.createdAt));
+
+    return c.json({ reports });
+  }
+);
+
+// POST /api/v1/projects/:id/reports - Link one or more reports to a project
+// Primary and contributing links move the report to linked_to_project
+// Requires planner, admin or super_admin role
+projectsRoutes.post(
+  "/:id/reports",
+  requireRole("planner", "admin", "super_admin"),
+  zValidator("json", linkReportsSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId } = c.req.param();
+    const { reportIds, linkType, notes } = c.req.valid("json");
+    const performer = { userId: auth?.userId || null, role: auth?.role || null };
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+    const { project } = result;
+
+    const uniqueIds = [...new Set(reportIds)];
+    const reports = await db
+      .select()
+      .from(damageReports)
+      .where(inArray(damageReports.id, uniqueIds));
+
+    if (reports.length !== uniqueIds.length) {
+      return c.json({ error: "One or more reports were not found" }, 404);
+    }
+
+    const existingLinks = await db
+      .select({
+        reportId: reportProjectLinks.reportId,
+        projectId: reportProjectLinks.projectId,
+        linkType: reportProjectLinks.linkType,
+      })
+      .from(reportProjectLinks)
+      .where(inArray(reportProjectLinks.reportId, uniqueIds));
+
+    // A report has at most one primary project
+    if (linkType === "primary") {
+      const conflict = existingLinks.find((l) => l.linkType === "primary" && l.projectId !== projectId);
+      if (conflict) {
+        const report = reports.find((r) => r.id === conflict.reportId);
+        return c.json({ error: `Report ${report?.reportNumber} already has a primary project` }, 409);
+      }
+    }
+
+    const now = new Date();
+    const linked: string[] = [];
+    const skipped: string[] = [];
+    const notify = {
+      env: c.env,
+      ctx: c.executionCtx,
+      baseUrl: c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173",
+    };
+
+    for (const report of reports) {
+      if (existingLinks.some((l) => l.reportId === report.id && l.projectId === projectId)) {
+        skipped.push(report.id);
+        continue;
+      }
+
+      await db.insert(reportProjectLinks).values({
+        id: crypto.randomUUID(),
+        reportId: report.id,
+        projectId,
+        linkType,
+        linkedBy: auth?.userId || null,
+        notes: notes || null,
+        createdAt: now,
+      });
+
+      await recordAuditEntries(db, [
+        {
+          targetType: "report",
+          targetId: report.id,
+          fieldName: "projectLink",
+          oldValue: null,
+          newValue: project.projectCode,
+          fromStatus: report.status,
+          toStatus: report.status,
+          performedBy: performer.userId,
+          performerRole: performer.role,
+          metadata: { action: "linked", projectId, projectCode: project.projectCode, linkType },
+        },
+      ]);
+
+      // Hand the report over to the project when the role allows that transition
+      if (
+        isProjectDrivenLink(linkType) &&
+        isValidTransition(performer.role || "citizen", report.status, "linked_to_project")
+      ) {
+        await setReportStatus(
+          db,
+          report,
+          "linked_to_project",
+          performer,
+          `Linked to project ${project.projectCode}`,
+          { projectId, projectCode: project.projectCode, automatic: true },
+          notify
+        );
+      }
+
+      linked.push(report.id);
+    }
+
+    return c.json({ success: true, linked, skipped }, 201);
+  }
+);
+
+// DELETE /api/v1/projects/:id/reports/:reportId - Unlink a report from a project
+// Reports left without a driving project go back to in_progress or verified
+// Requires planner, admin or super_admin role
+projectsRoutes.delete(
+  "/:id/reports/:reportId",
+  requireRole("planner", "admin", "super_admin"),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const auth = getAuth(c);
+    const { id: projectId, reportId } = c.req.param();
+    const performer = { userId: auth?.userId || null, role: auth?.role || null };
+
+    const result = await getEditableProject(db, projectId);
+    if (!result.project) {
+      return c.json({ error: result.error }, result.status);
+    }
+    const { project } = result;
+
+    const [report] = await db
+      .select()
+      .from(damageReports)
+      .where(eq(damageReports.id, reportId));
+
+    if (!report) {
+      return c.json({ error: "Report not found" }, 404);
+    }
+
+    const links = await db
+      .select({ id: reportProjectLinks.id, linkType: reportProjectLinks.linkType })
+      .from(reportProjectLinks)
+      .where(and(eq(reportProjectLinks.projectId, projectId), eq(reportProjectLinks.reportId, reportId)));
+
+    if (links.length === 0) {
+      return c.json({ error: "Report is not linked to this project" }, 404);
+    }
+
+    await db
+      .delete(reportProjectLinks)
+      .where(and(eq(reportProjectLinks.projectId, projectId), eq(reportProjectLinks.reportId, reportId)));
+
+    await recordAuditEntries(db, [
+      {
+        targetType: "report",
+        targetId: reportId,
+        fieldName: "projectLink",
+        oldValue: project.projectCode,
+        newValue: null,
+        fromStatus: report.status,
+        toStatus: report.status,
+        performedBy: performer.userId,
+        performerRole: performer.role,
+        metadata: { action: "unlinked", projectId, projectCode: project.projectCode },
+      },
+    ]);
+
+    if (report.status === "linked_to_project" && !(await hasProjectDrivenLink(db, reportId))) {
+      await setReportStatus(
+        db,
+        report,
+        report.inProgressAt ? "in_progress" : "verified",
+        performer,
+        `Unlinked from project ${project.projectCode}`,
+        { projectId, projectCode: project.projectCode, automatic: true },
+        {
+          env: c.env,
+          ctx: c.executionCtx,
+          baseUrl: c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173",
+        }
+      );
+    }
+
+    return c.json({ success: true });
+  }
+);
+
+export { projectsRoutes };
@@ -1,7 +1,8 @@
 import { Hono } from "hono";
 import { createDb } from "../db";
-import { damageReports } from "../db/schema";
-import { sql } from "drizzle-orm";
+import { damageReports, locations } from "../db/schema";
+import { eq, sql } from "drizzle-orm";
+import { getReportRegion } from "../services/reportScope";
 
 const publicMetricsRoutes = new Hono<{ Bindings: Env }>();
 
@@ -66,7 +67,7 @@ publicMetricsRoutes.get("/metrics", async (c) => {
   const oneMonthAgo = new Date(today.getTime() - 30 * 24 * 60 * 60 * 1000);
   const oneYearAgo = new Date(today.getTime() - 365 * 24 * 60 * 60 * 1000);
 
-  // Get all non-rejected reports
+  // Get all non-rejected reports (merged duplicates are counted through their canonical report)
   const allReports = await db
     .select({
       id: damageReports.id,
@@ -77,17 +78,20 @@ publicMetricsRoutes.get("/metrics", async (c) => {
       createdAt: damageReports.createdAt,
       resolvedAt: damageReports.resolvedAt,
       inProgressAt: damageReports.inProgressAt,
+      districtName: locations.nameEn,
     })
     .from(damageReports)
+    .leftJoin(locations, eq(damageReports.districtId, locations.id))
     .where(
-      sql`${damageReports.status} != 'rejected'`
+      sql`${damageReports.status} NOT IN ('rejected', 'merged')`
     );
 
   // Calculate summary counts
   const summary = {
     totalReports: allReports.length,
     resolved: allReports.filter(r => r.status === "resolved").length,
-    inProgress: allReports.filter(r => r.status === "in_progress").length,
+    // Reports handed over to a rebuild project count as in progress
+    inProgress: allReports.filter(r => r.status === "in_progress" || r.status === "linked_to_project").length,
     pending: allReports.filter(r => r.status === "new" || r.status === "verified").length,
   };
 
@@ -133,23 +137,11 @@ publicMetricsRoutes.get("/metrics", async (c) => {
     })
     .slice(0, 5)
     .map(r => {
-      // Parse location name for district
-      let districtName = null;
-      let roadName = r.locationName;
-      if (r.locationName) {
-        const match = r.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-        if (match) {
-          districtName = match[1].trim();
-          const roadMatch = r.locationName.match(/^([^(]+)/);
-          if (roadMatch && roadMatch[1].trim()) {
-            roadName = roadMatch[1].trim();
-          }
-        }
-      }
+      const { districtName } = getReportRegion(r);
 
       return {
         id: r.id,
-        roadName: roadName || "Unknown Road",
+        roadName: r.locationName || "Unknown Road",
         district: districtName || "Unknown",
         damageType: r.damageType,
         resolutionTimeDays: r.resolutionTimeDays,
@@ -158,23 +150,11 @@ publicMetricsRoutes.get("/metrics", async (c) => {
     });
 
   // In-progress work
-  const inProgressReports = allReports.filter(r => r.status === "in_progress");
+  const inProgressReports = allReports.filter(r => r.status === "in_progress" || r.status === "linked_to_project");
   const inProgressWork = inProgressReports
     .slice(0, 10)
     .map(r => {
-      // Parse location name for district
-      let districtName = null;
-      let roadName = r.locationName;
-      if (r.locationName) {
-        const match = r.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-        if (match) {
-          districtName = match[1].trim();
-          const roadMatch = r.locationName.match(/^([^(]+)/);
-          if (roadMatch && roadMatch[1].trim()) {
-            roadName = roadMatch[1].trim();
-          }
-        }
-      }
+      const { districtName } = getReportRegion(r);
 
       // Parse workflowData for progress
       let progressPercent = 0;
@@ -189,7 +169,7 @@ publicMetricsRoutes.get("/metrics", async (c) => {
 
       return {
         id: r.id,
-        roadName: roadName || "Unknown Road",
+        roadName: r.locationName || "Unknown Road",
         district: districtName || "Unknown",
         progressPercent,
       };
@@ -199,13 +179,7 @@ publicMetricsRoutes.get("/metrics", async (c) => {
   const districtCounts: Record<string, { resolved: number; inProgress: number; pending: number }> = {};
 
   allReports.forEach(r => {
-    let districtName = "Unknown";
-    if (r.locationName) {
-      const match = r.locationName.match(/\(([^,]+),\s*([^)]+)\)/);
-      if (match) {
-        districtName = match[1].trim();
-      }
-    }
+    const districtName = getReportRegion(r).districtName || "Unknown";
 
     if (!districtCounts[districtName]) {
       districtCounts[districtName] = { resolved: 0, inProgress: 0, pending: 0 };
@@ -213,7 +187,7 @@ publicMetricsRoutes.get("/metrics", async (c) => {
 
     if (r.status === "resolved") {
       districtCounts[districtName].resolved++;
-    } else if (r.status === "in_progress") {
+    } else if (r.status === "in_progress" || r.status === "linked_to_project") {
       districtCounts[districtName].inProgress++;
     } else if (r.status === "new" || r.status === "verified") {
       districtCounts[districtName].pending++;
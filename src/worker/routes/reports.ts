@@ -1,132 +1,31 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { createDb } from "../db";
+import { createDb, type Database } from "../db";
 import { damageReports, mediaAttachments } from "../db/schema";
 import { eq, and, desc, isNull } from "drizzle-orm";
 import { authMiddleware, optionalAuthMiddleware, getAuth } from "../middleware/auth";
+import { submissionRateLimit } from "../middleware/rateLimit";
+import { updateReportPriority } from "../services/priority";
+import { flagDuplicateCandidates } from "../services/duplicates";
+import { assignReportRegion, withSubmittedDivisions, EMPTY_REGION, type ReportRegionIds } from "../services/regions";
+import { reverseGeocode, formatLocationName, nominatimLocationName, findNearestRoad } from "../services/geocoder";
+import { findChainage } from "../services/chainage";
+import { getVerificationEmailHtml, sendEmail } from "../services/email";
 
 const reportsRoutes = new Hono<{ Bindings: Env }>();
 
-// Helper to reverse geocode coordinates to location name using Nominatim
-async function reverseGeocode(lat: number, lng: number): Promise<string | null> {
+// Helper to name a location from the offline gazetteer, falling back to Nominatim
+// only when NOMINATIM_FALLBACK is enabled and the gazetteer finds nothing
+async function resolveLocationName(db: Database, env: Env, lat: number, lng: number): Promise<string | null> {
   try {
-    const response = await fetch(
-      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=14&addressdetails=1`,
-      {
-        headers: {
-          "User-Agent": "SriLankaRoadStatus/1.0 (road-lk.org)",
-          "Accept-Language": "en",
-        },
-      }
-    );
-
-    if (!response.ok) return null;
-
-    const data = await response.json() as {
-      address?: {
-        road?: string;
-        neighbourhood?: string;
-        suburb?: string;
-        city?: string;
-        town?: string;
-        village?: string;
-        county?: string;
-        state?: string;
-        state_district?: string;
-        country?: string;
-      };
-      display_name?: string;
-    };
-
-    if (!data.address) return null;
-
-    const addr = data.address;
-    // Build a concise location string
-    const parts: string[] = [];
-
-    // Road name if available
-    if (addr.road) parts.push(addr.road);
-
-    // Area (suburb/neighbourhood/village)
-    const area = addr.neighbourhood || addr.suburb || addr.village || addr.town;
-    if (area && !parts.includes(area)) parts.push(area);
-
-    // City/District
-    const city = addr.city || addr.county || addr.state_district;
-    if (city && !parts.includes(city)) parts.push(city);
-
-    // Province/State
-    if (addr.state && !parts.includes(addr.state)) parts.push(addr.state);
-
-    return parts.length > 0 ? parts.join(", ") : null;
+    const locationName = formatLocationName(await reverseGeocode(db, lat, lng));
+    if (locationName) return locationName;
   } catch (error) {
     console.error("Reverse geocode error:", error);
-    return null;
   }
-}
 
-// Helper to send verification email via Mailgun
-async function sendVerificationEmail(
-  env: Env,
-  to: string,
-  reportNumber: string,
-  verifyUrl: string
-) {
-  const domain = "mail.road-lk.org";
-  const from = `Sri Lanka Road Status <noreply@${domain}>`;
-
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    </head>
-    <body style="font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, sans-serif; padding: 20px; background-color: #f5f5f5;">
-      <div style="max-width: 480px; margin: 0 auto; background: white; border-radius: 8px; padding: 32px; box-shadow: 0 2px 8px rgba(0,0,0,0.1);">
-        <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">Verify Your Report</h1>
-        <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 8px;">
-          Thank you for submitting report <strong>${reportNumber}</strong>.
-        </p>
-        <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 24px;">
-          Please click the button below to verify your email and confirm your report.
-        </p>
-        <a href="${verifyUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px;">
-          Verify Report
-        </a>
-        <p style="color: #999; font-size: 14px; margin-top: 24px;">
-          This link will expire in 24 hours. If you didn't submit this report, you can safely ignore this email.
-        </p>
-      </div>
-    </body>
-    </html>
-  `;
-
-  const formData = new FormData();
-  formData.append("from", from);
-  formData.append("to", to);
-  formData.append("subject", `Verify your incident report ${reportNumber}`);
-  formData.append("html", html);
-
-  const response = await fetch(
-    `https://api.mailgun.net/v3/${domain}/messages`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${btoa(`api:${env.MAILGUN_API_KEY}`)}`,
-      },
-      body: formData,
-    }
-  );
-
-  if (!response.ok) {
-    const error = await response.text();
-    console.error("Mailgun error:", error);
-    throw new Error(`Failed to send verification email: ${response.status}`);
-  }
-
-  return response.json();
+  return env.NOMINATIM_FALLBACK === "true" ? nominatimLocationName(lat, lng) : null;
 }
 
 // Validation schemas
@@ -149,12 +48,15 @@ const createReportSchema = z.object({
   // Location info (optional - user-provided or auto-detected)
   province: z.string().max(50).optional(),
   district: z.string().max(50).optional(),
+  dsDivisionId: z.string().max(100).optional(), // locations id of the Divisional Secretariat division
+  gnDivisionId: z.string().max(100).optional(), // locations id of the Grama Niladhari division
   locationName: z.string().max(200).optional(), // Road/location name
 
   // Road classification (optional)
   roadId: z.string().optional(), // ID of selected road from roads table
   roadNumberInput: z.string().max(20).optional(), // What user typed (for matching/unmatched)
   roadClass: z.enum(["A", "B", "C", "D", "E"]).optional(), // Road class if matched
+  chainageKm: z.number().min(0).max(1000).optional(), // Kilometre post along the road
 
   // Optional
   anonymousName: z.string().max(100).optional(),
@@ -173,6 +75,8 @@ const createReportSchema = z.object({
   mediaKeys: z.array(z.string()).max(20).optional(), // R2 storage keys for uploaded photos
   // Flag for manually picked location (when photos lack GPS data)
   locationPickedManually: z.boolean().optional(),
+  // Interface language, used for status update emails to the submitter
+  language: z.enum(["en", "si", "ta"]).optional(),
 });
 
 const claimReportSchema = z.object({
@@ -189,23 +93,25 @@ function generateReportNumber(): string {
   return `CR-${year}${month}${day}-${random}`;
 }
 
-// Map province IDs to Provincial Road Authority organization IDs
+// Provincial Road Authority organization for each province location id (the ids of the
+// province rows in locations, which the report form also submits)
 const PROVINCE_TO_PRA: Record<string, string> = {
   western: "org_wp_pra",
   central: "org_cp_pra",
   southern: "org_sp_pra",
   northern: "org_np_pra",
   eastern: "org_ep_pra",
-  north_western: "org_nwp_pra",
-  north_central: "org_ncp_pra",
+  "north-western": "org_nwp_pra",
+  "north-central": "org_ncp_pra",
   uva: "org_up_pra",
   sabaragamuwa: "org_sab_pra",
 };
 
-// Determine assigned organization based on road class and province
+// Determine assigned organization based on road class and province. Provinces are
+// tried in order, so a boundary-assigned province outranks the one picked on the form.
 function determineAssignedOrg(
   roadClass: string | undefined,
-  province: string | undefined
+  provinceIds: (string | null | undefined)[]
 ): string | null {
   if (!roadClass) return null;
 
@@ -215,8 +121,11 @@ function determineAssignedOrg(
   }
 
   // C, D class roads → Provincial Road Authority
-  if (["C", "D"].includes(roadClass) && province) {
-    return PROVINCE_TO_PRA[province.toLowerCase()] || null;
+  if (["C", "D"].includes(roadClass)) {
+    for (const provinceId of provinceIds) {
+      const pra = provinceId ? PROVINCE_TO_PRA[provinceId] : undefined;
+      if (pra) return pra;
+    }
   }
 
   return null;
@@ -240,9 +149,11 @@ function determineClassificationStatus(
 }
 
 // POST /api/v1/reports - Create new incident report (anonymous or authenticated)
+// Rate limited per IP (anonymous) or per user
 reportsRoutes.post(
   "/",
   optionalAuthMiddleware(),
+  submissionRateLimit("report_submission"),
   zValidator("json", createReportSchema),
   async (c) => {
     const db = createDb(c.env.DB);
@@ -263,26 +174,54 @@ reportsRoutes.post(
     const sourceType = isTrustedSubmitter ? "field_officer" : "citizen";
 
     // Use user-provided location name or fall back to reverse geocoding
-    let locationName = data.locationName || await reverseGeocode(data.latitude, data.longitude);
-
-    // Auto-format location name to include (district, province) if not already formatted
-    // Format: "Road Name (district, province)"
-    if (locationName && data.province && data.district) {
-      // Check if location name doesn't already have parentheses
-      if (!locationName.includes('(') || !locationName.includes(')')) {
-        locationName = `${locationName} (${data.district}, ${data.province})`;
-      }
+    const locationName = data.locationName || await resolveLocationName(db, c.env, data.latitude, data.longitude);
+
+    // Regions come from the boundary polygons containing the report, with the DS/GN
+    // division picked on the form used where no boundary covers it
+    let region: ReportRegionIds = EMPTY_REGION;
+    try {
+      region = await assignReportRegion(db, data.latitude, data.longitude);
+      region = await withSubmittedDivisions(db, region, data);
+    } catch (error) {
+      console.error("Failed to assign report region:", error);
     }
 
-    // Store province/district in workflowData JSON (not in locationName to avoid corruption)
+    // Keep the submitter's province/district in workflowData for areas without boundaries
     const workflowData = JSON.stringify({
       province: data.province || null,
       district: data.district || null,
     });
 
     // Determine road classification and org assignment
-    const classificationStatus = determineClassificationStatus(data.roadId, data.roadNumberInput);
-    const assignedOrgId = determineAssignedOrg(data.roadClass, data.province);
+    // Without a road picked or typed, snap the report to the nearest numbered road
+    let road = { id: data.roadId, roadClass: data.roadClass, roadNumber: data.roadNumberInput };
+    if (!data.roadId && !data.roadNumberInput) {
+      try {
+        const nearest = await findNearestRoad(db, data.latitude, data.longitude);
+        if (nearest) {
+          road = {
+            id: nearest.id,
+            roadClass: nearest.roadClass as typeof data.roadClass,
+            roadNumber: nearest.roadNumber,
+          };
+        }
+      } catch (error) {
+        console.error("Failed to snap report to nearest road:", error);
+      }
+    }
+
+    // Read the km post off the road geometry unless the submitter gave one
+    let chainageKm = data.chainageKm ?? null;
+    if (chainageKm === null && road.roadNumber) {
+      try {
+        chainageKm = (await findChainage(db, data.latitude, data.longitude, road.roadNumber))?.km ?? null;
+      } catch (error) {
+        console.error("Failed to locate report chainage:", error);
+      }
+    }
+
+    const classificationStatus = determineClassificationStatus(road.id, data.roadNumberInput);
+    const assignedOrgId = determineAssignedOrg(road.roadClass, [region.provinceId, data.province]);
     const classifiedAt = classificationStatus === "auto_classified" ? now : null;
 
     // Build the values object for insertion
@@ -335,9 +274,10 @@ reportsRoutes.post(
           damage_type, severity, description, status, passability_level,
           is_single_lane, needs_safety_barriers, blocked_distance_meters,
           incident_details, submission_source, is_verified_submitter, claim_token,
-          road_id, road_number_input, road_class, assigned_org_id, classification_status, classified_at,
-          location_picked_manually, created_at, updated_at
-        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+          road_id, road_number_input, road_class, chainage_km, assigned_org_id, classification_status, classified_at,
+          province_id, district_id, city_id, ds_division_id, gn_division_id,
+          location_picked_manually, submitter_language, created_at, updated_at
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
       `).bind(
         insertValues.id,
         insertValues.reportNumber,
@@ -364,13 +304,20 @@ reportsRoutes.post(
         insertValues.submissionSource,
         insertValues.isVerifiedSubmitter ? 1 : 0,
         insertValues.claimToken,
-        data.roadId || null,
+        road.id || null,
         data.roadNumberInput || null,
-        data.roadClass || null,
+        road.roadClass || null,
+        chainageKm,
         assignedOrgId,
         classificationStatus,
         classifiedAtTs,
+        region.provinceId,
+        region.districtId,
+        region.cityId,
+        region.dsDivisionId,
+        region.gnDivisionId,
         data.locationPickedManually ? 1 : 0,
+        data.language || null,
         createdAtTs,
         updatedAtTs
       ).run();
@@ -381,6 +328,26 @@ reportsRoutes.post(
       return c.json({ error: `Failed to create report: ${errorMessage}` }, 500);
     }
 
+    // Score the report so it lands in the right place in the admin queue
+    try {
+      await updateReportPriority(db, reportId);
+    } catch (error) {
+      console.error("Failed to compute priority score:", error);
+      // Don't fail the request; the score is filled in on the next update or re-score
+    }
+
+    // Flag nearby open reports of the same damage type so reviewers can merge them
+    try {
+      await flagDuplicateCandidates(db, {
+        id: reportId,
+        latitude: data.latitude,
+        longitude: data.longitude,
+        damageType: data.damageType,
+      });
+    } catch (error) {
+      console.error("Failed to flag duplicate candidates:", error);
+    }
+
     // Link any uploaded media to this report
     if (data.mediaKeys && data.mediaKeys.length > 0) {
       for (const storageKey of data.mediaKeys) {
@@ -401,7 +368,12 @@ reportsRoutes.post(
       try {
         const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
         const verifyUrl = `${baseUrl}/api/v1/reports/verify?token=${claimToken}`;
-        await sendVerificationEmail(c.env, data.anonymousEmail, reportNumber, verifyUrl);
+        await sendEmail(
+          c.env,
+          data.anonymousEmail,
+          `Verify your incident report ${reportNumber}`,
+          getVerificationEmailHtml(reportNumber, verifyUrl)
+        );
       } catch (error) {
         console.error("Failed to send verification email:", error);
         // Don't fail the request if email fails
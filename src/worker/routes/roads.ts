@@ -4,6 +4,8 @@ import { z } from "zod";
 import { createDb } from "../db";
 import { roads } from "../db/schema";
 import { like, or, eq } from "drizzle-orm";
+import { findNearestRoads, ROAD_MATCH_RADIUS_METERS, ROAD_SEARCH_RADIUS_METERS } from "../services/geocoder";
+import { findChainage, locateChainage } from "../services/chainage";
 
 const roadsRoutes = new Hono<{ Bindings: Env }>();
 
@@ -42,6 +44,61 @@ roadsRoutes.get("/suggest", zValidator("query", suggestSchema), async (c) => {
   return c.json(results);
 });
 
+const nearestSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  radius: z.coerce.number().min(1).max(ROAD_SEARCH_RADIUS_METERS).optional().default(ROAD_MATCH_RADIUS_METERS),
+  limit: z.coerce.number().min(1).max(20).optional().default(5),
+});
+
+// GET /api/v1/roads/nearest - Numbered roads closest to a point, with distance in meters
+roadsRoutes.get("/nearest", zValidator("query", nearestSchema), async (c) => {
+  const { lat, lng, radius, limit } = c.req.valid("query");
+  const db = createDb(c.env.DB);
+
+  const results = await findNearestRoads(db, lat, lng, { radiusMeters: radius, limit });
+
+  return c.json(results);
+});
+
+const chainageAtSchema = z.object({
+  lat: z.coerce.number().min(-90).max(90),
+  lng: z.coerce.number().min(-180).max(180),
+  roadNumber: z.string().max(20).optional(),
+});
+
+// GET /api/v1/roads/chainage - Road number and km post of a coordinate
+// Uses the given road, or the nearest numbered road if none is given
+roadsRoutes.get("/chainage", zValidator("query", chainageAtSchema), async (c) => {
+  const { lat, lng, roadNumber } = c.req.valid("query");
+  const db = createDb(c.env.DB);
+
+  const chainage = await findChainage(db, lat, lng, roadNumber);
+  if (!chainage) {
+    return c.json({ error: "No road geometry near this point" }, 404);
+  }
+
+  return c.json(chainage);
+});
+
+const chainageRangeSchema = z.object({
+  fromKm: z.coerce.number().min(0),
+  toKm: z.coerce.number().min(0).optional(),
+});
+
+// GET /api/v1/roads/:roadNumber/chainage - Coordinates and path of a km range (or single km post)
+roadsRoutes.get("/:roadNumber/chainage", zValidator("query", chainageRangeSchema), async (c) => {
+  const { fromKm, toKm } = c.req.valid("query");
+  const db = createDb(c.env.DB);
+
+  const range = await locateChainage(db, c.req.param("roadNumber"), fromKm, toKm);
+  if (!range) {
+    return c.json({ error: "Chainage is outside the road's stored geometry" }, 404);
+  }
+
+  return c.json(range);
+});
+
 // GET /api/v1/roads/:roadNumber - Get road by number
 roadsRoutes.get("/:roadNumber", async (c) => {
   const roadNumber = c.req.param("roadNumber").toUpperCase().trim();
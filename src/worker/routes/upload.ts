@@ -2,6 +2,7 @@ import { Hono } from "hono";
 import { createDb } from "../db";
 import { mediaAttachments } from "../db/schema";
 import { optionalAuthMiddleware, getAuth } from "../middleware/auth";
+import { submissionRateLimit } from "../middleware/rateLimit";
 
 const uploadRoutes = new Hono<{ Bindings: Env }>();
 
@@ -13,7 +14,8 @@ const MAX_PHOTOS = 5;
 const ALLOWED_TYPES = ["image/jpeg", "image/png", "image/webp"];
 
 // POST /api/v1/upload/photos - Upload photos for incident report
-uploadRoutes.post("/photos", optionalAuthMiddleware(), async (c) => {
+// Rate limited per IP (anonymous) or per user
+uploadRoutes.post("/photos", optionalAuthMiddleware(), submissionRateLimit("photo_upload"), async (c) => {
   const formData = await c.req.formData();
   const files = formData.getAll("photos") as File[];
 
@@ -0,0 +1,197 @@
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { and, count, eq, isNull, lt } from "drizzle-orm";
+import { createDb } from "../db";
+import { watchSubscriptions } from "../db/schema";
+import { optionalAuthMiddleware } from "../middleware/auth";
+import { submissionRateLimit } from "../middleware/rateLimit";
+import { escapeHtml, getConfirmPageHtml, getMessagePageHtml } from "../services/email";
+import {
+  MAX_WATCHES_PER_EMAIL,
+  MAX_WATCH_AREA_DEGREES,
+  WATCH_CONFIRM_TTL_MS,
+  isWithinSriLanka,
+  resolveWatchTarget,
+  sendWatchConfirmation,
+} from "../services/watch";
+
+const watchRoutes = new Hono<{ Bindings: Env }>();
+
+const createWatchSchema = z.discriminatedUnion("kind", [
+  z.object({
+    kind: z.literal("road"),
+    email: z.string().email(),
+    roadNumber: z.string().min(1).max(20),
+  }),
+  z.object({
+    kind: z.literal("district"),
+    email: z.string().email(),
+    districtId: z.string().min(1),
+  }),
+  z.object({
+    kind: z.literal("area"),
+    email: z.string().email(),
+    bounds: z
+      .object({
+        minLat: z.number(),
+        minLng: z.number(),
+        maxLat: z.number(),
+        maxLng: z.number(),
+      })
+      .refine((b) => b.minLat < b.maxLat && b.minLng < b.maxLng, "Invalid bounding box")
+      .refine(isWithinSriLanka, "Area must be within Sri Lanka")
+      .refine(
+        (b) => b.maxLat - b.minLat <= MAX_WATCH_AREA_DEGREES && b.maxLng - b.minLng <= MAX_WATCH_AREA_DEGREES,
+        "Area is too large; draw a smaller box or watch a district instead"
+      ),
+  }),
+]);
+
+// POST /api/v1/watch - Subscribe an email address to alerts for a road, district or map area
+// Nothing is sent until the address is confirmed from the emailed link
+watchRoutes.post(
+  "/",
+  optionalAuthMiddleware(),
+  submissionRateLimit("watch_subscription"),
+  zValidator("json", createWatchSchema),
+  async (c) => {
+    const db = createDb(c.env.DB);
+    const data = c.req.valid("json");
+    const email = data.email.trim().toLowerCase();
+
+    const target = await resolveWatchTarget(db, data);
+    if (!target) {
+      return c.json({ error: data.kind === "road" ? "Road not found" : "District not found" }, 404);
+    }
+
+    // Unconfirmed subscriptions past their link expiry don't count towards the limit
+    await db
+      .delete(watchSubscriptions)
+      .where(
+        and(
+          eq(watchSubscriptions.email, email),
+          isNull(watchSubscriptions.confirmedAt),
+          lt(watchSubscriptions.createdAt, new Date(Date.now() - WATCH_CONFIRM_TTL_MS))
+        )
+      );
+
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(watchSubscriptions)
+      .where(eq(watchSubscriptions.email, email));
+    if (total >= MAX_WATCHES_PER_EMAIL) {
+      return c.json({ error: `An email address can have at most ${MAX_WATCHES_PER_EMAIL} alerts` }, 400);
+    }
+
+    const subscription = {
+      id: crypto.randomUUID(),
+      email,
+      ...target,
+      confirmToken: crypto.randomUUID(),
+      unsubscribeToken: crypto.randomUUID(),
+      createdAt: new Date(),
+    };
+    await db.insert(watchSubscriptions).values(subscription);
+
+    const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+    try {
+      await sendWatchConfirmation(c.env, subscription, baseUrl);
+    } catch (error) {
+      console.error("Failed to send watch confirmation email:", error);
+      await db.delete(watchSubscriptions).where(eq(watchSubscriptions.id, subscription.id));
+      return c.json({ error: "Could not send the confirmation email. Please try again." }, 502);
+    }
+
+    return c.json({ success: true, label: subscription.label }, 201);
+  }
+);
+
+// GET /api/v1/watch/confirm - Confirm a subscription via email link
+watchRoutes.get("/confirm", async (c) => {
+  const db = createDb(c.env.DB);
+  const token = c.req.query("token");
+
+  const [subscription] = token
+    ? await db.select().from(watchSubscriptions).where(eq(watchSubscriptions.confirmToken, token))
+    : [];
+
+  if (!subscription || Date.now() - subscription.createdAt.getTime() > WATCH_CONFIRM_TTL_MS) {
+    return c.html(
+      getMessagePageHtml(
+        "Link Expired or Already Used",
+        "This confirmation link has expired or has already been used. You can subscribe again from the road alerts page."
+      ),
+      400
+    );
+  }
+
+  await db
+    .update(watchSubscriptions)
+    .set({
+      confirmedAt: new Date(),
+      confirmToken: null, // Clear the token so it can't be used again
+    })
+    .where(eq(watchSubscriptions.id, subscription.id));
+
+  const baseUrl = c.env.PRODUCTION_URL || c.req.header("origin") || "http://localhost:5173";
+  return c.redirect(`${baseUrl}/watch?confirmed=${encodeURIComponent(subscription.label)}`);
+});
+
+// GET /api/v1/watch/unsubscribe - Unsubscribe link in alert emails
+// Only asks for confirmation; the page's button POSTs back to the same link
+watchRoutes.get("/unsubscribe", async (c) => {
+  const db = createDb(c.env.DB);
+  const token = c.req.query("token");
+
+  const [subscription] = token
+    ? await db
+        .select({ label: watchSubscriptions.label })
+        .from(watchSubscriptions)
+        .where(eq(watchSubscriptions.unsubscribeToken, token))
+        .limit(1)
+    : [];
+
+  if (!subscription) {
+    return c.html(
+      getMessagePageHtml("Link Invalid", "This alert has already been removed or the link is invalid."),
+      400
+    );
+  }
+
+  return c.html(
+    getConfirmPageHtml(
+      "Stop Alerts?",
+      `You won't receive any more alerts for <strong>${escapeHtml(subscription.label)}</strong>.`,
+      "Stop Alerts",
+      c.req.url
+    )
+  );
+});
+
+// POST /api/v1/watch/unsubscribe - Confirm page button and one-click unsubscribe (List-Unsubscribe-Post)
+// Deletes the subscription the link belongs to
+watchRoutes.post("/unsubscribe", async (c) => {
+  const db = createDb(c.env.DB);
+  const token = c.req.query("token");
+
+  const deleted = token
+    ? await db
+        .delete(watchSubscriptions)
+        .where(eq(watchSubscriptions.unsubscribeToken, token))
+        .returning({ label: watchSubscriptions.label })
+    : [];
+
+  if (deleted.length === 0) {
+    return c.html(
+      getMessagePageHtml("Link Invalid", "This alert has already been removed or the link is invalid."),
+      400
+    );
+  }
+
+  return c.html(
+    getMessagePageHtml("Alerts Stopped", "You won't receive any more alerts for this road or area.")
+  );
+});
+
+export { watchRoutes };
@@ -1,7 +1,7 @@
 import { stateTransitions } from "../db/schema";
 import type { DrizzleD1Database } from "drizzle-orm/d1";
 
-export type AuditTargetType = "report" | "user" | "invitation" | "user_organization";
+export type AuditTargetType = "report" | "user" | "invitation" | "user_organization" | "project" | "milestone" | "priority_config" | "comment" | "ip_allowlist" | "road_segment" | "webhook";
 
 export interface AuditEntry {
   targetType: AuditTargetType;
@@ -18,9 +18,49 @@ export interface AuditEntry {
   toStatus?: string | null;
 }
 
+// D1 binds at most 100 parameters per statement and each audit row binds 14
+const AUDIT_ROWS_PER_INSERT = 7;
+
+/**
+ * Builds the inserts for one or more audit entries without running them, so they can join
+ * a db.batch with the writes they record. Entries are split so no insert exceeds D1's
+ * parameter limit; entries must not be empty.
+ */
+export function buildAuditInserts(
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  db: DrizzleD1Database<any>,
+  entries: AuditEntry[]
+) {
+  const now = new Date();
+  const rows = entries.map((entry) => ({
+    id: crypto.randomUUID(),
+    targetType: entry.targetType,
+    targetId: entry.targetId,
+    // For backwards compatibility, set reportId when target is a report
+    reportId: entry.targetType === "report" ? entry.targetId : null,
+    fieldName: entry.fieldName,
+    oldValue: entry.oldValue,
+    newValue: entry.newValue,
+    // Use "n/a" as placeholder for non-status audit entries (production DB may have NOT NULL constraint)
+    fromStatus: entry.fromStatus || "n/a",
+    toStatus: entry.toStatus || "n/a",
+    userId: entry.performedBy,
+    userRole: entry.performerRole,
+    reason: entry.reason || null,
+    metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
+    createdAt: now,
+  }));
+
+  const inserts = [];
+  for (let i = 0; i < rows.length; i += AUDIT_ROWS_PER_INSERT) {
+    inserts.push(db.insert(stateTransitions).values(rows.slice(i, i + AUDIT_ROWS_PER_INSERT)));
+  }
+  return inserts;
+}
+
 /**
  * Records one or more audit entries in the state_transitions table.
- * Use this for tracking changes to any entity (users, invitations, org assignments, reports).
+ * Use this for tracking changes to any entity (users, invitations, org assignments, reports, projects).
  */
 export async function recordAuditEntries(
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -28,28 +68,8 @@ export async function recordAuditEntries(
   entries: AuditEntry[]
 ): Promise<void> {
   if (entries.length === 0) return;
-
-  const now = new Date();
-  await db.insert(stateTransitions).values(
-    entries.map((entry) => ({
-      id: crypto.randomUUID(),
-      targetType: entry.targetType,
-      targetId: entry.targetId,
-      // For backwards compatibility, set reportId when target is a report
-      reportId: entry.targetType === "report" ? entry.targetId : null,
-      fieldName: entry.fieldName,
-      oldValue: entry.oldValue,
-      newValue: entry.newValue,
-      // Use "n/a" as placeholder for non-status audit entries (production DB may have NOT NULL constraint)
-      fromStatus: entry.fromStatus || "n/a",
-      toStatus: entry.toStatus || "n/a",
-      userId: entry.performedBy,
-      userRole: entry.performerRole,
-      reason: entry.reason || null,
-      metadata: entry.metadata ? JSON.stringify(entry.metadata) : null,
-      createdAt: now,
-    }))
-  );
+  const [first, ...rest] = buildAuditInserts(db, entries);
+  await db.batch([first, ...rest]);
 }
 
 /**
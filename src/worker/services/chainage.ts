@@ -0,0 +1,145 @@
+import type { Database } from "../db";
+import { findNearestRoad, haversineMeters, ROAD_MATCH_RADIUS_METERS } from "./geocoder";
+import { findRoadMainLine, projectOntoSegment, type PathPoint } from "./roadNetwork";
+
+// RDA kilometre posts count outward from Colombo on most trunk roads. Without a
+// recorded origin per road, km 0 is taken as the end of the main line nearer Colombo.
+const CHAINAGE_ORIGIN: PathPoint = { lat: 6.9344, lng: 79.8428 };
+// Simplified geometry runs slightly short of the posted length, so allow chainages a
+// little past the measured end (they're clamped onto it)
+const CHAINAGE_OVERRUN_KM = 0.5;
+
+interface Centerline {
+  points: PathPoint[];
+  // Chainage in km at each point
+  km: number[];
+  lengthKm: number;
+}
+
+export interface ChainageRange {
+  roadNumber: string;
+  fromKm: number;
+  toKm: number;
+  start: PathPoint;
+  end: PathPoint;
+  // Road-following path from fromKm to toKm
+  path: PathPoint[];
+}
+
+export interface RoadChainage {
+  roadNumber: string;
+  km: number;
+  // Distance from the point to the road centreline
+  distanceMeters: number;
+}
+
+async function loadCenterline(db: Database, roadNumber: string): Promise<Centerline | null> {
+  const mainLine = await findRoadMainLine(db, roadNumber);
+  if (!mainLine || mainLine.length < 2) return null;
+
+  const first = mainLine[0];
+  const last = mainLine[mainLine.length - 1];
+  const points =
+    haversineMeters(first.lat, first.lng, CHAINAGE_ORIGIN.lat, CHAINAGE_ORIGIN.lng) <=
+    haversineMeters(last.lat, last.lng, CHAINAGE_ORIGIN.lat, CHAINAGE_ORIGIN.lng)
+      ? mainLine
+      : [...mainLine].reverse();
+
+  const km = [0];
+  for (let i = 1; i < points.length; i++) {
+    km.push(km[i - 1] + haversineMeters(points[i - 1].lat, points[i - 1].lng, points[i].lat, points[i].lng) / 1000);
+  }
+  return { points, km, lengthKm: km[km.length - 1] };
+}
+
+// Index of the segment (points[i] to points[i + 1]) containing a chainage
+function segmentAtKm(line: Centerline, km: number): number {
+  let i = 0;
+  while (i < line.points.length - 2 && line.km[i + 1] < km) i++;
+  return i;
+}
+
+function pointAtKm(line: Centerline, km: number): PathPoint {
+  const i = segmentAtKm(line, km);
+  const a = line.points[i];
+  const b = line.points[i + 1];
+  const span = line.km[i + 1] - line.km[i];
+  const t = span === 0 ? 0 : Math.max(0, Math.min(1, (km - line.km[i]) / span));
+  return { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng) };
+}
+
+function pathBetweenKm(line: Centerline, fromKm: number, toKm: number): PathPoint[] {
+  const lowKm = Math.min(fromKm, toKm);
+  const highKm = Math.max(fromKm, toKm);
+  const path = [pointAtKm(line, lowKm)];
+  for (let i = 0; i < line.points.length; i++) {
+    if (line.km[i] > lowKm && line.km[i] < highKm) path.push(line.points[i]);
+  }
+  path.push(pointAtKm(line, highKm));
+  return fromKm <= toKm ? path : path.reverse();
+}
+
+function kmAtPoint(line: Centerline, point: PathPoint): { km: number; distanceMeters: number } {
+  let nearest = { km: 0, distanceMeters: Infinity };
+  for (let i = 0; i < line.points.length - 1; i++) {
+    const projected = projectOntoSegment(point, line.points[i], line.points[i + 1]);
+    const distanceMeters = haversineMeters(point.lat, point.lng, projected.lat, projected.lng);
+    if (distanceMeters < nearest.distanceMeters) {
+      nearest = { km: line.km[i] + projected.t * (line.km[i + 1] - line.km[i]), distanceMeters };
+    }
+  }
+  return nearest;
+}
+
+/**
+ * Converts a chainage range on a numbered road (e.g. A004 km 112.3 to 114.0) into its
+ * end coordinates and the road-following path between them. Pass the same km twice
+ * for a single kilometre post. Null if the road has no geometry or the range runs
+ * past its end.
+ */
+export async function locateChainage(
+  db: Database,
+  roadNumber: string,
+  fromKm: number,
+  toKm: number = fromKm
+): Promise<ChainageRange | null> {
+  const line = await loadCenterline(db, roadNumber);
+  if (!line || Math.max(fromKm, toKm) > line.lengthKm + CHAINAGE_OVERRUN_KM) return null;
+
+  const path = pathBetweenKm(line, fromKm, toKm);
+  return {
+    roadNumber: roadNumber.toUpperCase().trim(),
+    fromKm,
+    toKm,
+    start: path[0],
+    end: path[path.length - 1],
+    path,
+  };
+}
+
+/**
+ * Road number and chainage of a coordinate: on the given road, or else the nearest
+ * numbered road. Null if the point is more than ROAD_MATCH_RADIUS_METERS from it.
+ */
+export async function findChainage(
+  db: Database,
+  lat: number,
+  lng: number,
+  roadNumber?: string
+): Promise<RoadChainage | null> {
+  const roadNo = roadNumber?.toUpperCase().trim() || (await findNearestRoad(db, lat, lng))?.roadNumber;
+  if (!roadNo) return null;
+
+  const line = await loadCenterline(db, roadNo);
+  if (!line) return null;
+
+  const { km, distanceMeters } = kmAtPoint(line, { lat, lng });
+  if (distanceMeters > ROAD_MATCH_RADIUS_METERS) return null;
+
+  return {
+    roadNumber: roadNo,
+    // Posts are read to the nearest 10m
+    km: Math.round(km * 100) / 100,
+    distanceMeters: Math.round(distanceMeters),
+  };
+}
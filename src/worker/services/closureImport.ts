@@ -0,0 +1,495 @@
+import { damageReports, roadSegments } from "../db/schema";
+import { eq, isNull } from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import type { Database } from "../db";
+import { SRI_LANKA_BOUNDS } from "../../shared/constants";
+import { mapReasonToDamageType, mapReasonToSeverity } from "../../react-app/data/initialRoadSegments";
+import { buildAuditInserts, type AuditEntry } from "./audit";
+import { computePriorityScore, getActivePriorityConfig, rescoreReports } from "./priority";
+import { assignReportRegion, EMPTY_REGION, type ReportRegionIds } from "./regions";
+import { haversineMeters } from "./geocoder";
+import { snapToRoads } from "./roadsService";
+import type { PathPoint } from "./roadNetwork";
+
+// road_segments.data_source for closures loaded from an official list
+export const CLOSURE_IMPORT_SOURCE = "rda_import";
+
+// Rows accepted per file. Planning is one query whatever the size; the commit is chunked.
+export const MAX_CLOSURE_IMPORT_ROWS = 500;
+
+// Column headers of the ministry's closure list (see plans/road_coordinates.csv), matched
+// ignoring case, spaces and punctuation. Extra columns such as the Google Maps link are ignored.
+const COLUMN_HEADERS = {
+  province: ["province"],
+  roadNo: ["roadno", "road"],
+  roadName: ["roadname"],
+  reason: ["reason"],
+  fromKm: ["fromkm"],
+  fromLat: ["fromlat"],
+  fromLng: ["fromlon", "fromlng"],
+  toKm: ["tokm"],
+  toLat: ["tolat"],
+  toLng: ["tolon", "tolng"],
+} as const;
+
+type ClosureColumn = keyof typeof COLUMN_HEADERS;
+
+// One spreadsheet row keyed by its column headers
+export type RawClosureRow = Record<string, string | number | null>;
+
+export interface ClosureRow {
+  province: string | null;
+  roadNo: string;
+  roadName: string | null;
+  reason: string;
+  fromKm: number;
+  toKm: number;
+  start: PathPoint;
+  end: PathPoint;
+}
+
+export type ClosureImportStatus = "new" | "changed" | "unchanged" | "invalid";
+
+export interface ClosureFieldChange {
+  field: string;
+  oldValue: string | null;
+  newValue: string | null;
+}
+
+export interface PlannedClosure {
+  // 1-based row number below the header
+  row: number;
+  status: ClosureImportStatus;
+  closure: ClosureRow | null;
+  // Existing segment a changed or unchanged row matched
+  segmentId: string | null;
+  reportId: string | null;
+  changes: ClosureFieldChange[];
+  errors: string[];
+}
+
+export interface ClosureImportSummary {
+  new: number;
+  changed: number;
+  unchanged: number;
+  invalid: number;
+}
+
+// Road numbers are written A-004, A004 or "A 004" depending on the source
+function normalizeRoadNo(roadNo: string): string {
+  return roadNo.replace(/[\s-]/g, "").toUpperCase();
+}
+
+function closureKey(roadNo: string, fromKm: number, toKm: number): string {
+  return `${normalizeRoadNo(roadNo)}|${fromKm}|${toKm}`;
+}
+
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z]/g, "");
+}
+
+function readCell(row: RawClosureRow, column: ClosureColumn): string | number | null {
+  const headers: readonly string[] = COLUMN_HEADERS[column];
+  for (const [header, value] of Object.entries(row)) {
+    if (headers.includes(normalizeHeader(header))) return value;
+  }
+  return null;
+}
+
+function readText(row: RawClosureRow, column: ClosureColumn): string | null {
+  const value = readCell(row, column);
+  const text = value === null ? "" : String(value).trim();
+  return text || null;
+}
+
+function readNumber(row: RawClosureRow, column: ClosureColumn): number | null {
+  const value = readCell(row, column);
+  if (value === null || String(value).trim() === "") return null;
+  const number = typeof value === "number" ? value : Number(String(value).trim());
+  return Number.isFinite(number) ? number : null;
+}
+
+function inSriLanka(lat: number | null, lng: number | null): boolean {
+  return (
+    lat !== null &&
+    lng !== null &&
+    lat >= SRI_LANKA_BOUNDS.south &&
+    lat <= SRI_LANKA_BOUNDS.north &&
+    lng >= SRI_LANKA_BOUNDS.west &&
+    lng <= SRI_LANKA_BOUNDS.east
+  );
+}
+
+/**
+ * Validates one row of a closure list. Returns the closure, or the reasons it was rejected.
+ */
+export function parseClosureRow(row: RawClosureRow): { closure: ClosureRow | null; errors: string[] } {
+  const errors: string[] = [];
+  const roadNo = readText(row, "roadNo");
+  const reason = readText(row, "reason");
+  const fromKm = readNumber(row, "fromKm");
+  const toKm = readNumber(row, "toKm");
+  const fromLat = readNumber(row, "fromLat");
+  const fromLng = readNumber(row, "fromLng");
+  const toLat = readNumber(row, "toLat");
+  const toLng = readNumber(row, "toLng");
+
+  if (!roadNo) errors.push("Road No is missing");
+  if (!reason) errors.push("Reason is missing");
+  if (fromKm === null || fromKm < 0) errors.push("From (km) must be a number of 0 or more");
+  if (toKm === null || toKm < 0) errors.push("To (km) must be a number of 0 or more");
+  if (!inSriLanka(fromLat, fromLng)) errors.push("From Lat/Lon is missing or outside Sri Lanka");
+  if (!inSriLanka(toLat, toLng)) errors.push("To Lat/Lon is missing or outside Sri Lanka");
+
+  if (errors.length > 0) return { closure: null, errors };
+
+  return {
+    closure: {
+      // Lists number provinces by how many closures they have, e.g. "Eastern (13)"
+      province: readText(row, "province")?.replace(/\s*\(\d+\)$/, "") || null,
+      roadNo: roadNo!,
+      roadName: readText(row, "roadName"),
+      reason: reason!,
+      fromKm: fromKm!,
+      toKm: toKm!,
+      start: { lat: fromLat!, lng: fromLng! },
+      end: { lat: toLat!, lng: toLng! },
+    },
+    errors,
+  };
+}
+
+// Coordinates are compared to ~10cm so float noise from spreadsheets doesn't count as a change
+const formatCoordinate = (value: number) => value.toFixed(6);
+
+function closureFields(closure: {
+  province: string | null;
+  roadName: string | null;
+  reason: string | null;
+  start: PathPoint;
+  end: PathPoint;
+}) {
+  return {
+    province: closure.province,
+    roadName: closure.roadName,
+    reason: closure.reason,
+    startLat: formatCoordinate(closure.start.lat),
+    startLng: formatCoordinate(closure.start.lng),
+    endLat: formatCoordinate(closure.end.lat),
+    endLng: formatCoordinate(closure.end.lng),
+  };
+}
+
+/**
+ * Dry run of a closure list import: validates every row and matches it to an existing
+ * (non-deleted) segment by road number and km range, listing the fields that would change.
+ * Lists often give unsurveyed closures as km 0-0, so where several segments share a road
+ * and km range the one starting nearest the row is matched. Rows repeating an earlier
+ * row exactly are rejected.
+ */
+export async function planClosureImport(db: Database, rows: RawClosureRow[]): Promise<PlannedClosure[]> {
+  const existing = await db
+    .select({
+      id: roadSegments.id,
+      reportId: roadSegments.reportId,
+      roadNo: roadSegments.roadNo,
+      fromKm: roadSegments.fromKm,
+      toKm: roadSegments.toKm,
+      province: roadSegments.province,
+      roadName: roadSegments.roadName,
+      reason: roadSegments.reason,
+      startLat: roadSegments.startLat,
+      startLng: roadSegments.startLng,
+      endLat: roadSegments.endLat,
+      endLng: roadSegments.endLng,
+    })
+    .from(roadSegments)
+    .where(isNull(roadSegments.deletedAt));
+
+  const segmentsByKey = new Map<string, (typeof existing)[number][]>();
+  for (const segment of existing) {
+    if (segment.roadNo && segment.fromKm !== null && segment.toKm !== null) {
+      const key = closureKey(segment.roadNo, segment.fromKm, segment.toKm);
+      segmentsByKey.set(key, [...(segmentsByKey.get(key) || []), segment]);
+    }
+  }
+
+  const matchedSegments = new Set<string>();
+  const seenRows = new Map<string, number>();
+
+  return rows.map((raw, index): PlannedClosure => {
+    const row = index + 1;
+    const { closure, errors } = parseClosureRow(raw);
+    const planned: PlannedClosure = {
+      row,
+      status: "invalid",
+      closure,
+      segmentId: null,
+      reportId: null,
+      changes: [],
+      errors,
+    };
+    if (!closure) return planned;
+
+    const key = closureKey(closure.roadNo, closure.fromKm, closure.toKm);
+    const rowKey = `${key}|${formatCoordinate(closure.start.lat)},${formatCoordinate(closure.start.lng)}`;
+    const duplicateOf = seenRows.get(rowKey);
+    if (duplicateOf !== undefined) {
+      return { ...planned, errors: [`Duplicate of row ${duplicateOf}`] };
+    }
+    seenRows.set(rowKey, row);
+
+    const distanceTo = (segment: (typeof existing)[number]) =>
+      haversineMeters(closure.start.lat, closure.start.lng, segment.startLat, segment.startLng);
+    const segment = (segmentsByKey.get(key) || [])
+      .filter((candidate) => !matchedSegments.has(candidate.id))
+      .sort((a, b) => distanceTo(a) - distanceTo(b))[0];
+    if (!segment) return { ...planned, status: "new" };
+    matchedSegments.add(segment.id);
+
+    const oldFields = closureFields({
+      ...segment,
+      start: { lat: segment.startLat, lng: segment.startLng },
+      end: { lat: segment.endLat, lng: segment.endLng },
+    });
+    const newFields = closureFields(closure);
+    const changes = (Object.keys(newFields) as (keyof typeof newFields)[])
+      .filter((field) => oldFields[field] !== newFields[field])
+      .map((field) => ({ field, oldValue: oldFields[field], newValue: newFields[field] }));
+
+    return {
+      ...planned,
+      status: changes.length > 0 ? "changed" : "unchanged",
+      segmentId: segment.id,
+      reportId: segment.reportId,
+      changes,
+    };
+  });
+}
+
+export function summarizeClosureImport(plan: PlannedClosure[]): ClosureImportSummary {
+  const summary: ClosureImportSummary = { new: 0, changed: 0, unchanged: 0, invalid: 0 };
+  for (const closure of plan) summary[closure.status]++;
+  return summary;
+}
+
+// A closure that an import added as a new report and segment
+export interface CreatedClosure {
+  report: { id: string; reportNumber: string; districtId: string | null };
+  segment: ClosureRow & { id: string; path: PathPoint[] };
+}
+
+// New and changed rows applied per request. Each costs a few road network and region lookups
+// (plus the batched writes), which keeps a request well under the Worker's D1 query limit.
+export const CLOSURE_COMMIT_CHUNK_SIZE = 20;
+
+export interface ClosureCommitResult {
+  created: CreatedClosure[];
+  applied: { new: number; changed: number };
+  // New and changed rows left for later requests
+  remaining: number;
+}
+
+/**
+ * Applies the next chunk of a planned import: new closures get a verified damage report and a
+ * segment following the road between their end points; changed closures are updated in place.
+ * Unchanged and invalid rows are skipped. Every change is recorded in the audit trail.
+ *
+ * The client calls this until nothing remains. Applied rows plan as unchanged on the next call,
+ * so a retried request carries on where the last one stopped. Each chunk's writes go in one
+ * batch, so a failure leaves whole closures applied or not at all.
+ */
+export async function commitClosureImport(
+  db: Database,
+  plan: PlannedClosure[],
+  { userId, role, fileName }: { userId: string; role: string; fileName: string }
+): Promise<ClosureCommitResult> {
+  const now = new Date();
+  const actionable = plan.filter(
+    (planned) => planned.closure && (planned.status === "new" || planned.status === "changed")
+  );
+  const chunk = actionable.slice(0, CLOSURE_COMMIT_CHUNK_SIZE);
+  const priority = chunk.length > 0 ? await getActivePriorityConfig(db) : null;
+  const created: CreatedClosure[] = [];
+  const writes: BatchItem<"sqlite">[] = [];
+  const auditEntries: AuditEntry[] = [];
+
+  for (const planned of chunk) {
+    const closure = planned.closure!;
+    const metadata = { fileName, row: planned.row };
+    const coordinatesChanged = planned.changes.some((change) => change.field.endsWith("Lat") || change.field.endsWith("Lng"));
+    const snapped =
+      planned.status === "new" || coordinatesChanged
+        ? await snapToRoads(db, closure.start.lat, closure.start.lng, closure.end.lat, closure.end.lng)
+        : null;
+    const damageType = mapReasonToDamageType(closure.reason);
+    const severity = mapReasonToSeverity(closure.reason);
+
+    if (planned.status === "new") {
+      const segmentId = crypto.randomUUID();
+      const reportId = crypto.randomUUID();
+      const reportNumber = `IMPORT-${segmentId.slice(0, 8).toUpperCase()}`;
+
+      let region: ReportRegionIds = EMPTY_REGION;
+      try {
+        region = await assignReportRegion(db, closure.start.lat, closure.start.lng);
+      } catch (error) {
+        console.error("Failed to assign closure region:", error);
+      }
+
+      const report = {
+        severity,
+        passabilityLevel: null,
+        roadClass: null,
+        blockedDistanceMeters: null,
+        needsSafetyBarriers: false,
+        estimatedPopulation: null,
+        incidentDetails: null,
+        createdAt: now,
+      };
+      writes.push(
+        db.insert(damageReports).values({
+          id: reportId,
+          reportNumber,
+          sourceType: "other_agency",
+          sourceChannel: "bulk_upload",
+          latitude: closure.start.lat,
+          longitude: closure.start.lng,
+          ...region,
+          assetType: "road",
+          damageType,
+          description: closure.reason,
+          roadNumberInput: closure.roadNo,
+          chainageKm: closure.fromKm,
+          status: "verified",
+          ...report,
+          priorityScore: computePriorityScore(report, priority!.weights, now),
+          priorityVersion: priority!.version,
+          updatedAt: now,
+        }),
+        db.insert(roadSegments).values({
+          id: segmentId,
+          reportId,
+          roadNo: closure.roadNo,
+          roadName: closure.roadName,
+          province: closure.province,
+          reason: closure.reason,
+          startLat: closure.start.lat,
+          startLng: closure.start.lng,
+          endLat: closure.end.lat,
+          endLng: closure.end.lng,
+          fromKm: closure.fromKm,
+          toKm: closure.toKm,
+          snappedPath: JSON.stringify(snapped!.path),
+          dataSource: CLOSURE_IMPORT_SOURCE,
+          createdAt: now,
+          updatedAt: now,
+        })
+      );
+
+      // Imported reports start out verified; record it as a status change so they count
+      // wherever verifications do (e.g. "Closures verified" in the daily digest)
+      auditEntries.push({
+        targetType: "report",
+        targetId: reportId,
+        fieldName: "status",
+        oldValue: null,
+        newValue: "verified",
+        toStatus: "verified",
+        performedBy: userId,
+        performerRole: role,
+        reason: "Imported from an official closure list",
+        metadata: { ...metadata, action: "imported" },
+      });
+      auditEntries.push({
+        targetType: "road_segment",
+        targetId: segmentId,
+        fieldName: "created",
+        oldValue: null,
+        newValue: `${closure.roadNo} km ${closure.fromKm}-${closure.toKm}`,
+        performedBy: userId,
+        performerRole: role,
+        metadata: { ...metadata, action: "created", reportId },
+      });
+
+      created.push({
+        report: { id: reportId, reportNumber, districtId: region.districtId },
+        segment: { ...closure, id: segmentId, path: snapped!.path },
+      });
+      continue;
+    }
+
+    writes.push(
+      db
+        .update(roadSegments)
+        .set({
+          roadName: closure.roadName,
+          province: closure.province,
+          reason: closure.reason,
+          startLat: closure.start.lat,
+          startLng: closure.start.lng,
+          endLat: closure.end.lat,
+          endLng: closure.end.lng,
+          ...(snapped ? { snappedPath: JSON.stringify(snapped.path) } : {}),
+          dataSource: CLOSURE_IMPORT_SOURCE,
+          updatedAt: now,
+        })
+        .where(eq(roadSegments.id, planned.segmentId!))
+    );
+
+    // Keep the closure's report in step with the list
+    if (planned.reportId) {
+      writes.push(
+        db
+          .update(damageReports)
+          .set({
+            latitude: closure.start.lat,
+            longitude: closure.start.lng,
+            damageType,
+            severity,
+            description: closure.reason,
+            updatedAt: now,
+          })
+          .where(eq(damageReports.id, planned.reportId))
+      );
+    }
+
+    auditEntries.push(
+      ...planned.changes.map(
+        (change): AuditEntry => ({
+          targetType: "road_segment",
+          targetId: planned.segmentId!,
+          fieldName: change.field,
+          oldValue: change.oldValue,
+          newValue: change.newValue,
+          performedBy: userId,
+          performerRole: role,
+          metadata: { ...metadata, reportId: planned.reportId },
+        })
+      )
+    );
+  }
+
+  writes.push(...buildAuditInserts(db, auditEntries));
+  if (writes.length > 0) {
+    const [first, ...rest] = writes;
+    await db.batch([first, ...rest]);
+  }
+
+  // Changed reports may have a new severity; re-score them once the batch has landed
+  const changedReportIds = chunk
+    .filter((planned) => planned.status === "changed" && planned.reportId)
+    .map((planned) => planned.reportId!);
+  if (changedReportIds.length > 0) {
+    await rescoreReports(db, changedReportIds, priority!);
+  }
+
+  return {
+    created,
+    applied: {
+      new: chunk.filter((planned) => planned.status === "new").length,
+      changed: chunk.filter((planned) => planned.status === "changed").length,
+    },
+    remaining: actionable.length - chunk.length,
+  };
+}
@@ -0,0 +1,78 @@
+import { user } from "../db/schema";
+import { and, eq, inArray, ne } from "drizzle-orm";
+import type { Database } from "../db";
+import { sendEmail, getMentionEmailHtml, escapeHtml } from "./email";
+
+// Roles that can see internal notes, post comments and be @-mentioned
+export const COMMENT_AUTHOR_ROLES = ["field_officer", "planner", "admin", "super_admin"];
+
+// Mentions are stored as @[Display Name](userId) so names can change without breaking links
+const MENTION_PATTERN = /@\[([^\]]+)\]\(([^)\s]+)\)/g;
+
+export function extractMentionIds(content: string): string[] {
+  const ids = new Set<string>();
+  for (const match of content.matchAll(MENTION_PATTERN)) {
+    ids.add(match[2]);
+  }
+  return [...ids];
+}
+
+// Plain text version of a comment (mentions rendered as @Name), used in emails
+export function stripMentionMarkup(content: string): string {
+  return content.replace(MENTION_PATTERN, "@$1");
+}
+
+/**
+ * Emails users newly mentioned in a comment. Mentions of the author, unknown users,
+ * inactive users and citizens are ignored. Returns the ids of users that were emailed.
+ */
+export async function notifyMentionedUsers(
+  env: Env,
+  db: Database,
+  params: {
+    mentionIds: string[];
+    author: { userId: string; name: string };
+    reportId: string;
+    reportNumber: string;
+    content: string;
+    isInternal: boolean;
+    baseUrl: string;
+  }
+): Promise<string[]> {
+  if (params.mentionIds.length === 0) return [];
+
+  const recipients = await db
+    .select({ id: user.id, email: user.email })
+    .from(user)
+    .where(
+      and(
+        inArray(user.id, params.mentionIds),
+        inArray(user.role, COMMENT_AUTHOR_ROLES),
+        eq(user.isActive, true),
+        ne(user.id, params.author.userId)
+      )
+    );
+
+  const text = stripMentionMarkup(params.content);
+  const excerpt = escapeHtml(text.length > 500 ? `${text.slice(0, 500)}...` : text);
+  const html = getMentionEmailHtml({
+    authorName: escapeHtml(params.author.name),
+    reportNumber: params.reportNumber,
+    excerpt,
+    isInternal: params.isInternal,
+    reportUrl: `${params.baseUrl}/admin/reports?report=${params.reportId}`,
+  });
+
+  const notified: string[] = [];
+  for (const recipient of recipients) {
+    try {
+      await sendEmail(env, recipient.email, `You were mentioned on report ${params.reportNumber}`, html);
+      notified.push(recipient.id);
+    } catch (error) {
+      // A failed notification shouldn't fail the comment
+      console.error(`Failed to send mention email to ${recipient.id}:`, error);
+    }
+  }
+
+  return notified;
+}
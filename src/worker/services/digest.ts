@@ -0,0 +1,365 @@
+import {
+  damageReports,
+  digestPreferences,
+  locations,
+  organizations,
+  rebuildProjects,
+  reportProjectLinks,
+  roadSegments,
+  roads,
+  stateTransitions,
+  user,
+  userOrganizations,
+} from "../db/schema";
+import { and, asc, desc, eq, exists, gte, inArray, isNotNull, isNull, lt, lte, or, sql, type SQL } from "drizzle-orm";
+import { alias, type SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { Database } from "../db";
+import type { AuthContext } from "../middleware/auth";
+import { DIGEST_ROLES, type DigestScope } from "../../shared/constants";
+import { OPEN_REPORT_STATUSES } from "./priority";
+import { reportScopeCondition } from "./reportScope";
+import { sendEmail, getDigestEmailHtml, type DigestSection } from "./email";
+
+// Sri Lanka has no daylight saving, so send hours map to a fixed UTC+5:30
+const SRI_LANKA_OFFSET_MS = 5.5 * 60 * 60 * 1000;
+
+// A digest covers what happened in the day before it is sent
+const DIGEST_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+// Reports in progress this long, with no project deadline, count as overdue
+export const OVERDUE_IN_PROGRESS_DAYS = 30;
+
+// Reports listed per section; the section heading carries the full count
+const MAX_SECTION_ITEMS = 8;
+const TOP_PRIORITY_COUNT = 5;
+
+// Digests built per cron run, to stay inside the scheduled handler's limits
+const DUE_BATCH_SIZE = 10;
+
+const provinceLocation = alias(locations, "province_location");
+const districtLocation = alias(locations, "district_location");
+
+export interface DigestRecipient {
+  userId: string;
+  email: string;
+  name: string;
+  role: string;
+  provinceScope: string | null;
+  districtScope: string | null;
+  scope: DigestScope;
+  unsubscribeToken: string;
+}
+
+/**
+ * The current hour and weekday in Sri Lanka, and when the Sri Lankan day started (as a
+ * UTC instant), for deciding whose digest is due.
+ */
+export function getSriLankaClock(now: Date): { hour: number; weekday: number; dayStart: Date } {
+  const local = new Date(now.getTime() + SRI_LANKA_OFFSET_MS);
+  return {
+    hour: local.getUTCHours(),
+    weekday: local.getUTCDay(),
+    dayStart: new Date(
+      Date.UTC(local.getUTCFullYear(), local.getUTCMonth(), local.getUTCDate()) - SRI_LANKA_OFFSET_MS
+    ),
+  };
+}
+
+function formatRegionLabel(value: string): string {
+  return value.replace(/[-_]+/g, " ").replace(/\b\w/g, (letter) => letter.toUpperCase());
+}
+
+/**
+ * SQL condition and heading for the reports a recipient's digest covers. Area digests follow
+ * the user's province/district scope; organization digests are further limited to reports
+ * assigned to their organizations, falling back to the area if they no longer belong to one.
+ */
+async function getDigestScope(db: Database, recipient: DigestRecipient): Promise<{ condition: SQL | undefined; label: string }> {
+  const auth: AuthContext = {
+    userId: recipient.userId,
+    email: recipient.email,
+    role: recipient.role,
+    name: recipient.name,
+    provinceScope: recipient.provinceScope,
+    districtScope: recipient.districtScope,
+  };
+  const areaCondition = reportScopeCondition(auth, provinceLocation.nameEn, districtLocation.nameEn);
+  const areaLabel =
+    areaCondition && recipient.districtScope
+      ? `${formatRegionLabel(recipient.districtScope)} District`
+      : areaCondition && recipient.provinceScope
+        ? `${formatRegionLabel(recipient.provinceScope)} Province`
+        : "All of Sri Lanka";
+
+  if (recipient.scope === "organization") {
+    const orgs = await db
+      .select({ id: organizations.id, name: organizations.name })
+      .from(userOrganizations)
+      .innerJoin(organizations, eq(userOrganizations.organizationId, organizations.id))
+      .where(eq(userOrganizations.userId, recipient.userId))
+      .orderBy(organizations.name);
+    if (orgs.length > 0) {
+      return {
+        condition: and(areaCondition, inArray(damageReports.assignedOrgId, orgs.map((org) => org.id))),
+        label: orgs.map((org) => org.name).join(", "),
+      };
+    }
+  }
+
+  return { condition: areaCondition, label: areaLabel };
+}
+
+// Reports matching the condition: the total plus the first few in the given order
+async function loadSection(
+  db: Database,
+  condition: SQL | undefined,
+  orderBy: SQL | SQLiteColumn,
+  limit: number
+): Promise<{ total: number; items: DigestSection["items"] }> {
+  const where = and(isNull(damageReports.mergedIntoId), condition);
+
+  const [{ total }] = await db
+    .select({ total: sql<number>`count(*)` })
+    .from(damageReports)
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+    .where(where);
+  if (total === 0) return { total, items: [] };
+
+  const rows = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      damageType: damageReports.damageType,
+      severity: damageReports.severity,
+      locationName: damageReports.locationName,
+      roadNumber: sql<string | null>`coalesce(${roads.roadNumber}, ${damageReports.roadNumberInput})`,
+      districtName: districtLocation.nameEn,
+    })
+    .from(damageReports)
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+    .leftJoin(roads, eq(damageReports.roadId, roads.id))
+    .where(where)
+    .orderBy(orderBy)
+    .limit(limit);
+
+  return {
+    total,
+    items: rows.map((row) => ({
+      id: row.id,
+      reportNumber: row.reportNumber,
+      title: [row.roadNumber, row.locationName || row.districtName].filter(Boolean).join(" · ") || "Location not set",
+      detail: `${row.damageType.replace(/_/g, " ")}, severity ${row.severity}`,
+    })),
+  };
+}
+
+/**
+ * Builds a recipient's digest: reports submitted in the last 24 hours, closures verified
+ * and reports resolved in that time, overdue work and the highest-priority open reports.
+ * Returns null when there is nothing to report.
+ */
+export async function buildDigest(
+  db: Database,
+  recipient: DigestRecipient,
+  now: Date
+): Promise<{ label: string; sections: DigestSection[] } | null> {
+  const { condition, label } = await getDigestScope(db, recipient);
+  const since = new Date(now.getTime() - DIGEST_WINDOW_MS);
+  const today = new Date(now.getTime() + SRI_LANKA_OFFSET_MS).toISOString().slice(0, 10);
+  const overdueSince = new Date(now.getTime() - OVERDUE_IN_PROGRESS_DAYS * 24 * 60 * 60 * 1000);
+  const byPriority = sql`coalesce(${damageReports.priorityScore}, 0) desc`;
+
+  const verifiedSince = exists(
+    db
+      .select({ id: stateTransitions.id })
+      .from(stateTransitions)
+      .where(
+        and(
+          eq(stateTransitions.reportId, damageReports.id),
+          eq(stateTransitions.fieldName, "status"),
+          eq(stateTransitions.toStatus, "verified"),
+          gte(stateTransitions.createdAt, since)
+        )
+      )
+  );
+  const hasActiveSegment = exists(
+    db
+      .select({ id: roadSegments.id })
+      .from(roadSegments)
+      .where(and(eq(roadSegments.reportId, damageReports.id), isNull(roadSegments.deletedAt)))
+  );
+  const pastProjectDeadline = exists(
+    db
+      .select({ id: reportProjectLinks.id })
+      .from(reportProjectLinks)
+      .innerJoin(rebuildProjects, eq(reportProjectLinks.projectId, rebuildProjects.id))
+      .where(
+        and(
+          eq(reportProjectLinks.reportId, damageReports.id),
+          isNotNull(rebuildProjects.plannedEnd),
+          lt(rebuildProjects.plannedEnd, today),
+          isNull(rebuildProjects.actualEnd)
+        )
+      )
+  );
+
+  const [submitted, closures, resolved, overdue, topPriority] = await Promise.all([
+    loadSection(db, and(condition, gte(damageReports.createdAt, since)), byPriority, MAX_SECTION_ITEMS),
+    loadSection(
+      db,
+      and(condition, verifiedSince, or(eq(damageReports.passabilityLevel, "unpassable"), hasActiveSegment)),
+      byPriority,
+      MAX_SECTION_ITEMS
+    ),
+    loadSection(
+      db,
+      and(condition, eq(damageReports.status, "resolved"), gte(damageReports.resolvedAt, since)),
+      desc(damageReports.resolvedAt),
+      MAX_SECTION_ITEMS
+    ),
+    loadSection(
+      db,
+      and(
+        condition,
+        inArray(damageReports.status, ["in_progress", "linked_to_project"]),
+        or(pastProjectDeadline, lte(damageReports.inProgressAt, overdueSince))
+      ),
+      asc(damageReports.inProgressAt),
+      MAX_SECTION_ITEMS
+    ),
+    loadSection(db, and(condition, inArray(damageReports.status, OPEN_REPORT_STATUSES)), byPriority, TOP_PRIORITY_COUNT),
+  ]);
+
+  const sections: DigestSection[] = [
+    { title: "New reports", ...submitted },
+    { title: "Closures verified", ...closures },
+    { title: "Resolved", ...resolved },
+    { title: `Overdue (in progress over ${OVERDUE_IN_PROGRESS_DAYS} days or past the project end date)`, ...overdue },
+    { title: "Top priority open reports", ...topPriority },
+  ];
+  if (sections.every((section) => section.total === 0)) return null;
+
+  return { label, sections };
+}
+
+/**
+ * Builds and emails one recipient's digest. Returns false when there was nothing to send.
+ */
+export async function sendDigest(
+  env: Env,
+  db: Database,
+  recipient: DigestRecipient,
+  baseUrl: string,
+  now = new Date()
+): Promise<boolean> {
+  const digest = await buildDigest(db, recipient, now);
+  if (!digest) return false;
+
+  const date = new Date(now.getTime() + SRI_LANKA_OFFSET_MS).toLocaleDateString("en-GB", {
+    timeZone: "UTC",
+    weekday: "long",
+    day: "numeric",
+    month: "long",
+  });
+  const unsubscribeUrl = `${baseUrl}/api/v1/notifications/digest/unsubscribe?token=${recipient.unsubscribeToken}`;
+  await sendEmail(
+    env,
+    recipient.email,
+    `Road situation digest for ${date}: ${digest.label}`,
+    getDigestEmailHtml({
+      label: digest.label,
+      date,
+      sections: digest.sections,
+      reportUrl:
+        recipient.role === "stakeholder" ? null : (reportId) => `${baseUrl}/admin/reports?report=${reportId}`,
+      profileUrl: `${baseUrl}/profile`,
+      unsubscribeUrl,
+    }),
+    {
+      "List-Unsubscribe": `<${unsubscribeUrl}>`,
+      "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+    }
+  );
+  return true;
+}
+
+const recipientColumns = {
+  userId: user.id,
+  email: user.email,
+  name: user.name,
+  role: user.role,
+  provinceScope: user.provinceScope,
+  districtScope: user.districtScope,
+  scope: digestPreferences.scope,
+  unsubscribeToken: digestPreferences.unsubscribeToken,
+};
+
+export async function getDigestRecipient(db: Database, userId: string): Promise<DigestRecipient | null> {
+  const [recipient] = await db
+    .select(recipientColumns)
+    .from(digestPreferences)
+    .innerJoin(user, eq(digestPreferences.userId, user.id))
+    .where(eq(digestPreferences.userId, userId));
+  return recipient ? { ...recipient, scope: recipient.scope as DigestScope } : null;
+}
+
+/**
+ * Claims today's digest for a user by marking it sent, unless it already was. Cron runs can
+ * overlap, so only the run whose update lands may send. It is marked before sending so a
+ * failing digest isn't rebuilt every minute; the outbox retries the email. Returns whether
+ * the digest was claimed.
+ */
+async function claimDigest(db: Database, userId: string, now: Date, dayStart: Date): Promise<boolean> {
+  const [claimed] = await db
+    .update(digestPreferences)
+    .set({ lastSentAt: now })
+    .where(
+      and(
+        eq(digestPreferences.userId, userId),
+        or(isNull(digestPreferences.lastSentAt), lt(digestPreferences.lastSentAt, dayStart))
+      )
+    )
+    .returning({ userId: digestPreferences.userId });
+  return !!claimed;
+}
+
+/**
+ * Sends the digests that are due: past the user's send hour (Sri Lanka time), not yet sent
+ * today, and on a weekday for weekday digests. Run from the cron trigger; users whose role no
+ * longer qualifies or whose account is disabled are skipped. Errors are logged per user.
+ */
+export async function sendDueDigests(env: Env, db: Database, baseUrl: string): Promise<number> {
+  const now = new Date();
+  const clock = getSriLankaClock(now);
+  const isWeekend = clock.weekday === 0 || clock.weekday === 6;
+
+  const due = await db
+    .select(recipientColumns)
+    .from(digestPreferences)
+    .innerJoin(user, eq(digestPreferences.userId, user.id))
+    .where(
+      and(
+        isWeekend ? eq(digestPreferences.frequency, "daily") : inArray(digestPreferences.frequency, ["daily", "weekdays"]),
+        lte(digestPreferences.sendHour, clock.hour),
+        or(isNull(digestPreferences.lastSentAt), lt(digestPreferences.lastSentAt, clock.dayStart)),
+        eq(user.isActive, true),
+        inArray(user.role, DIGEST_ROLES)
+      )
+    )
+    .limit(DUE_BATCH_SIZE);
+
+  let sent = 0;
+  for (const recipient of due) {
+    try {
+      if (!(await claimDigest(db, recipient.userId, now, clock.dayStart))) continue;
+      if (await sendDigest(env, db, { ...recipient, scope: recipient.scope as DigestScope }, baseUrl, now)) {
+        sent++;
+      }
+    } catch (error) {
+      console.error(`Failed to send digest to ${recipient.userId}:`, error);
+    }
+  }
+  return sent;
+}
@@ -0,0 +1,262 @@
+import { damageReports, mediaAttachments, reportDuplicates, user } from "../db/schema";
+import { and, eq, gte, inArray, lte, ne, or } from "drizzle-orm";
+import type { Database } from "../db";
+import { DUPLICATE_DETECTION_RADIUS } from "../../shared/constants";
+import { OPEN_REPORT_STATUSES } from "./priority";
+import { recordAuditEntries } from "./audit";
+import { setReportStatus } from "./projectLinks";
+import { haversineMeters } from "./geocoder";
+
+// Length of one degree of latitude, used for the bounding-box prefilter
+const METERS_PER_DEGREE = 111_320;
+
+// D1 binds at most 100 parameters per statement and each candidate row binds 6
+const CANDIDATE_ROWS_PER_INSERT = 14;
+
+interface DuplicateSource {
+  id: string;
+  latitude: number;
+  longitude: number;
+  damageType: string;
+}
+
+/**
+ * Open reports of the same damage type within DUPLICATE_DETECTION_RADIUS of a report,
+ * nearest first.
+ */
+export async function findDuplicateCandidates(
+  db: Database,
+  report: DuplicateSource
+): Promise<{ id: string; distanceMeters: number }[]> {
+  const latDelta = DUPLICATE_DETECTION_RADIUS / METERS_PER_DEGREE;
+  const lngDelta = DUPLICATE_DETECTION_RADIUS / (METERS_PER_DEGREE * Math.cos((report.latitude * Math.PI) / 180));
+
+  const nearby = await db
+    .select({ id: damageReports.id, latitude: damageReports.latitude, longitude: damageReports.longitude })
+    .from(damageReports)
+    .where(
+      and(
+        ne(damageReports.id, report.id),
+        eq(damageReports.damageType, report.damageType),
+        inArray(damageReports.status, OPEN_REPORT_STATUSES),
+        gte(damageReports.latitude, report.latitude - latDelta),
+        lte(damageReports.latitude, report.latitude + latDelta),
+        gte(damageReports.longitude, report.longitude - lngDelta),
+        lte(damageReports.longitude, report.longitude + lngDelta)
+      )
+    );
+
+  return nearby
+    .map((candidate) => ({
+      id: candidate.id,
+      distanceMeters: haversineMeters(report.latitude, report.longitude, candidate.latitude, candidate.longitude),
+    }))
+    .filter((candidate) => candidate.distanceMeters <= DUPLICATE_DETECTION_RADIUS)
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+/**
+ * Links a newly submitted report to nearby open reports as pending duplicate candidates.
+ * Returns the number of candidates flagged.
+ */
+export async function flagDuplicateCandidates(db: Database, report: DuplicateSource): Promise<number> {
+  const candidates = await findDuplicateCandidates(db, report);
+  if (candidates.length === 0) return 0;
+
+  const now = new Date();
+  const rows = candidates.map((candidate) => ({
+    id: crypto.randomUUID(),
+    reportId: report.id,
+    matchedReportId: candidate.id,
+    distanceMeters: Math.round(candidate.distanceMeters * 10) / 10,
+    status: "pending",
+    createdAt: now,
+  }));
+
+  const inserts = [];
+  for (let i = 0; i < rows.length; i += CANDIDATE_ROWS_PER_INSERT) {
+    inserts.push(db.insert(reportDuplicates).values(rows.slice(i, i + CANDIDATE_ROWS_PER_INSERT)));
+  }
+  const [first, ...rest] = inserts;
+  await db.batch([first, ...rest]);
+  return candidates.length;
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  distanceMeters: number;
+  createdAt: Date;
+  report: {
+    id: string;
+    reportNumber: string;
+    status: string;
+    locationName: string | null;
+    description: string;
+    createdAt: Date;
+  };
+}
+
+/**
+ * Pending duplicate candidates of a report, in either direction of the match.
+ * Candidates whose other report is no longer open are left out.
+ */
+export async function getDuplicateCandidates(db: Database, reportId: string): Promise<DuplicateCandidate[]> {
+  const rows = await db
+    .select()
+    .from(reportDuplicates)
+    .where(
+      and(
+        eq(reportDuplicates.status, "pending"),
+        or(eq(reportDuplicates.reportId, reportId), eq(reportDuplicates.matchedReportId, reportId))
+      )
+    );
+  if (rows.length === 0) return [];
+
+  const otherIds = rows.map((row) => (row.reportId === reportId ? row.matchedReportId : row.reportId));
+  const others = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      status: damageReports.status,
+      locationName: damageReports.locationName,
+      description: damageReports.description,
+      createdAt: damageReports.createdAt,
+    })
+    .from(damageReports)
+    .where(and(inArray(damageReports.id, otherIds), inArray(damageReports.status, OPEN_REPORT_STATUSES)));
+
+  return rows
+    .flatMap((row) => {
+      const otherId = row.reportId === reportId ? row.matchedReportId : row.reportId;
+      const other = others.find((report) => report.id === otherId);
+      return other
+        ? [{ id: row.id, distanceMeters: row.distanceMeters, createdAt: row.createdAt, report: other }]
+        : [];
+    })
+    .sort((a, b) => a.distanceMeters - b.distanceMeters);
+}
+
+export interface ReportSubmitter {
+  reportId: string;
+  reportNumber: string;
+  userId: string | null;
+  name: string | null;
+  email: string | null;
+  contact: string | null;
+  createdAt: Date;
+}
+
+/**
+ * Everyone who reported an incident: the report's own submitter followed by the
+ * submitters of every report merged into it.
+ */
+export async function getReportSubmitters(db: Database, reportId: string): Promise<ReportSubmitter[]> {
+  const rows = await db
+    .select({
+      reportId: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      userId: damageReports.submitterId,
+      userName: user.name,
+      userEmail: user.email,
+      anonymousName: damageReports.anonymousName,
+      anonymousEmail: damageReports.anonymousEmail,
+      anonymousContact: damageReports.anonymousContact,
+      createdAt: damageReports.createdAt,
+    })
+    .from(damageReports)
+    .leftJoin(user, eq(damageReports.submitterId, user.id))
+    .where(or(eq(damageReports.id, reportId), eq(damageReports.mergedIntoId, reportId)));
+
+  return rows
+    .map((row) => ({
+      reportId: row.reportId,
+      reportNumber: row.reportNumber,
+      userId: row.userId,
+      name: row.userName || row.anonymousName,
+      email: row.userEmail || row.anonymousEmail,
+      contact: row.anonymousContact,
+      createdAt: row.createdAt,
+    }))
+    .sort((a, b) => {
+      if (a.reportId === reportId) return -1;
+      if (b.reportId === reportId) return 1;
+      return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+    });
+}
+
+type Report = typeof damageReports.$inferSelect;
+
+/**
+ * Folds a duplicate report into a canonical one: moves its media, points it (and anything
+ * previously merged into it) at the canonical report, and moves it to the merged status.
+ * Returns the number of media attachments moved.
+ */
+export async function mergeReports(
+  db: Database,
+  duplicate: Report,
+  canonical: Report,
+  performer: { userId: string | null; role: string | null }
+): Promise<number> {
+  const media = await db
+    .update(mediaAttachments)
+    .set({ reportId: canonical.id })
+    .where(eq(mediaAttachments.reportId, duplicate.id))
+    .returning({ id: mediaAttachments.id });
+
+  // Keep submitters of earlier merges attached to the surviving report
+  await db
+    .update(damageReports)
+    .set({ mergedIntoId: canonical.id })
+    .where(eq(damageReports.mergedIntoId, duplicate.id));
+
+  await db
+    .update(damageReports)
+    .set({ mergedIntoId: canonical.id, assignedUserId: null })
+    .where(eq(damageReports.id, duplicate.id));
+
+  const metadata = {
+    action: "merge",
+    mergedReportId: duplicate.id,
+    mergedReportNumber: duplicate.reportNumber,
+    mergedIntoId: canonical.id,
+    mergedIntoNumber: canonical.reportNumber,
+    mediaMoved: media.length,
+  };
+
+  await setReportStatus(
+    db,
+    duplicate,
+    "merged",
+    performer,
+    `Merged into ${canonical.reportNumber}`,
+    metadata
+  );
+
+  await recordAuditEntries(db, [
+    {
+      targetType: "report",
+      targetId: canonical.id,
+      fieldName: "mergedReport",
+      oldValue: null,
+      newValue: duplicate.reportNumber,
+      performedBy: performer.userId,
+      performerRole: performer.role,
+      metadata,
+    },
+  ]);
+
+  await db
+    .update(reportDuplicates)
+    .set({ status: "merged", resolvedBy: performer.userId, resolvedAt: new Date() })
+    .where(
+      and(
+        eq(reportDuplicates.status, "pending"),
+        or(
+          and(eq(reportDuplicates.reportId, duplicate.id), eq(reportDuplicates.matchedReportId, canonical.id)),
+          and(eq(reportDuplicates.reportId, canonical.id), eq(reportDuplicates.matchedReportId, duplicate.id))
+        )
+      )
+    );
+
+  return media.length;
+}
@@ -1,38 +1,182 @@
-// Email service with Mailgun integration
+// Email service: every email is written to the outbox, then sent through the configured
+// transport (services/emailTransport.ts) and retried with backoff if that fails
 
-const MAILGUN_DOMAIN = "mail.road-lk.org";
-const FROM_ADDRESS = `Sri Lanka Road Status <noreply@${MAILGUN_DOMAIN}>`;
+import { and, eq, isNotNull, lt, lte } from "drizzle-orm";
+import { createDb, type Database } from "../db";
+import { emailOutbox } from "../db/schema";
+import { getEmailTransport } from "./emailTransport";
 
+// Wait before each retry; an email fails for good once these run out (about 2.5 hours in all)
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000];
+export const MAX_EMAIL_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Stored from a failing transport's error, for the admin outbox view
+const MAX_ERROR_LENGTH = 500;
+
+// Emails retried per cron run
+const DUE_BATCH_SIZE = 50;
+
+// A claimed email is left alone by other senders this long; well over a send's worst case
+const SEND_LEASE_MS = 2 * 60_000;
+
+// Sent emails stay in the log this long; failed ones are kept until retried or cleared
+const SENT_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+type OutboxEmail = typeof emailOutbox.$inferSelect;
+
+/**
+ * Claims a pending email for one send attempt: counts the attempt and pushes its next attempt
+ * past the lease, unless someone else got there first. Cron runs can overlap and the admin page
+ * can retry at any time, so only the sender whose update lands may send. Returns the claimed
+ * email, or null.
+ */
+async function claimEmail(db: Database, email: OutboxEmail): Promise<OutboxEmail | null> {
+  const [claimed] = await db
+    .update(emailOutbox)
+    .set({ attempts: email.attempts + 1, nextAttemptAt: new Date(Date.now() + SEND_LEASE_MS) })
+    .where(
+      and(eq(emailOutbox.id, email.id), eq(emailOutbox.status, "pending"), eq(emailOutbox.attempts, email.attempts))
+    )
+    .returning();
+  return claimed || null;
+}
+
+/**
+ * Claims one outbox email, sends it and records the outcome. The body is dropped once sent,
+ * since most emails carry sign-in, verification or unsubscribe tokens. Returns whether it was
+ * sent; an email another sender claimed first counts as not sent.
+ */
+async function attemptEmail(env: Env, db: Database, pending: OutboxEmail): Promise<boolean> {
+  const email = await claimEmail(db, pending);
+  if (!email) return false;
+
+  let transportName: string | null = null;
+  let error: string | null = null;
+
+  try {
+    const transport = getEmailTransport(env);
+    transportName = transport.name;
+    await transport.send(env, {
+      id: email.id,
+      to: email.toAddress,
+      subject: email.subject,
+      html: email.html,
+      headers: email.headers ? (JSON.parse(email.headers) as Record<string, string>) : {},
+    });
+  } catch (err) {
+    error = (err instanceof Error ? err.message : String(err)).slice(0, MAX_ERROR_LENGTH);
+    console.error(`Failed to send email ${email.id} to ${email.toAddress}:`, error);
+  }
+
+  const now = new Date();
+  const retryDelay = RETRY_DELAYS_MS[email.attempts - 1];
+  await db
+    .update(emailOutbox)
+    .set(
+      error === null
+        ? { status: "sent", html: "", transport: transportName, lastError: null, nextAttemptAt: null, sentAt: now }
+        : {
+            status: retryDelay === undefined ? "failed" : "pending",
+            transport: transportName,
+            lastError: error,
+            nextAttemptAt: retryDelay === undefined ? null : new Date(now.getTime() + retryDelay),
+          }
+    )
+    .where(eq(emailOutbox.id, email.id));
+
+  return error === null;
+}
+
+/**
+ * Queues an email in the outbox and tries to send it straight away. A failed send is not
+ * thrown: the email stays pending and the cron trigger retries it with backoff. Returns
+ * whether the first attempt went out.
+ */
 export async function sendEmail(
   env: Env,
   to: string,
   subject: string,
-  html: string
-) {
-  const formData = new FormData();
-  formData.append("from", FROM_ADDRESS);
-  formData.append("to", to);
-  formData.append("subject", subject);
-  formData.append("html", html);
-
-  const response = await fetch(
-    `https://api.mailgun.net/v3/${MAILGUN_DOMAIN}/messages`,
-    {
-      method: "POST",
-      headers: {
-        Authorization: `Basic ${btoa(`api:${env.MAILGUN_API_KEY}`)}`,
-      },
-      body: formData,
-    }
-  );
+  html: string,
+  headers: Record<string, string> = {}
+): Promise<boolean> {
+  const db = createDb(env.DB);
+  const now = new Date();
+  const email: OutboxEmail = {
+    id: crypto.randomUUID(),
+    toAddress: to,
+    subject,
+    html,
+    headers: Object.keys(headers).length > 0 ? JSON.stringify(headers) : null,
+    status: "pending",
+    attempts: 0,
+    // Leased from the start so the cron trigger leaves it to the send below
+    nextAttemptAt: new Date(now.getTime() + SEND_LEASE_MS),
+    transport: null,
+    lastError: null,
+    createdAt: now,
+    sentAt: null,
+  };
+  await db.insert(emailOutbox).values(email);
+
+  return attemptEmail(env, db, email);
+}
+
+/**
+ * Sends a pending or failed email now, for the admin outbox view. A failed email gets a fresh
+ * set of retries; a pending one is sent as its next attempt.
+ */
+export async function retryEmail(env: Env, db: Database, email: OutboxEmail): Promise<boolean> {
+  if (email.status === "failed") {
+    await db
+      .update(emailOutbox)
+      .set({ status: "pending", attempts: 0 })
+      .where(and(eq(emailOutbox.id, email.id), eq(emailOutbox.status, "failed")));
+    return attemptEmail(env, db, { ...email, status: "pending", attempts: 0 });
+  }
+  return attemptEmail(env, db, email);
+}
 
-  if (!response.ok) {
-    const error = await response.text();
-    console.error("Mailgun error:", error);
-    throw new Error(`Failed to send email: ${response.status}`);
+/**
+ * Retries pending emails whose backoff has elapsed, one at a time, and prunes sent emails
+ * past the retention period. Run from the cron trigger. Each email is claimed before it is
+ * sent, so runs that overlap never send the same email twice.
+ */
+export async function processDueEmails(env: Env, db: Database): Promise<number> {
+  const due = await db
+    .select()
+    .from(emailOutbox)
+    .where(
+      and(
+        eq(emailOutbox.status, "pending"),
+        isNotNull(emailOutbox.nextAttemptAt),
+        lte(emailOutbox.nextAttemptAt, new Date())
+      )
+    )
+    .orderBy(emailOutbox.nextAttemptAt)
+    .limit(DUE_BATCH_SIZE);
+
+  for (const email of due) {
+    try {
+      await attemptEmail(env, db, email);
+    } catch (error) {
+      console.error(`Failed to record email ${email.id}:`, error);
+    }
   }
 
-  return response.json();
+  await db
+    .delete(emailOutbox)
+    .where(and(eq(emailOutbox.status, "sent"), lt(emailOutbox.sentAt, new Date(Date.now() - SENT_RETENTION_MS))));
+
+  return due.length;
+}
+
+// Escapes user-provided text before it is placed in an email template
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
 }
 
 // Email template helper
@@ -159,3 +303,361 @@ export function getVerificationEmailHtml(reportNumber: string, verifyUrl: string
     </p>
   `);
 }
+
+export function getMentionEmailHtml(params: {
+  authorName: string;
+  reportNumber: string;
+  excerpt: string;
+  isInternal: boolean;
+  reportUrl: string;
+}): string {
+  const visibility = params.isInternal ? "an internal note" : "a public update";
+
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">You were mentioned</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 16px;">
+      <strong>${params.authorName}</strong> mentioned you in ${visibility} on report <strong>${params.reportNumber}</strong>.
+    </p>
+    <div style="background-color: #f0f9ff; border-left: 4px solid #2563eb; padding: 16px; margin-bottom: 24px; border-radius: 0 6px 6px 0;">
+      <p style="color: #1e3a5f; font-size: 14px; margin: 0; line-height: 1.5; white-space: pre-wrap;">${params.excerpt}</p>
+    </div>
+    <a href="${params.reportUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px;">
+      View Report
+    </a>
+  `);
+}
+
+export function getOrgAssignmentEmailHtml(params: {
+  orgName: string;
+  reportNumber: string;
+  locationName: string | null;
+  previousOrgName: string | null;
+  assignedByName: string;
+  reportUrl: string;
+}): string {
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">Report Assigned to ${params.orgName}</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 16px;">
+      <strong>${params.assignedByName}</strong> assigned report <strong>${params.reportNumber}</strong> to your organization${params.previousOrgName ? ` (previously ${params.previousOrgName})` : ""}.
+    </p>
+    ${params.locationName ? `
+    <p style="color: #666; font-size: 14px; line-height: 1.5; margin-bottom: 24px;">
+      Location: ${params.locationName}
+    </p>
+    ` : ""}
+    <a href="${params.reportUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px;">
+      View Report
+    </a>
+  `);
+}
+
+// ============ SUBMITTER STATUS UPDATES ============
+
+export type EmailLanguage = "en" | "si" | "ta";
+
+// Report statuses a submitter is emailed about
+export type NotifiedStatus = "verified" | "rejected" | "in_progress" | "resolved";
+
+interface StatusEmailCopy {
+  subject: string;
+  headings: Record<NotifiedStatus, string>;
+  // {report} is replaced with the report number
+  messages: Record<NotifiedStatus, string>;
+  reasonLabel: string;
+  viewMap: string;
+  footer: string;
+  unsubscribe: string;
+  confirmUnsubscribeTitle: string;
+  confirmUnsubscribeMessage: string;
+  confirmUnsubscribeButton: string;
+  unsubscribedTitle: string;
+  unsubscribedMessage: string;
+  invalidLinkTitle: string;
+  invalidLinkMessage: string;
+}
+
+const STATUS_EMAIL_COPY: Record<EmailLanguage, StatusEmailCopy> = {
+  en: {
+    subject: "Update on your report {report}",
+    headings: {
+      verified: "Your report has been verified",
+      in_progress: "Repairs have started",
+      resolved: "The damage has been repaired",
+      rejected: "Your report was not accepted",
+    },
+    messages: {
+      verified: "An official has checked report {report} and confirmed the damage. It will be passed on for repair.",
+      in_progress: "Work has started on the damage you reported in {report}.",
+      resolved: "Report {report} has been marked as resolved. Thank you for helping keep Sri Lanka's roads safe.",
+      rejected: "Report {report} was reviewed and closed without action.",
+    },
+    reasonLabel: "Reason",
+    viewMap: "View Road Status Map",
+    footer: "You're receiving this because you submitted this report.",
+    unsubscribe: "Unsubscribe from report updates",
+    confirmUnsubscribeTitle: "Stop report updates?",
+    confirmUnsubscribeMessage: "Click the button below to stop getting emails about the status of your reports.",
+    confirmUnsubscribeButton: "Unsubscribe",
+    unsubscribedTitle: "You've been unsubscribed",
+    unsubscribedMessage: "You won't get any more emails about the status of your reports.",
+    invalidLinkTitle: "Invalid Unsubscribe Link",
+    invalidLinkMessage: "This link is missing or invalid.",
+  },
+  si: {
+    subject: "ඔබේ වාර්තාව {report} පිළිබඳ යාවත්කාලීනයක්",
+    headings: {
+      verified: "ඔබේ වාර්තාව තහවුරු කර ඇත",
+      in_progress: "අලුත්වැඩියා කටයුතු ආරම්භ කර ඇත",
+      resolved: "හානිය අලුත්වැඩියා කර ඇත",
+      rejected: "ඔබේ වාර්තාව පිළිගනු නොලැබීය",
+    },
+    messages: {
+      verified: "නිලධාරියෙකු {report} වාර්තාව පරීක්ෂා කර හානිය තහවුරු කර ඇත. එය අලුත්වැඩියාව සඳහා යොමු කෙරේ.",
+      in_progress: "ඔබ {report} හි වාර්තා කළ හානිය සඳහා කටයුතු ආරම්භ කර ඇත.",
+      resolved: "{report} වාර්තාව විසඳූ ලෙස සලකුණු කර ඇත. ශ්‍රී ලංකාවේ මාර්ග ආරක්ෂිතව තබා ගැනීමට උදව් කිරීම ගැන ස්තූතියි.",
+      rejected: "{report} වාර්තාව සමාලෝචනය කර ක්‍රියාමාර්ගයකින් තොරව වසා ඇත.",
+    },
+    reasonLabel: "හේතුව",
+    viewMap: "මාර්ග තත්ත්ව සිතියම බලන්න",
+    footer: "ඔබ මෙම වාර්තාව ඉදිරිපත් කළ නිසා ඔබට මෙම ඊමේල් පණිවිඩය ලැබේ.",
+    unsubscribe: "වාර්තා යාවත්කාලීන ලැබීම නවත්වන්න",
+    confirmUnsubscribeTitle: "වාර්තා යාවත්කාලීන ලැබීම නවත්වන්නද?",
+    confirmUnsubscribeMessage: "ඔබේ වාර්තාවල තත්ත්වය පිළිබඳ ඊමේල් ලැබීම නැවැත්වීමට පහත බොත්තම ක්ලික් කරන්න.",
+    confirmUnsubscribeButton: "දායකත්වයෙන් ඉවත් වන්න",
+    unsubscribedTitle: "ඔබ දායකත්වයෙන් ඉවත් විය",
+    unsubscribedMessage: "ඔබේ වාර්තාවල තත්ත්වය පිළිබඳ ඊමේල් තවදුරටත් ඔබට නොලැබේ.",
+    invalidLinkTitle: "වලංගු නොවන සබැඳියකි",
+    invalidLinkMessage: "මෙම සබැඳිය අසම්පූර්ණ හෝ වලංගු නොවේ.",
+  },
+  ta: {
+    subject: "உங்கள் அறிக்கை {report} பற்றிய புதுப்பிப்பு",
+    headings: {
+      verified: "உங்கள் அறிக்கை சரிபார்க்கப்பட்டது",
+      in_progress: "பழுதுபார்ப்பு பணிகள் தொடங்கியுள்ளன",
+      resolved: "சேதம் சரிசெய்யப்பட்டது",
+      rejected: "உங்கள் அறிக்கை ஏற்றுக்கொள்ளப்படவில்லை",
+    },
+    messages: {
+      verified: "ஒரு அதிகாரி {report} அறிக்கையைச் சரிபார்த்து சேதத்தை உறுதிப்படுத்தியுள்ளார். இது பழுதுபார்ப்புக்கு அனுப்பப்படும்.",
+      in_progress: "{report} இல் நீங்கள் தெரிவித்த சேதத்திற்கான பணிகள் தொடங்கியுள்ளன.",
+      resolved: "{report} அறிக்கை தீர்க்கப்பட்டதாகக் குறிக்கப்பட்டுள்ளது. இலங்கையின் சாலைகளைப் பாதுகாப்பாக வைத்திருக்க உதவியதற்கு நன்றி.",
+      rejected: "{report} அறிக்கை மதிப்பாய்வு செய்யப்பட்டு நடவடிக்கையின்றி மூடப்பட்டது.",
+    },
+    reasonLabel: "காரணம்",
+    viewMap: "சாலை நிலை வரைபடத்தைக் காண்க",
+    footer: "நீங்கள் இந்த அறிக்கையைச் சமர்ப்பித்ததால் இந்த மின்னஞ்சல் உங்களுக்கு அனுப்பப்படுகிறது.",
+    unsubscribe: "அறிக்கை புதுப்பிப்புகளிலிருந்து விலகு",
+    confirmUnsubscribeTitle: "அறிக்கை புதுப்பிப்புகளை நிறுத்தவா?",
+    confirmUnsubscribeMessage: "உங்கள் அறிக்கைகளின் நிலை பற்றிய மின்னஞ்சல்களை நிறுத்த கீழே உள்ள பொத்தானைக் கிளிக் செய்யவும்.",
+    confirmUnsubscribeButton: "விலகு",
+    unsubscribedTitle: "நீங்கள் விலகிவிட்டீர்கள்",
+    unsubscribedMessage: "உங்கள் அறிக்கைகளின் நிலை பற்றிய மின்னஞ்சல்கள் இனி உங்களுக்கு அனுப்பப்படாது.",
+    invalidLinkTitle: "தவறான இணைப்பு",
+    invalidLinkMessage: "இந்த இணைப்பு முழுமையற்றது அல்லது தவறானது.",
+  },
+};
+
+export function getStatusChangeEmail(params: {
+  language: EmailLanguage;
+  status: NotifiedStatus;
+  reportNumber: string;
+  reason: string | null;
+  mapUrl: string;
+  unsubscribeUrl: string;
+}): { subject: string; html: string } {
+  const copy = STATUS_EMAIL_COPY[params.language];
+  const reportNumber = escapeHtml(params.reportNumber);
+  const message = copy.messages[params.status].replace("{report}", `<strong>${reportNumber}</strong>`);
+
+  const reasonSection = params.reason ? `
+    <div style="background-color: #fef2f2; border-left: 4px solid #dc2626; padding: 16px; margin-bottom: 24px; border-radius: 0 6px 6px 0;">
+      <p style="color: #991b1b; font-size: 14px; font-weight: 600; margin: 0 0 4px 0;">${copy.reasonLabel}</p>
+      <p style="color: #7f1d1d; font-size: 14px; margin: 0; line-height: 1.5; white-space: pre-wrap;">${escapeHtml(params.reason)}</p>
+    </div>
+  ` : "";
+
+  return {
+    subject: copy.subject.replace("{report}", params.reportNumber),
+    html: wrapInEmailTemplate(`
+      <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">${copy.headings[params.status]}</h1>
+      <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 24px;">${message}</p>
+      ${reasonSection}
+      <a href="${params.mapUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px;">
+        ${copy.viewMap}
+      </a>
+      <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 24px 0 16px 0;">
+      <p style="color: #b0b0b0; font-size: 12px; margin: 0; text-align: center;">
+        ${copy.footer}<br>
+        <a href="${params.unsubscribeUrl}" style="color: #b0b0b0;">${copy.unsubscribe}</a>
+      </p>
+    `),
+  };
+}
+
+// Page shown when following an unsubscribe link; the button posts back to the same link
+export function getConfirmUnsubscribePageHtml(language: EmailLanguage, actionUrl: string): string {
+  const copy = STATUS_EMAIL_COPY[language];
+  return getConfirmPageHtml(
+    copy.confirmUnsubscribeTitle,
+    copy.confirmUnsubscribeMessage,
+    copy.confirmUnsubscribeButton,
+    actionUrl
+  );
+}
+
+// Page shown after confirming an unsubscribe
+export function getUnsubscribePageHtml(language: EmailLanguage, success: boolean): string {
+  const copy = STATUS_EMAIL_COPY[language];
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">${success ? copy.unsubscribedTitle : copy.invalidLinkTitle}</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin: 0;">
+      ${success ? copy.unsubscribedMessage : copy.invalidLinkMessage}
+    </p>
+  `);
+}
+
+// ============ WATCH SUBSCRIPTIONS ============
+
+export function getWatchConfirmationEmailHtml(params: { label: string; confirmUrl: string }): string {
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">Confirm Your Road Alerts</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 8px;">
+      You asked to be emailed when roads are blocked or reopened in <strong>${escapeHtml(params.label)}</strong>.
+    </p>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 24px;">
+      Please click the button below to confirm. No alerts are sent until you do.
+    </p>
+    <a href="${params.confirmUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px;">
+      Confirm Alerts
+    </a>
+    <p style="color: #999; font-size: 14px; margin-top: 24px;">
+      This link will expire in 24 hours. If you didn't ask for these alerts, you can safely ignore this email.
+    </p>
+  `);
+}
+
+export interface WatchAlertItem {
+  title: string;
+  reportNumber: string;
+  detail: string | null;
+}
+
+export function getWatchAlertEmailHtml(params: {
+  label: string;
+  items: WatchAlertItem[];
+  // Changes left out of the email to keep it short
+  moreCount: number;
+  mapUrl: string;
+  unsubscribeUrl: string;
+}): string {
+  const items = params.items
+    .map((item) => `
+      <div style="border-left: 4px solid #2563eb; padding: 8px 12px; margin-bottom: 12px; background-color: #f0f9ff; border-radius: 0 6px 6px 0;">
+        <p style="color: #1e40af; font-size: 14px; font-weight: 600; margin: 0 0 4px 0;">${escapeHtml(item.title)}</p>
+        <p style="color: #1e3a5f; font-size: 13px; margin: 0; line-height: 1.4;">
+          ${escapeHtml(item.reportNumber)}${item.detail ? ` &middot; ${escapeHtml(item.detail)}` : ""}
+        </p>
+      </div>
+    `)
+    .join("");
+
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">Road Update: ${escapeHtml(params.label)}</h1>
+    ${items}
+    ${params.moreCount > 0 ? `<p style="color: #666; font-size: 14px; margin: 0 0 16px 0;">and ${params.moreCount} more.</p>` : ""}
+    <a href="${params.mapUrl}" style="display: inline-block; background-color: #2563eb; color: white; text-decoration: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px; margin-top: 8px;">
+      View Road Status Map
+    </a>
+    <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 24px 0 16px 0;">
+    <p style="color: #b0b0b0; font-size: 12px; margin: 0; text-align: center;">
+      You're receiving this because you subscribed to alerts for ${escapeHtml(params.label)}.<br>
+      <a href="${params.unsubscribeUrl}" style="color: #b0b0b0;">Stop these alerts</a>
+    </p>
+  `);
+}
+
+export interface DigestSection {
+  title: string;
+  total: number;
+  items: { id: string; reportNumber: string; title: string; detail: string }[];
+}
+
+export function getDigestEmailHtml(params: {
+  label: string;
+  date: string;
+  sections: DigestSection[];
+  // Null when the recipient can't open reports (stakeholders), leaving report numbers unlinked
+  reportUrl: ((reportId: string) => string) | null;
+  profileUrl: string;
+  unsubscribeUrl: string;
+}): string {
+  const sections = params.sections
+    .filter((section) => section.total > 0)
+    .map((section) => {
+      const items = section.items
+        .map((item) => `
+          <li style="margin-bottom: 8px;">
+            ${
+              params.reportUrl
+                ? `<a href="${params.reportUrl(item.id)}" style="color: #2563eb; font-weight: 600; text-decoration: none;">${escapeHtml(item.reportNumber)}</a>`
+                : `<span style="font-weight: 600;">${escapeHtml(item.reportNumber)}</span>`
+            }
+            <span style="color: #1a1a1a;"> ${escapeHtml(item.title)}</span><br>
+            <span style="color: #666; font-size: 13px;">${escapeHtml(item.detail)}</span>
+          </li>
+        `)
+        .join("");
+      const more = section.total - section.items.length;
+      return `
+        <h2 style="color: #1a1a1a; font-size: 16px; margin: 24px 0 8px 0;">${escapeHtml(section.title)} (${section.total})</h2>
+        <ul style="padding-left: 20px; margin: 0; font-size: 14px; line-height: 1.4;">${items}</ul>
+        ${more > 0 ? `<p style="color: #666; font-size: 13px; margin: 4px 0 0 0;">and ${more} more.</p>` : ""}
+      `;
+    })
+    .join("");
+
+  const summary = params.sections
+    .slice(0, 4)
+    .map((section) => `
+      <td style="text-align: center; padding: 8px;">
+        <div style="color: #1a1a1a; font-size: 22px; font-weight: 700;">${section.total}</div>
+        <div style="color: #666; font-size: 12px;">${escapeHtml(section.title.replace(/ \(.*\)$/, ""))}</div>
+      </td>
+    `)
+    .join("");
+
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 4px;">Situation Digest</h1>
+    <p style="color: #666; font-size: 14px; margin: 0 0 16px 0;">${escapeHtml(params.date)} &middot; ${escapeHtml(params.label)}</p>
+    <table style="width: 100%; border-collapse: collapse; background-color: #f0f9ff; border-radius: 6px;"><tr>${summary}</tr></table>
+    ${sections}
+    <hr style="border: none; border-top: 1px solid #e5e5e5; margin: 24px 0 16px 0;">
+    <p style="color: #b0b0b0; font-size: 12px; margin: 0; text-align: center;">
+      Covers the 24 hours before this email was sent.<br>
+      <a href="${params.profileUrl}" style="color: #b0b0b0;">Change schedule or scope</a> &middot;
+      <a href="${params.unsubscribeUrl}" style="color: #b0b0b0;">Stop these digests</a>
+    </p>
+  `);
+}
+
+// Standalone page for links followed from an email (confirm, unsubscribe)
+export function getMessagePageHtml(title: string, message: string): string {
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">${title}</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin: 0;">${message}</p>
+  `);
+}
+
+// Page asking the visitor to confirm an action that email links must not perform on GET
+// (link scanners and prefetchers follow them); the button POSTs to actionUrl
+export function getConfirmPageHtml(title: string, message: string, buttonLabel: string, actionUrl: string): string {
+  return wrapInEmailTemplate(`
+    <h1 style="color: #1a1a1a; font-size: 24px; margin-bottom: 16px;">${title}</h1>
+    <p style="color: #666; font-size: 16px; line-height: 1.5; margin-bottom: 24px;">${message}</p>
+    <form method="post" action="${escapeHtml(actionUrl)}" style="margin: 0;">
+      <button type="submit" style="background-color: #dc2626; color: white; border: none; padding: 12px 24px; border-radius: 6px; font-weight: 500; font-size: 16px; cursor: pointer;">
+        ${buttonLabel}
+      </button>
+    </form>
+  `);
+}
@@ -0,0 +1,215 @@
+import { connect } from "cloudflare:sockets";
+
+// Pluggable email transports. EMAIL_TRANSPORT picks one; when it is unset, development and
+// deployments without a Mailgun key log emails to the console instead of sending them.
+
+export type EmailTransportName = "mailgun" | "smtp" | "console";
+
+export interface OutgoingEmail {
+  id: string;
+  to: string;
+  subject: string;
+  html: string;
+  headers: Record<string, string>;
+}
+
+export interface EmailTransport {
+  name: EmailTransportName;
+  send(env: Env, email: OutgoingEmail): Promise<void>;
+}
+
+const MAILGUN_DOMAIN = "mail.road-lk.org";
+const FROM_NAME = "Sri Lanka Road Status";
+const FROM_EMAIL = `noreply@${MAILGUN_DOMAIN}`;
+
+// An SMTP conversation that takes longer than this is abandoned and retried later
+const SMTP_TIMEOUT_MS = 15_000;
+
+const mailgunTransport: EmailTransport = {
+  name: "mailgun",
+  async send(env, email) {
+    const formData = new FormData();
+    formData.append("from", `${FROM_NAME} <${FROM_EMAIL}>`);
+    formData.append("to", email.to);
+    formData.append("subject", email.subject);
+    formData.append("html", email.html);
+    for (const [name, value] of Object.entries(email.headers)) {
+      formData.append(`h:${name}`, value);
+    }
+
+    const response = await fetch(`https://api.mailgun.net/v3/${MAILGUN_DOMAIN}/messages`, {
+      method: "POST",
+      headers: {
+        Authorization: `Basic ${btoa(`api:${env.MAILGUN_API_KEY}`)}`,
+      },
+      body: formData,
+    });
+
+    if (!response.ok) {
+      throw new Error(`Mailgun ${response.status}: ${await response.text()}`);
+    }
+  },
+};
+
+// Logs the email, with its links, so flows such as magic link sign-in work offline
+const consoleTransport: EmailTransport = {
+  name: "console",
+  async send(_env, email) {
+    const links = [...email.html.matchAll(/href="([^"]+)"/g)].map((match) => match[1].replace(/&amp;/g, "&"));
+    console.log("=".repeat(80));
+    console.log(`📧 EMAIL (console transport) ${email.id}`);
+    console.log(`To:      ${email.to}`);
+    console.log(`Subject: ${email.subject}`);
+    for (const link of links) console.log(`Link:    ${link}`);
+    console.log("=".repeat(80));
+  },
+};
+
+// ============ SMTP ============
+
+function toBase64(value: string): string {
+  const bytes = new TextEncoder().encode(value);
+  let binary = "";
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary);
+}
+
+// RFC 2047 encoded-word, for subjects in Sinhala or Tamil
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${toBase64(value)}?=`;
+}
+
+function buildMimeMessage(email: OutgoingEmail): string {
+  const headers: Record<string, string> = {
+    From: `${FROM_NAME} <${FROM_EMAIL}>`,
+    To: email.to,
+    Subject: encodeHeader(email.subject.replace(/[\r\n]+/g, " ")),
+    Date: new Date().toUTCString(),
+    "Message-ID": `<${email.id}@${MAILGUN_DOMAIN}>`,
+    "MIME-Version": "1.0",
+    "Content-Type": "text/html; charset=UTF-8",
+    "Content-Transfer-Encoding": "base64",
+    ...email.headers,
+  };
+  // Base64 lines never start with "." so the body needs no dot-stuffing
+  const body = toBase64(email.html).match(/.{1,76}/g) || [];
+  return [...Object.entries(headers).map(([name, value]) => `${name}: ${value}`), "", ...body].join("\r\n");
+}
+
+/**
+ * Minimal SMTP client over a TCP socket: EHLO, STARTTLS when offered (or implicit TLS on
+ * port 465), AUTH PLAIN when SMTP_USER is set, then a single message. Enough for a relay
+ * or a local catcher such as Mailpit (SMTP_HOST=localhost, SMTP_PORT=1025).
+ */
+class SmtpSession {
+  private socket: Socket;
+  private reader: ReadableStreamDefaultReader<Uint8Array>;
+  private writer: WritableStreamDefaultWriter<Uint8Array>;
+  private buffer = "";
+  private decoder = new TextDecoder();
+  private encoder = new TextEncoder();
+
+  constructor(socket: Socket) {
+    this.socket = socket;
+    this.reader = socket.readable.getReader();
+    this.writer = socket.writable.getWriter();
+  }
+
+  // Reads one reply, which may span several "250-..." lines, and checks its code
+  async expect(...codes: number[]): Promise<string[]> {
+    const lines: string[] = [];
+    for (;;) {
+      const newline = this.buffer.indexOf("\r\n");
+      if (newline === -1) {
+        const { value, done } = await this.reader.read();
+        if (done) throw new Error("SMTP server closed the connection");
+        this.buffer += this.decoder.decode(value, { stream: true });
+        continue;
+      }
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      lines.push(line);
+      if (line[3] !== "-") break;
+    }
+
+    const code = Number(lines[lines.length - 1].slice(0, 3));
+    if (!codes.includes(code)) {
+      throw new Error(`SMTP ${lines.join(" ")}`);
+    }
+    return lines;
+  }
+
+  async command(line: string, ...codes: number[]): Promise<string[]> {
+    await this.writer.write(this.encoder.encode(`${line}\r\n`));
+    return this.expect(...codes);
+  }
+
+  startTls(): void {
+    this.reader.releaseLock();
+    this.writer.releaseLock();
+    this.socket = this.socket.startTls();
+    this.reader = this.socket.readable.getReader();
+    this.writer = this.socket.writable.getWriter();
+  }
+
+  async close(): Promise<void> {
+    await this.socket.close().catch(() => {});
+  }
+}
+
+const smtpTransport: EmailTransport = {
+  name: "smtp",
+  async send(env, email) {
+    if (!env.SMTP_HOST) throw new Error("SMTP_HOST is not set");
+    const port = Number(env.SMTP_PORT || 587);
+    const session = new SmtpSession(
+      connect({ hostname: env.SMTP_HOST, port }, { secureTransport: port === 465 ? "on" : "starttls", allowHalfOpen: false })
+    );
+
+    const conversation = async () => {
+      await session.expect(220);
+      const capabilities = await session.command(`EHLO ${MAILGUN_DOMAIN}`, 250);
+      if (port !== 465 && capabilities.some((line) => /^250[- ]STARTTLS/i.test(line))) {
+        await session.command("STARTTLS", 220);
+        session.startTls();
+        await session.command(`EHLO ${MAILGUN_DOMAIN}`, 250);
+      }
+      if (env.SMTP_USER) {
+        await session.command(`AUTH PLAIN ${toBase64(`\0${env.SMTP_USER}\0${env.SMTP_PASSWORD || ""}`)}`, 235);
+      }
+      await session.command(`MAIL FROM:<${FROM_EMAIL}>`, 250);
+      await session.command(`RCPT TO:<${email.to}>`, 250, 251);
+      await session.command("DATA", 354);
+      await session.command(`${buildMimeMessage(email)}\r\n.`, 250);
+      await session.command("QUIT", 221).catch(() => {});
+    };
+
+    let timer: ReturnType<typeof setTimeout> | null = null;
+    try {
+      await Promise.race([
+        conversation(),
+        new Promise<never>((_, reject) => {
+          timer = setTimeout(() => reject(new Error("SMTP timed out")), SMTP_TIMEOUT_MS);
+        }),
+      ]);
+    } finally {
+      if (timer) clearTimeout(timer);
+      await session.close();
+    }
+  },
+};
+
+const TRANSPORTS: Record<EmailTransportName, EmailTransport> = {
+  mailgun: mailgunTransport,
+  smtp: smtpTransport,
+  console: consoleTransport,
+};
+
+export function getEmailTransport(env: Env): EmailTransport {
+  const name = env.EMAIL_TRANSPORT || (env.ENVIRONMENT === "development" || !env.MAILGUN_API_KEY ? "console" : "mailgun");
+  const transport = TRANSPORTS[name as EmailTransportName];
+  if (!transport) {
+    throw new Error(`Unknown EMAIL_TRANSPORT "${name}" (expected mailgun, smtp or console)`);
+  }
+  return transport;
+}
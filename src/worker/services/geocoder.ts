@@ -0,0 +1,248 @@
+import { roadCells, roads } from "../db/schema";
+import { eq, inArray } from "drizzle-orm";
+import type { Database } from "../db";
+import { findContainingLocations, type ContainingLocation } from "./regions";
+import { geohashNeighborhood } from "./geohash";
+
+const EARTH_RADIUS_METERS = 6_371_000;
+// Length of one degree of latitude, used for distances
+const METERS_PER_DEGREE = 111_320;
+// Furthest a point can be from a road centreline and still be placed on that road
+export const ROAD_MATCH_RADIUS_METERS = 150;
+// Furthest the geohash neighbourhood around a point is guaranteed to reach
+export const ROAD_SEARCH_RADIUS_METERS = 500;
+
+export type GeocodeLanguage = "en" | "si" | "ta";
+
+export interface LocalizedName {
+  en: string;
+  si: string | null;
+  ta: string | null;
+}
+
+export interface GeocodedPlace {
+  id: string;
+  name: LocalizedName;
+}
+
+export interface GeocodedRoad extends GeocodedPlace {
+  roadNumber: string;
+  roadClass: string;
+  distanceMeters: number;
+}
+
+export interface ReverseGeocodeResult {
+  road: GeocodedRoad | null;
+  gnDivision: GeocodedPlace | null;
+  dsDivision: GeocodedPlace | null;
+  city: GeocodedPlace | null;
+  district: GeocodedPlace | null;
+  province: GeocodedPlace | null;
+}
+
+// GeoJSON positions are [lng, lat]
+type RoadGeometry =
+  | { type: "LineString"; coordinates: number[][] }
+  | { type: "MultiLineString"; coordinates: number[][][] };
+
+function toPlace(location: ContainingLocation | undefined): GeocodedPlace | null {
+  if (!location) return null;
+  return {
+    id: location.id,
+    name: { en: location.nameEn, si: location.nameSi, ta: location.nameTa },
+  };
+}
+
+export function parseRoadGeometry(value: string | null): number[][][] {
+  if (!value) return [];
+  try {
+    const geometry = JSON.parse(value) as RoadGeometry;
+    if (geometry.type === "LineString") return [geometry.coordinates];
+    if (geometry.type === "MultiLineString") return geometry.coordinates;
+  } catch {
+    // Ignore malformed geometry
+  }
+  return [];
+}
+
+/**
+ * Great-circle distance between two coordinates in meters.
+ */
+export function haversineMeters(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a));
+}
+
+/**
+ * Distance in meters from a point to the nearest segment of a line, using a flat
+ * projection around the point (accurate enough at road-matching distances).
+ */
+export function distanceToLineMeters(lat: number, lng: number, line: number[][]): number {
+  const lngScale = Math.cos((lat * Math.PI) / 180);
+  const project = ([pLng, pLat]: number[]) => ({
+    x: (pLng - lng) * lngScale * METERS_PER_DEGREE,
+    y: (pLat - lat) * METERS_PER_DEGREE,
+  });
+
+  let nearest = Infinity;
+  for (let i = 0; i < line.length; i++) {
+    const a = project(line[i]);
+    const b = project(line[i + 1] || line[i]);
+    const dx = b.x - a.x;
+    const dy = b.y - a.y;
+    const lengthSquared = dx * dx + dy * dy;
+    // Fraction along the segment of the point closest to the origin
+    const t = lengthSquared === 0 ? 0 : Math.max(0, Math.min(1, -(a.x * dx + a.y * dy) / lengthSquared));
+    nearest = Math.min(nearest, Math.hypot(a.x + t * dx, a.y + t * dy));
+  }
+  return nearest;
+}
+
+/**
+ * Numbered roads whose centreline passes within radiusMeters of a point, nearest first.
+ * Candidates come from the road_cells geohash grid around the point, which covers
+ * ROAD_SEARCH_RADIUS_METERS.
+ */
+export async function findNearestRoads(
+  db: Database,
+  lat: number,
+  lng: number,
+  { radiusMeters = ROAD_MATCH_RADIUS_METERS, limit = 5 }: { radiusMeters?: number; limit?: number } = {}
+): Promise<GeocodedRoad[]> {
+  const candidates = await db
+    .selectDistinct({
+      id: roads.id,
+      roadNumber: roads.roadNumber,
+      roadClass: roads.roadClass,
+      name: roads.name,
+      nameSi: roads.nameSi,
+      nameTa: roads.nameTa,
+      geometry: roads.geometry,
+    })
+    .from(roadCells)
+    .innerJoin(roads, eq(roadCells.roadId, roads.id))
+    .where(inArray(roadCells.geohash, geohashNeighborhood(lat, lng)));
+
+  const nearby: GeocodedRoad[] = [];
+  for (const road of candidates) {
+    const distanceMeters = Math.min(
+      ...parseRoadGeometry(road.geometry).map((line) => distanceToLineMeters(lat, lng, line))
+    );
+    if (distanceMeters > Math.min(radiusMeters, ROAD_SEARCH_RADIUS_METERS)) continue;
+
+    nearby.push({
+      id: road.id,
+      roadNumber: road.roadNumber,
+      roadClass: road.roadClass,
+      // Unnamed roads are known by their number, e.g. "B128"
+      name: { en: road.name || road.roadNumber, si: road.nameSi, ta: road.nameTa },
+      distanceMeters: Math.round(distanceMeters),
+    });
+  }
+
+  return nearby.sort((a, b) => a.distanceMeters - b.distanceMeters).slice(0, limit);
+}
+
+/**
+ * The road whose centreline passes closest to a point, within ROAD_MATCH_RADIUS_METERS.
+ */
+export async function findNearestRoad(db: Database, lat: number, lng: number): Promise<GeocodedRoad | null> {
+  const [road] = await findNearestRoads(db, lat, lng, { limit: 1 });
+  return road || null;
+}
+
+/**
+ * Reverse geocodes a coordinate from the local gazetteer: the nearest road plus the
+ * GN division, DS division, city, district and province whose boundaries contain it.
+ */
+export async function reverseGeocode(db: Database, lat: number, lng: number): Promise<ReverseGeocodeResult> {
+  const [road, containing] = await Promise.all([
+    findNearestRoad(db, lat, lng),
+    findContainingLocations(db, lat, lng),
+  ]);
+
+  return {
+    road,
+    gnDivision: toPlace(containing.gn_division),
+    dsDivision: toPlace(containing.ds_division),
+    city: toPlace(containing.city),
+    district: toPlace(containing.district),
+    province: toPlace(containing.province),
+  };
+}
+
+/**
+ * Builds a concise "Road, GN division, City, District" label in the given language,
+ * falling back to English where a translation is missing. Null if nothing was found.
+ */
+export function formatLocationName(
+  result: ReverseGeocodeResult,
+  language: GeocodeLanguage = "en"
+): string | null {
+  const parts: string[] = [];
+  for (const place of [result.road, result.gnDivision, result.city, result.district]) {
+    const name = place ? place.name[language] || place.name.en : null;
+    if (name && !parts.includes(name)) parts.push(name);
+  }
+
+  return parts.length > 0 ? parts.join(", ") : null;
+}
+
+/**
+ * Reverse geocodes through the public Nominatim API. Only used as an opt-in fallback
+ * (NOMINATIM_FALLBACK=true) for points the local gazetteer can't place.
+ */
+export async function nominatimLocationName(lat: number, lng: number): Promise<string | null> {
+  try {
+    const response = await fetch(
+      `https://nominatim.openstreetmap.org/reverse?format=json&lat=${lat}&lon=${lng}&zoom=14&addressdetails=1`,
+      {
+        headers: {
+          "User-Agent": "SriLankaRoadStatus/1.0 (road-lk.org)",
+          "Accept-Language": "en",
+        },
+        signal: AbortSignal.timeout(3000),
+      }
+    );
+
+    if (!response.ok) return null;
+
+    const data = await response.json() as {
+      address?: {
+        road?: string;
+        neighbourhood?: string;
+        suburb?: string;
+        city?: string;
+        town?: string;
+        village?: string;
+        county?: string;
+        state?: string;
+        state_district?: string;
+      };
+    };
+
+    if (!data.address) return null;
+
+    const addr = data.address;
+    const parts: string[] = [];
+    if (addr.road) parts.push(addr.road);
+
+    const area = addr.neighbourhood || addr.suburb || addr.village || addr.town;
+    if (area && !parts.includes(area)) parts.push(area);
+
+    const city = addr.city || addr.county || addr.state_district;
+    if (city && !parts.includes(city)) parts.push(city);
+
+    if (addr.state && !parts.includes(addr.state)) parts.push(addr.state);
+
+    return parts.length > 0 ? parts.join(", ") : null;
+  } catch (error) {
+    console.error("Nominatim reverse geocode error:", error);
+    return null;
+  }
+}
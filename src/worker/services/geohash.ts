@@ -0,0 +1,117 @@
+const BASE32 = "0123456789bcdefghjkmnpqrstuvwxyz";
+
+// Cells of ~1.2km x 0.6km: a point's cell plus its neighbours always covers 500m around it
+export const ROAD_CELL_PRECISION = 6;
+
+interface CellBounds {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+/**
+ * Encodes a coordinate as a geohash of the given length.
+ */
+export function encodeGeohash(lat: number, lng: number, precision: number = ROAD_CELL_PRECISION): string {
+  const bounds = { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 };
+  let hash = "";
+  let bits = 0;
+  let value = 0;
+  let evenBit = true;
+
+  while (hash.length < precision) {
+    // Bits alternate between longitude and latitude, longitude first
+    if (evenBit) {
+      const mid = (bounds.minLng + bounds.maxLng) / 2;
+      value = value * 2 + (lng >= mid ? 1 : 0);
+      if (lng >= mid) bounds.minLng = mid;
+      else bounds.maxLng = mid;
+    } else {
+      const mid = (bounds.minLat + bounds.maxLat) / 2;
+      value = value * 2 + (lat >= mid ? 1 : 0);
+      if (lat >= mid) bounds.minLat = mid;
+      else bounds.maxLat = mid;
+    }
+    evenBit = !evenBit;
+
+    if (++bits === 5) {
+      hash += BASE32[value];
+      bits = 0;
+      value = 0;
+    }
+  }
+
+  return hash;
+}
+
+/**
+ * Bounds of the cell a geohash names.
+ */
+export function decodeGeohashBounds(hash: string): CellBounds {
+  const bounds = { minLat: -90, maxLat: 90, minLng: -180, maxLng: 180 };
+  let evenBit = true;
+
+  for (const char of hash) {
+    const value = BASE32.indexOf(char);
+    for (let bit = 4; bit >= 0; bit--) {
+      const isSet = ((value >> bit) & 1) === 1;
+      if (evenBit) {
+        const mid = (bounds.minLng + bounds.maxLng) / 2;
+        if (isSet) bounds.minLng = mid;
+        else bounds.maxLng = mid;
+      } else {
+        const mid = (bounds.minLat + bounds.maxLat) / 2;
+        if (isSet) bounds.minLat = mid;
+        else bounds.maxLat = mid;
+      }
+      evenBit = !evenBit;
+    }
+  }
+
+  return bounds;
+}
+
+/**
+ * The cell containing a point and the eight cells around it.
+ */
+export function geohashNeighborhood(lat: number, lng: number, precision: number = ROAD_CELL_PRECISION): string[] {
+  const { minLat, maxLat, minLng, maxLng } = decodeGeohashBounds(encodeGeohash(lat, lng, precision));
+  const latStep = maxLat - minLat;
+  const lngStep = maxLng - minLng;
+  const centerLat = (minLat + maxLat) / 2;
+  const centerLng = (minLng + maxLng) / 2;
+
+  const cells = new Set<string>();
+  for (const dLat of [-1, 0, 1]) {
+    for (const dLng of [-1, 0, 1]) {
+      cells.add(encodeGeohash(centerLat + dLat * latStep, centerLng + dLng * lngStep, precision));
+    }
+  }
+  return [...cells];
+}
+
+/**
+ * Every cell a set of [lng, lat] polylines passes through, found by sampling each
+ * segment at a quarter of the cell size.
+ */
+export function geohashCellsForLines(lines: number[][][], precision: number = ROAD_CELL_PRECISION): string[] {
+  if (lines.length === 0 || lines[0].length === 0) return [];
+
+  const [firstLng, firstLat] = lines[0][0];
+  const cell = decodeGeohashBounds(encodeGeohash(firstLat, firstLng, precision));
+  const step = Math.min(cell.maxLat - cell.minLat, cell.maxLng - cell.minLng) / 4;
+
+  const cells = new Set<string>();
+  for (const line of lines) {
+    for (let i = 0; i < line.length; i++) {
+      const [lngA, latA] = line[i];
+      const [lngB, latB] = line[i + 1] || line[i];
+      const samples = Math.max(1, Math.ceil(Math.hypot(latB - latA, lngB - lngA) / step));
+      for (let s = 0; s <= samples; s++) {
+        cells.add(encodeGeohash(latA + ((latB - latA) * s) / samples, lngA + ((lngB - lngA) * s) / samples, precision));
+      }
+    }
+  }
+  return [...cells];
+}
@@ -0,0 +1,125 @@
+import { milestones, rebuildProjects } from "../db/schema";
+import { eq, asc } from "drizzle-orm";
+import type { Database } from "../db";
+import type { BatchItem } from "drizzle-orm/batch";
+import { buildAuditInserts, recordAuditEntries, type AuditEntry } from "./audit";
+
+type Milestone = typeof milestones.$inferSelect;
+
+interface Performer {
+  userId: string | null;
+  role: string | null;
+}
+
+// Today's date as YYYY-MM-DD, comparable with milestone target/actual dates
+export function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+/**
+ * Derives the status a milestone should have from its dates.
+ * - actualDate set → completed
+ * - targetDate in the past without actualDate → delayed
+ * - a delayed (or un-completed) milestone that is no longer overdue → on_track
+ * Otherwise the stored status is kept.
+ */
+export function deriveMilestoneStatus(
+  milestone: Pick<Milestone, "status" | "targetDate" | "actualDate">,
+  today: string = todayIsoDate()
+): string {
+  if (milestone.actualDate) return "completed";
+  if (milestone.targetDate && milestone.targetDate < today) return "delayed";
+  if (milestone.status === "delayed" || milestone.status === "completed") return "on_track";
+  return milestone.status;
+}
+
+/**
+ * Marks overdue milestones of a project as delayed (and un-delays rescheduled ones).
+ * Automatic changes are audited with a null performer so they show as "System".
+ * Returns the project's milestones in order, with statuses up to date.
+ */
+export async function refreshMilestoneStatuses(
+  db: Database,
+  projectId: string
+): Promise<Milestone[]> {
+  const rows = await db
+    .select()
+    .from(milestones)
+    .where(eq(milestones.projectId, projectId))
+    .orderBy(asc(milestones.orderIndex));
+
+  const today = todayIsoDate();
+  const writes: BatchItem<"sqlite">[] = [];
+  const auditEntries: AuditEntry[] = [];
+
+  for (const row of rows) {
+    const status = deriveMilestoneStatus(row, today);
+    if (status === row.status) continue;
+
+    writes.push(db.update(milestones).set({ status }).where(eq(milestones.id, row.id)));
+
+    auditEntries.push({
+      targetType: "milestone",
+      targetId: row.id,
+      fieldName: "status",
+      oldValue: row.status,
+      newValue: status,
+      fromStatus: row.status,
+      toStatus: status,
+      performedBy: null,
+      performerRole: null,
+      reason: status === "delayed" ? `Target date ${row.targetDate} passed without completion` : undefined,
+      metadata: { projectId, automatic: true },
+    });
+    row.status = status;
+  }
+
+  if (writes.length > 0) {
+    await db.batch([writes[0], ...writes.slice(1), ...buildAuditInserts(db, auditEntries)]);
+  }
+  return rows;
+}
+
+/**
+ * Recomputes a project's progressPercent from the share of completed milestones.
+ * When the last milestone is deleted the milestone-derived value is reset to 0 and
+ * progress goes back to being entered manually.
+ */
+export async function recomputeProjectProgress(
+  db: Database,
+  projectId: string,
+  performer: Performer
+): Promise<void> {
+  const rows = await db
+    .select({ status: milestones.status })
+    .from(milestones)
+    .where(eq(milestones.projectId, projectId));
+
+  const completed = rows.filter((row) => row.status === "completed").length;
+  const progressPercent = rows.length > 0 ? Math.round((completed / rows.length) * 100) : 0;
+
+  const [project] = await db
+    .select({ progressPercent: rebuildProjects.progressPercent, projectCode: rebuildProjects.projectCode })
+    .from(rebuildProjects)
+    .where(eq(rebuildProjects.id, projectId));
+
+  if (!project || project.progressPercent === progressPercent) return;
+
+  await db
+    .update(rebuildProjects)
+    .set({ progressPercent, updatedAt: new Date() })
+    .where(eq(rebuildProjects.id, projectId));
+
+  await recordAuditEntries(db, [
+    {
+      targetType: "project",
+      targetId: projectId,
+      fieldName: "progressPercent",
+      oldValue: project.progressPercent === null ? null : String(project.progressPercent),
+      newValue: String(progressPercent),
+      performedBy: performer.userId,
+      performerRole: performer.role,
+      metadata: { projectCode: project.projectCode, source: "milestones", completed, total: rows.length },
+    },
+  ]);
+}
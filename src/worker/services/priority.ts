@@ -0,0 +1,330 @@
+import { damageReports, priorityConfig } from "../db/schema";
+import { eq, desc, inArray } from "drizzle-orm";
+import type { Database } from "../db";
+import { DEFAULT_PRIORITY_WEIGHTS, MAX_SEVERITY } from "../../shared/constants";
+
+export type PriorityFactor = keyof typeof DEFAULT_PRIORITY_WEIGHTS;
+export type PriorityWeights = Record<PriorityFactor, number>;
+
+export interface PriorityConfigVersion {
+  version: string;
+  weights: PriorityWeights;
+}
+
+// Version recorded on reports scored before any priority_config row was activated
+export const DEFAULT_PRIORITY_VERSION = "default";
+
+// Statuses that still need work; only these are re-scored in bulk
+export const OPEN_REPORT_STATUSES = ["new", "verified", "in_progress", "linked_to_project"];
+
+// D1 caps statements per batch; keep re-score batches well under it
+const RESCORE_BATCH_SIZE = 50;
+
+// Fields the score is derived from
+export type ScorableReport = Pick<
+  typeof damageReports.$inferSelect,
+  | "severity"
+  | "passabilityLevel"
+  | "roadClass"
+  | "blockedDistanceMeters"
+  | "needsSafetyBarriers"
+  | "estimatedPopulation"
+  | "incidentDetails"
+  | "createdAt"
+>;
+
+// How badly each passability level disrupts traffic (what can still get through)
+const PASSABILITY_IMPACT: Record<string, number> = {
+  unpassable: 1,
+  foot: 0.9,
+  bike: 0.75,
+  "3wheeler": 0.6,
+  car: 0.4,
+  bus: 0.2,
+  truck: 0.1,
+};
+
+// A and E are national trunk roads and expressways; D and unclassified are local access
+const ROAD_CLASS_IMPORTANCE: Record<string, number> = {
+  E: 1,
+  A: 1,
+  B: 0.75,
+  C: 0.5,
+  D: 0.25,
+};
+
+// Blocked length at which the safety factor saturates
+const SAFETY_MAX_BLOCKED_METERS = 1000;
+// Population at which the population factor saturates (log scale)
+const POPULATION_SATURATION = 100_000;
+// Report age at which the age factor saturates
+const AGE_SATURATION_DAYS = 30;
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+
+// incidentDetails.alternativeRoutes may be a count, a yes/no flag or a list of route descriptions
+function alternativeRoutesFactor(incidentDetails: string | null): number {
+  let value: unknown;
+  try {
+    value = incidentDetails ? JSON.parse(incidentDetails).alternativeRoutes : undefined;
+  } catch {
+    value = undefined;
+  }
+
+  if (typeof value === "boolean") return value ? 0.25 : 1;
+  if (Array.isArray(value)) value = value.length;
+  if (typeof value === "number") {
+    if (value <= 0) return 1;
+    return value === 1 ? 0.5 : 0.25;
+  }
+  // Unknown: assume some detour exists, but don't rank it as well served
+  return 0.5;
+}
+
+/**
+ * Normalizes each priority factor of a report to a 0-1 value, where 1 is most urgent.
+ */
+export function computePriorityFactors(
+  report: ScorableReport,
+  now: Date = new Date()
+): Record<PriorityFactor, number> {
+  const blocked = report.blockedDistanceMeters ?? 0;
+  const safetyRisk = clamp01(blocked / SAFETY_MAX_BLOCKED_METERS);
+  const ageDays = (now.getTime() - new Date(report.createdAt).getTime()) / 86_400_000;
+
+  return {
+    severity: clamp01(report.severity / MAX_SEVERITY),
+    trafficImpact: PASSABILITY_IMPACT[report.passabilityLevel || ""] ?? 0.5,
+    populationAffected: report.estimatedPopulation
+      ? clamp01(Math.log10(report.estimatedPopulation + 1) / Math.log10(POPULATION_SATURATION))
+      : 0,
+    strategicImportance: ROAD_CLASS_IMPORTANCE[report.roadClass || ""] ?? 0.25,
+    // Reports flagged as needing barriers are at least a moderate safety risk
+    safetyRisk: report.needsSafetyBarriers ? Math.max(safetyRisk, 0.5) : safetyRisk,
+    reportAge: clamp01(ageDays / AGE_SATURATION_DAYS),
+    alternativeRoutes: alternativeRoutesFactor(report.incidentDetails),
+  };
+}
+
+/**
+ * Weighted priority score from 0 to 100 (higher = more urgent).
+ * Weights are normalized so a config whose weights don't sum to 1 still scores on the same scale.
+ */
+export function computePriorityScore(
+  report: ScorableReport,
+  weights: PriorityWeights,
+  now: Date = new Date()
+): number {
+  const factors = computePriorityFactors(report, now);
+  let total = 0;
+  let weightSum = 0;
+  for (const factor of Object.keys(factors) as PriorityFactor[]) {
+    const weight = weights[factor] ?? 0;
+    total += factors[factor] * weight;
+    weightSum += weight;
+  }
+  if (weightSum <= 0) return 0;
+  return Math.round((total / weightSum) * 1000) / 10;
+}
+
+/**
+ * Loads the active priority_config version, falling back to DEFAULT_PRIORITY_WEIGHTS.
+ */
+export async function getActivePriorityConfig(db: Database): Promise<PriorityConfigVersion> {
+  const [config] = await db
+    .select({ version: priorityConfig.version, weights: priorityConfig.weights })
+    .from(priorityConfig)
+    .where(eq(priorityConfig.isActive, true))
+    .orderBy(desc(priorityConfig.createdAt))
+    .limit(1);
+
+  if (!config) {
+    return { version: DEFAULT_PRIORITY_VERSION, weights: { ...DEFAULT_PRIORITY_WEIGHTS } };
+  }
+
+  return {
+    version: config.version,
+    // Factors missing from an older config keep their default weight
+    weights: { ...DEFAULT_PRIORITY_WEIGHTS, ...(JSON.parse(config.weights) as Partial<PriorityWeights>) },
+  };
+}
+
+/**
+ * Recomputes and stores the priority score and config version of a single report.
+ * Call after a report is created or any scored field changes.
+ */
+export async function updateReportPriority(
+  db: Database,
+  reportId: string,
+  config?: PriorityConfigVersion
+): Promise<number | null> {
+  const [report] = await db
+    .select()
+    .from(damageReports)
+    .where(eq(damageReports.id, reportId));
+
+  if (!report) return null;
+
+  const active = config || (await getActivePriorityConfig(db));
+  const priorityScore = computePriorityScore(report, active.weights);
+
+  await db
+    .update(damageReports)
+    .set({ priorityScore, priorityVersion: active.version })
+    .where(eq(damageReports.id, reportId));
+
+  return priorityScore;
+}
+
+// Columns needed to score, rank and identify open reports
+const openReportColumns = {
+  id: damageReports.id,
+  reportNumber: damageReports.reportNumber,
+  locationName: damageReports.locationName,
+  severity: damageReports.severity,
+  passabilityLevel: damageReports.passabilityLevel,
+  roadClass: damageReports.roadClass,
+  blockedDistanceMeters: damageReports.blockedDistanceMeters,
+  needsSafetyBarriers: damageReports.needsSafetyBarriers,
+  estimatedPopulation: damageReports.estimatedPopulation,
+  incidentDetails: damageReports.incidentDetails,
+  createdAt: damageReports.createdAt,
+};
+
+async function getOpenReports(db: Database) {
+  return db
+    .select(openReportColumns)
+    .from(damageReports)
+    .where(inArray(damageReports.status, OPEN_REPORT_STATUSES));
+}
+
+// Writes fresh scores for already-loaded reports, in batches
+async function writePriorityScores(
+  db: Database,
+  reports: (ScorableReport & { id: string })[],
+  config: PriorityConfigVersion
+): Promise<void> {
+  const now = new Date();
+
+  for (let i = 0; i < reports.length; i += RESCORE_BATCH_SIZE) {
+    const updates = reports.slice(i, i + RESCORE_BATCH_SIZE).map((report) =>
+      db
+        .update(damageReports)
+        .set({
+          priorityScore: computePriorityScore(report, config.weights, now),
+          priorityVersion: config.version,
+        })
+        .where(eq(damageReports.id, report.id))
+    );
+    const [first, ...rest] = updates;
+    await db.batch([first, ...rest]);
+  }
+}
+
+/**
+ * Re-scores every open report with the given (or active) config, in batches.
+ * Returns the number of reports updated.
+ */
+export async function rescoreOpenReports(
+  db: Database,
+  config?: PriorityConfigVersion
+): Promise<number> {
+  const active = config || (await getActivePriorityConfig(db));
+  const reports = await getOpenReports(db);
+  await writePriorityScores(db, reports, active);
+  return reports.length;
+}
+
+/**
+ * Re-scores the given reports with one read and batched updates, for bulk edits where
+ * calling updateReportPriority per report would cost two queries each.
+ */
+export async function rescoreReports(
+  db: Database,
+  reportIds: string[],
+  config: PriorityConfigVersion
+): Promise<void> {
+  if (reportIds.length === 0) return;
+  const reports = await db
+    .select(openReportColumns)
+    .from(damageReports)
+    .where(inArray(damageReports.id, reportIds));
+  await writePriorityScores(db, reports, config);
+}
+
+export interface PriorityRankChange {
+  id: string;
+  reportNumber: string;
+  locationName: string | null;
+  currentScore: number;
+  currentRank: number;
+  newScore: number;
+  newRank: number;
+  // Positive = moves up the queue (towards rank 1)
+  rankChange: number;
+}
+
+export interface PriorityPreview {
+  totalReports: number;
+  changedReports: number;
+  movedUp: PriorityRankChange[];
+  movedDown: PriorityRankChange[];
+}
+
+// Ranks reports by score (1 = highest); ties keep the order of the input
+function rankByScore(scores: Map<string, number>): Map<string, number> {
+  const ranked = [...scores.entries()].sort((a, b) => b[1] - a[1]);
+  return new Map(ranked.map(([id], index) => [id, index + 1]));
+}
+
+/**
+ * Compares the open report ranking under the active config with the ranking under
+ * candidate weights, without writing anything. Both sides are scored at the same moment
+ * so report age doesn't skew the comparison.
+ */
+export async function previewPriorityChange(
+  db: Database,
+  weights: PriorityWeights,
+  limit: number = 10
+): Promise<PriorityPreview> {
+  const active = await getActivePriorityConfig(db);
+  const reports = await getOpenReports(db);
+  const now = new Date();
+
+  const currentScores = new Map<string, number>();
+  const newScores = new Map<string, number>();
+  for (const report of reports) {
+    currentScores.set(report.id, computePriorityScore(report, active.weights, now));
+    newScores.set(report.id, computePriorityScore(report, weights, now));
+  }
+  const currentRanks = rankByScore(currentScores);
+  const newRanks = rankByScore(newScores);
+
+  const changes: PriorityRankChange[] = reports.map((report) => {
+    const currentRank = currentRanks.get(report.id)!;
+    const newRank = newRanks.get(report.id)!;
+    return {
+      id: report.id,
+      reportNumber: report.reportNumber,
+      locationName: report.locationName,
+      currentScore: currentScores.get(report.id)!,
+      currentRank,
+      newScore: newScores.get(report.id)!,
+      newRank,
+      rankChange: currentRank - newRank,
+    };
+  });
+
+  return {
+    totalReports: reports.length,
+    changedReports: changes.filter((change) => change.rankChange !== 0).length,
+    movedUp: changes
+      .filter((change) => change.rankChange > 0)
+      .sort((a, b) => b.rankChange - a.rankChange)
+      .slice(0, limit),
+    movedDown: changes
+      .filter((change) => change.rankChange < 0)
+      .sort((a, b) => a.rankChange - b.rankChange)
+      .slice(0, limit),
+  };
+}
@@ -0,0 +1,173 @@
+import { damageReports, rebuildProjects, reportProjectLinks } from "../db/schema";
+import { eq, and, inArray, ne, notExists, notInArray } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import type { Database } from "../db";
+import { recordAuditEntries } from "./audit";
+import { notifyStatusChange } from "./statusNotifications";
+import { notifyReportWatchers } from "./watch";
+import { dispatchReportStatusWebhook } from "./webhooks";
+
+// Link types whose reports are driven by the project's lifecycle.
+// "related" links are informational only and never change report status.
+export const PROJECT_DRIVEN_LINK_TYPES = ["primary", "contributing"] as const;
+
+// Project statuses that no longer hold a report open: completed work, or work that won't happen
+const FINISHED_PROJECT_STATUSES = ["completed", "cancelled"];
+
+export function isProjectDrivenLink(linkType: string): boolean {
+  return (PROJECT_DRIVEN_LINK_TYPES as readonly string[]).includes(linkType);
+}
+
+interface Performer {
+  userId: string | null;
+  role: string | null;
+}
+
+// Lets setReportStatus tell submitters, watchers and webhooks, as a manual status change does
+export interface StatusNotifyContext {
+  env: Env;
+  ctx: ExecutionContext;
+  baseUrl: string;
+}
+
+type Report = typeof damageReports.$inferSelect;
+
+/**
+ * Changes a report's status, stamps the resolution tracking timestamps and records
+ * the transition in the audit trail. With a notify context the change is also emailed
+ * to submitters and watchers and sent to webhooks.
+ */
+export async function setReportStatus(
+  db: Database,
+  report: Pick<Report, "id" | "reportNumber" | "status" | "inProgressAt" | "resolvedAt">,
+  toStatus: string,
+  performer: Performer,
+  reason: string,
+  metadata?: Record<string, unknown>,
+  notify?: StatusNotifyContext
+): Promise<void> {
+  if (report.status === toStatus) return;
+
+  const now = new Date();
+  const updateData: Record<string, unknown> = { status: toStatus, updatedAt: now };
+  if (toStatus === "in_progress" && !report.inProgressAt) {
+    updateData.inProgressAt = now;
+  }
+  if (toStatus === "resolved" && !report.resolvedAt) {
+    updateData.resolvedAt = now;
+  }
+
+  await db
+    .update(damageReports)
+    .set(updateData)
+    .where(eq(damageReports.id, report.id));
+
+  await recordAuditEntries(db, [
+    {
+      targetType: "report",
+      targetId: report.id,
+      fieldName: "status",
+      oldValue: report.status,
+      newValue: toStatus,
+      fromStatus: report.status,
+      toStatus,
+      performedBy: performer.userId,
+      performerRole: performer.role,
+      reason,
+      metadata,
+    },
+  ]);
+
+  if (notify) {
+    await notifyStatusChange(notify.env, db, {
+      report,
+      status: toStatus,
+      reason,
+      changedBy: performer.userId,
+      baseUrl: notify.baseUrl,
+    });
+    await notifyReportWatchers(notify.env, db, { reportId: report.id, status: toStatus, baseUrl: notify.baseUrl });
+    await dispatchReportStatusWebhook(db, notify.ctx, { reportId: report.id, status: toStatus, reason });
+  }
+}
+
+/**
+ * Whether a report still has a primary or contributing link to any project.
+ * Used to decide if a report may sit in (or leave) the linked_to_project status.
+ */
+export async function hasProjectDrivenLink(db: Database, reportId: string): Promise<boolean> {
+  const [link] = await db
+    .select({ id: reportProjectLinks.id })
+    .from(reportProjectLinks)
+    .where(
+      and(
+        eq(reportProjectLinks.reportId, reportId),
+        inArray(reportProjectLinks.linkType, [...PROJECT_DRIVEN_LINK_TYPES])
+      )
+    )
+    .limit(1);
+  return Boolean(link);
+}
+
+/**
+ * Resolves every open report linked to a project through a primary or contributing link.
+ * Called when the project is marked completed. Reports that another unfinished project
+ * still drives are left open for that project. Returns the number of reports resolved.
+ */
+export async function resolveLinkedReports(
+  db: Database,
+  project: { id: string; projectCode: string },
+  performer: Performer,
+  notify?: StatusNotifyContext
+): Promise<number> {
+  const otherLinks = alias(reportProjectLinks, "other_links");
+  const openReports = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      status: damageReports.status,
+      inProgressAt: damageReports.inProgressAt,
+      resolvedAt: damageReports.resolvedAt,
+    })
+    .from(reportProjectLinks)
+    .innerJoin(damageReports, eq(reportProjectLinks.reportId, damageReports.id))
+    .where(
+      and(
+        eq(reportProjectLinks.projectId, project.id),
+        inArray(reportProjectLinks.linkType, [...PROJECT_DRIVEN_LINK_TYPES]),
+        notInArray(damageReports.status, ["resolved", "rejected", "merged"]),
+        notExists(
+          db
+            .select({ id: otherLinks.id })
+            .from(otherLinks)
+            .innerJoin(rebuildProjects, eq(otherLinks.projectId, rebuildProjects.id))
+            .where(
+              and(
+                eq(otherLinks.reportId, damageReports.id),
+                ne(otherLinks.projectId, project.id),
+                inArray(otherLinks.linkType, [...PROJECT_DRIVEN_LINK_TYPES]),
+                notInArray(rebuildProjects.status, FINISHED_PROJECT_STATUSES)
+              )
+            )
+        )
+      )
+    );
+
+  // A report can be linked more than once to the same project; resolve it once
+  const seen = new Set<string>();
+  for (const report of openReports) {
+    if (seen.has(report.id)) continue;
+    seen.add(report.id);
+    await setReportStatus(
+      db,
+      report,
+      "resolved",
+      performer,
+      `Project ${project.projectCode} completed`,
+      { projectId: project.id, projectCode: project.projectCode, automatic: true },
+      notify
+    );
+  }
+
+  return seen.size;
+}
@@ -0,0 +1,143 @@
+import { ipAllowlist, rateLimitBlocks, rateLimitCounters } from "../db/schema";
+import { and, eq, lt, sql } from "drizzle-orm";
+import type { Database } from "../db";
+
+/**
+ * Backing store for fixed-window request counters, kept in D1 so limits hold across isolates.
+ */
+export interface RateLimitStore {
+  // Counts one request for the client in the window and returns the window's new total
+  increment(bucket: string, clientKey: string, windowStart: number): Promise<number>;
+  // Clears every window for the client (used when an admin unblocks it)
+  reset(bucket: string, clientKey: string): Promise<void>;
+}
+
+export function createD1RateLimitStore(db: Database): RateLimitStore {
+  return {
+    async increment(bucket, clientKey, windowStart) {
+      const [row] = await db
+        .insert(rateLimitCounters)
+        .values({ bucket, clientKey, windowStart, count: 1 })
+        .onConflictDoUpdate({
+          target: [rateLimitCounters.bucket, rateLimitCounters.clientKey, rateLimitCounters.windowStart],
+          set: { count: sql`${rateLimitCounters.count} + 1` },
+        })
+        .returning({ count: rateLimitCounters.count });
+
+      // First request of a new window: drop the client's older windows
+      if (row.count === 1) {
+        await db
+          .delete(rateLimitCounters)
+          .where(
+            and(
+              eq(rateLimitCounters.bucket, bucket),
+              eq(rateLimitCounters.clientKey, clientKey),
+              lt(rateLimitCounters.windowStart, windowStart)
+            )
+          );
+      }
+      return row.count;
+    },
+
+    async reset(bucket, clientKey) {
+      await db
+        .delete(rateLimitCounters)
+        .where(and(eq(rateLimitCounters.bucket, bucket), eq(rateLimitCounters.clientKey, clientKey)));
+    },
+  };
+}
+
+/**
+ * Client IP as reported by Cloudflare, falling back to the first X-Forwarded-For hop locally.
+ */
+export function getClientIp(header: (name: string) => string | undefined): string | null {
+  const ip = header("cf-connecting-ip") || header("x-forwarded-for")?.split(",")[0];
+  return ip?.trim().toLowerCase() || null;
+}
+
+function ipv4ToInt(ip: string): number | null {
+  const parts = ip.split(".");
+  if (parts.length !== 4) return null;
+  let value = 0;
+  for (const part of parts) {
+    if (!/^\d{1,3}$/.test(part) || Number(part) > 255) return null;
+    value = value * 256 + Number(part);
+  }
+  return value;
+}
+
+/**
+ * Normalizes an allowlist entry: a single IPv4/IPv6 address or an IPv4 CIDR range.
+ * Returns null if the entry is not valid.
+ */
+export function normalizeIpRange(range: string): string | null {
+  const value = range.trim().toLowerCase();
+  const [address, prefix, ...rest] = value.split("/");
+  if (rest.length > 0) return null;
+
+  if (ipv4ToInt(address) !== null) {
+    if (prefix === undefined) return address;
+    if (!/^\d{1,2}$/.test(prefix) || Number(prefix) > 32) return null;
+    return `${address}/${Number(prefix)}`;
+  }
+
+  // IPv6 addresses are matched exactly
+  if (prefix === undefined && address.includes(":") && /^[0-9a-f:.]+$/.test(address)) {
+    return address;
+  }
+  return null;
+}
+
+export function ipMatchesRange(ip: string, range: string): boolean {
+  const [address, prefix] = range.split("/");
+  if (prefix === undefined) return ip === address;
+
+  const ipValue = ipv4ToInt(ip);
+  const rangeValue = ipv4ToInt(address);
+  if (ipValue === null || rangeValue === null) return false;
+
+  const hostBits = 32 - Number(prefix);
+  // Divide instead of shifting so /0 and addresses above 2^31 stay unsigned
+  return Math.floor(ipValue / 2 ** hostBits) === Math.floor(rangeValue / 2 ** hostBits);
+}
+
+export async function isIpAllowlisted(db: Database, ip: string): Promise<boolean> {
+  const entries = await db.select({ ipRange: ipAllowlist.ipRange }).from(ipAllowlist);
+  return entries.some((entry) => ipMatchesRange(ip, entry.ipRange));
+}
+
+/**
+ * Records (or bumps) the block entry for a client that exceeded a limit.
+ */
+export async function recordRateLimitBlock(
+  db: Database,
+  block: {
+    bucket: string;
+    clientKey: string;
+    ipAddress: string | null;
+    userId: string | null;
+    userAgent: string | null;
+    blockedUntil: Date;
+  }
+): Promise<void> {
+  const now = new Date();
+  await db
+    .insert(rateLimitBlocks)
+    .values({
+      id: crypto.randomUUID(),
+      ...block,
+      blockedCount: 1,
+      firstBlockedAt: now,
+      lastBlockedAt: now,
+    })
+    .onConflictDoUpdate({
+      target: [rateLimitBlocks.bucket, rateLimitBlocks.clientKey],
+      set: {
+        ipAddress: block.ipAddress,
+        userAgent: block.userAgent,
+        blockedCount: sql`${rateLimitBlocks.blockedCount} + 1`,
+        lastBlockedAt: now,
+        blockedUntil: block.blockedUntil,
+      },
+    });
+}
@@ -0,0 +1,387 @@
+import { damageReports, locations } from "../db/schema";
+import { and, asc, eq, gt, gte, inArray, isNotNull, isNull, lte, or, type SQL } from "drizzle-orm";
+import type { Database } from "../db";
+
+// GeoJSON positions are [lng, lat]
+type Ring = number[][];
+
+export type BoundaryGeometry =
+  | { type: "Polygon"; coordinates: Ring[] }
+  | { type: "MultiPolygon"; coordinates: Ring[][] };
+
+export interface BoundingBox {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+// Location levels that carry boundary polygons and are assigned to reports, outermost
+// first. Cities sit beside the province > district > DS division > GN division chain.
+export const BOUNDARY_LEVELS = ["province", "district", "city", "ds_division", "gn_division"] as const;
+export type BoundaryLevel = (typeof BOUNDARY_LEVELS)[number];
+
+export interface ReportRegionIds {
+  provinceId: string | null;
+  districtId: string | null;
+  cityId: string | null;
+  dsDivisionId: string | null;
+  gnDivisionId: string | null;
+}
+
+export const EMPTY_REGION: ReportRegionIds = {
+  provinceId: null,
+  districtId: null,
+  cityId: null,
+  dsDivisionId: null,
+  gnDivisionId: null,
+};
+
+export interface ContainingLocation {
+  id: string;
+  parentId: string | null;
+  level: BoundaryLevel;
+  nameEn: string;
+  nameSi: string | null;
+  nameTa: string | null;
+}
+
+interface RegionBoundary extends ContainingLocation {
+  geometry: BoundaryGeometry;
+  bbox: BoundingBox;
+}
+
+// Reports region-matched per backfill page; each page loads the boundaries around it once
+const BACKFILL_PAGE_SIZE = 100;
+
+function polygonsOf(geometry: BoundaryGeometry): Ring[][] {
+  return geometry.type === "Polygon" ? [geometry.coordinates] : geometry.coordinates;
+}
+
+// Ray casting: count edge crossings of a ray running east from the point
+function pointInRing(lat: number, lng: number, ring: Ring): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [lngI, latI] = ring[i];
+    const [lngJ, latJ] = ring[j];
+    if (latI > lat !== latJ > lat && lng < ((lngJ - lngI) * (lat - latI)) / (latJ - latI) + lngI) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+/**
+ * True if the point falls inside the polygon (outer ring, outside every hole).
+ */
+export function pointInBoundary(lat: number, lng: number, geometry: BoundaryGeometry): boolean {
+  return polygonsOf(geometry).some(
+    ([outer, ...holes]) =>
+      outer !== undefined && pointInRing(lat, lng, outer) && !holes.some((hole) => pointInRing(lat, lng, hole))
+  );
+}
+
+export function getBoundaryBbox(geometry: BoundaryGeometry): BoundingBox {
+  const bbox = { minLat: Infinity, minLng: Infinity, maxLat: -Infinity, maxLng: -Infinity };
+  for (const polygon of polygonsOf(geometry)) {
+    for (const [lng, lat] of polygon[0] || []) {
+      bbox.minLat = Math.min(bbox.minLat, lat);
+      bbox.minLng = Math.min(bbox.minLng, lng);
+      bbox.maxLat = Math.max(bbox.maxLat, lat);
+      bbox.maxLng = Math.max(bbox.maxLng, lng);
+    }
+  }
+  return bbox;
+}
+
+/**
+ * Parses a locations.boundaryGeojson value, accepting a bare geometry or a Feature.
+ * Returns null for anything that is not a Polygon or MultiPolygon.
+ */
+export function parseBoundary(value: string | null): BoundaryGeometry | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value) as { type?: string; geometry?: unknown };
+    const geometry = (parsed.type === "Feature" ? parsed.geometry : parsed) as BoundaryGeometry | null;
+    if (geometry && (geometry.type === "Polygon" || geometry.type === "MultiPolygon")) {
+      return geometry;
+    }
+  } catch {
+    // Ignore malformed boundaries
+  }
+  return null;
+}
+
+/**
+ * Loads the boundaries of the given levels, optionally only those whose bounding
+ * box overlaps an area (a single point is an area with equal min and max).
+ */
+async function loadRegionBoundaries(
+  db: Database,
+  levels: readonly BoundaryLevel[],
+  area?: BoundingBox
+): Promise<RegionBoundary[]> {
+  const rows = await db
+    .select({
+      id: locations.id,
+      parentId: locations.parentId,
+      level: locations.level,
+      nameEn: locations.nameEn,
+      nameSi: locations.nameSi,
+      nameTa: locations.nameTa,
+      boundaryGeojson: locations.boundaryGeojson,
+    })
+    .from(locations)
+    .where(
+      and(
+        inArray(locations.level, [...levels]),
+        eq(locations.isActive, true),
+        isNotNull(locations.boundaryGeojson),
+        area ? lte(locations.bboxMinLat, area.maxLat) : undefined,
+        area ? gte(locations.bboxMaxLat, area.minLat) : undefined,
+        area ? lte(locations.bboxMinLng, area.maxLng) : undefined,
+        area ? gte(locations.bboxMaxLng, area.minLng) : undefined
+      )
+    );
+
+  const boundaries: RegionBoundary[] = [];
+  for (const { boundaryGeojson, ...row } of rows) {
+    const geometry = parseBoundary(boundaryGeojson);
+    if (geometry) {
+      boundaries.push({ ...row, level: row.level as BoundaryLevel, geometry, bbox: getBoundaryBbox(geometry) });
+    }
+  }
+  return boundaries;
+}
+
+function pointArea(lat: number, lng: number): BoundingBox {
+  return { minLat: lat, minLng: lng, maxLat: lat, maxLng: lng };
+}
+
+function matchBoundaries(
+  boundaries: RegionBoundary[],
+  lat: number,
+  lng: number
+): Partial<Record<BoundaryLevel, RegionBoundary>> {
+  const matched: Partial<Record<BoundaryLevel, RegionBoundary>> = {};
+  for (const boundary of boundaries) {
+    const { bbox } = boundary;
+    if (lat < bbox.minLat || lat > bbox.maxLat || lng < bbox.minLng || lng > bbox.maxLng) continue;
+    if (!matched[boundary.level] && pointInBoundary(lat, lng, boundary.geometry)) {
+      matched[boundary.level] = boundary;
+    }
+  }
+  return matched;
+}
+
+function matchRegion(boundaries: RegionBoundary[], lat: number, lng: number): ReportRegionIds {
+  const matched = matchBoundaries(boundaries, lat, lng);
+
+  // Polygons along coasts and borders don't always nest exactly; fall back to the parent chain
+  const parentOf = (id: string | null) => boundaries.find((boundary) => boundary.id === id)?.parentId || null;
+  const gnDivisionId = matched.gn_division?.id || null;
+  const dsDivisionId = matched.ds_division?.id || matched.gn_division?.parentId || null;
+  const districtId = matched.district?.id || parentOf(dsDivisionId) || matched.city?.parentId || null;
+  const provinceId = matched.province?.id || parentOf(districtId) || null;
+
+  return { provinceId, districtId, cityId: matched.city?.id || null, dsDivisionId, gnDivisionId };
+}
+
+/**
+ * Finds the province, district, city, DS division and GN division whose boundary
+ * polygons contain a point. Levels without a loaded boundary come back null.
+ */
+export async function assignReportRegion(db: Database, lat: number, lng: number): Promise<ReportRegionIds> {
+  const boundaries = await loadRegionBoundaries(db, BOUNDARY_LEVELS, pointArea(lat, lng));
+  return matchRegion(boundaries, lat, lng);
+}
+
+/**
+ * Finds the location at each boundary level (province down to GN division) whose
+ * polygon contains a point.
+ */
+export async function findContainingLocations(
+  db: Database,
+  lat: number,
+  lng: number
+): Promise<Partial<Record<BoundaryLevel, ContainingLocation>>> {
+  const boundaries = await loadRegionBoundaries(db, BOUNDARY_LEVELS, pointArea(lat, lng));
+  const matched = matchBoundaries(boundaries, lat, lng);
+
+  const result: Partial<Record<BoundaryLevel, ContainingLocation>> = {};
+  for (const level of BOUNDARY_LEVELS) {
+    const boundary = matched[level];
+    if (boundary) {
+      result[level] = {
+        id: boundary.id,
+        parentId: boundary.parentId,
+        level,
+        nameEn: boundary.nameEn,
+        nameSi: boundary.nameSi,
+        nameTa: boundary.nameTa,
+      };
+    }
+  }
+  return result;
+}
+
+// Last report of a backfill page, in (latitude, id) order
+interface ReportCursor {
+  latitude: number;
+  id: string;
+}
+
+function afterReport(cursor: ReportCursor): SQL | undefined {
+  return or(
+    gt(damageReports.latitude, cursor.latitude),
+    and(eq(damageReports.latitude, cursor.latitude), gt(damageReports.id, cursor.id))
+  );
+}
+
+/**
+ * Assigns regions to reports that are missing any of them, e.g. reports submitted
+ * before the boundaries were imported. Works through the reports in pages ordered by
+ * latitude, so each page loads only the boundaries around its band of the island once
+ * and matches its points in memory. Returns how many were updated.
+ */
+export async function backfillReportRegions(db: Database): Promise<{ checked: number; updated: number }> {
+  const missingRegion = or(
+    isNull(damageReports.provinceId),
+    isNull(damageReports.districtId),
+    isNull(damageReports.cityId),
+    isNull(damageReports.dsDivisionId),
+    isNull(damageReports.gnDivisionId)
+  );
+
+  let checked = 0;
+  let updated = 0;
+  let cursor: ReportCursor | null = null;
+
+  for (;;) {
+    const reports = await db
+      .select({
+        id: damageReports.id,
+        latitude: damageReports.latitude,
+        longitude: damageReports.longitude,
+        provinceId: damageReports.provinceId,
+        districtId: damageReports.districtId,
+        cityId: damageReports.cityId,
+        dsDivisionId: damageReports.dsDivisionId,
+        gnDivisionId: damageReports.gnDivisionId,
+      })
+      .from(damageReports)
+      .where(and(missingRegion, cursor ? afterReport(cursor) : undefined))
+      .orderBy(asc(damageReports.latitude), asc(damageReports.id))
+      .limit(BACKFILL_PAGE_SIZE);
+
+    if (reports.length === 0) break;
+    checked += reports.length;
+    const last: ReportCursor = reports[reports.length - 1];
+    cursor = { latitude: last.latitude, id: last.id };
+
+    const area = pointArea(reports[0].latitude, reports[0].longitude);
+    for (const { latitude, longitude } of reports) {
+      area.minLat = Math.min(area.minLat, latitude);
+      area.maxLat = Math.max(area.maxLat, latitude);
+      area.minLng = Math.min(area.minLng, longitude);
+      area.maxLng = Math.max(area.maxLng, longitude);
+    }
+    const boundaries = await loadRegionBoundaries(db, BOUNDARY_LEVELS, area);
+
+    const updates = [];
+    for (const { id, latitude, longitude, ...current } of reports) {
+      const region = matchRegion(boundaries, latitude, longitude);
+      const next: ReportRegionIds = {
+        provinceId: current.provinceId || region.provinceId,
+        districtId: current.districtId || region.districtId,
+        cityId: current.cityId || region.cityId,
+        dsDivisionId: current.dsDivisionId || region.dsDivisionId,
+        gnDivisionId: current.gnDivisionId || region.gnDivisionId,
+      };
+      if ((Object.keys(next) as (keyof ReportRegionIds)[]).every((key) => next[key] === current[key])) {
+        continue;
+      }
+
+      updates.push(db.update(damageReports).set(next).where(eq(damageReports.id, id)));
+    }
+
+    if (updates.length > 0) {
+      const [first, ...rest] = updates;
+      await db.batch([first, ...rest]);
+      updated += updates.length;
+    }
+
+    if (reports.length < BACKFILL_PAGE_SIZE) break;
+  }
+
+  return { checked, updated };
+}
+
+/**
+ * Fills a report's DS and GN division from the ones picked on the report form, for
+ * points no imported boundary covers. Ids that aren't divisions of the right level
+ * are ignored; a GN division also supplies its parent DS division.
+ */
+export async function withSubmittedDivisions(
+  db: Database,
+  region: ReportRegionIds,
+  submitted: { dsDivisionId?: string; gnDivisionId?: string }
+): Promise<ReportRegionIds> {
+  const ids = [submitted.dsDivisionId, submitted.gnDivisionId].filter((id): id is string => !!id);
+  if (ids.length === 0 || (region.dsDivisionId && region.gnDivisionId)) return region;
+
+  const rows = await db
+    .select({ id: locations.id, parentId: locations.parentId, level: locations.level })
+    .from(locations)
+    .where(inArray(locations.id, ids));
+  const gnDivision = rows.find((row) => row.id === submitted.gnDivisionId && row.level === "gn_division");
+  const dsDivision = rows.find((row) => row.id === submitted.dsDivisionId && row.level === "ds_division");
+
+  return {
+    ...region,
+    dsDivisionId: region.dsDivisionId || dsDivision?.id || gnDivision?.parentId || null,
+    gnDivisionId: region.gnDivisionId || gnDivision?.id || null,
+  };
+}
+
+export interface BoundaryImport {
+  id: string;
+  parentId: string | null;
+  level: BoundaryLevel;
+  nameEn: string;
+  nameSi?: string | null;
+  nameTa?: string | null;
+  geometry: BoundaryGeometry;
+}
+
+/**
+ * Upserts administrative boundaries into locations, storing each polygon with its
+ * bounding box and a box-centre centroid. Returns how many rows were written.
+ */
+export async function importBoundaries(db: Database, boundaries: BoundaryImport[]): Promise<number> {
+  for (const boundary of boundaries) {
+    const bbox = getBoundaryBbox(boundary.geometry);
+    const values = {
+      parentId: boundary.parentId,
+      level: boundary.level,
+      nameEn: boundary.nameEn,
+      nameSi: boundary.nameSi ?? null,
+      nameTa: boundary.nameTa ?? null,
+      boundaryGeojson: JSON.stringify(boundary.geometry),
+      centroidLat: (bbox.minLat + bbox.maxLat) / 2,
+      centroidLng: (bbox.minLng + bbox.maxLng) / 2,
+      bboxMinLat: bbox.minLat,
+      bboxMinLng: bbox.minLng,
+      bboxMaxLat: bbox.maxLat,
+      bboxMaxLng: bbox.maxLng,
+      isActive: true,
+    };
+
+    await db
+      .insert(locations)
+      .values({ id: boundary.id, ...values })
+      .onConflictDoUpdate({ target: locations.id, set: values });
+  }
+
+  return boundaries.length;
+}
@@ -0,0 +1,175 @@
+import { damageReports, locations } from "../db/schema";
+import { and, eq, sql, type SQL } from "drizzle-orm";
+import { alias, type SQLiteColumn } from "drizzle-orm/sqlite-core";
+import type { Database } from "../db";
+import type { AuthContext } from "../middleware/auth";
+import { recordAuditEntries } from "./audit";
+
+export interface ReportRegion {
+  provinceName: string | null;
+  districtName: string | null;
+}
+
+// Fields a report's province and district can be derived from
+export interface RegionSource {
+  provinceName?: string | null;
+  districtName?: string | null;
+  workflowData: string | null;
+}
+
+/**
+ * Normalizes a province or district so ids ("north-central"), keys ("north_central")
+ * and display names ("North Central Province") compare equal.
+ */
+export function normalizeRegionName(value: string | null | undefined): string {
+  return (value || "")
+    .trim()
+    .toLowerCase()
+    .replace(/\s+(province|district)$/, "")
+    .replace(/[\s_-]+/g, "-");
+}
+
+/**
+ * Resolves a report's province and district from the locations FK joins (assigned from the
+ * boundary polygons), falling back to the submitter's workflowData.province/district.
+ */
+export function getReportRegion(report: RegionSource): ReportRegion {
+  let provinceName = report.provinceName || null;
+  let districtName = report.districtName || null;
+
+  if ((!provinceName || !districtName) && report.workflowData) {
+    try {
+      const workflow = JSON.parse(report.workflowData) as { province?: string | null; district?: string | null };
+      provinceName = provinceName || workflow.province || null;
+      districtName = districtName || workflow.district || null;
+    } catch {
+      // Ignore malformed workflowData
+    }
+  }
+
+  return { provinceName, districtName };
+}
+
+/**
+ * SQL counterpart of getReportRegion + normalizeRegionName: a report's province or district
+ * from its joined location name, falling back to workflowData, normalized for comparison
+ * with normalizeRegionName() output.
+ */
+export function regionNameSql(joinedName: SQLiteColumn, level: "province" | "district"): SQL {
+  const workflowName = sql`CASE WHEN json_valid(${damageReports.workflowData}) THEN json_extract(${damageReports.workflowData}, ${`$.${level}`}) END`;
+  const name = sql`lower(trim(coalesce(${joinedName}, ${workflowName}, '')))`;
+  return sql`replace(replace(replace(${name}, ${` ${level}`}, ''), '_', '-'), ' ', '-')`;
+}
+
+/**
+ * True if the user is limited to a province or district. Super admins are never limited.
+ */
+export function hasRegionScope(auth: AuthContext): boolean {
+  return auth.role !== "super_admin" && Boolean(auth.provinceScope || auth.districtScope);
+}
+
+/**
+ * Checks a report's region against the user's province/district scope.
+ * Reports without a known region are out of scope for scoped users.
+ */
+export function isReportInScope(auth: AuthContext, region: ReportRegion): boolean {
+  if (!hasRegionScope(auth)) return true;
+
+  if (auth.provinceScope && normalizeRegionName(region.provinceName) !== normalizeRegionName(auth.provinceScope)) {
+    return false;
+  }
+  if (auth.districtScope && normalizeRegionName(region.districtName) !== normalizeRegionName(auth.districtScope)) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * SQL condition limiting a report query to the user's province/district scope, or
+ * undefined if they aren't limited. The query must join the province and district
+ * locations whose names are passed in.
+ */
+export function reportScopeCondition(
+  auth: AuthContext,
+  provinceName: SQLiteColumn,
+  districtName: SQLiteColumn
+): SQL | undefined {
+  if (!hasRegionScope(auth)) return undefined;
+  return and(
+    auth.provinceScope ? eq(regionNameSql(provinceName, "province"), normalizeRegionName(auth.provinceScope)) : undefined,
+    auth.districtScope ? eq(regionNameSql(districtName, "district"), normalizeRegionName(auth.districtScope)) : undefined
+  );
+}
+
+/**
+ * Records a denied attempt to access a report outside the user's scope.
+ * Logged against the user so it shows up in their audit timeline.
+ */
+export async function recordScopeDenial(
+  db: Database,
+  auth: AuthContext,
+  report: { id: string; reportNumber: string },
+  region: ReportRegion,
+  request: { method: string; path: string }
+): Promise<void> {
+  await recordAuditEntries(db, [
+    {
+      targetType: "user",
+      targetId: auth.userId,
+      fieldName: "scopeDenied",
+      oldValue: null,
+      newValue: report.reportNumber,
+      performedBy: auth.userId,
+      performerRole: auth.role,
+      metadata: {
+        action: "scope_denied",
+        reportId: report.id,
+        reportNumber: report.reportNumber,
+        method: request.method,
+        path: request.path,
+        provinceScope: auth.provinceScope || null,
+        districtScope: auth.districtScope || null,
+        reportProvince: region.provinceName,
+        reportDistrict: region.districtName,
+      },
+    },
+  ]);
+}
+
+/**
+ * Loads a report's region and checks it against the user's scope, auditing denials.
+ * Returns false only when the report exists and is out of scope; missing reports are
+ * left to the route's own 404 handling.
+ */
+export async function checkReportScope(
+  db: Database,
+  auth: AuthContext,
+  reportId: string,
+  request: { method: string; path: string }
+): Promise<boolean> {
+  if (!hasRegionScope(auth)) return true;
+
+  const provinceLocation = alias(locations, "province_location");
+  const districtLocation = alias(locations, "district_location");
+
+  const [report] = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      workflowData: damageReports.workflowData,
+      provinceName: provinceLocation.nameEn,
+      districtName: districtLocation.nameEn,
+    })
+    .from(damageReports)
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+    .where(eq(damageReports.id, reportId));
+
+  if (!report) return true;
+
+  const region = getReportRegion(report);
+  if (isReportInScope(auth, region)) return true;
+
+  await recordScopeDenial(db, auth, report, region, request);
+  return false;
+}
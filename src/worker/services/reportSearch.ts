@@ -0,0 +1,95 @@
+import { damageReports, locations, reportSearch } from "../db/schema";
+import { and, eq, sql } from "drizzle-orm";
+import { alias } from "drizzle-orm/sqlite-core";
+import type { Database } from "../db";
+import type { AuthContext } from "../middleware/auth";
+import { getReportRegion, reportScopeCondition } from "./reportScope";
+
+// Wraps matched terms in snippets; control characters can't appear in report text,
+// so the client can split on them without escaping HTML
+export const HIGHLIGHT_START = "\u0002";
+export const HIGHLIGHT_END = "\u0003";
+
+const MAX_TERMS = 8;
+
+// bm25 weight per report_search column (report_number, description, location_name,
+// landmark, road_number, comments): identifiers outrank free text
+const COLUMN_WEIGHTS = [10, 1, 3, 3, 5, 0.5];
+
+export interface ReportSearchResult {
+  id: string;
+  reportNumber: string;
+  status: string;
+  damageType: string;
+  severity: number;
+  locationName: string | null;
+  provinceName: string | null;
+  districtName: string | null;
+  createdAt: Date;
+  // Best-matching excerpt with matches between HIGHLIGHT_START and HIGHLIGHT_END
+  snippet: string;
+}
+
+/**
+ * Turns free text into an FTS5 query: every word must match, as a prefix.
+ * Words are quoted so FTS5 operators and punctuation (e.g. in report numbers) are literal.
+ */
+export function toFtsQuery(input: string): string | null {
+  const terms = input
+    .split(/\s+/)
+    .map((term) => term.replace(/"/g, ""))
+    .filter((term) => /[\p{L}\p{N}]/u.test(term))
+    .slice(0, MAX_TERMS);
+  if (terms.length === 0) return null;
+  return terms.map((term) => `"${term}"*`).join(" ");
+}
+
+/**
+ * Ranked full-text search over reports and their comments.
+ * Scoped users only get reports in their province/district.
+ */
+export async function searchReports(
+  db: Database,
+  auth: AuthContext,
+  input: string,
+  limit: number
+): Promise<ReportSearchResult[]> {
+  const match = toFtsQuery(input);
+  if (!match) return [];
+
+  const provinceLocation = alias(locations, "province_location");
+  const districtLocation = alias(locations, "district_location");
+  const rank = sql`bm25(report_search, ${sql.raw(COLUMN_WEIGHTS.join(", "))})`;
+
+  const rows = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      status: damageReports.status,
+      damageType: damageReports.damageType,
+      severity: damageReports.severity,
+      locationName: damageReports.locationName,
+      provinceName: provinceLocation.nameEn,
+      districtName: districtLocation.nameEn,
+      workflowData: damageReports.workflowData,
+      createdAt: damageReports.createdAt,
+      snippet: sql<string>`snippet(report_search, -1, ${HIGHLIGHT_START}, ${HIGHLIGHT_END}, '…', 12)`,
+    })
+    .from(reportSearch)
+    .innerJoin(damageReports, sql`${damageReports}.rowid = ${reportSearch.rowid}`)
+    .leftJoin(provinceLocation, eq(damageReports.provinceId, provinceLocation.id))
+    .leftJoin(districtLocation, eq(damageReports.districtId, districtLocation.id))
+    .where(
+      and(
+        sql`report_search MATCH ${match}`,
+        reportScopeCondition(auth, provinceLocation.nameEn, districtLocation.nameEn)
+      )
+    )
+    .orderBy(rank)
+    .limit(limit);
+
+  return rows.map(({ workflowData, ...row }) => ({
+    ...row,
+    ...getReportRegion({ ...row, workflowData }),
+  }));
+}
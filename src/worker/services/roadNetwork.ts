@@ -0,0 +1,283 @@
+import { roads } from "../db/schema";
+import { eq } from "drizzle-orm";
+import type { Database } from "../db";
+import { distanceToLineMeters, haversineMeters, parseRoadGeometry } from "./geocoder";
+
+export interface PathPoint {
+  lat: number;
+  lng: number;
+}
+
+interface Edge {
+  to: number;
+  meters: number;
+}
+
+// Furthest the start or end point can be from the road and still be snapped onto it
+const MAX_SNAP_DISTANCE_METERS = 200;
+// Way ends this close to another way are joined to it. Simplification drops the shared
+// vertex where a way meets the middle of another, so junctions rarely line up exactly.
+const JUNCTION_TOLERANCE_METERS = 25;
+
+/**
+ * Routable graph of one road's ways. Vertices shared between ways (same coordinate)
+ * are merged into one node.
+ */
+class RoadGraph {
+  nodes: PathPoint[] = [];
+  edges: Edge[][] = [];
+  // Node pairs of every segment, for projecting points onto the road
+  segments: [number, number][] = [];
+  private nodeIds = new Map<string, number>();
+
+  constructor(lines: number[][][]) {
+    for (const line of lines) {
+      for (let i = 1; i < line.length; i++) {
+        const from = this.nodeAt(line[i - 1][1], line[i - 1][0]);
+        const to = this.nodeAt(line[i][1], line[i][0]);
+        if (from !== to) {
+          this.connect(from, to);
+          this.segments.push([from, to]);
+        }
+      }
+    }
+    this.joinLooseEnds(lines);
+  }
+
+  private nodeAt(lat: number, lng: number): number {
+    const key = `${lat.toFixed(7)},${lng.toFixed(7)}`;
+    let id = this.nodeIds.get(key);
+    if (id === undefined) {
+      id = this.nodes.length;
+      this.nodes.push({ lat, lng });
+      this.edges.push([]);
+      this.nodeIds.set(key, id);
+    }
+    return id;
+  }
+
+  private connect(a: number, b: number) {
+    const meters = haversineMeters(this.nodes[a].lat, this.nodes[a].lng, this.nodes[b].lat, this.nodes[b].lng);
+    this.edges[a].push({ to: b, meters });
+    this.edges[b].push({ to: a, meters });
+  }
+
+  /**
+   * Adds a node where a point projects onto the road, splitting the nearest segment
+   * in two. Returns null if the road is further than maxMeters away.
+   */
+  attach(point: PathPoint, maxMeters: number, skipNode?: number): number | null {
+    let best: { index: number; segment: [number, number]; distance: number } | null = null;
+    for (const [index, segment] of this.segments.entries()) {
+      if (segment[0] === skipNode || segment[1] === skipNode) continue;
+      const [a, b] = segment.map((id) => this.nodes[id]);
+      const distance = distanceToLineMeters(point.lat, point.lng, [[a.lng, a.lat], [b.lng, b.lat]]);
+      if (distance <= maxMeters && (!best || distance < best.distance)) {
+        best = { index, segment, distance };
+      }
+    }
+    if (!best) return null;
+
+    const [a, b] = best.segment.map((id) => this.nodes[id]);
+    const projected = projectOntoSegment(point, a, b);
+    const node = this.nodeAt(projected.lat, projected.lng);
+    // Replace the segment with its two halves so later points project onto the right one
+    const halves = best.segment.filter((end) => end !== node).map((end): [number, number] => [node, end]);
+    this.segments.splice(best.index, 1, ...halves);
+    for (const [, end] of halves) this.connect(node, end);
+    return node;
+  }
+
+  private joinLooseEnds(lines: number[][][]) {
+    for (const line of lines) {
+      if (line.length < 2) continue;
+      for (const [lng, lat] of [line[0], line[line.length - 1]]) {
+        const end = this.nodeAt(lat, lng);
+        // Only dead ends need joining; shared vertices are already connected
+        if (this.edges[end].length !== 1) continue;
+        const junction = this.attach({ lat, lng }, JUNCTION_TOLERANCE_METERS, end);
+        if (junction !== null && junction !== end) this.connect(end, junction);
+      }
+    }
+  }
+
+  /**
+   * Dijkstra from a node: distance in meters to every node, and the previous node on
+   * each shortest path (-1 where unreachable or at the start).
+   */
+  search(start: number, end?: number): { distances: number[]; previous: number[] } {
+    const distances = new Array<number>(this.nodes.length).fill(Infinity);
+    const previous = new Array<number>(this.nodes.length).fill(-1);
+    const visited = new Array<boolean>(this.nodes.length).fill(false);
+    const queue = new MinHeap();
+    distances[start] = 0;
+    queue.push(start, 0);
+
+    while (queue.size > 0) {
+      const node = queue.pop()!;
+      if (visited[node]) continue;
+      visited[node] = true;
+      if (node === end) break;
+
+      for (const edge of this.edges[node]) {
+        const distance = distances[node] + edge.meters;
+        if (distance < distances[edge.to]) {
+          distances[edge.to] = distance;
+          previous[edge.to] = node;
+          queue.push(edge.to, distance);
+        }
+      }
+    }
+
+    return { distances, previous };
+  }
+
+  /**
+   * Shortest path between two nodes, or null if they aren't connected.
+   */
+  shortestPath(start: number, end: number): PathPoint[] | null {
+    const { distances, previous } = this.search(start, end);
+    if (distances[end] === Infinity) return null;
+    return this.tracePath(previous, end);
+  }
+
+  /**
+   * Longest of the shortest paths through the network, found by searching from any node
+   * to the furthest node and again from there. On a road this runs end to end along the
+   * main line, skipping spurs and link roads.
+   */
+  mainLine(): PathPoint[] | null {
+    if (this.nodes.length === 0) return null;
+    const first = furthestNode(this.search(0).distances);
+    const { distances, previous } = this.search(first);
+    return this.tracePath(previous, furthestNode(distances));
+  }
+
+  private tracePath(previous: number[], end: number): PathPoint[] {
+    const path: PathPoint[] = [];
+    for (let node = end; node !== -1; node = previous[node]) {
+      path.unshift(this.nodes[node]);
+    }
+    return path;
+  }
+}
+
+function furthestNode(distances: number[]): number {
+  let furthest = 0;
+  for (let node = 0; node < distances.length; node++) {
+    if (distances[node] !== Infinity && distances[node] > distances[furthest]) furthest = node;
+  }
+  return furthest;
+}
+
+// Binary min-heap of node ids keyed by distance
+class MinHeap {
+  private items: { node: number; key: number }[] = [];
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(node: number, key: number) {
+    const items = this.items;
+    items.push({ node, key });
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (items[parent].key <= items[i].key) break;
+      [items[parent], items[i]] = [items[i], items[parent]];
+      i = parent;
+    }
+  }
+
+  pop(): number | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let smallest = i;
+        if (left < items.length && items[left].key < items[smallest].key) smallest = left;
+        if (right < items.length && items[right].key < items[smallest].key) smallest = right;
+        if (smallest === i) break;
+        [items[smallest], items[i]] = [items[i], items[smallest]];
+        i = smallest;
+      }
+    }
+    return top?.node;
+  }
+}
+
+/**
+ * Closest point to `point` on the segment a-b, with its fraction t along the segment.
+ */
+export function projectOntoSegment(point: PathPoint, a: PathPoint, b: PathPoint): PathPoint & { t: number } {
+  // Flat projection scaled for longitude convergence, as in distanceToLineMeters
+  const lngScale = Math.cos((point.lat * Math.PI) / 180);
+  const dx = (b.lng - a.lng) * lngScale;
+  const dy = b.lat - a.lat;
+  const lengthSquared = dx * dx + dy * dy;
+  const t =
+    lengthSquared === 0
+      ? 0
+      : Math.max(0, Math.min(1, ((point.lng - a.lng) * lngScale * dx + (point.lat - a.lat) * dy) / lengthSquared));
+  return { lat: a.lat + t * (b.lat - a.lat), lng: a.lng + t * (b.lng - a.lng), t };
+}
+
+/**
+ * Routable graph of every way carrying a road number, or null if none have geometry.
+ */
+async function loadRoadGraph(db: Database, roadNumber: string): Promise<RoadGraph | null> {
+  const rows = await db
+    .select({ geometry: roads.geometry })
+    .from(roads)
+    .where(eq(roads.roadNumber, roadNumber.toUpperCase().trim()));
+
+  const lines = rows.flatMap((row) => parseRoadGeometry(row.geometry));
+  return lines.length > 0 ? new RoadGraph(lines) : null;
+}
+
+/**
+ * Shortest path between two points along the stored geometry of a numbered road.
+ * Returns null if the road has no geometry, either point is more than
+ * MAX_SNAP_DISTANCE_METERS from it, or the points lie on disconnected stretches.
+ */
+export async function findRoadPath(
+  db: Database,
+  roadNumber: string,
+  start: PathPoint,
+  end: PathPoint
+): Promise<PathPoint[] | null> {
+  const graph = await loadRoadGraph(db, roadNumber);
+  return graph ? shortestPathOnGraph(graph, start, end) : null;
+}
+
+/**
+ * Shortest path between two points along the given GeoJSON [lng, lat] lines, for callers
+ * that hold road geometry outside the database (e.g. scripts reading an OSM export).
+ * Null under the same conditions as findRoadPath.
+ */
+export function findPathOnLines(lines: number[][][], start: PathPoint, end: PathPoint): PathPoint[] | null {
+  return lines.length > 0 ? shortestPathOnGraph(new RoadGraph(lines), start, end) : null;
+}
+
+function shortestPathOnGraph(graph: RoadGraph, start: PathPoint, end: PathPoint): PathPoint[] | null {
+  const startNode = graph.attach(start, MAX_SNAP_DISTANCE_METERS);
+  const endNode = graph.attach(end, MAX_SNAP_DISTANCE_METERS);
+  if (startNode === null || endNode === null) return null;
+
+  return graph.shortestPath(startNode, endNode);
+}
+
+/**
+ * The end-to-end main line of a numbered road, as one ordered path, or null if the
+ * road has no geometry. Direction is arbitrary.
+ */
+export async function findRoadMainLine(db: Database, roadNumber: string): Promise<PathPoint[] | null> {
+  const graph = await loadRoadGraph(db, roadNumber);
+  return graph ? graph.mainLine() : null;
+}
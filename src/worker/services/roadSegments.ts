@@ -0,0 +1,62 @@
+import type { Database } from "../db";
+import { findChainage, locateChainage } from "./chainage";
+import { findNearestRoad } from "./geocoder";
+import type { PathPoint } from "./roadNetwork";
+
+export interface SegmentGeometryInput {
+  // Polyline drawn or adjusted on the map
+  path?: PathPoint[];
+  roadNumber?: string | null;
+  fromKm?: number | null;
+  toKm?: number | null;
+}
+
+export interface SegmentGeometry {
+  path: PathPoint[];
+  roadNumber: string | null;
+  fromKm: number | null;
+  toKm: number | null;
+}
+
+/**
+ * Resolves a blocked segment's path, road and km range from either a drawn polyline
+ * or a road number and km range.
+ *
+ * A drawn path is kept as-is; its road defaults to the one nearest its first point and
+ * its km range is read off the road geometry unless given (RDA closure lists take
+ * precedence over measured chainage). A km range is located on the road's stored
+ * geometry. Returns null if neither is given or the km range runs past the road's end.
+ */
+export async function resolveSegmentGeometry(
+  db: Database,
+  input: SegmentGeometryInput
+): Promise<SegmentGeometry | null> {
+  if (input.path && input.path.length >= 2) {
+    const start = input.path[0];
+    const end = input.path[input.path.length - 1];
+    const roadNumber =
+      input.roadNumber?.toUpperCase().trim() || (await findNearestRoad(db, start.lat, start.lng))?.roadNumber || null;
+
+    const [from, to] = roadNumber
+      ? await Promise.all([
+          input.fromKm == null ? findChainage(db, start.lat, start.lng, roadNumber) : null,
+          input.toKm == null ? findChainage(db, end.lat, end.lng, roadNumber) : null,
+        ])
+      : [null, null];
+
+    return {
+      path: input.path,
+      roadNumber,
+      fromKm: input.fromKm ?? from?.km ?? null,
+      toKm: input.toKm ?? to?.km ?? null,
+    };
+  }
+
+  if (input.roadNumber && input.fromKm != null && input.toKm != null) {
+    const range = await locateChainage(db, input.roadNumber, input.fromKm, input.toKm);
+    if (!range) return null;
+    return { path: range.path, roadNumber: range.roadNumber, fromKm: range.fromKm, toKm: range.toKm };
+  }
+
+  return null;
+}
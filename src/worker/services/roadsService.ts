@@ -1,3 +1,7 @@
+import type { Database } from "../db";
+import { findNearestRoad } from "./geocoder";
+import { findRoadPath } from "./roadNetwork";
+
 interface SnappedPoint {
   lat: number;
   lng: number;
@@ -13,37 +17,72 @@ interface DirectionsResponse {
   }>;
 }
 
+export type SnapSource = "local" | "google" | "straight_line";
+
+export interface SnappedRoadPath {
+  path: SnappedPoint[];
+  source: SnapSource;
+  // Road the path follows, when known
+  roadNumber: string | null;
+}
+
 /**
- * Snaps two GPS coordinates to the nearest road and returns
- * the road-following path between them using Google Directions API.
+ * Snaps two GPS coordinates to a road and returns the road-following path between them.
+ * Follows the stored geometry of the given road number (or the road nearest the start
+ * point) first, then Google Directions if an API key is configured, then a straight line.
  */
 export async function snapToRoads(
+  db: Database,
   startLat: number,
   startLng: number,
   endLat: number,
   endLng: number,
-  apiKey: string
-): Promise<SnappedPoint[]> {
-  const origin = `${startLat},${startLng}`;
-  const destination = `${endLat},${endLng}`;
-
-  const response = await fetch(
-    `https://maps.googleapis.com/maps/api/directions/json?origin=${origin}&destination=${destination}&mode=driving&key=${apiKey}`
-  );
-
-  const data = (await response.json()) as DirectionsResponse;
-
-  if (data.status !== "OK" || !data.routes[0]) {
-    // Fallback to straight line if no route found
-    return [
-      { lat: startLat, lng: startLng },
-      { lat: endLat, lng: endLng },
-    ];
+  { roadNumber, apiKey }: { roadNumber?: string; apiKey?: string } = {}
+): Promise<SnappedRoadPath> {
+  const start = { lat: startLat, lng: startLng };
+  const end = { lat: endLat, lng: endLng };
+
+  const roadNo =
+    roadNumber?.toUpperCase().trim() || (await findNearestRoad(db, startLat, startLng))?.roadNumber || null;
+
+  if (roadNo) {
+    const localPath = await findRoadPath(db, roadNo, start, end);
+    if (localPath) return { path: localPath, source: "local", roadNumber: roadNo };
   }
 
-  // Decode the polyline to get actual road coordinates
-  const encodedPath = data.routes[0].overview_polyline.points;
-  return decodePolyline(encodedPath);
+  if (apiKey) {
+    const googlePath = await fetchDirectionsPath(start, end, apiKey);
+    if (googlePath) return { path: googlePath, source: "google", roadNumber: roadNo };
+  }
+
+  return { path: [start, end], source: "straight_line", roadNumber: roadNo };
+}
+
+/**
+ * Driving path between two points from the Google Directions API, or null if no
+ * route was found or the request failed.
+ */
+async function fetchDirectionsPath(
+  start: SnappedPoint,
+  end: SnappedPoint,
+  apiKey: string
+): Promise<SnappedPoint[] | null> {
+  const origin = `${start.lat},${start.lng}`;
+  const destination = `${end.lat},${end.lng}`;
+
+  try {
+    const response = await fetch(
+      `https://maps.googleapis.com/maps/api/directions/json?origin=${origin}&destination=${destination}&mode=driving&key=${apiKey}`
+    );
+
+    const data = (await response.json()) as DirectionsResponse;
+    if (data.status !== "OK" || !data.routes[0]) return null;
+
+    // Decode the polyline to get actual road coordinates
+    return decodePolyline(data.routes[0].overview_polyline.points);
+  } catch {
+    return null;
+  }
 }
 
 /**
@@ -0,0 +1,182 @@
+import { damageReports, emailOptOuts, user } from "../db/schema";
+import { eq, inArray, or } from "drizzle-orm";
+import type { Database } from "../db";
+import {
+  sendEmail,
+  getStatusChangeEmail,
+  type EmailLanguage,
+  type NotifiedStatus,
+} from "./email";
+
+export const NOTIFIED_STATUSES: NotifiedStatus[] = ["verified", "rejected", "in_progress", "resolved"];
+
+export const EMAIL_LANGUAGES: EmailLanguage[] = ["en", "si", "ta"];
+
+export function isNotifiedStatus(status: string): status is NotifiedStatus {
+  return (NOTIFIED_STATUSES as string[]).includes(status);
+}
+
+export function toEmailLanguage(value: string | null | undefined): EmailLanguage {
+  return EMAIL_LANGUAGES.find((language) => language === value) || "en";
+}
+
+function normalizeEmail(email: string): string {
+  return email.trim().toLowerCase();
+}
+
+// ============ UNSUBSCRIBE TOKENS ============
+
+async function signEmail(secret: string, email: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`unsubscribe:${normalizeEmail(email)}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+// Unsubscribe links carry the address and an HMAC of it, so they work without signing in
+export async function createUnsubscribeToken(env: Env, email: string): Promise<string> {
+  return signEmail(env.BETTER_AUTH_SECRET, email);
+}
+
+export async function verifyUnsubscribeToken(env: Env, email: string, token: string): Promise<boolean> {
+  const expected = await signEmail(env.BETTER_AUTH_SECRET, email);
+  if (token.length !== expected.length) return false;
+  // Constant-time comparison
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ token.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+// ============ OPT-OUTS ============
+
+export async function isEmailOptedOut(db: Database, email: string): Promise<boolean> {
+  const [row] = await db
+    .select({ email: emailOptOuts.email })
+    .from(emailOptOuts)
+    .where(eq(emailOptOuts.email, normalizeEmail(email)));
+  return !!row;
+}
+
+export async function setEmailOptOut(db: Database, email: string, optedOut: boolean): Promise<void> {
+  const normalized = normalizeEmail(email);
+  if (optedOut) {
+    await db
+      .insert(emailOptOuts)
+      .values({ email: normalized, createdAt: new Date() })
+      .onConflictDoNothing();
+  } else {
+    await db.delete(emailOptOuts).where(eq(emailOptOuts.email, normalized));
+  }
+}
+
+// ============ STATUS EMAILS ============
+
+interface StatusRecipient {
+  email: string;
+  language: EmailLanguage;
+}
+
+/**
+ * Everyone to email about a report: the submitter of the report and of every report merged
+ * into it, whether signed in or anonymous with a verified address. Opted-out addresses and
+ * the person who made the change are left out.
+ */
+async function getStatusRecipients(db: Database, reportId: string, changedBy: string | null): Promise<StatusRecipient[]> {
+  const rows = await db
+    .select({
+      reportId: damageReports.id,
+      submitterId: damageReports.submitterId,
+      userEmail: user.email,
+      anonymousEmail: damageReports.anonymousEmail,
+      isVerifiedSubmitter: damageReports.isVerifiedSubmitter,
+      submitterLanguage: damageReports.submitterLanguage,
+    })
+    .from(damageReports)
+    .leftJoin(user, eq(damageReports.submitterId, user.id))
+    .where(or(eq(damageReports.id, reportId), eq(damageReports.mergedIntoId, reportId)));
+
+  // The report's own submitter first, so their language wins for a shared address
+  rows.sort((a, b) => Number(b.reportId === reportId) - Number(a.reportId === reportId));
+
+  const recipients = new Map<string, StatusRecipient>();
+  for (const row of rows) {
+    if (changedBy && row.submitterId === changedBy) continue;
+    const email = row.submitterId ? row.userEmail : row.isVerifiedSubmitter ? row.anonymousEmail : null;
+    if (!email) continue;
+    const normalized = normalizeEmail(email);
+    if (!recipients.has(normalized)) {
+      recipients.set(normalized, { email: normalized, language: toEmailLanguage(row.submitterLanguage) });
+    }
+  }
+  if (recipients.size === 0) return [];
+
+  const optedOut = await db
+    .select({ email: emailOptOuts.email })
+    .from(emailOptOuts)
+    .where(inArray(emailOptOuts.email, [...recipients.keys()]));
+  for (const row of optedOut) recipients.delete(row.email);
+
+  return [...recipients.values()];
+}
+
+/**
+ * Emails a report's submitters that its status changed. Failures are logged, not thrown,
+ * so an email problem never blocks a status change; the outbox retries failed sends.
+ * Returns the number of emails queued.
+ */
+export async function notifyStatusChange(
+  env: Env,
+  db: Database,
+  params: {
+    report: { id: string; reportNumber: string };
+    status: string;
+    reason?: string | null;
+    changedBy: string | null;
+    baseUrl: string;
+  }
+): Promise<number> {
+  const { status } = params;
+  if (!isNotifiedStatus(status)) return 0;
+
+  let sent = 0;
+  try {
+    const recipients = await getStatusRecipients(db, params.report.id, params.changedBy);
+    for (const recipient of recipients) {
+      const token = await createUnsubscribeToken(env, recipient.email);
+      const unsubscribeUrl = `${params.baseUrl}/api/v1/notifications/unsubscribe?${new URLSearchParams({
+        email: recipient.email,
+        token,
+        lang: recipient.language,
+      })}`;
+      const { subject, html } = getStatusChangeEmail({
+        language: recipient.language,
+        status,
+        reportNumber: params.report.reportNumber,
+        reason: status === "rejected" ? params.reason || null : null,
+        mapUrl: `${params.baseUrl}/`,
+        unsubscribeUrl,
+      });
+
+      try {
+        await sendEmail(env, recipient.email, subject, html, {
+          "List-Unsubscribe": `<${unsubscribeUrl}>`,
+          "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+        });
+        sent++;
+      } catch (error) {
+        console.error(`Failed to email status update for ${params.report.reportNumber}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error(`Failed to notify submitters of ${params.report.reportNumber}:`, error);
+  }
+  return sent;
+}
@@ -0,0 +1,300 @@
+import { damageReports, locations, roads, watchSubscriptions } from "../db/schema";
+import { and, eq, gte, inArray, isNotNull, lte, or } from "drizzle-orm";
+import type { Database } from "../db";
+import { SRI_LANKA_BOUNDS } from "../../shared/constants";
+import { sendEmail, getWatchAlertEmailHtml, getWatchConfirmationEmailHtml } from "./email";
+
+export type WatchKind = "road" | "district" | "area";
+
+// A confirmation link stays valid for a day, like the report verify link
+export const WATCH_CONFIRM_TTL_MS = 24 * 60 * 60 * 1000;
+
+// Subscriptions per email address, confirmed or not
+export const MAX_WATCHES_PER_EMAIL = 20;
+
+// Largest box that can be watched, in degrees (roughly 110km a side)
+export const MAX_WATCH_AREA_DEGREES = 1;
+
+// Changes listed in one alert email; the rest are summarized as a count
+const MAX_ALERT_ITEMS = 20;
+
+export interface WatchBounds {
+  minLat: number;
+  minLng: number;
+  maxLat: number;
+  maxLng: number;
+}
+
+export type WatchTarget =
+  | { kind: "road"; roadNumber: string }
+  | { kind: "district"; districtId: string }
+  | { kind: "area"; bounds: WatchBounds };
+
+export type WatchEventType = "verified" | "resolved" | "closure";
+
+// A change that subscribers watching its road, district or area are told about
+export interface WatchEvent {
+  type: WatchEventType;
+  reportNumber: string;
+  roadNumber: string | null;
+  districtId: string | null;
+  // Point reports have zero-size bounds
+  bounds: WatchBounds;
+  detail: string | null;
+}
+
+const EVENT_TITLES: Record<WatchEventType, (roadNumber: string | null) => string> = {
+  verified: (roadNumber) => (roadNumber ? `Road damage confirmed on ${roadNumber}` : "Road damage confirmed"),
+  resolved: (roadNumber) => (roadNumber ? `Road reopened on ${roadNumber}` : "Road damage repaired"),
+  closure: (roadNumber) => (roadNumber ? `Closure added on ${roadNumber}` : "Road closure added"),
+};
+
+// Road numbers are compared without spaces or hyphens ("A 1", "A-1" and "A1" match)
+export function normalizeRoadNumber(roadNumber: string): string {
+  return roadNumber.replace(/[\s-]/g, "").toUpperCase();
+}
+
+export function isWithinSriLanka(bounds: WatchBounds): boolean {
+  return (
+    bounds.minLat >= SRI_LANKA_BOUNDS.south &&
+    bounds.maxLat <= SRI_LANKA_BOUNDS.north &&
+    bounds.minLng >= SRI_LANKA_BOUNDS.west &&
+    bounds.maxLng <= SRI_LANKA_BOUNDS.east
+  );
+}
+
+function boundsIntersect(a: WatchBounds, b: WatchBounds): boolean {
+  return a.minLat <= b.maxLat && a.maxLat >= b.minLat && a.minLng <= b.maxLng && a.maxLng >= b.minLng;
+}
+
+export function pathBounds(path: { lat: number; lng: number }[]): WatchBounds {
+  return {
+    minLat: Math.min(...path.map((point) => point.lat)),
+    minLng: Math.min(...path.map((point) => point.lng)),
+    maxLat: Math.max(...path.map((point) => point.lat)),
+    maxLng: Math.max(...path.map((point) => point.lng)),
+  };
+}
+
+/**
+ * Resolves what a subscriber asked to watch into the stored fields and a readable label.
+ * Returns null when the road or district doesn't exist.
+ */
+export async function resolveWatchTarget(
+  db: Database,
+  target: WatchTarget
+): Promise<Pick<typeof watchSubscriptions.$inferInsert, "kind" | "label" | "roadNumber" | "districtId" | "minLat" | "minLng" | "maxLat" | "maxLng"> | null> {
+  if (target.kind === "road") {
+    const roadNumber = normalizeRoadNumber(target.roadNumber);
+    // A road is stored as several OSM ways with their own names, so only the number labels it
+    const [road] = await db
+      .select({ roadNumber: roads.roadNumber })
+      .from(roads)
+      .where(eq(roads.roadNumber, roadNumber))
+      .limit(1);
+    if (!road) return null;
+    return { kind: "road", label: road.roadNumber, roadNumber };
+  }
+
+  if (target.kind === "district") {
+    const [district] = await db
+      .select({ id: locations.id, nameEn: locations.nameEn })
+      .from(locations)
+      .where(and(eq(locations.id, target.districtId), eq(locations.level, "district")));
+    if (!district) return null;
+    return { kind: "district", label: `${district.nameEn} District`, districtId: district.id };
+  }
+
+  const { minLat, minLng, maxLat, maxLng } = target.bounds;
+  return {
+    kind: "area",
+    label: `Map area ${minLat.toFixed(3)}, ${minLng.toFixed(3)} to ${maxLat.toFixed(3)}, ${maxLng.toFixed(3)}`,
+    minLat,
+    minLng,
+    maxLat,
+    maxLng,
+  };
+}
+
+export async function sendWatchConfirmation(
+  env: Env,
+  subscription: { email: string; label: string; confirmToken: string },
+  baseUrl: string
+): Promise<void> {
+  await sendEmail(
+    env,
+    subscription.email,
+    `Confirm road alerts for ${subscription.label}`,
+    getWatchConfirmationEmailHtml({
+      label: subscription.label,
+      confirmUrl: `${baseUrl}/api/v1/watch/confirm?token=${subscription.confirmToken}`,
+    })
+  );
+}
+
+/**
+ * Watch event for a report that was just verified or resolved. The road comes from the
+ * matched road, falling back to the number the submitter typed.
+ */
+export async function getReportWatchEvent(
+  db: Database,
+  reportId: string,
+  type: "verified" | "resolved"
+): Promise<WatchEvent | null> {
+  const [report] = await db
+    .select({
+      reportNumber: damageReports.reportNumber,
+      latitude: damageReports.latitude,
+      longitude: damageReports.longitude,
+      districtId: damageReports.districtId,
+      damageType: damageReports.damageType,
+      locationName: damageReports.locationName,
+      roadNumber: roads.roadNumber,
+      roadNumberInput: damageReports.roadNumberInput,
+    })
+    .from(damageReports)
+    .leftJoin(roads, eq(damageReports.roadId, roads.id))
+    .where(eq(damageReports.id, reportId));
+  if (!report) return null;
+
+  return {
+    type,
+    reportNumber: report.reportNumber,
+    roadNumber: report.roadNumber || report.roadNumberInput || null,
+    districtId: report.districtId,
+    bounds: { minLat: report.latitude, minLng: report.longitude, maxLat: report.latitude, maxLng: report.longitude },
+    detail: [report.damageType.replace(/_/g, " "), report.locationName].filter(Boolean).join(", "),
+  };
+}
+
+// Watch event for a newly added closure segment on a report
+export function getClosureWatchEvent(
+  report: { reportNumber: string; districtId: string | null },
+  segment: {
+    roadNo: string | null;
+    fromKm: number | null;
+    toKm: number | null;
+    reason: string | null;
+    path: { lat: number; lng: number }[];
+  }
+): WatchEvent {
+  const kmRange = segment.fromKm != null && segment.toKm != null ? `km ${segment.fromKm}-${segment.toKm}` : null;
+  return {
+    type: "closure",
+    reportNumber: report.reportNumber,
+    roadNumber: segment.roadNo,
+    districtId: report.districtId,
+    bounds: pathBounds(segment.path),
+    detail: [kmRange, segment.reason].filter(Boolean).join(", ") || null,
+  };
+}
+
+/**
+ * Emails confirmed subscribers whose road, district or area covers any of the events,
+ * one email per subscription. Failures are logged, not thrown, so alerts never block
+ * the change that caused them. Returns the number of emails sent.
+ */
+export async function notifyWatchers(env: Env, db: Database, events: WatchEvent[], baseUrl: string): Promise<number> {
+  if (events.length === 0) return 0;
+
+  let sent = 0;
+  try {
+    const roadNumbers = [
+      ...new Set(events.flatMap((event) => (event.roadNumber ? [normalizeRoadNumber(event.roadNumber)] : []))),
+    ];
+    const districtIds = [...new Set(events.flatMap((event) => (event.districtId ? [event.districtId] : [])))];
+    const extent = {
+      minLat: Math.min(...events.map((event) => event.bounds.minLat)),
+      minLng: Math.min(...events.map((event) => event.bounds.minLng)),
+      maxLat: Math.max(...events.map((event) => event.bounds.maxLat)),
+      maxLng: Math.max(...events.map((event) => event.bounds.maxLng)),
+    };
+
+    const subscriptions = await db
+      .select()
+      .from(watchSubscriptions)
+      .where(
+        and(
+          isNotNull(watchSubscriptions.confirmedAt),
+          or(
+            roadNumbers.length > 0 ? inArray(watchSubscriptions.roadNumber, roadNumbers) : undefined,
+            districtIds.length > 0 ? inArray(watchSubscriptions.districtId, districtIds) : undefined,
+            and(
+              eq(watchSubscriptions.kind, "area"),
+              lte(watchSubscriptions.minLat, extent.maxLat),
+              gte(watchSubscriptions.maxLat, extent.minLat),
+              lte(watchSubscriptions.minLng, extent.maxLng),
+              gte(watchSubscriptions.maxLng, extent.minLng)
+            )
+          )
+        )
+      );
+
+    for (const subscription of subscriptions) {
+      const matches = events.filter((event) => {
+        if (subscription.kind === "road") {
+          return !!event.roadNumber && normalizeRoadNumber(event.roadNumber) === subscription.roadNumber;
+        }
+        if (subscription.kind === "district") {
+          return event.districtId === subscription.districtId;
+        }
+        return boundsIntersect(event.bounds, {
+          minLat: subscription.minLat!,
+          minLng: subscription.minLng!,
+          maxLat: subscription.maxLat!,
+          maxLng: subscription.maxLng!,
+        });
+      });
+      if (matches.length === 0) continue;
+
+      try {
+        const unsubscribeUrl = `${baseUrl}/api/v1/watch/unsubscribe?token=${subscription.unsubscribeToken}`;
+        await sendEmail(
+          env,
+          subscription.email,
+          matches.length === 1
+            ? `${EVENT_TITLES[matches[0].type](matches[0].roadNumber)} (${subscription.label})`
+            : `${matches.length} road updates for ${subscription.label}`,
+          getWatchAlertEmailHtml({
+            label: subscription.label,
+            items: matches.slice(0, MAX_ALERT_ITEMS).map((event) => ({
+              title: EVENT_TITLES[event.type](event.roadNumber),
+              reportNumber: event.reportNumber,
+              detail: event.detail,
+            })),
+            moreCount: Math.max(0, matches.length - MAX_ALERT_ITEMS),
+            mapUrl: `${baseUrl}/`,
+            unsubscribeUrl,
+          }),
+          {
+            "List-Unsubscribe": `<${unsubscribeUrl}>`,
+            "List-Unsubscribe-Post": "List-Unsubscribe=One-Click",
+          }
+        );
+        sent++;
+      } catch (error) {
+        console.error(`Failed to send watch alert for subscription ${subscription.id}:`, error);
+      }
+    }
+  } catch (error) {
+    console.error("Failed to notify watch subscribers:", error);
+  }
+  return sent;
+}
+
+// Alerts watchers of a report's road, district and location when it becomes verified or resolved
+export async function notifyReportWatchers(
+  env: Env,
+  db: Database,
+  params: { reportId: string; status: string; baseUrl: string }
+): Promise<number> {
+  if (params.status !== "verified" && params.status !== "resolved") return 0;
+
+  try {
+    const event = await getReportWatchEvent(db, params.reportId, params.status);
+    return event ? await notifyWatchers(env, db, [event], params.baseUrl) : 0;
+  } catch (error) {
+    console.error(`Failed to notify watchers of report ${params.reportId}:`, error);
+    return 0;
+  }
+}
@@ -0,0 +1,327 @@
+import { damageReports, roads, webhookDeliveries, webhooks } from "../db/schema";
+import { and, eq, inArray, isNotNull, lte } from "drizzle-orm";
+import type { Database } from "../db";
+import type { WebhookEventType } from "../../shared/constants";
+
+// Test pings from the admin page; not something webhooks subscribe to
+export type WebhookDeliveryEventType = WebhookEventType | "webhook.test";
+
+// Wait before each retry; a delivery fails for good once these run out (about 9 hours in all)
+const RETRY_DELAYS_MS = [60_000, 5 * 60_000, 30 * 60_000, 2 * 60 * 60_000, 6 * 60 * 60_000];
+export const MAX_DELIVERY_ATTEMPTS = RETRY_DELAYS_MS.length + 1;
+
+// Partners should answer quickly and process asynchronously
+const DELIVERY_TIMEOUT_MS = 10_000;
+
+// Stored from a failing endpoint's response body, for the delivery log
+const MAX_ERROR_LENGTH = 500;
+
+// Deliveries retried per cron run
+const DUE_BATCH_SIZE = 50;
+
+// A claimed delivery is left alone by other senders this long; well over DELIVERY_TIMEOUT_MS
+const DELIVERY_LEASE_MS = 2 * 60_000;
+
+export const SIGNATURE_HEADER = "X-Webhook-Signature";
+export const TIMESTAMP_HEADER = "X-Webhook-Timestamp";
+
+type Webhook = typeof webhooks.$inferSelect;
+type WebhookDelivery = typeof webhookDeliveries.$inferSelect;
+
+export function generateWebhookSecret(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(32));
+  return `whsec_${Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join("")}`;
+}
+
+export function parseEventTypes(value: string): WebhookEventType[] {
+  try {
+    return JSON.parse(value) as WebhookEventType[];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Hex HMAC-SHA256 of "<timestamp>.<body>". Partners recompute it with the shared secret
+ * and reject stale timestamps to stop replays.
+ */
+export async function signWebhookPayload(secret: string, timestamp: number, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign"]
+  );
+  const signature = await crypto.subtle.sign("HMAC", key, encoder.encode(`${timestamp}.${body}`));
+  return Array.from(new Uint8Array(signature), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Logs a pending delivery of the event for every active webhook subscribed to it, or only
+ * for `webhookId` when given. Returns the delivery ids.
+ */
+export async function queueWebhookEvent(
+  db: Database,
+  type: WebhookDeliveryEventType,
+  data: Record<string, unknown>,
+  webhookId?: string
+): Promise<string[]> {
+  const targets = await db
+    .select({ id: webhooks.id, eventTypes: webhooks.eventTypes })
+    .from(webhooks)
+    .where(webhookId ? eq(webhooks.id, webhookId) : eq(webhooks.isActive, true));
+
+  const subscribed = webhookId
+    ? targets
+    : targets.filter((webhook) => parseEventTypes(webhook.eventTypes).includes(type as WebhookEventType));
+  if (subscribed.length === 0) return [];
+
+  const now = new Date();
+  const eventId = crypto.randomUUID();
+  const payload = JSON.stringify({ id: eventId, type, createdAt: now.toISOString(), data });
+  const deliveries = subscribed.map((webhook) => ({
+    id: crypto.randomUUID(),
+    webhookId: webhook.id,
+    eventType: type,
+    payload,
+    status: "pending",
+    attempts: 0,
+    // Leased from the start so the cron trigger leaves it to the caller's immediate send
+    nextAttemptAt: new Date(now.getTime() + DELIVERY_LEASE_MS),
+    createdAt: now,
+  }));
+  await db.insert(webhookDeliveries).values(deliveries);
+
+  return deliveries.map((delivery) => delivery.id);
+}
+
+/**
+ * Claims a pending delivery for one attempt: counts the attempt and pushes its next attempt
+ * past the lease, unless someone else got there first. Cron runs can overlap with each other
+ * and with redeliveries, so only the sender whose update lands may send.
+ */
+async function claimDelivery(db: Database, delivery: WebhookDelivery): Promise<WebhookDelivery | null> {
+  const [claimed] = await db
+    .update(webhookDeliveries)
+    .set({ attempts: delivery.attempts + 1, nextAttemptAt: new Date(Date.now() + DELIVERY_LEASE_MS) })
+    .where(
+      and(
+        eq(webhookDeliveries.id, delivery.id),
+        eq(webhookDeliveries.status, "pending"),
+        eq(webhookDeliveries.attempts, delivery.attempts)
+      )
+    )
+    .returning();
+  return claimed || null;
+}
+
+/**
+ * Claims one delivery, sends it and records the outcome: 2xx succeeds, anything else is
+ * retried after the next backoff delay until the attempts run out.
+ */
+async function attemptDelivery(db: Database, pending: WebhookDelivery, webhook: Webhook): Promise<void> {
+  const delivery = await claimDelivery(db, pending);
+  if (!delivery) return;
+
+  const timestamp = Math.floor(Date.now() / 1000);
+  const attempts = delivery.attempts;
+  let responseStatus: number | null = null;
+  let error: string | null = null;
+
+  try {
+    const response = await fetch(webhook.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "OpenRebuildLK-Webhooks/1.0",
+        "X-Webhook-Id": delivery.id,
+        "X-Webhook-Event": delivery.eventType,
+        [TIMESTAMP_HEADER]: String(timestamp),
+        [SIGNATURE_HEADER]: `sha256=${await signWebhookPayload(webhook.secret, timestamp, delivery.payload)}`,
+      },
+      body: delivery.payload,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
+    });
+    responseStatus = response.status;
+    if (!response.ok) {
+      error = `HTTP ${response.status}: ${(await response.text()).slice(0, MAX_ERROR_LENGTH)}`;
+    }
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  const now = new Date();
+  const retryDelay = RETRY_DELAYS_MS[attempts - 1];
+  await db
+    .update(webhookDeliveries)
+    .set(
+      error === null
+        ? { status: "succeeded", responseStatus, lastError: null, nextAttemptAt: null, deliveredAt: now }
+        : {
+            status: retryDelay === undefined ? "failed" : "pending",
+            responseStatus,
+            lastError: error,
+            nextAttemptAt: retryDelay === undefined ? null : new Date(now.getTime() + retryDelay),
+          }
+    )
+    .where(eq(webhookDeliveries.id, delivery.id));
+}
+
+async function attemptDeliveries(db: Database, deliveries: WebhookDelivery[]): Promise<void> {
+  if (deliveries.length === 0) return;
+
+  const targets = await db
+    .select()
+    .from(webhooks)
+    .where(inArray(webhooks.id, [...new Set(deliveries.map((delivery) => delivery.webhookId))]));
+  const byId = new Map(targets.map((webhook) => [webhook.id, webhook]));
+
+  await Promise.all(
+    deliveries.map(async (delivery) => {
+      const webhook = byId.get(delivery.webhookId);
+      if (!webhook) return;
+      try {
+        await attemptDelivery(db, delivery, webhook);
+      } catch (error) {
+        console.error(`Failed to record webhook delivery ${delivery.id}:`, error);
+      }
+    })
+  );
+}
+
+// Attempts the given deliveries now, whatever their backoff
+export async function deliverWebhooks(db: Database, deliveryIds: string[]): Promise<void> {
+  if (deliveryIds.length === 0) return;
+
+  const deliveries = await db
+    .select()
+    .from(webhookDeliveries)
+    .where(and(inArray(webhookDeliveries.id, deliveryIds), eq(webhookDeliveries.status, "pending")));
+  await attemptDeliveries(db, deliveries);
+}
+
+/**
+ * Retries pending deliveries whose backoff has elapsed. Run from the cron trigger; deliveries
+ * to webhooks that were since deactivated are left pending until it is switched back on.
+ * Each delivery is claimed before it is sent, so runs that overlap never send one twice.
+ */
+export async function processDueWebhookDeliveries(db: Database): Promise<number> {
+  const due = await db
+    .select({ delivery: webhookDeliveries })
+    .from(webhookDeliveries)
+    .innerJoin(webhooks, eq(webhookDeliveries.webhookId, webhooks.id))
+    .where(
+      and(
+        eq(webhookDeliveries.status, "pending"),
+        isNotNull(webhookDeliveries.nextAttemptAt),
+        lte(webhookDeliveries.nextAttemptAt, new Date()),
+        eq(webhooks.isActive, true)
+      )
+    )
+    .orderBy(webhookDeliveries.nextAttemptAt)
+    .limit(DUE_BATCH_SIZE);
+
+  await attemptDeliveries(db, due.map((row) => row.delivery));
+  return due.length;
+}
+
+/**
+ * Queues an event for subscribed webhooks and sends it after the response, so a slow partner
+ * never holds up the change. Anything that fails is retried by the cron trigger. Errors are
+ * logged, not thrown.
+ */
+export async function dispatchWebhookEvent(
+  db: Database,
+  ctx: ExecutionContext,
+  type: WebhookEventType,
+  data: Record<string, unknown>
+): Promise<void> {
+  try {
+    const deliveryIds = await queueWebhookEvent(db, type, data);
+    if (deliveryIds.length > 0) {
+      ctx.waitUntil(deliverWebhooks(db, deliveryIds));
+    }
+  } catch (error) {
+    console.error(`Failed to queue ${type} webhooks:`, error);
+  }
+}
+
+// ============ PAYLOADS ============
+
+// Report fields sent with report.* events
+export async function getReportWebhookData(db: Database, reportId: string): Promise<Record<string, unknown> | null> {
+  const [report] = await db
+    .select({
+      id: damageReports.id,
+      reportNumber: damageReports.reportNumber,
+      status: damageReports.status,
+      damageType: damageReports.damageType,
+      severity: damageReports.severity,
+      passabilityLevel: damageReports.passabilityLevel,
+      latitude: damageReports.latitude,
+      longitude: damageReports.longitude,
+      locationName: damageReports.locationName,
+      roadNumber: roads.roadNumber,
+      roadNumberInput: damageReports.roadNumberInput,
+      provinceId: damageReports.provinceId,
+      districtId: damageReports.districtId,
+      updatedAt: damageReports.updatedAt,
+    })
+    .from(damageReports)
+    .leftJoin(roads, eq(damageReports.roadId, roads.id))
+    .where(eq(damageReports.id, reportId));
+  if (!report) return null;
+
+  const { roadNumberInput, ...fields } = report;
+  return { ...fields, roadNumber: report.roadNumber || roadNumberInput || null };
+}
+
+/**
+ * Sends report.verified or report.resolved when a report moves into either status.
+ * Other statuses are ignored.
+ */
+export async function dispatchReportStatusWebhook(
+  db: Database,
+  ctx: ExecutionContext,
+  params: { reportId: string; status: string; reason?: string | null }
+): Promise<void> {
+  if (params.status !== "verified" && params.status !== "resolved") return;
+
+  try {
+    const report = await getReportWebhookData(db, params.reportId);
+    if (!report) return;
+    await dispatchWebhookEvent(db, ctx, `report.${params.status}`, { report, reason: params.reason || null });
+  } catch (error) {
+    console.error(`Failed to dispatch webhooks for report ${params.reportId}:`, error);
+  }
+}
+
+// Segment fields sent with segment.* events
+export function toSegmentWebhookData(
+  report: { id: string; reportNumber: string },
+  segment: {
+    id: string;
+    roadNo: string | null;
+    roadName: string | null;
+    fromKm: number | null;
+    toKm: number | null;
+    reason: string | null;
+    path: { lat: number; lng: number }[];
+  }
+): Record<string, unknown> {
+  return {
+    segment: {
+      id: segment.id,
+      reportId: report.id,
+      reportNumber: report.reportNumber,
+      roadNumber: segment.roadNo,
+      roadName: segment.roadName,
+      fromKm: segment.fromKm,
+      toKm: segment.toKm,
+      reason: segment.reason,
+      path: segment.path,
+    },
+  };
+}
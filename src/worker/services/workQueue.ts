@@ -0,0 +1,160 @@
+import { damageReports, organizations, user, userOrganizations } from "../db/schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import type { Database } from "../db";
+import { OPEN_REPORT_STATUSES } from "./priority";
+import { sendEmail, getOrgAssignmentEmailHtml, escapeHtml } from "./email";
+
+// Organization roles that can see every member's workload and assign reports to others
+export const ORG_MANAGER_ROLES = ["manager", "admin"];
+
+export interface OrgMembership {
+  organizationId: string;
+  orgRole: string;
+  isPrimary: boolean;
+}
+
+export async function getUserMemberships(db: Database, userId: string): Promise<OrgMembership[]> {
+  return db
+    .select({
+      organizationId: userOrganizations.organizationId,
+      orgRole: userOrganizations.role,
+      isPrimary: userOrganizations.isPrimary,
+    })
+    .from(userOrganizations)
+    .where(eq(userOrganizations.userId, userId));
+}
+
+export interface MemberWorkload {
+  userId: string;
+  name: string;
+  email: string;
+  orgRole: string;
+  openCount: number;
+  inProgressCount: number;
+}
+
+export interface OrgWorkload {
+  organizationId: string;
+  code: string;
+  name: string;
+  openCount: number;
+  unassignedCount: number;
+  members: MemberWorkload[];
+}
+
+/**
+ * Open report counts per organization, split by member assignee.
+ * Reports assigned to someone who has since left the org count as unassigned.
+ */
+export async function getOrgWorkloads(db: Database, orgIds: string[]): Promise<OrgWorkload[]> {
+  if (orgIds.length === 0) return [];
+
+  const orgs = await db
+    .select({ id: organizations.id, code: organizations.code, name: organizations.name })
+    .from(organizations)
+    .where(inArray(organizations.id, orgIds))
+    .orderBy(organizations.code);
+
+  const members = await db
+    .select({
+      organizationId: userOrganizations.organizationId,
+      userId: user.id,
+      name: user.name,
+      email: user.email,
+      orgRole: userOrganizations.role,
+    })
+    .from(userOrganizations)
+    .innerJoin(user, eq(userOrganizations.userId, user.id))
+    .where(and(inArray(userOrganizations.organizationId, orgIds), eq(user.isActive, true)))
+    .orderBy(user.name);
+
+  const counts = await db
+    .select({
+      organizationId: damageReports.assignedOrgId,
+      assignedUserId: damageReports.assignedUserId,
+      openCount: sql<number>`count(*)`,
+      inProgressCount: sql<number>`sum(case when ${damageReports.status} = 'in_progress' then 1 else 0 end)`,
+    })
+    .from(damageReports)
+    .where(
+      and(
+        inArray(damageReports.assignedOrgId, orgIds),
+        inArray(damageReports.status, OPEN_REPORT_STATUSES)
+      )
+    )
+    .groupBy(damageReports.assignedOrgId, damageReports.assignedUserId);
+
+  return orgs.map((org) => {
+    const orgCounts = counts.filter((row) => row.organizationId === org.id);
+    const orgMembers = members
+      .filter((member) => member.organizationId === org.id)
+      .map((member) => {
+        const row = orgCounts.find((count) => count.assignedUserId === member.userId);
+        return {
+          userId: member.userId,
+          name: member.name,
+          email: member.email,
+          orgRole: member.orgRole,
+          openCount: row ? Number(row.openCount) : 0,
+          inProgressCount: row ? Number(row.inProgressCount) : 0,
+        };
+      });
+    const openCount = orgCounts.reduce((total, row) => total + Number(row.openCount), 0);
+    const assignedCount = orgMembers.reduce((total, member) => total + member.openCount, 0);
+
+    return {
+      organizationId: org.id,
+      code: org.code,
+      name: org.name,
+      openCount,
+      unassignedCount: openCount - assignedCount,
+      members: orgMembers,
+    };
+  });
+}
+
+/**
+ * Emails an organization's contact address when a report is reassigned to it.
+ * Failures are logged, not thrown, so the reassignment itself still succeeds.
+ */
+export async function notifyOrgReassignment(
+  env: Env,
+  db: Database,
+  params: {
+    report: { id: string; reportNumber: string; locationName: string | null };
+    toOrgId: string;
+    fromOrgId: string | null;
+    assignedByName: string;
+    baseUrl: string;
+  }
+): Promise<boolean> {
+  const orgIds = params.fromOrgId ? [params.toOrgId, params.fromOrgId] : [params.toOrgId];
+  const orgs = await db
+    .select({ id: organizations.id, name: organizations.name, contactEmail: organizations.contactEmail })
+    .from(organizations)
+    .where(inArray(organizations.id, orgIds));
+
+  const toOrg = orgs.find((org) => org.id === params.toOrgId);
+  if (!toOrg?.contactEmail) return false;
+  const fromOrg = orgs.find((org) => org.id === params.fromOrgId);
+
+  try {
+    await sendEmail(
+      env,
+      toOrg.contactEmail,
+      `Report ${params.report.reportNumber} assigned to ${toOrg.name}`,
+      getOrgAssignmentEmailHtml({
+        orgName: escapeHtml(toOrg.name),
+        reportNumber: params.report.reportNumber,
+        locationName: params.report.locationName ? escapeHtml(params.report.locationName) : null,
+        previousOrgName: fromOrg ? escapeHtml(fromOrg.name) : null,
+        assignedByName: escapeHtml(params.assignedByName),
+        reportUrl: `${params.baseUrl}/admin/reports?report=${params.report.id}`,
+      })
+    );
+    return true;
+  } catch (error) {
+    console.error(`Failed to notify ${toOrg.name} of report ${params.report.reportNumber}:`, error);
+    return false;
+  }
+}
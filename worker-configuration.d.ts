@@ -8,7 +8,13 @@ declare namespace Cloudflare {
 		PRODUCTION_URL: string;
 		ENVIRONMENT: string;
 		MAILGUN_API_KEY: string;
+		EMAIL_TRANSPORT: string;
+		SMTP_HOST: string;
+		SMTP_PORT: string;
+		SMTP_USER: string;
+		SMTP_PASSWORD: string;
 		GOOGLE_MAPS_API_KEY: string;
+		NOMINATIM_FALLBACK: string;
 		MEDIA_BUCKET: R2Bucket;
 		DB: D1Database;
 		ASSETS: Fetcher;
@@ -19,7 +25,7 @@ type StringifyValues<EnvType extends Record<string, unknown>> = {
 	[Binding in keyof EnvType]: EnvType[Binding] extends string ? EnvType[Binding] : string;
 };
 declare namespace NodeJS {
-	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BETTER_AUTH_SECRET" | "BETTER_AUTH_URL" | "PRODUCTION_URL" | "ENVIRONMENT" | "MAILGUN_API_KEY" | "GOOGLE_MAPS_API_KEY">> {}
+	interface ProcessEnv extends StringifyValues<Pick<Cloudflare.Env, "BETTER_AUTH_SECRET" | "BETTER_AUTH_URL" | "PRODUCTION_URL" | "ENVIRONMENT" | "MAILGUN_API_KEY" | "EMAIL_TRANSPORT" | "SMTP_HOST" | "SMTP_PORT" | "SMTP_USER" | "SMTP_PASSWORD" | "GOOGLE_MAPS_API_KEY" | "NOMINATIM_FALLBACK">> {}
 }
 
 // Begin runtime types